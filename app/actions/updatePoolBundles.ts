@@ -1,7 +1,7 @@
 'use server'
 
 import { ConfigOptions } from '@/types/workspace'
-import { getRegionCode } from '@/lib/utils'
+import { fetchAwsPricingData, buildPricingUrl } from '@/lib/pricing-client'
 
 // Function to extract bundle specs from description
 function extractBundleSpecs(description: string) {
@@ -20,22 +20,10 @@ function extractBundleSpecs(description: string) {
 
 export async function getPoolBundlesForRegion(region: string) {
   const formattedRegion = encodeURIComponent(region);
-  const apiUrl = new URL(`https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/${formattedRegion}/primary-selector-aggregations.json`);
+  const apiUrl = buildPricingUrl('workspaces', 'workspaces-core-calc', `${formattedRegion}/primary-selector-aggregations.json`);
 
   try {
-    const response = await fetch(apiUrl.toString(), {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-      next: { revalidate: 3600 }
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
+    const data = await fetchAwsPricingData(apiUrl, `Failed to fetch pool bundles for ${region}`);
     
     // Create sets to store unique values
     const uniqueBundles = new Map();
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getRegionLabel } from '@/lib/utils';
+import { findRegion, getRegionLocation } from '@/lib/regions';
+import { fetchAwsPricingData, buildPricingUrl } from '@/lib/pricing-client';
 
 // This function parses AWS pricing data to extract unique instance types with their specs
 function parseInstanceTypes(data: any, instanceFamily: string, instanceFunction: string) {
@@ -72,9 +73,9 @@ export async function GET(request: Request) {
       });
     }
     
-    // Convert region code to region name for AWS API
-    const regionName = getRegionLabel(region);
-    if (!regionName) {
+    // Only regions of the registry that offer AppStream can be priced
+    const regionInfo = findRegion(region);
+    if (!regionInfo || !regionInfo.services.includes('appstream')) {
       return NextResponse.json({
         error: "Invalid region code"
       }, {
@@ -84,23 +85,10 @@ export async function GET(request: Request) {
     
     // Fetch the instance data from AWS
     try {
-      const regionName = getRegionLabel(region);
-      const url = `https://calculator.aws/pricing/2.0/meteredUnitMaps/appstream/USD/current/appstream-instances-calc/${encodeURIComponent(regionName)}/primary-selector-aggregations.json`;
+      const regionName = getRegionLocation(region);
+      const url = buildPricingUrl('appstream', 'appstream-instances-calc', `${encodeURIComponent(regionName)}/primary-selector-aggregations.json`);
       
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'AWS-Calculator-Client',
-          'Accept': '*/*',
-          'Referer': 'https://calculator.aws/',
-          'Origin': 'https://calculator.aws'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch pricing data: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await fetchAwsPricingData(url, `Failed to fetch pricing data for ${regionName}`);
       const bundles = parseInstanceTypes(data, instanceFamily, instanceFunction);
       
       return NextResponse.json({ bundles });
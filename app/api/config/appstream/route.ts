@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getRegionLabel } from '@/lib/utils';
+import { getRegionName } from '@/lib/regions';
 
 export async function GET(request: Request) {
   try {
@@ -14,7 +14,7 @@ export async function GET(request: Request) {
       });
     }
     
-    const regionName = getRegionLabel(region);
+    const regionName = getRegionName(region);
     
     // AppStream instance families
     const instanceFamilies = [
@@ -1,29 +1,7 @@
 import { NextResponse } from "next/server"
 import { formatPriceForStorage, formatPriceForDisplay, formatHourlyPriceForDisplay } from "@/lib/price-formatter"
-import { getRegionLabel } from '@/lib/utils';
-
-// Define a helper function to fetch data from AWS public pricing API
-async function fetchAwsPricingData(url: string, errorMessage: string) {
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'AWS-Calculator-Client',
-        'Accept': '*/*',
-        'Referer': 'https://calculator.aws/',
-        'Origin': 'https://calculator.aws',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch from ${url}: ${response.statusText}`)
-    }
-
-    return await response.json()
-  } catch (error) {
-    console.error(errorMessage, error)
-    throw new Error(errorMessage)
-  }
-}
+import { getRegionLocation } from '@/lib/regions';
+import { fetchAwsPricingData, buildPricingUrl } from '@/lib/pricing-client';
 
 // Define a direct storage parsing function that we can use in multiple places
 function parseStorageSize(volumeString?: string): number {
@@ -101,43 +79,8 @@ export async function GET(request: Request) {
     let licenseOptions = [];
     
     try {
-      // First fetch metadata to get the original region name format
-      const metadataResponse = await fetchAwsPricingData(
-        'https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/metadata.json',
-        'Failed to fetch WorkSpaces Core metadata'
-      );
-      
-      // Find the original region name from the metadata or use the provided region as-is
-      let regionName = region;
-      if (metadataResponse && metadataResponse.valueAttributes && metadataResponse.valueAttributes.Location) {
-        // First try to find by exact match to our region codes
-        const foundRegion = metadataResponse.valueAttributes.Location.find(name => {
-          // Convert both to lowercase for case-insensitive comparison
-          return name.toLowerCase() === region.toLowerCase();
-        });
-        
-        if (foundRegion) {
-          regionName = foundRegion;
-        } else {
-          // If no exact match, try to match by parts of the region name
-          const possibleMatch = metadataResponse.valueAttributes.Location.find(name => {
-            // Create a simplified version of both strings for matching
-            const simplifiedName = name.toLowerCase().replace(/[^a-z0-9]+/g, '');
-            const simplifiedRegion = region.toLowerCase().replace(/[^a-z0-9]+/g, '');
-            
-            return simplifiedName.includes(simplifiedRegion) || simplifiedRegion.includes(simplifiedName);
-          });
-          
-          if (possibleMatch) {
-            regionName = possibleMatch;
-          }
-          
-          // If all else fails, map common region codes to full names using the centralized function
-          if (regionName === region) {
-            regionName = getRegionLabel(region);
-          }
-        }
-      }
+      // Region codes and the console names of regions are resolved to the pricing location
+      const regionName = getRegionLocation(region);
       
       // URL encode the region name for the API call
       const encodedRegion = encodeURIComponent(regionName);
@@ -147,7 +90,7 @@ export async function GET(request: Request) {
       console.log(`REGION UPDATE: Fetching bundles specifically for region: ${regionName}`);
       
       const bundlesResponse = await fetchAwsPricingData(
-        `https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/${encodedRegion}/primary-selector-aggregations.json`,
+        buildPricingUrl('workspaces', 'workspaces-core-calc', `${encodedRegion}/primary-selector-aggregations.json`),
         `Failed to fetch WorkSpaces bundles for region: ${regionName}`
       );
       
@@ -211,7 +154,7 @@ export async function GET(request: Request) {
               encodeURIComponent(config["Product Family"])
             ];
             
-            const pricingUrl = `https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/${urlParams.join('/')}/index.json`;
+            const pricingUrl = buildPricingUrl('workspaces', 'workspaces-core-calc', `${urlParams.join('/')}/index.json`);
             
             // Log the URL to help troubleshoot pricing issues
             console.log(`Fetching region-specific pricing from URL: ${pricingUrl}`);
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { getTableCurrencies } from "@/lib/currency"
+import { loadExchangeRates } from "@/lib/exchange-rates"
+
+// Currencies estimates can be shown in, with the exchange-rate table: /api/config/currencies
+export async function GET() {
+  try {
+    const exchangeRates = await loadExchangeRates()
+
+    return NextResponse.json({
+      currencies: getTableCurrencies(exchangeRates),
+      exchangeRates,
+    })
+  } catch (error) {
+    console.error("Error loading exchange rates:", error)
+    return NextResponse.json({ error: "Failed to load exchange rates" }, { status: 500 })
+  }
+}
@@ -1,28 +1,6 @@
 import { NextResponse } from "next/server"
-import { getRegionLabel } from '@/lib/utils';
-
-// Define a helper function to fetch data from AWS public pricing API
-async function fetchAwsPricingData(url: string, errorMessage: string) {
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'AWS-Calculator-Client',
-        'Accept': '*/*',
-        'Referer': 'https://calculator.aws/',
-        'Origin': 'https://calculator.aws',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch from ${url}: ${response.statusText}`)
-    }
-
-    return await response.json()
-  } catch (error) {
-    console.error(errorMessage, error)
-    throw new Error(errorMessage)
-  }
-}
+import { findRegion, getServiceRegions } from '@/lib/regions';
+import { fetchAwsPricingData, buildPricingUrl } from '@/lib/pricing-client';
 
 // Function to extract bundle specs from the bundle description
 function extractBundleSpecs(bundleDescription: string) {
@@ -60,46 +38,18 @@ export async function GET() {
     
     try {
       const metadataResponse = await fetchAwsPricingData(
-        'https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/metadata.json',
+        buildPricingUrl('workspaces', 'workspaces-core-calc', 'metadata.json'),
         'Failed to fetch WorkSpaces Core metadata'
       );
       
       // Extract region information from the metadata
       if (metadataResponse && metadataResponse.valueAttributes && metadataResponse.valueAttributes.Location) {
         regions = metadataResponse.valueAttributes.Location.map(regionName => {
-          // Create a mapping from AWS region name to region code
-          let value = "";
-          
-          if (regionName.includes("GovCloud")) {
-            value = regionName.includes("US-East") ? "us-gov-east-1" : "us-gov-west-1";
-          } else if (regionName.includes("US East")) {
-            value = "us-east-1";
-          } else if (regionName.includes("US West")) {
-            value = "us-west-2";
-          } else if (regionName.includes("EU (Ireland)")) {
-            value = "eu-west-1";
-          } else if (regionName.includes("EU (London)")) {
-            value = "eu-west-2";
-          } else if (regionName.includes("EU (Frankfurt)")) {
-            value = "eu-central-1";
-          } else if (regionName.includes("Asia Pacific (Tokyo)")) {
-            value = "ap-northeast-1";
-          } else if (regionName.includes("Asia Pacific (Seoul)")) {
-            value = "ap-northeast-2";
-          } else if (regionName.includes("Asia Pacific (Mumbai)")) {
-            value = "ap-south-1";
-          } else if (regionName.includes("Asia Pacific (Singapore)")) {
-            value = "ap-southeast-1";
-          } else if (regionName.includes("Asia Pacific (Sydney)")) {
-            value = "ap-southeast-2";
-          } else if (regionName.includes("Canada")) {
-            value = "ca-central-1";
-          } else if (regionName.includes("South America")) {
-            value = "sa-east-1";
-          } else if (regionName.includes("Israel")) {
-            value = "il-central-1";
-          } else {
+          // Map the AWS region name to its region code through the registry
+          let value = findRegion(regionName)?.code;
+          if (!value) {
             // For any unrecognized region, create a slug version of the name
+            console.warn(`Region ${regionName} is not in the region registry`);
             value = regionName
               .toLowerCase()
               .replace(/[^a-z0-9]+/g, '-')
@@ -120,14 +70,12 @@ export async function GET() {
       }
     } catch (error) {
       console.error("Error fetching regions from metadata:", error);
-      // Fall back to default regions with proper original names
-      regions = [
-        { value: "us-east-1", label: getRegionLabel("us-east-1"), originalName: getRegionLabel("us-east-1") },
-        { value: "us-west-2", label: getRegionLabel("us-west-2"), originalName: getRegionLabel("us-west-2") },
-        { value: "eu-west-1", label: getRegionLabel("eu-west-1"), originalName: getRegionLabel("eu-west-1") },
-        { value: "ap-northeast-1", label: getRegionLabel("ap-northeast-1"), originalName: getRegionLabel("ap-northeast-1") },
-        { value: "ap-southeast-2", label: getRegionLabel("ap-southeast-2"), originalName: getRegionLabel("ap-southeast-2") },
-      ];
+      // Fall back to the registry regions with their pricing location names
+      regions = getServiceRegions('core').map(region => ({
+        value: region.code,
+        label: region.location,
+        originalName: region.location
+      }));
     }
 
     // Fetch bundle information for the default region
@@ -143,7 +91,7 @@ export async function GET() {
       console.log(`Fetching bundles for region: ${defaultRegion}, encoded as: ${encodedRegion}`);
       
       const bundlesResponse = await fetchAwsPricingData(
-        `https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/${encodedRegion}/primary-selector-aggregations.json`,
+        buildPricingUrl('workspaces', 'workspaces-core-calc', `${encodedRegion}/primary-selector-aggregations.json`),
         'Failed to fetch WorkSpaces bundles'
       );
       
@@ -217,7 +165,7 @@ export async function GET() {
               encodeURIComponent(config["Product Family"])
             ];
             
-            const pricingUrl = `https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/${urlParams.join('/')}/index.json`;
+            const pricingUrl = buildPricingUrl('workspaces', 'workspaces-core-calc', `${urlParams.join('/')}/index.json`);
             
             // Log the full URL so we can verify it's correct
             console.log(`Fetching pricing from URL: ${pricingUrl}`);
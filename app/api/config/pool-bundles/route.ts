@@ -1,30 +1,7 @@
 import { NextResponse } from "next/server"
 import { formatPriceForStorage, formatPriceForDisplay, formatHourlyPriceForDisplay } from "@/lib/price-formatter"
-import { getRegionLabel } from '@/lib/utils';
-
-// Define a helper function to fetch data from AWS public pricing API
-async function fetchAwsPricingData(url: string, errorMessage: string) {
-  try {
-    console.log(`[Pool API] Fetching from: ${url}`);
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'AWS-Calculator-Client',
-        'Accept': '*/*',
-        'Referer': 'https://calculator.aws/',
-        'Origin': 'https://calculator.aws',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch from ${url}: ${response.statusText}`)
-    }
-
-    return await response.json()
-  } catch (error) {
-    console.error(errorMessage, error)
-    throw new Error(errorMessage)
-  }
-}
+import { getRegionLocation } from '@/lib/regions';
+import { fetchAwsPricingData, buildPricingUrl } from '@/lib/pricing-client';
 
 // Function to extract pool bundle specs from the selectors
 function extractPoolBundleSpecs(selectors: any) {
@@ -114,14 +91,14 @@ export async function GET(request: Request) {
     
     try {
       // Get the formatted region name
-      const regionName = getRegionLabel(region);
+      const regionName = getRegionLocation(region);
       
       // URL encode the region name for the API call
       const encodedRegion = encodeURIComponent(regionName);
       console.log(`[Pool API] Fetching pool bundles for region: ${regionName}, encoded as: ${encodedRegion}`);
       
       const bundlesResponse = await fetchAwsPricingData(
-        `https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-pools-calc/${encodedRegion}/primary-selector-aggregations.json`,
+        buildPricingUrl('workspaces', 'workspaces-pools-calc', `${encodedRegion}/primary-selector-aggregations.json`),
         `Failed to fetch WorkSpaces Pool bundles for region: ${regionName}`
       );
       
@@ -188,7 +165,7 @@ export async function GET(request: Request) {
                 encodeURIComponent(config["Product Family"])
               ];
               
-              const pricingUrl = `https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-pools-calc/${urlParams.join('/')}/index.json`;
+              const pricingUrl = buildPricingUrl('workspaces', 'workspaces-pools-calc', `${urlParams.join('/')}/index.json`);
               
               console.log(`[Pool API] Fetching pricing for ${licenseType} from URL: ${pricingUrl}`);
               
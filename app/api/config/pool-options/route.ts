@@ -1,27 +1,18 @@
 import { NextResponse } from 'next/server';
-import { getRegionLabel } from '@/lib/utils'; // Changed from getAWSRegionLabel to getRegionLabel
+import { getRegionName } from '@/lib/regions';
+import { fetchAwsPricingData, buildPricingUrl } from '@/lib/pricing-client';
 
 export async function GET(request: Request) {
   try {
-    const metadataUrl = 'https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-pools-calc/metadata.json';
+    const metadataUrl = buildPricingUrl('workspaces', 'workspaces-pools-calc', 'metadata.json');
     
     // Fetch the metadata from AWS
-    const response = await fetch(metadataUrl, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch WorkSpaces Pool metadata: ${response.status}`);
-    }
-
-    const metadataResponse = await response.json();
+    const metadataResponse = await fetchAwsPricingData(metadataUrl, 'Failed to fetch WorkSpaces Pool metadata');
     
     // Extract regions from metadata
     const regions = metadataResponse.regions.map((region: any) => ({
       value: region,
-      label: getRegionLabel(region), // Changed from getAWSRegionLabel to getRegionLabel
+      label: getRegionName(region),
     }));
 
     // Extract any other pool-specific options from the metadata
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { duplicateSavedEstimate } from "@/lib/estimate-store"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Copies a saved estimate, optionally under a given name
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { name } = await request.json().catch(() => ({}))
+
+    const copy = await duplicateSavedEstimate(id, typeof name === "string" && name.trim() ? name.trim() : undefined)
+    if (!copy) {
+      return NextResponse.json({ error: `Saved estimate ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json(copy, { status: 201 })
+  } catch (error) {
+    console.error("Error duplicating saved estimate:", error)
+    return NextResponse.json({ error: "Failed to duplicate saved estimate" }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { deleteSavedEstimate, getSavedEstimate, renameSavedEstimate } from "@/lib/estimate-store"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const saved = await getSavedEstimate(id)
+    if (!saved) {
+      return NextResponse.json({ error: `Saved estimate ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json(saved)
+  } catch (error) {
+    console.error("Error reading saved estimate:", error)
+    return NextResponse.json({ error: "Failed to read saved estimate" }, { status: 500 })
+  }
+}
+
+// Renames a saved estimate
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { name } = await request.json()
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "A name is required" }, { status: 400 })
+    }
+
+    const saved = await renameSavedEstimate(id, name.trim())
+    if (!saved) {
+      return NextResponse.json({ error: `Saved estimate ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json(saved)
+  } catch (error) {
+    console.error("Error renaming saved estimate:", error)
+    return NextResponse.json({ error: "Failed to rename saved estimate" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const deleted = await deleteSavedEstimate(id)
+    if (!deleted) {
+      return NextResponse.json({ error: `Saved estimate ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("Error deleting saved estimate:", error)
+    return NextResponse.json({ error: "Failed to delete saved estimate" }, { status: 500 })
+  }
+}
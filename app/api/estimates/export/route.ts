@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server"
+import { getDisplayCurrency } from "@/lib/currency"
+import { getSavedEstimate } from "@/lib/estimate-store"
+import { loadExchangeRates } from "@/lib/exchange-rates"
+import {
+  buildEstimateExportRows,
+  EXPORT_FORMATS,
+  getExportColumnWidths,
+  getExportFileName,
+  getSavedEstimateAssumptions,
+  toCsv
+} from "@/lib/estimate-export"
+import { createXlsxWorkbook, XLSX_CONTENT_TYPE } from "@/lib/xlsx"
+import type { EstimateExportFormat, EstimateExportRequest } from "@/types/estimates"
+
+function getFormat(request: Request): EstimateExportFormat | null {
+  const format = new URL(request.url).searchParams.get("format") || "csv"
+  return EXPORT_FORMATS.includes(format as EstimateExportFormat) ? format as EstimateExportFormat : null
+}
+
+function createExportResponse(exportRequest: EstimateExportRequest, format: EstimateExportFormat): Response {
+  const rows = buildEstimateExportRows(exportRequest)
+  const fileName = getExportFileName(exportRequest.name, format)
+  console.log(`Exporting estimate "${exportRequest.name || exportRequest.estimate.bundleName}" as ${format}`)
+
+  const body = format === "xlsx"
+    ? new Uint8Array(createXlsxWorkbook(rows, { sheetName: "Estimate", columnWidths: getExportColumnWidths(exportRequest.currency) }))
+    : toCsv(rows)
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": format === "xlsx" ? XLSX_CONTENT_TYPE : "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}"`
+    }
+  })
+}
+
+// Exports a saved estimate: /api/estimates/export?id={id}&format=csv|xlsx&currency={code}
+export async function GET(request: Request) {
+  try {
+    const format = getFormat(request)
+    if (!format) {
+      return NextResponse.json({ error: `Format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "The id of a saved estimate is required" }, { status: 400 })
+    }
+
+    // Saved estimates are in USD; a currency code adds the local currency amounts
+    const currencyCode = searchParams.get("currency")
+    const currency = currencyCode ? getDisplayCurrency(currencyCode, await loadExchangeRates()) : undefined
+    if (currency === null) {
+      return NextResponse.json({ error: `No exchange rate is configured for ${currencyCode}` }, { status: 400 })
+    }
+
+    const saved = await getSavedEstimate(id)
+    if (!saved) {
+      return NextResponse.json({ error: `Saved estimate ${id} not found` }, { status: 404 })
+    }
+
+    const assumptions = getSavedEstimateAssumptions(saved)
+    return createExportResponse({ name: saved.name, assumptions, estimate: saved.estimate, currency }, format)
+  } catch (error) {
+    console.error("Error exporting saved estimate:", error)
+    return NextResponse.json({ error: "Failed to export estimate" }, { status: 500 })
+  }
+}
+
+// Exports the estimate in the request body: /api/estimates/export?format=csv|xlsx
+export async function POST(request: Request) {
+  try {
+    const format = getFormat(request)
+    if (!format) {
+      return NextResponse.json({ error: `Format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 })
+    }
+
+    const exportRequest: EstimateExportRequest = await request.json()
+    if (!exportRequest.estimate) {
+      return NextResponse.json({ error: "An estimate is required" }, { status: 400 })
+    }
+
+    return createExportResponse({ ...exportRequest, assumptions: exportRequest.assumptions || [] }, format)
+  } catch (error) {
+    console.error("Error exporting estimate:", error)
+    return NextResponse.json({ error: "Failed to export estimate" }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { getDisplayCurrency } from "@/lib/currency"
+import { getSavedEstimate } from "@/lib/estimate-store"
+import { loadExchangeRates } from "@/lib/exchange-rates"
+import { getExportFileName, getSavedEstimateAssumptions } from "@/lib/estimate-export"
+import { createProposalPdf } from "@/lib/proposal"
+import type { EstimateExportRequest } from "@/types/estimates"
+
+function createProposalResponse(exportRequest: EstimateExportRequest): Response {
+  const fileName = getExportFileName(exportRequest.name, "pdf")
+  console.log(`Generating proposal for estimate "${exportRequest.name || exportRequest.estimate.bundleName}"`)
+
+  return new Response(new Uint8Array(createProposalPdf(exportRequest)), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${fileName}"`
+    }
+  })
+}
+
+// Proposal of a saved estimate: /api/estimates/proposal?id={id}&currency={code}
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "The id of a saved estimate is required" }, { status: 400 })
+    }
+
+    // Saved estimates are in USD; a currency code adds the local currency amounts
+    const currencyCode = searchParams.get("currency")
+    const currency = currencyCode ? getDisplayCurrency(currencyCode, await loadExchangeRates()) : undefined
+    if (currency === null) {
+      return NextResponse.json({ error: `No exchange rate is configured for ${currencyCode}` }, { status: 400 })
+    }
+
+    const saved = await getSavedEstimate(id)
+    if (!saved) {
+      return NextResponse.json({ error: `Saved estimate ${id} not found` }, { status: 404 })
+    }
+
+    const assumptions = getSavedEstimateAssumptions(saved)
+    return createProposalResponse({ name: saved.name, assumptions, estimate: saved.estimate, currency })
+  } catch (error) {
+    console.error("Error generating proposal for saved estimate:", error)
+    return NextResponse.json({ error: "Failed to generate proposal" }, { status: 500 })
+  }
+}
+
+// Proposal of the estimate in the request body: /api/estimates/proposal
+export async function POST(request: Request) {
+  try {
+    const exportRequest: EstimateExportRequest = await request.json()
+    if (!exportRequest.estimate) {
+      return NextResponse.json({ error: "An estimate is required" }, { status: 400 })
+    }
+
+    return createProposalResponse({ ...exportRequest, assumptions: exportRequest.assumptions || [] })
+  } catch (error) {
+    console.error("Error generating proposal:", error)
+    return NextResponse.json({ error: "Failed to generate proposal" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { createSavedEstimate, listSavedEstimates } from "@/lib/estimate-store"
+import type { SavedEstimateInput } from "@/types/estimates"
+
+export async function GET() {
+  try {
+    const estimates = await listSavedEstimates()
+    return NextResponse.json({ estimates })
+  } catch (error) {
+    console.error("Error listing saved estimates:", error)
+    return NextResponse.json({ error: "Failed to list saved estimates" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const input: SavedEstimateInput = await request.json()
+
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return NextResponse.json({ error: "A name is required" }, { status: 400 })
+    }
+    if (input.type !== "workspaces" && input.type !== "appstream") {
+      return NextResponse.json({ error: `Unknown estimate type: ${input.type}` }, { status: 400 })
+    }
+    if (!input[input.type] || !input.estimate) {
+      return NextResponse.json({ error: `A ${input.type} configuration and its estimate are required` }, { status: 400 })
+    }
+
+    const saved = await createSavedEstimate({ ...input, name: input.name.trim() })
+    console.log(`Saved estimate "${saved.name}" (${saved.id})`)
+
+    return NextResponse.json(saved, { status: 201 })
+  } catch (error) {
+    console.error("Error saving estimate:", error)
+    return NextResponse.json({ error: "Failed to save estimate" }, { status: 500 })
+  }
+}
@@ -0,0 +1,247 @@
+import { NextResponse } from "next/server"
+import type { AppStreamEstimateRequest } from "@/types/appstream"
+import type { Deployment, DeploymentEstimate, DeploymentGroup, DeploymentGroupEstimate } from "@/types/deployment"
+import type { WorkSpaceConfig } from "@/types/workspace"
+import { buildDeploymentGroupRequest, getDeploymentGroupUserCount } from "@/lib/deployments"
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import { CURRENT_PRICE_BOOK, PriceBookGapError, resolvePriceBook, type ResolvedPriceBook } from "@/lib/price-books"
+import { loadPriceOverrides } from "@/lib/price-overrides"
+import { buildAppStreamEstimateConfig, lookupAppStreamRates, validateAppStreamEstimateRequest } from "@/lib/appstream-pricing"
+import {
+  getPoolRateTable,
+  getPricedVolumes,
+  lookupWorkSpacesRates,
+  validateWorkSpacesEstimateConfig
+} from "@/lib/workspaces-pricing"
+import {
+  applyDiscounts,
+  calculateAppStreamEstimate,
+  calculateCoreEstimate,
+  calculatePoolEstimate,
+  type PriceOverride
+} from "@/lib/pricing-engine"
+
+// Costs of a priced group, or why it couldn't be priced
+type GroupPricing = Partial<Pick<DeploymentGroupEstimate,
+  "bundleName" | "monthlyCost" | "annualCost" | "costPerUser" | "pricingSource" | "lineItems" | "discount" | "error">>
+
+// Prices a Core or Pool group the way POST /api/pricing/estimate does
+async function priceWorkSpacesGroup(
+  config: WorkSpaceConfig,
+  priceBook: ResolvedPriceBook,
+  priceOverrides: PriceOverride[]
+): Promise<GroupPricing> {
+  const validationError = validateWorkSpacesEstimateConfig(config)
+  if (validationError) {
+    return { error: validationError }
+  }
+
+  const lookup = await lookupWorkSpacesRates(config, priceBook)
+
+  if (config.isPoolCalculation) {
+    const poolUserCount = config.numberOfWorkspaces || config.poolNumberOfUsers || 10
+    const poolEstimate = calculatePoolEstimate({
+      userCount: poolUserCount,
+      usagePattern: config.poolUsagePattern,
+      demandProfile: config.poolDemandProfile,
+      scalingPolicy: config.poolScalingPolicy,
+      licenseIncluded: lookup.apiLicense === "Included"
+    }, getPoolRateTable(config, lookup))
+    const discounted = applyDiscounts(poolEstimate.lineItems, poolEstimate.totalMonthlyCost, {
+      service: "pools",
+      bundles: [config.bundleId, lookup.bundleName],
+      region: config.region
+    }, config.discounts, priceOverrides)
+    const monthlyCost = discounted?.discount.netMonthlyCost ?? poolEstimate.totalMonthlyCost
+
+    return {
+      bundleName: lookup.bundleName,
+      monthlyCost,
+      annualCost: discounted ? formatPriceForStorage(monthlyCost * 12) : poolEstimate.annualEstimate,
+      costPerUser: discounted ? formatPriceForStorage(monthlyCost / poolUserCount) : poolEstimate.costPerWorkspace,
+      pricingSource: lookup.pricingSource,
+      lineItems: discounted?.lineItems ?? poolEstimate.lineItems,
+      discount: discounted?.discount
+    }
+  }
+
+  const { rootVolume, userVolume } = getPricedVolumes(config, lookup)
+  const coreEstimate = calculateCoreEstimate({
+    runningMode: config.runningMode,
+    billingOption: config.billingOption,
+    numberOfWorkspaces: config.numberOfWorkspaces,
+    rootVolumeGb: parseInt(rootVolume, 10),
+    userVolumeGb: parseInt(userVolume, 10),
+    autoStopHoursPerUser: config.autoStopHoursPerUser,
+    autoStopUsageDistribution: config.autoStopUsageDistribution
+  }, lookup.coreRates)
+  const discounted = applyDiscounts(coreEstimate.lineItems, coreEstimate.totalMonthlyCost, {
+    service: "core",
+    bundles: [config.bundleId, lookup.bundleName],
+    region: config.region,
+    runningMode: config.runningMode
+  }, config.discounts, priceOverrides)
+  const monthlyCost = discounted?.discount.netMonthlyCost ?? coreEstimate.totalMonthlyCost
+
+  return {
+    bundleName: lookup.bundleName,
+    monthlyCost,
+    annualCost: formatPriceForStorage(monthlyCost * 12),
+    costPerUser: discounted && config.numberOfWorkspaces > 0
+      ? formatPriceForStorage(monthlyCost / config.numberOfWorkspaces)
+      : coreEstimate.costPerWorkspace,
+    pricingSource: lookup.pricingSource,
+    lineItems: discounted?.lineItems ?? coreEstimate.lineItems,
+    discount: discounted?.discount
+  }
+}
+
+// Prices an AppStream group the way POST /api/pricing/appstream/estimate does
+async function priceAppStreamGroup(
+  request: AppStreamEstimateRequest,
+  priceBook: ResolvedPriceBook,
+  priceOverrides: PriceOverride[]
+): Promise<GroupPricing> {
+  const validationError = validateAppStreamEstimateRequest(request)
+  if (validationError) {
+    return { error: validationError }
+  }
+
+  const engineConfig = buildAppStreamEstimateConfig(request)
+  const { rates, instanceVCpu, instanceMemoryGib } = await lookupAppStreamRates(request, priceBook)
+  if (!rates) {
+    return { error: `No pricing available for ${request.instanceType}` }
+  }
+
+  const estimate = calculateAppStreamEstimate({ ...engineConfig, instanceVCpu, instanceMemoryGib }, rates)
+  const discounted = applyDiscounts(estimate.lineItems, estimate.totalMonthlyCost, {
+    service: "appstream",
+    bundles: [request.instanceType],
+    region: request.region
+  }, request.discounts, priceOverrides)
+  const monthlyCost = discounted?.discount.netMonthlyCost ?? estimate.totalMonthlyCost
+
+  return {
+    bundleName: request.instanceType,
+    monthlyCost,
+    annualCost: discounted ? monthlyCost * 12 : estimate.annualCost,
+    costPerUser: discounted ? monthlyCost / (engineConfig.userCount > 0 ? engineConfig.userCount : 1) : estimate.costPerUser,
+    pricingSource: rates.source,
+    lineItems: discounted?.lineItems ?? estimate.lineItems,
+    discount: discounted?.discount
+  }
+}
+
+// Prices one group with the pricing engine, from the deployment's price book
+async function estimateGroup(
+  group: DeploymentGroup,
+  request: WorkSpaceConfig | AppStreamEstimateRequest | null,
+  priceBook: ResolvedPriceBook,
+  priceOverrides: PriceOverride[]
+): Promise<DeploymentGroupEstimate> {
+  const userCount = getDeploymentGroupUserCount(group)
+  const emptyEstimate: DeploymentGroupEstimate = {
+    groupId: group.id,
+    name: group.name,
+    type: group.type,
+    userCount,
+    bundleName: "",
+    monthlyCost: 0,
+    annualCost: 0,
+    costPerUser: 0,
+    lineItems: []
+  }
+
+  if (!request) {
+    return { ...emptyEstimate, error: `Group "${group.name}" has no ${group.type} configuration` }
+  }
+
+  try {
+    const pricing = group.type === "appstream"
+      ? await priceAppStreamGroup(request as AppStreamEstimateRequest, priceBook, priceOverrides)
+      : await priceWorkSpacesGroup(request as WorkSpaceConfig, priceBook, priceOverrides)
+    return pricing.error
+      ? { ...emptyEstimate, error: pricing.error }
+      : { ...emptyEstimate, ...pricing, priceBook: priceBook.reference }
+  } catch (error) {
+    // A pinned price book that can't price the group is reported like any other group error
+    if (error instanceof PriceBookGapError) {
+      return { ...emptyEstimate, error: error.message }
+    }
+    console.error(`Error pricing group "${group.name}":`, error)
+    return { ...emptyEstimate, error: `Failed to price group "${group.name}"` }
+  }
+}
+
+// Prices every group of a mixed fleet and adds them up into one quote
+export async function POST(request: Request) {
+  try {
+    const deployment: Deployment = await request.json()
+
+    if (!Array.isArray(deployment.groups) || deployment.groups.length === 0) {
+      return NextResponse.json({ error: "A deployment needs at least one group" }, { status: 400 })
+    }
+
+    console.log(`Estimating deployment "${deployment.name}" with ${deployment.groups.length} groups`)
+
+    // One quote is priced from one price book, groups pinned to different books can't be added up
+    const requests = deployment.groups.map(group =>
+      buildDeploymentGroupRequest(group, deployment.priceBookVersion, deployment.discounts))
+    const versions = Array.from(new Set(requests
+      .filter(groupRequest => groupRequest !== null)
+      .map(groupRequest => groupRequest.priceBookVersion || CURRENT_PRICE_BOOK)))
+    if (versions.length > 1) {
+      return NextResponse.json({
+        error: `Deployment groups are priced from different price books (${versions.join(", ")}), set the deployment's priceBookVersion`
+      }, { status: 400 })
+    }
+
+    const priceBookVersion = versions[0] ?? deployment.priceBookVersion
+    const priceBook = await resolvePriceBook(priceBookVersion)
+    if (!priceBook) {
+      return NextResponse.json({ error: `Price book ${priceBookVersion} not found` }, { status: 404 })
+    }
+    console.log(`Using price book: ${priceBook.reference.version}`)
+
+    // Groups are priced one after another, they share the pricing client's cache
+    const priceOverrides = await loadPriceOverrides()
+    const groups: DeploymentGroupEstimate[] = []
+    for (const [index, group] of deployment.groups.entries()) {
+      const estimate = await estimateGroup(group, requests[index], priceBook, priceOverrides)
+      groups.push(estimate)
+
+      if (estimate.error) {
+        console.error(`Failed to price group "${group.name}": ${estimate.error}`)
+      }
+    }
+
+    // Groups that failed to price are reported but left out of the totals
+    const pricedGroups = groups.filter(group => !group.error)
+    const totalMonthlyCost = formatPriceForStorage(pricedGroups.reduce((sum, group) => sum + group.monthlyCost, 0))
+
+    // Undiscounted groups count at list price towards the list total
+    let discount: DeploymentEstimate["discount"]
+    if (pricedGroups.some(group => group.discount)) {
+      const listMonthlyCost = formatPriceForStorage(pricedGroups.reduce(
+        (sum, group) => sum + (group.discount?.listMonthlyCost ?? group.monthlyCost), 0))
+      discount = {
+        listMonthlyCost,
+        netMonthlyCost: totalMonthlyCost,
+        discountAmount: formatPriceForStorage(listMonthlyCost - totalMonthlyCost)
+      }
+    }
+
+    return NextResponse.json({
+      name: deployment.name,
+      groups,
+      totalUsers: pricedGroups.reduce((sum, group) => sum + group.userCount, 0),
+      totalMonthlyCost,
+      annualEstimate: formatPriceForStorage(totalMonthlyCost * 12),
+      discount,
+      priceBook: priceBook.reference
+    })
+  } catch (error) {
+    console.error("Error calculating deployment pricing:", error)
+    return NextResponse.json({ error: "Failed to calculate deployment pricing" }, { status: 500 })
+  }
+}
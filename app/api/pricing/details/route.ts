@@ -1,27 +1,5 @@
 import { NextResponse } from "next/server"
-
-// Define a helper function to fetch data from AWS public pricing API
-async function fetchAwsPricingData(url: string, errorMessage: string) {
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'AWS-Calculator-Client',
-        'Accept': '*/*',
-        'Referer': 'https://calculator.aws/',
-        'Origin': 'https://calculator.aws',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch from ${url}: ${response.statusText}`)
-    }
-
-    return await response.json()
-  } catch (error) {
-    console.error(errorMessage, error)
-    throw new Error(errorMessage)
-  }
-}
+import { fetchAwsPricingData, buildPricingUrl } from "@/lib/pricing-client"
 
 export async function GET(request: Request) {
   try {
@@ -88,7 +66,7 @@ export async function GET(request: Request) {
     try {
       // This API call helps us verify what bundle configurations are valid
       const aggregationData = await fetchAwsPricingData(
-        `https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/${encodedRegion}/primary-selector-aggregations.json`,
+        buildPricingUrl('workspaces', 'workspaces-core-calc', `${encodedRegion}/primary-selector-aggregations.json`),
         `Failed to fetch aggregation data for ${region}`
       )
       
@@ -143,7 +121,7 @@ export async function GET(request: Request) {
             encodeURIComponent(selectedConfig["Product Family"])
           ];
           
-          const pricingUrl = `https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/${urlParams.join('/')}/index.json`;
+          const pricingUrl = buildPricingUrl('workspaces', 'workspaces-core-calc', `${urlParams.join('/')}/index.json`);
           
           console.log(`Fetching pricing from URL: ${pricingUrl}`);
           
@@ -222,7 +200,7 @@ export async function GET(request: Request) {
       encodeURIComponent('WorkSpaces Core')
     ]
     
-    const pricingUrl = `https://calculator.aws/pricing/2.0/meteredUnitMaps/workspaces/USD/current/workspaces-core-calc/${encodedParams.join('/')}/index.json`
+    const pricingUrl = buildPricingUrl('workspaces', 'workspaces-core-calc', `${encodedParams.join('/')}/index.json`)
     
     console.log(`Fetching pricing from URL: ${pricingUrl}`)
     
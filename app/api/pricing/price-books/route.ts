@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { CURRENT_PRICE_BOOK, listPriceBooks } from "@/lib/price-books"
+
+export async function GET() {
+  try {
+    const priceBooks = await listPriceBooks()
+
+    return NextResponse.json({
+      current: CURRENT_PRICE_BOOK,
+      priceBooks,
+    })
+  } catch (error) {
+    console.error("Error listing price books:", error)
+    return NextResponse.json({ error: "Failed to list price books" }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server"
+import { fetchAwsPricingData, buildPricingUrl } from "@/lib/pricing-client"
+import { getRegionCode, getRegionLocation, getServiceRegions, type RegionService } from "@/lib/regions"
+import { buildRegionGroup, buildRegionMatrixRows } from "@/lib/region-matrix"
+import { POST as estimateDeployment } from "@/app/api/pricing/deployment/estimate/route"
+import type { DeploymentEstimate, DeploymentGroupType } from "@/types/deployment"
+import type { RegionMatrixRequest } from "@/types/region-matrix"
+
+// Calculator whose metadata lists the regions of each group type
+const MATRIX_CALCULATORS: Record<DeploymentGroupType, { service: string; calculator: string; regionService: RegionService }> = {
+  core: { service: "workspaces", calculator: "workspaces-core-calc", regionService: "core" },
+  pool: { service: "workspaces", calculator: "workspaces-pools-calc", regionService: "pools" },
+  appstream: { service: "appstream", calculator: "appstream-instances-calc", regionService: "appstream" }
+}
+
+// Regions listed by the calculator metadata, by region code
+async function getMatrixRegions(type: DeploymentGroupType): Promise<Map<string, string>> {
+  const { service, calculator, regionService } = MATRIX_CALCULATORS[type]
+  let locations: string[] = []
+  try {
+    const metadata = await fetchAwsPricingData(
+      buildPricingUrl(service, calculator, "metadata.json"),
+      `Failed to fetch ${calculator} metadata`
+    )
+    locations = metadata?.valueAttributes?.Location || []
+  } catch (error) {
+    console.error("Error fetching regions from metadata:", error)
+  }
+
+  if (locations.length === 0) {
+    console.log(`Using the registry ${regionService} regions for the region matrix`)
+    locations = getServiceRegions(regionService).map(region => region.location)
+  }
+
+  return new Map(locations.map(location => [getRegionCode(location), location]))
+}
+
+// Prices one configuration in every region: /api/pricing/region-matrix
+export async function POST(request: Request) {
+  try {
+    const matrixRequest: RegionMatrixRequest = await request.json()
+    const config = matrixRequest.type === "appstream" ? matrixRequest.appStreamConfig : matrixRequest.workspaceConfig
+    if (!config || !matrixRequest.homeRegion) {
+      return NextResponse.json({ error: "A region matrix needs a configuration and a home region" }, { status: 400 })
+    }
+
+    const regionNames = await getMatrixRegions(matrixRequest.type)
+    if (!regionNames.has(matrixRequest.homeRegion)) {
+      regionNames.set(matrixRequest.homeRegion, getRegionLocation(matrixRequest.homeRegion))
+    }
+    console.log(`Pricing a ${matrixRequest.type} configuration in ${regionNames.size} regions`)
+
+    // Every region is a group of one deployment, priced under the same price book
+    const response = await estimateDeployment(new Request("http://localhost/api/pricing/deployment/estimate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "Region matrix",
+        groups: Array.from(regionNames.keys()).map(region => buildRegionGroup(matrixRequest, region)),
+        priceBookVersion: matrixRequest.priceBookVersion
+      })
+    }))
+    const estimate: DeploymentEstimate & { error?: string } = await response.json()
+    if (!response.ok) {
+      return NextResponse.json({ error: estimate.error || "Failed to price the regions" }, { status: response.status })
+    }
+
+    return NextResponse.json({
+      type: matrixRequest.type,
+      homeRegion: matrixRequest.homeRegion,
+      rows: buildRegionMatrixRows(estimate.groups, regionNames, matrixRequest.homeRegion),
+      priceBook: estimate.priceBook
+    })
+  } catch (error) {
+    console.error("Error calculating region matrix:", error)
+    return NextResponse.json({ error: "Failed to calculate region matrix" }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { optimizeRunningModes } from "@/lib/pricing-engine"
+import { POST as estimateWorkSpaces } from "@/app/api/pricing/estimate/route"
+import type { RunningModePlanRequest } from "@/types/running-mode"
+import type { PricingEstimate } from "@/types/workspace"
+
+// Cheapest running mode of each user in each month, for one bundle configuration
+export async function POST(request: Request) {
+  try {
+    const { config, users, months }: RunningModePlanRequest = await request.json()
+
+    if (!config || !Array.isArray(users) || users.length === 0) {
+      return NextResponse.json({ error: "A running mode plan needs a configuration and at least one user" }, { status: 400 })
+    }
+    const monthCount = users[0].monthlyHours?.length || 0
+    if (monthCount === 0 || users.some(user => !Array.isArray(user.monthlyHours) || user.monthlyHours.length !== monthCount)) {
+      return NextResponse.json({ error: "Every user needs the same number of monthly hours" }, { status: 400 })
+    }
+
+    // An AutoStop estimate carries the AutoStop fee and hourly rate and the AlwaysOn price of the same bundle
+    const response = await estimateWorkSpaces(new Request("http://localhost/api/pricing/estimate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...config, runningMode: "auto-stop", billingOption: "hourly", numberOfWorkspaces: 1 })
+    }))
+    const estimate: PricingEstimate & { error?: string } = await response.json()
+    if (!response.ok) {
+      return NextResponse.json({ error: estimate.error || "Failed to price the configuration" }, { status: response.status })
+    }
+
+    const autoStop = estimate.autoStop
+    if (!autoStop || autoStop.alwaysOnMonthlyCost === null) {
+      return NextResponse.json({ error: `AlwaysOn pricing is not available for ${estimate.bundleName}` }, { status: 502 })
+    }
+
+    console.log(`Optimizing running modes of ${users.length} users over ${monthCount} months for ${estimate.bundleName}`)
+
+    const plan = optimizeRunningModes(users, {
+      fixedMonthlyFee: autoStop.fixedMonthlyFee,
+      hourlyRate: autoStop.hourlyRate,
+      alwaysOnMonthlyCost: autoStop.alwaysOnMonthlyCost
+    }, months)
+
+    return NextResponse.json({ ...plan, bundleName: estimate.bundleName, priceBook: estimate.priceBook })
+  } catch (error) {
+    console.error("Error optimizing running modes:", error)
+    return NextResponse.json({ error: "Failed to optimize running modes" }, { status: 500 })
+  }
+}
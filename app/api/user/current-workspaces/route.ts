@@ -1,41 +1,30 @@
 import { NextResponse } from "next/server"
-import { DescribeWorkspacesCommand } from "@aws-sdk/client-workspaces"
-import { workspacesClient, executeAwsCommand } from "@/lib/aws-config"
+import { describeAllWorkspaces, getRequestedRegions } from "@/lib/workspaces-usage"
+import type { CurrentWorkspace } from "@/types/inventory"
 
-export async function GET() {
+// Current WorkSpaces of one or more regions: /api/user/current-workspaces?regions=us-east-1,eu-west-1
+export async function GET(request: Request) {
   try {
-    // Fetch user's current WorkSpaces
-    let workspaces = []
-    try {
-      const workspacesResponse = await executeAwsCommand(
-        workspacesClient.send(new DescribeWorkspacesCommand({})),
-        "Failed to fetch current workspaces",
-      )
+    const regions = getRequestedRegions(request)
 
-      workspaces =
-        workspacesResponse.Workspaces?.map((workspace) => {
-          return {
-            id: workspace.WorkspaceId,
-            username: workspace.UserName,
-            state: workspace.State,
-            bundleId: workspace.BundleId,
-            directoryId: workspace.DirectoryId,
-            computeTypeName: workspace.ComputeTypeName,
-            rootVolumeSizeGib: workspace.RootVolumeSizeGib,
-            userVolumeSizeGib: workspace.UserVolumeSizeGib,
-            runningMode: workspace.WorkspaceProperties?.RunningMode,
-          }
-        }) || []
-    } catch (error) {
-      console.error("Error fetching current workspaces:", error)
-      // Return an empty array if the API call fails
-      workspaces = []
+    const workspaces: CurrentWorkspace[] = []
+    const errors: { region: string; error: string }[] = []
+
+    // A region that fails (no access, not enabled) is reported without failing the others
+    for (const region of regions) {
+      try {
+        const regionWorkspaces = await describeAllWorkspaces(region)
+        console.log(`Found ${regionWorkspaces.length} WorkSpaces in ${region}`)
+        workspaces.push(...regionWorkspaces)
+      } catch (error) {
+        console.error(`Error fetching current workspaces in ${region}:`, error)
+        errors.push({ region, error: error instanceof Error ? error.message : "Failed to fetch current workspaces" })
+      }
     }
 
-    return NextResponse.json(workspaces)
+    return NextResponse.json({ workspaces, regions, errors })
   } catch (error) {
     console.error("Error fetching current workspaces:", error)
     return NextResponse.json({ error: "Failed to fetch current workspaces" }, { status: 500 })
   }
 }
-
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server"
+import {
+  describeAllWorkspaces,
+  describeConnectionStatus,
+  getRequestedRegions,
+  getWorkspaceMetrics
+} from "@/lib/workspaces-usage"
+import { DEFAULT_LOOKBACK_DAYS, getTotalMonthlySavings, recommendRightsizing, type RightsizingPricer } from "@/lib/rightsizing"
+import { POST as estimateWorkSpaces } from "@/app/api/pricing/estimate/route"
+import type { WorkspaceRightsizing, WorkspaceUsage } from "@/types/rightsizing"
+import type { PricingEstimate } from "@/types/workspace"
+
+// CloudWatch keeps hourly datapoints for 63 days
+const MAX_LOOKBACK_DAYS = 63
+
+// Prices configurations through the estimate route handler, each distinct configuration once per request
+function createPricer(): RightsizingPricer {
+  const estimates = new Map<string, Promise<PricingEstimate | null>>()
+
+  return (config) => {
+    const body = JSON.stringify(config)
+    let estimate = estimates.get(body)
+    if (!estimate) {
+      estimate = estimateWorkSpaces(new Request("http://localhost/api/pricing/estimate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body
+      })).then(async (response) => response.ok ? await response.json() : null)
+      estimates.set(body, estimate)
+    }
+    return estimate
+  }
+}
+
+// Rightsizing recommendations: /api/user/rightsizing?regions=us-east-1,eu-west-1&days=14
+export async function GET(request: Request) {
+  try {
+    const regions = getRequestedRegions(request)
+    const daysParam = parseInt(new URL(request.url).searchParams.get("days") || "", 10)
+    const lookbackDays = Number.isFinite(daysParam) ? Math.min(MAX_LOOKBACK_DAYS, Math.max(1, daysParam)) : DEFAULT_LOOKBACK_DAYS
+
+    const price = createPricer()
+    const workspaces: WorkspaceRightsizing[] = []
+    const errors: { region: string; error: string }[] = []
+
+    for (const region of regions) {
+      let regionWorkspaces
+      try {
+        regionWorkspaces = await describeAllWorkspaces(region)
+      } catch (error) {
+        console.error(`Error fetching current workspaces in ${region}:`, error)
+        errors.push({ region, error: error instanceof Error ? error.message : "Failed to fetch current workspaces" })
+        continue
+      }
+
+      const ids = regionWorkspaces.map(workspace => workspace.id).filter((id): id is string => !!id)
+      console.log(`Analyzing usage of ${ids.length} WorkSpaces in ${region} over ${lookbackDays} days`)
+
+      // Connection status and metrics are optional, WorkSpaces without them get fewer recommendations
+      const statuses = await describeConnectionStatus(region, ids).catch((error) => {
+        errors.push({ region, error: error instanceof Error ? error.message : "Failed to fetch connection status" })
+        return null
+      })
+      const metrics = await getWorkspaceMetrics(region, ids, lookbackDays).catch((error) => {
+        errors.push({ region, error: error instanceof Error ? error.message : "Failed to fetch CloudWatch metrics" })
+        return null
+      })
+
+      for (const workspace of regionWorkspaces) {
+        const status = workspace.id ? statuses?.get(workspace.id) : undefined
+        const workspaceMetrics = workspace.id ? metrics?.get(workspace.id) : undefined
+        const usage: WorkspaceUsage | null = workspace.id && (status || workspaceMetrics)
+          ? {
+              workspaceId: workspace.id,
+              connectionState: status?.ConnectionState,
+              lastKnownUserConnectionTimestamp: status?.LastKnownUserConnectionTimestamp?.toISOString() ?? null,
+              connectedHours: workspaceMetrics?.connectedHours ?? null,
+              cpuAverage: workspaceMetrics?.cpuAverage ?? null,
+              cpuP95: workspaceMetrics?.cpuP95 ?? null,
+              memoryAverage: workspaceMetrics?.memoryAverage ?? null,
+              memoryP95: workspaceMetrics?.memoryP95 ?? null
+            }
+          : null
+
+        workspaces.push(await recommendRightsizing(workspace, usage, lookbackDays, price))
+      }
+    }
+
+    return NextResponse.json({
+      lookbackDays,
+      workspaces,
+      totalMonthlySavings: getTotalMonthlySavings(workspaces),
+      errors
+    })
+  } catch (error) {
+    console.error("Error calculating rightsizing recommendations:", error)
+    return NextResponse.json({ error: "Failed to calculate rightsizing recommendations" }, { status: 500 })
+  }
+}
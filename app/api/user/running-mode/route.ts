@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server"
+import {
+  describeAllWorkspaces,
+  getCompleteMonths,
+  getMonthlyConnectedHours,
+  getRequestedRegions
+} from "@/lib/workspaces-usage"
+import { buildInventoryWorkspaceConfig, groupWorkspaceInventory } from "@/lib/inventory"
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import { POST as planRunningModes } from "@/app/api/pricing/running-mode/route"
+import type { CurrentWorkspace } from "@/types/inventory"
+import type { InventoryRunningModePlan, RunningModePlan, RunningModeUser } from "@/types/running-mode"
+
+const DEFAULT_MONTHS = 3
+
+// CloudWatch keeps hourly datapoints for 455 days, which covers 12 complete months
+const MAX_MONTHS = 12
+
+// Running mode plan of the user's WorkSpaces from their connected hours in the last complete months:
+// /api/user/running-mode?regions=us-east-1,eu-west-1&months=3
+export async function GET(request: Request) {
+  try {
+    const regions = getRequestedRegions(request)
+    const monthsParam = parseInt(new URL(request.url).searchParams.get("months") || "", 10)
+    const months = getCompleteMonths(Number.isFinite(monthsParam) ? Math.min(MAX_MONTHS, Math.max(1, monthsParam)) : DEFAULT_MONTHS)
+    const monthLabels = months.map(month => month.label)
+
+    const groups: InventoryRunningModePlan[] = []
+    const errors: { region: string; error: string }[] = []
+
+    for (const region of regions) {
+      let workspaces: CurrentWorkspace[]
+      let connectedHours: Map<string, number[]>
+      try {
+        workspaces = await describeAllWorkspaces(region)
+        const ids = workspaces.map(workspace => workspace.id).filter((id): id is string => !!id)
+        console.log(`Reading connected hours of ${ids.length} WorkSpaces in ${region} for ${monthLabels.join(", ")}`)
+        connectedHours = await getMonthlyConnectedHours(region, ids, months)
+      } catch (error) {
+        console.error(`Error reading WorkSpaces usage in ${region}:`, error)
+        errors.push({ region, error: error instanceof Error ? error.message : "Failed to read WorkSpaces usage" })
+        continue
+      }
+
+      // Groups share a bundle configuration, so each group is priced once for all of its users
+      for (const group of groupWorkspaceInventory(workspaces)) {
+        const members = workspaces.filter(workspace => groupWorkspaceInventory([workspace])[0]?.id === group.id)
+        const users: RunningModeUser[] = members.flatMap(workspace => {
+          const monthlyHours = workspace.id ? connectedHours.get(workspace.id) : undefined
+          return workspace.id && monthlyHours
+            ? [{ id: workspace.id, name: workspace.username, runningMode: group.runningMode, monthlyHours }]
+            : []
+        })
+        const result: InventoryRunningModePlan = { group, unmeasuredWorkspaces: members.length - users.length }
+
+        const config = buildInventoryWorkspaceConfig(group)
+        if (!config) {
+          groups.push({ ...result, error: `Compute type ${group.computeTypeName} is not priced by the calculator` })
+          continue
+        }
+        if (users.length === 0) {
+          groups.push({ ...result, error: "No connection data in CloudWatch for these WorkSpaces" })
+          continue
+        }
+
+        const response = await planRunningModes(new Request("http://localhost/api/pricing/running-mode", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ config, users, months: monthLabels })
+        }))
+        const plan: RunningModePlan & { error?: string } = await response.json()
+        groups.push(response.ok ? { ...result, plan } : { ...result, error: plan.error || "Failed to plan running modes" })
+      }
+    }
+
+    const currentCost = formatPriceForStorage(groups.reduce((sum, item) => sum + (item.plan?.currentCost || 0), 0))
+    const optimalCost = formatPriceForStorage(groups.reduce((sum, item) => sum + (item.plan?.optimalCost || 0), 0))
+
+    return NextResponse.json({
+      months: monthLabels,
+      groups,
+      currentCost,
+      optimalCost,
+      savings: formatPriceForStorage(currentCost - optimalCost),
+      errors
+    })
+  } catch (error) {
+    console.error("Error planning running modes:", error)
+    return NextResponse.json({ error: "Failed to plan running modes" }, { status: 500 })
+  }
+}
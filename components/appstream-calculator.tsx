@@ -1,17 +1,25 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { calculateAppStreamPricing, fetchAppStreamBundles, fetchAppStreamConfig } from '@/lib/api';
-import { regions } from '@/lib/regions';
+import { getServiceRegions } from '@/lib/regions';
+import { readShareState, writeShareState, type AppStreamShareState } from '@/lib/share-state';
+import { getAppStreamAssumptions } from '@/lib/estimate-export';
+import { APPSTREAM_USER_PROFILES, type AppStreamSessionSizing } from '@/lib/pricing-engine';
 import { Button } from '@/components/ui/button';
 import CostSummaryPanel from './cost-summary-panel';
+import { SaveEstimateButton } from './save-estimate-button';
+import RegionPriceMatrix from './region-price-matrix';
+import { useDiscounts } from './discounts-provider';
 import { AppStreamUsagePattern } from './appstream-usage-pattern'; // Import the component here
-import type { AppStreamUsagePattern as AppStreamUsagePatternType } from "@/types/appstream"; // Import the type with an alias
+import { OptionSelect } from './option-select';
+import { AppStreamCostComponents } from './appstream-cost-components';
+import type { AppStreamComponents, AppStreamUsagePattern as AppStreamUsagePatternType } from "@/types/appstream"; // Import the type with an alias
 
 const DEFAULT_USAGE_PATTERN: AppStreamUsagePatternType = {
   weekdayDaysCount: 5,
@@ -34,22 +42,30 @@ export default function AppStreamCalculator() {
   const [bundles, setBundles] = useState<any[]>([]);
   
   // State for user selections
-  const [selectedRegion, setSelectedRegion] = useState<string>('us-east-1');
+  // Settings of a shared link; this tab only mounts on the client, so it can be read while initializing
+  const [sharedSettings] = useState<AppStreamShareState | undefined>(() => readShareState()?.appstream);
+  // Selections that have to wait for their options to load before they can be restored
+  const pendingRestore = useRef<AppStreamShareState | undefined>(sharedSettings);
+
+  const [selectedRegion, setSelectedRegion] = useState<string>(sharedSettings?.region || 'us-east-1');
   const [selectedInstanceFamily, setSelectedInstanceFamily] = useState<string>('');
   const [selectedInstanceFunction, setSelectedInstanceFunction] = useState<string>('');
   const [selectedBundle, setSelectedBundle] = useState<string>('');
   const [selectedOS, setSelectedOS] = useState<string>('');
   const [selectedMultiSession, setSelectedMultiSession] = useState<string>('false');
-  const [usageHours, setUsageHours] = useState<number>(730);
-  const [bufferFactor, setBufferFactor] = useState<number>(0.1); // Add buffer factor state
-  const [usersPerInstance, setUsersPerInstance] = useState<number>(1);
-  const [numberOfInstances, setNumberOfInstances] = useState<number>(1);
-  const [usagePattern, setUsagePattern] = useState<AppStreamUsagePatternType>(DEFAULT_USAGE_PATTERN);
-  const [userCount, setUserCount] = useState<number>(10); // Changed default from 10 to 100
+  const [usageHours, setUsageHours] = useState<number>(sharedSettings?.usageHours ?? 730);
+  const [bufferFactor, setBufferFactor] = useState<number>(sharedSettings?.bufferFactor ?? 0.1); // Add buffer factor state
+  const [usersPerInstance, setUsersPerInstance] = useState<number>(sharedSettings?.usersPerInstance ?? 1);
+  // Typical user of a multi-session instance, sizes the recommended users per instance
+  const [userProfile, setUserProfile] = useState<string>(sharedSettings?.userProfile || 'knowledge');
+  const [usagePattern, setUsagePattern] = useState<AppStreamUsagePatternType>(sharedSettings?.usagePattern || DEFAULT_USAGE_PATTERN);
+  const [userCount, setUserCount] = useState<number>(sharedSettings?.userCount ?? 10); // Changed default from 10 to 100
+  const [components, setComponents] = useState<AppStreamComponents>(sharedSettings?.components || {});
 
   // State for pricing results
   const [pricingEstimate, setPricingEstimate] = useState<any>(null);
   const [loading, setLoading] = useState<boolean>(false);
+  const { discounts } = useDiscounts();
   
   // Create a WorkSpaceConfig-like object for CostSummaryPanel
   const appstreamConfig = {
@@ -81,13 +97,20 @@ export default function AppStreamCalculator() {
         setOperatingSystems(config.operatingSystems);
         setMultiSessionOptions(config.multiSession);
         
-        // Reset dependent selections
-        setSelectedInstanceFamily('');
-        setSelectedInstanceFunction('');
+        // Reset dependent selections, or select the shared ones now that their options exist
+        const pending = pendingRestore.current;
+        setSelectedInstanceFamily(pending?.instanceFamily || '');
+        setSelectedInstanceFunction(pending?.instanceFunction || '');
         setSelectedBundle('');
-        setSelectedOS('');
+        setSelectedOS(pending?.operatingSystem || '');
+        setSelectedMultiSession(pending?.multiSession || 'false');
         setBundles([]);
         setPricingEstimate(null);
+
+        // Without a family and function no bundles load, so there is nothing left to restore
+        if (!pending?.instanceFamily || !pending?.instanceFunction) {
+          pendingRestore.current = undefined;
+        }
       } catch (error) {
         console.error('Failed to load AppStream configuration:', error);
       }
@@ -108,7 +131,8 @@ export default function AppStreamCalculator() {
           );
           
           setBundles(bundlesData.bundles);
-          setSelectedBundle('');
+          setSelectedBundle(pendingRestore.current?.instanceType || '');
+          pendingRestore.current = undefined;
         } catch (error) {
           console.error('Failed to load AppStream bundles:', error);
         }
@@ -119,9 +143,54 @@ export default function AppStreamCalculator() {
   }, [selectedRegion, selectedInstanceFamily, selectedInstanceFunction]);
   
   // Calculate pricing when selections change
-  const handleCalculatePrice = async () => {
+  // Request body of the estimate endpoint for the current settings, null until they are complete
+  const buildPricingRequest = () => {
     if (!selectedRegion || !selectedInstanceFamily || !selectedInstanceFunction || 
         !selectedBundle || !selectedOS) {
+      return null;
+    }
+
+    const bundle = bundles.find(b => b.id === selectedBundle);
+
+    // Get the instance specs from the already loaded bundle data
+    const instanceSpecs = bundle ? {
+      vcpu: bundle.vcpu,
+      memory: bundle.memory,
+      videoMemory: bundle.videoMemory
+    } : null;
+
+    return {
+      region: selectedRegion,
+      instanceType: selectedBundle,
+      instanceFamily: selectedInstanceFamily,
+      instanceFunction: selectedInstanceFunction,
+      operatingSystem: selectedOS,
+      multiSession: selectedMultiSession,
+      usagePattern: 'custom',
+      usageHours: usageHours,
+      usersPerInstance: usersPerInstance,
+      userResources: APPSTREAM_USER_PROFILES.find(profile => profile.value === userProfile)?.resources,
+      components,
+      userCount: userCount,
+      bufferFactor: selectedInstanceFunction === 'elasticfleet' ? 0 : bufferFactor,
+      weekdayDaysCount: usagePattern.weekdayDaysCount,
+      weekdayPeakHoursPerDay: usagePattern.weekdayPeakHoursPerDay,
+      weekdayPeakConcurrentUsers: usagePattern.weekdayPeakConcurrentUsers,
+      weekdayOffPeakConcurrentUsers: usagePattern.weekdayOffPeakConcurrentUsers,
+      weekendDaysCount: usagePattern.weekendDaysCount,
+      weekendPeakHoursPerDay: usagePattern.weekendPeakHoursPerDay, 
+      weekendPeakConcurrentUsers: usagePattern.weekendPeakConcurrentUsers,
+      weekendOffPeakConcurrentUsers: usagePattern.weekendOffPeakConcurrentUsers,
+      
+      // Pass the instance specs to avoid redundant API calls
+      instanceSpecs: instanceSpecs,
+      discounts
+    };
+  };
+
+  const handleCalculatePrice = async () => {
+    const params = buildPricingRequest();
+    if (!params) {
       // Show error or validation message
       return;
     }
@@ -129,48 +198,12 @@ export default function AppStreamCalculator() {
     setLoading(true);
     
     try {
-      const bundle = bundles.find(b => b.id === selectedBundle);
-      
-      // Get the instance specs from the already loaded bundle data
-      const instanceSpecs = bundle ? {
-        vcpu: bundle.vcpu,
-        memory: bundle.memory,
-        videoMemory: bundle.videoMemory
-      } : null;
-      
-      const params = {
-        region: selectedRegion,
-        instanceType: selectedBundle,
-        instanceFamily: selectedInstanceFamily,
-        instanceFunction: selectedInstanceFunction,
-        operatingSystem: selectedOS,
-        multiSession: selectedMultiSession,
-        usagePattern: 'custom',
-        usageHours: usageHours,
-        usersPerInstance: usersPerInstance,
-        numberOfInstances: numberOfInstances,
-        userCount: userCount,
-        bufferFactor: selectedInstanceFunction === 'elasticfleet' ? 0 : bufferFactor,
-        weekdayDaysCount: usagePattern.weekdayDaysCount,
-        weekdayPeakHoursPerDay: usagePattern.weekdayPeakHoursPerDay,
-        weekdayPeakConcurrentUsers: usagePattern.weekdayPeakConcurrentUsers,
-        weekdayOffPeakConcurrentUsers: usagePattern.weekdayOffPeakConcurrentUsers,
-        weekendDaysCount: usagePattern.weekendDaysCount,
-        weekendPeakHoursPerDay: usagePattern.weekendPeakHoursPerDay, 
-        weekendPeakConcurrentUsers: usagePattern.weekendPeakConcurrentUsers,
-        weekendOffPeakConcurrentUsers: usagePattern.weekendOffPeakConcurrentUsers,
-        
-        // Pass the instance specs to avoid redundant API calls
-        instanceSpecs: instanceSpecs
-      };
-      
       const result = await calculateAppStreamPricing(params);
       
       // Log the raw pricing information for debugging
       console.log('API pricing result:', result);
       console.log(`AWS hourly rate: $${result.hourlyPrice} per hour`);
       console.log(`Total hours: ${result.totalInstanceHours}`);
-      console.log(`Expected cost: ${result.totalInstanceHours} × $${result.hourlyPrice} = $${(result.totalInstanceHours * result.hourlyPrice).toFixed(2)}`);
       console.log(`API returned cost: $${result.instanceCost.toFixed(2)}`);
       
       // Check for potential calculation issues
@@ -183,10 +216,14 @@ export default function AppStreamCalculator() {
         costPerWorkspace: result.costPerUser || 0,
         totalMonthlyCost: result.totalMonthlyCost || 0,
         annualEstimate: result.annualCost || 0,
-        bundleName: bundle?.name || 'AppStream Bundle',
+        bundleName: bundles.find(b => b.id === selectedBundle)?.name || 'AppStream Bundle',
         billingModel: 'Hourly',
         baseCost: result.hourlyPrice * 730, // Convert hourly to monthly for base reference
         pricingSource: 'aws-api',
+        priceBook: result.priceBook,
+        lineItems: result.lineItems,
+        discount: result.discount,
+        commitments: result.commitments,
         license: selectedOS === 'windows' ? 'included' : 'not-applicable',
         // Use the exact values from the API response
         poolPricingDetails: {
@@ -201,6 +238,8 @@ export default function AppStreamCalculator() {
           totalBufferHours: result.bufferInstanceHours || 0,
           originalRate: result.details?.baseInstancePrice || result.hourlyPrice
         },
+        calculationDetails: result.details?.calculationDetails,
+        sessionSizing: result.details?.sessionSizing,
         _rawApiResponse: result
       };
       
@@ -227,7 +266,58 @@ export default function AppStreamCalculator() {
       handleCalculatePrice();
     }
   }, [selectedRegion, selectedInstanceFamily, selectedInstanceFunction, selectedBundle, 
-      selectedOS, selectedMultiSession, usagePattern, userCount, usersPerInstance]);
+      selectedOS, selectedMultiSession, usagePattern, userCount, usersPerInstance, userProfile, components, discounts]);
+
+  const currentSettings: AppStreamShareState = {
+    region: selectedRegion,
+    instanceFamily: selectedInstanceFamily,
+    instanceFunction: selectedInstanceFunction,
+    instanceType: selectedBundle,
+    operatingSystem: selectedOS,
+    multiSession: selectedMultiSession,
+    usageHours,
+    bufferFactor,
+    usersPerInstance,
+    userProfile,
+    userCount,
+    usagePattern,
+    components
+  };
+
+  // Keep the URL in sync so the current estimate can be shared, once a shared one is fully restored
+  useEffect(() => {
+    if (pendingRestore.current) {
+      return;
+    }
+    writeShareState({ appstream: currentSettings });
+  }, [selectedRegion, selectedInstanceFamily, selectedInstanceFunction, selectedBundle, selectedOS,
+      selectedMultiSession, usageHours, bufferFactor, usersPerInstance, userProfile, userCount, usagePattern, components]);
+
+  // Multi-session sizing of the last estimate, as computed by the API
+  const sessionSizing: AppStreamSessionSizing | undefined = pricingEstimate?.sessionSizing;
+  const recommendedUsersPerInstance = sessionSizing?.recommendedSessionsPerInstance;
+
+  const getCurrentEstimate = () => {
+    const { _rawApiResponse, ...estimate } = pricingEstimate;
+    return estimate;
+  };
+
+  const buildSavedEstimate = async () => ({
+    type: 'appstream' as const,
+    appstream: currentSettings,
+    estimate: getCurrentEstimate()
+  });
+
+  const getExportRequest = async () => ({
+    name: 'AppStream estimate',
+    assumptions: getAppStreamAssumptions(currentSettings),
+    estimate: getCurrentEstimate()
+  });
+
+  const getRegionMatrixRequest = () => {
+    const appStreamConfig = buildPricingRequest();
+    return appStreamConfig ? { type: 'appstream' as const, appStreamConfig, homeRegion: selectedRegion } : null;
+  };
 
   // Reset form
   const handleReset = () => {
@@ -238,7 +328,8 @@ export default function AppStreamCalculator() {
     setSelectedMultiSession('false');
     setUsageHours(730);
     setUsersPerInstance(1);
-    setNumberOfInstances(1);
+    setUserProfile('knowledge');
+    setComponents({});
     setBundles([]);
     setPricingEstimate(null);
   };
@@ -266,7 +357,7 @@ export default function AppStreamCalculator() {
                     <SelectValue placeholder="Select a region" />
                   </SelectTrigger>
                   <SelectContent>
-                    {regions.map((region) => (
+                    {getServiceRegions('appstream').map((region) => (
                       <SelectItem key={region.code} value={region.code}>
                         {region.name}
                       </SelectItem>
@@ -452,6 +543,35 @@ export default function AppStreamCalculator() {
                       className="flex-1"
                     />
                   </div>
+                  <OptionSelect
+                    id="userProfile"
+                    label="Typical user"
+                    value={userProfile}
+                    options={APPSTREAM_USER_PROFILES}
+                    onChange={setUserProfile}
+                  />
+                  {sessionSizing && recommendedUsersPerInstance && (
+                    <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                      <span>
+                        {sessionSizing.instanceVCpu} vCPU and {sessionSizing.instanceMemoryGib} GiB fit{' '}
+                        {recommendedUsersPerInstance} users of this kind
+                      </span>
+                      {recommendedUsersPerInstance !== usersPerInstance && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setUsersPerInstance(recommendedUsersPerInstance)}
+                        >
+                          Use {recommendedUsersPerInstance}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {sessionSizing?.multiSession && (
+                    <div className="text-xs text-gray-500">
+                      {sessionSizing.peakConcurrentUsers} concurrent users need {sessionSizing.peakInstances} instances at peak
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -484,6 +604,8 @@ export default function AppStreamCalculator() {
                   </div>
                 </div>
               )}
+
+              <AppStreamCostComponents value={components} onChange={setComponents} />
             </div>
           </CardContent>
         </Card>
@@ -505,12 +627,21 @@ export default function AppStreamCalculator() {
       </div>
 
       {/* Cost Summary Panel */}
-      <CostSummaryPanel 
-        config={appstreamConfig}
-        pricingEstimate={pricingEstimate}
-        isLoading={loading}
-        activeTab="pool"
-      />
+      <div className="space-y-4">
+        <CostSummaryPanel 
+          config={appstreamConfig}
+          pricingEstimate={pricingEstimate}
+          isLoading={loading}
+          activeTab="pool"
+          getExportRequest={getExportRequest}
+        />
+        <SaveEstimateButton
+          buildInput={buildSavedEstimate}
+          defaultName="AppStream estimate"
+          disabled={!pricingEstimate || loading}
+        />
+        <RegionPriceMatrix getRequest={getRegionMatrixRequest} disabled={loading} />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,50 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { AppStreamComponents } from '@/types/appstream';
+
+const COMPONENT_FIELDS: { field: keyof AppStreamComponents; label: string }[] = [
+  { field: 'imageBuilderHours', label: 'Image builder hours / month' },
+  { field: 'homeFolderGbPerUser', label: 'Home folder GB per user' },
+  { field: 'appSettingsGbPerUser', label: 'App settings GB per user' },
+  { field: 'storageRequestsPerUser', label: 'S3 requests per user / month' },
+  { field: 'dataTransferOutGbPerUser', label: 'Data transfer out GB per user' },
+];
+
+interface AppStreamCostComponentsProps {
+  value: AppStreamComponents;
+  onChange: (value: AppStreamComponents) => void;
+  className?: string;
+}
+
+// Image builder, storage and data transfer costs that AppStream bills besides the fleet
+export function AppStreamCostComponents({ value, onChange, className }: AppStreamCostComponentsProps) {
+  return (
+    <div className={className}>
+      <Label>Additional Costs</Label>
+      <p className="text-xs text-gray-500 mt-1 mb-2">
+        Priced as separate line items; leave empty to leave them out. Storage, requests and data transfer are per user
+        and month.
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        {COMPONENT_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <Label htmlFor={`appstream-${field}`} className="text-xs">{label}</Label>
+            <Input
+              id={`appstream-${field}`}
+              type="number"
+              min={0}
+              value={value[field] ?? ''}
+              placeholder="0"
+              onChange={(e) => onChange({
+                ...value,
+                [field]: e.target.value === '' ? undefined : parseFloat(e.target.value)
+              })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
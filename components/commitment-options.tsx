@@ -0,0 +1,61 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { CommitmentAnalysis } from '@/types/commitments';
+import { useCurrency } from './currency-provider';
+
+interface CommitmentOptionsProps {
+  commitments: CommitmentAnalysis;
+  className?: string;
+}
+
+// Billing and negotiated commitment options of an estimate, each with where its price comes from
+export function CommitmentOptions({ commitments, className }: CommitmentOptionsProps) {
+  const { formatCurrency } = useCurrency();
+
+  return (
+    <div className={className}>
+      <h3 className="text-sm font-medium text-gray-500 mb-1">Commitment Options</h3>
+      <p className="text-xs text-gray-500 mb-2">
+        Compared at list prices of {formatCurrency(commitments.listMonthlyCost)}/month, before the discounts above.
+        Negotiated commitments are added with the discounts.
+      </p>
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8 px-2">Option</TableHead>
+            <TableHead className="h-8 px-2 text-right">Monthly</TableHead>
+            <TableHead className="h-8 px-2 text-right">Savings / year</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {commitments.options.map((option) => (
+            <TableRow key={option.id}>
+              <TableCell className="p-2 align-top">
+                <div className="flex items-center gap-1">
+                  <span className="font-medium text-gray-900">{option.label}</span>
+                  {option.current && <Badge variant="secondary">Current</Badge>}
+                  {option.termYears > 0 && <Badge variant="outline">{option.termYears}-year term</Badge>}
+                </div>
+                <p className="text-gray-600 mt-1">{option.explanation}</p>
+                <p className="text-gray-400 mt-1">Source: {option.sourceDescription}</p>
+              </TableCell>
+              <TableCell className="p-2 text-right align-top">
+                {option.monthlyCost !== null ? formatCurrency(option.monthlyCost) : '-'}
+              </TableCell>
+              <TableCell
+                className={`p-2 text-right align-top ${option.annualSavings !== null && option.annualSavings < 0 ? 'text-red-600' : ''}`}
+              >
+                {option.annualSavings !== null ? formatCurrency(option.annualSavings) : '-'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {commitments.notOffered.map((reason) => (
+        <p key={reason} className="text-xs text-gray-500 mt-2">{reason}</p>
+      ))}
+    </div>
+  );
+}
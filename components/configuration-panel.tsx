@@ -13,7 +13,10 @@ import { getBundlesForRegion } from "@/app/actions/updateBundles"
 import { getPoolOptions } from "@/app/actions/updatePoolOptions"
 import { getPoolBundlesForRegion } from "@/app/actions/updatePoolBundles"
 import { PoolUsagePattern as PoolUsagePatternComponent } from "@/components/pool-usage-pattern"
-import { regions as RegionType } from '@/lib/regions';
+import { PoolCapacitySimulation } from "@/components/pool-capacity-simulation"
+import { useCurrency } from "@/components/currency-provider"
+import { formatPriceForDisplay } from "@/lib/price-formatter"
+import type { RegionInfo } from '@/lib/regions';
 
 // Default values for the pool usage pattern
 const DEFAULT_POOL_USAGE_PATTERN: PoolUsagePattern = {
@@ -36,7 +39,9 @@ interface ConfigurationPanelProps {
   onConfigChange: (config: Partial<WorkSpaceConfig>) => void
   isLoading: boolean
   onTabChange?: (tab: string) => void  // Add this prop
-  regions: typeof RegionType; // Add regions prop type
+  initialTab?: string // "core" or "pool", e.g. when restored from a shared link
+  // Regions WorkSpaces Core is offered in
+  regions: RegionInfo[]
 }
 
 export default function ConfigurationPanel({
@@ -45,13 +50,15 @@ export default function ConfigurationPanel({
   onConfigChange,
   isLoading,
   onTabChange,
+  initialTab,
   regions,
 }: ConfigurationPanelProps) {
+  const { currency } = useCurrency()
   // Add state for region-specific bundle options
   const [currentRegion, setCurrentRegion] = useState(config.region)
   const [regionBundles, setRegionBundles] = useState([])
   const [isRefreshing, setIsRefreshing] = useState(false)
-  const [activeTab, setActiveTab] = useState("core")
+  const [activeTab, setActiveTab] = useState(initialTab || "core")
   const [isMounted, setIsMounted] = useState(false)
   
   // Add state for pool configuration
@@ -333,7 +340,7 @@ export default function ConfigurationPanel({
           <p className="text-sm text-gray-500">Adjust the settings below to calculate your estimated costs</p>
         </div>
 
-        <Tabs defaultValue="core" onValueChange={handleTabChange}>
+        <Tabs value={activeTab} onValueChange={handleTabChange}>
           <TabsList className="grid w-full grid-cols-2 mb-6">
             <TabsTrigger value="core">WorkSpaces Core</TabsTrigger>
             <TabsTrigger value="pool">WorkSpaces Pool</TabsTrigger>
@@ -543,6 +550,29 @@ export default function ConfigurationPanel({
               </Select>
             </div>
 
+            {config.runningMode === "auto-stop" && (
+              <div>
+                <div className="flex justify-between mb-2">
+                  <Label htmlFor="autoStopHoursPerUser">Expected Hours per User per Month</Label>
+                  <span className="text-sm font-medium">{config.autoStopHoursPerUser ?? 160}</span>
+                </div>
+                <Slider
+                  id="autoStopHoursPerUser"
+                  min={0}
+                  max={730}
+                  step={10}
+                  value={[config.autoStopHoursPerUser ?? 160]}
+                  onValueChange={(value) => onConfigChange({ autoStopHoursPerUser: value[0] })}
+                  className="py-4"
+                  disabled={isLoading}
+                />
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>0</span>
+                  <span>730</span>
+                </div>
+              </div>
+            )}
+
             <div>
               <div className="flex justify-between mb-2">
                 <Label htmlFor="numberOfWorkspaces">Number of WorkSpaces</Label>
@@ -645,7 +675,7 @@ export default function ConfigurationPanel({
                   {poolBundles.length > 0 ? (
                     poolBundles.map((bundle) => (
                       <SelectItem key={bundle.id} value={bundle.id}>
-                        {bundle.name} - {bundle.displayPrice}
+                        {bundle.name} - {formatPriceForDisplay(bundle.price, true, currency)}
                       </SelectItem>
                     ))
                   ) : (
@@ -783,6 +813,15 @@ export default function ConfigurationPanel({
               value={config.poolUsagePattern || DEFAULT_POOL_USAGE_PATTERN} 
               onChange={handlePoolUsagePatternChange}
             />
+
+            <PoolCapacitySimulation
+              className="mt-4"
+              userCount={config.poolNumberOfUsers || 10}
+              usagePattern={config.poolUsagePattern || DEFAULT_POOL_USAGE_PATTERN}
+              demandProfile={config.poolDemandProfile}
+              scalingPolicy={config.poolScalingPolicy}
+              onChange={onConfigChange}
+            />
             
             {/* Display debug information for pool data if available */}
             {poolOptions.rawMetadata && (
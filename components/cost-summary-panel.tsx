@@ -6,165 +6,29 @@ import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert" // Add this import
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { Info, MonitorSmartphone, Users, Database, AlertTriangle } from "lucide-react" // Add AlertTriangle icon
-import type { WorkSpaceConfig, PricingEstimate, PoolUsagePattern } from "@/types/workspace"
+import type { WorkSpaceConfig, PricingEstimate } from "@/types/workspace"
+import { LineItemsTable } from "@/components/line-items-table"
+import { ExportEstimateButtons } from "@/components/export-estimate-buttons"
+import { DownloadProposalButton } from "@/components/download-proposal-button"
+import { TcoProjection } from "@/components/tco-projection"
+import { OnPremComparison } from "@/components/on-prem-comparison"
+import { PoolSimulationChart } from "@/components/pool-capacity-simulation"
+import { CommitmentOptions } from "@/components/commitment-options"
+import type { EstimateExportRequest } from "@/types/estimates"
+import { useCurrency } from "@/components/currency-provider"
 
 interface CostSummaryPanelProps {
   config: WorkSpaceConfig
   pricingEstimate: PricingEstimate | null
   isLoading: boolean
   activeTab?: string // Add this to track which tab is active
+  // Enables the CSV/XLSX export and the PDF proposal of the estimate
+  getExportRequest?: () => Promise<EstimateExportRequest>
 }
 
-// Helper function to calculate pool utilization based on usage pattern
+export default function CostSummaryPanel({ config, pricingEstimate, isLoading, activeTab = "core", getExportRequest }: CostSummaryPanelProps) {   
+  const { formatCurrency } = useCurrency();
 
-// Calculate weekly usage hours for the pool
-function calculateWeeklyUsageHours(usagePattern: PoolUsagePattern): number {
-  if (!usagePattern) return 168; // Default to full week if no pattern
-  
-  // Weekly peak hours
-  const weekdayPeakHours = usagePattern.weekdayDaysCount * usagePattern.weekdayPeakHoursPerDay;
-  const weekendPeakHours = usagePattern.weekendDaysCount * usagePattern.weekendPeakHoursPerDay;
-  
-  // Weekly off-peak hours
-  const weekdayOffPeakHours = (usagePattern.weekdayDaysCount * 24) - weekdayPeakHours;
-  const weekendOffPeakHours = (usagePattern.weekendDaysCount * 24) - weekendPeakHours;
-  
-  // Calculate effective hours based on utilization
-  const effectiveWeekdayPeakHours = weekdayPeakHours * (usagePattern.weekdayPeakConcurrentUsers / 100);
-  const effectiveWeekdayOffPeakHours = weekdayOffPeakHours * (usagePattern.weekdayOffPeakConcurrentUsers / 100); 
-  const effectiveWeekendPeakHours = weekendPeakHours * (usagePattern.weekendPeakConcurrentUsers / 100);
-  const effectiveWeekendOffPeakHours = weekendOffPeakHours * (usagePattern.weekendOffPeakConcurrentUsers / 100);
-  
-  // Total effective hours per week
-  return effectiveWeekdayPeakHours + effectiveWeekdayOffPeakHours + effectiveWeekendPeakHours + effectiveWeekendOffPeakHours;
-}
-
-function calculatePoolCosts(usagePattern: PoolUsagePattern, baseHourlyRate: number, userCount: number, license: string = "included"): {
-  userLicenseCost: number;
-  activeStreamingCost: number;
-  stoppedInstanceCost: number;
-  totalMonthlyCost: number;
-  peakWeekdayHours: number;
-  offPeakWeekdayHours: number;
-  peakWeekendHours: number;
-  offPeakWeekendHours: number;
-  totalUtilizedHours: number;
-  totalBufferHours: number;
-  totalInstanceHours: number;
-} {
-  // Constants based on AWS calculator
-  const LICENSE_COST_PER_USER = 4.19; // USD per user per month
-  
-  // Apply license discount for BYOL
-  const isBYOL = license === "bring-your-own-license";
-  
-  // Important: Use the exact hourly rate from the API without modification
-  const ACTIVE_STREAMING_RATE = baseHourlyRate;
-  
-  console.log(`Using API-provided streaming rate directly: $${ACTIVE_STREAMING_RATE}/hr for ${license} license`);
-
-  const STOPPED_INSTANCE_RATE = 0.03; // This rate is fixed per AWS documentation
-  const BUFFER_FACTOR = 0.10; // 10% buffer factor as per AWS calculator
-  const WEEKS_PER_MONTH = 4.35; // 730 hours / 168 hours = 4.35 weeks per month
-  
-  // Calculate user license costs - only if using included license
-  const userLicenseCost = license !== "bring-your-own-license" && license !== "not-applicable" 
-    ? LICENSE_COST_PER_USER * userCount 
-    : 0;
-  
-  // 2. Calculate weekday usage hours
-  const weekdayDays = usagePattern.weekdayDaysCount;
-  const weekdayPeakHoursPerDay = usagePattern.weekdayPeakHoursPerDay;
-  const weekdayTotalHoursPerDay = 24;
-  
-  const peakWeekdayHours = weekdayDays * weekdayPeakHoursPerDay * WEEKS_PER_MONTH;
-  const totalWeekdayHours = weekdayDays * weekdayTotalHoursPerDay * WEEKS_PER_MONTH;
-  const offPeakWeekdayHours = totalWeekdayHours - peakWeekdayHours;
-  
-  // Important: For the calculations to match AWS, we need to use the ACTUAL user counts,
-  // not percentages. If usagePattern has percentages, convert to actual users.
-  const peakWeekdayConcurrentUsers = Math.max(1, Math.floor((usagePattern.weekdayPeakConcurrentUsers / 100) * userCount));
-  const offPeakWeekdayConcurrentUsers = Math.max(1, Math.floor((usagePattern.weekdayOffPeakConcurrentUsers / 100) * userCount));
-  
-  // Calculate utilized instance hours - direct multiplication of users and hours
-  const peakWeekdayInstanceHours = peakWeekdayConcurrentUsers * peakWeekdayHours;
-  const offPeakWeekdayInstanceHours = offPeakWeekdayConcurrentUsers * offPeakWeekdayHours;
-  const totalWeekdayUtilizedHours = peakWeekdayInstanceHours + offPeakWeekdayInstanceHours;
-  
-  // 3. Calculate weekday buffer hours (stopped instances)
-  // Important: Apply buffer factor directly to instance hours
-  const peakWeekdayBufferHours = peakWeekdayInstanceHours * BUFFER_FACTOR;
-  const offPeakWeekdayBufferHours = offPeakWeekdayInstanceHours * BUFFER_FACTOR;
-  const totalWeekdayBufferHours = peakWeekdayBufferHours + offPeakWeekdayBufferHours;
-  
-  // 4. Calculate weekend usage hours
-  const weekendDays = usagePattern.weekendDaysCount;
-  const weekendPeakHoursPerDay = usagePattern.weekendPeakHoursPerDay;
-  const weekendTotalHoursPerDay = 24;
-  
-  const peakWeekendHours = weekendDays * weekendPeakHoursPerDay * WEEKS_PER_MONTH;
-  const totalWeekendHours = weekendDays * weekendTotalHoursPerDay * WEEKS_PER_MONTH;
-  const offPeakWeekendHours = totalWeekendHours - peakWeekendHours;
-  
-  // Convert percentage to actual users - same approach as weekday
-  const peakWeekendConcurrentUsers = Math.max(1, Math.floor((usagePattern.weekendPeakConcurrentUsers / 100) * userCount));
-  const offPeakWeekendConcurrentUsers = Math.max(1, Math.floor((usagePattern.weekendOffPeakConcurrentUsers / 100) * userCount));
-  
-  // Calculate utilized instance hours
-  const peakWeekendInstanceHours = peakWeekendConcurrentUsers * peakWeekendHours;
-  const offPeakWeekendInstanceHours = offPeakWeekendConcurrentUsers * offPeakWeekendHours;
-  const totalWeekendUtilizedHours = peakWeekendInstanceHours + offPeakWeekendInstanceHours;
-  
-  // 5. Calculate weekend buffer hours (stopped instances)
-  const peakWeekendBufferHours = peakWeekendInstanceHours * BUFFER_FACTOR;
-  const offPeakWeekendBufferHours = offPeakWeekendInstanceHours * BUFFER_FACTOR;
-  const totalWeekendBufferHours = peakWeekendBufferHours + offPeakWeekendBufferHours;
-  
-  // 6. Calculate total hours
-  const totalUtilizedHours = totalWeekdayUtilizedHours + totalWeekendUtilizedHours;
-  const totalBufferHours = totalWeekdayBufferHours + totalWeekendBufferHours;
-  const totalInstanceHours = totalUtilizedHours + totalBufferHours;
-  
-  // 7. Calculate costs
-  const activeStreamingCost = totalUtilizedHours * ACTIVE_STREAMING_RATE;
-  const stoppedInstanceCost = totalBufferHours * STOPPED_INSTANCE_RATE;
-  
-  // 8. Total cost
-  const instanceCost = activeStreamingCost + stoppedInstanceCost;
-  const totalMonthlyCost = userLicenseCost + instanceCost;
-  
-  console.log(`Cost breakdown:
-    - User licenses: ${userLicenseCost.toFixed(2)}
-    - Active streaming: ${activeStreamingCost.toFixed(2)} (${totalUtilizedHours} hrs @ $${ACTIVE_STREAMING_RATE}/hr)
-    - Stopped instances: ${stoppedInstanceCost.toFixed(2)} (${totalBufferHours} hrs @ $${STOPPED_INSTANCE_RATE}/hr)
-    - Total cost: ${totalMonthlyCost.toFixed(2)}
-  `);
-
-  // Add debug logging for verification
-  console.log(`Calculation with API rate:
-    Base hourly rate from API: ${baseHourlyRate}
-    Active streaming rate used: ${ACTIVE_STREAMING_RATE}
-    License type: ${license}
-    Total hours: ${totalInstanceHours}
-    Expected cost: ${(totalInstanceHours * ACTIVE_STREAMING_RATE).toFixed(2)}
-  `);
-  
-  return {
-    userLicenseCost,
-    activeStreamingCost,
-    stoppedInstanceCost,
-    totalMonthlyCost,
-    peakWeekdayHours,
-    offPeakWeekdayHours,
-    peakWeekendHours,
-    offPeakWeekendHours,
-    totalUtilizedHours,
-    totalBufferHours,
-    totalInstanceHours
-  };
-}
-
-export default function CostSummaryPanel({ config, pricingEstimate, isLoading, activeTab = "core" }: CostSummaryPanelProps) {   
   // Determine if we're showing pool pricing or core pricing based on the active tab    
   const isPool = activeTab === "pool";
   
@@ -175,87 +39,12 @@ export default function CostSummaryPanel({ config, pricingEstimate, isLoading, a
     ? (config.poolNumberOfUsers || 10) 
     : config.numberOfWorkspaces;
   
-  // Get the license type from config (use the pool-specific license for pool calculations)
-  const licenseType = isPool ? (config.poolLicense || "included") : (config.license || "included");
-  
-  // Calculate base costs - ensure we have a valid base hourly rate
-  // For AppStream calculations, we want to use the exact API-provided rate when available
-  let baseHourlyCost = 0;
-  
-  if (isPool && pricingEstimate?.poolPricingDetails?.hourlyStreamingRate) {
-    // Use the exact hourly rate from the API for AppStream
-    baseHourlyCost = pricingEstimate.poolPricingDetails.hourlyStreamingRate;
-    console.log(`Using API-provided hourly rate: $${baseHourlyCost}/hr`);
-  } else if (isPool && pricingEstimate) {
-    // Fallback to converting monthly to hourly if needed
-    baseHourlyCost = (pricingEstimate.baseCost / 730) || 0.12;
-    console.log(`Converted monthly to hourly rate: $${baseHourlyCost}/hr`);
-  }
-  
-  console.log(`Final base hourly cost: ${baseHourlyCost}, license: ${licenseType}`);
-  
-  // Get the total monthly cost from pricing estimate
   const fullMonthlyCost = pricingEstimate?.totalMonthlyCost || 0;
-  
-  // For pool calculations, use the pricing details from the API if available
-  let poolCosts = { totalMonthlyCost: 0, userLicenseCost: 0, activeStreamingCost: 0, stoppedInstanceCost: 0, totalInstanceHours: 0 };
-  
-  if (isPool && pricingEstimate?.poolPricingDetails) {
-    // Use the detailed pool pricing data from the API  
-    poolCosts = {
-      totalMonthlyCost: pricingEstimate.totalMonthlyCost || 0,
-      userLicenseCost: pricingEstimate.poolPricingDetails.userLicenseCost || 0,
-      activeStreamingCost: pricingEstimate.poolPricingDetails.activeStreamingCost || 0,
-      stoppedInstanceCost: pricingEstimate.poolPricingDetails.stoppedInstanceCost || 0,
-      totalInstanceHours: pricingEstimate.poolPricingDetails.totalInstanceHours || 0
-    };
-    
-    // Verify the calculation directly in the panel
-    if (pricingEstimate.poolPricingDetails.hourlyStreamingRate && pricingEstimate.poolPricingDetails.totalInstanceHours) {
-      const hourlyRate = pricingEstimate.poolPricingDetails.hourlyStreamingRate;
-      const totalHours = pricingEstimate.poolPricingDetails.totalInstanceHours;
-      const expectedCost = hourlyRate * totalHours;
-      
-      console.log(`Cost Summary Panel Verification:
-        Hours: ${totalHours}
-        Rate: $${hourlyRate}/hr
-        Expected: $${expectedCost.toFixed(2)}
-        Shown: $${poolCosts.activeStreamingCost.toFixed(2)}
-        API Total Monthly: $${pricingEstimate.totalMonthlyCost.toFixed(2)}
-      `);
-    }
-  } else if (isPool && config.poolUsagePattern) {
-    // Fallback to calculating locally if API data isn't available
-    poolCosts = calculatePoolCosts(
-      config.poolUsagePattern, 
-      baseHourlyCost, 
-      userCount,
-      licenseType
-    );
-  }
-  
-  // Ensure we have valid numbers for display   
-  const poolOptimizedMonthlyCost = isPool ? (poolCosts.totalMonthlyCost || 0) : 0;
-  
-  // Calculate savings (only for pool)
-  
-  // Effective cost per user/workspace
-  const effectiveCostPerUser = isPool && userCount > 0    
-    ? poolOptimizedMonthlyCost / userCount
-    : pricingEstimate?.costPerWorkspace || 0;
-  
-  // Format currency values
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(value);
-  };
-  
-  // Format percentage
-  
+
+  // Pool hours and costs as priced by the API, at list prices when discounts apply
+  const poolDetails = isPool ? pricingEstimate?.poolPricingDetails : undefined;
+  const poolListMonthlyCost = pricingEstimate?.discount?.listMonthlyCost ?? fullMonthlyCost;
+
   // Add validation for potential calculation issues
   const hasCalculationIssue = isPool && 
     pricingEstimate?.poolPricingDetails && 
@@ -332,7 +121,7 @@ export default function CostSummaryPanel({ config, pricingEstimate, isLoading, a
                       Cost per WorkSpace
                     </h3>
                     <p className="text-3xl font-bold text-gray-900">
-                      {pricingEstimate ? formatCurrency(pricingEstimate.costPerWorkspace) : "$0.00"}
+                      {pricingEstimate ? formatCurrency(pricingEstimate.costPerWorkspace) : formatCurrency(0)}
                       <span className="text-sm font-normal text-gray-500">/mo</span>
                     </p>
                   </div>
@@ -353,7 +142,7 @@ export default function CostSummaryPanel({ config, pricingEstimate, isLoading, a
                       Effective Cost Per User
                     </h3>
                     <p className="text-3xl font-bold text-gray-900">
-                      {formatCurrency(effectiveCostPerUser)}
+                      {formatCurrency(pricingEstimate?.costPerWorkspace || 0)}
                       <span className="text-sm font-normal text-gray-500">/mo</span>
                     </p>
                   </div>
@@ -384,56 +173,41 @@ export default function CostSummaryPanel({ config, pricingEstimate, isLoading, a
                     <div className="space-y-2">
                       <div className="flex justify-between">
                         <span className="text-sm text-blue-600">User licenses</span>
-                        <span className="text-sm font-medium">{formatCurrency(poolCosts.userLicenseCost)}</span>
+                        <span className="text-sm font-medium">{formatCurrency(poolDetails?.userLicenseCost || 0)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm text-blue-600">Active streaming</span>
-                        <span className="text-sm font-medium">{formatCurrency(poolCosts.activeStreamingCost)}</span>
+                        <span className="text-sm font-medium">{formatCurrency(poolDetails?.activeStreamingCost || 0)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm text-blue-600">Stopped instances</span>
-                        <span className="text-sm font-medium">{formatCurrency(poolCosts.stoppedInstanceCost)}</span>
+                        <span className="text-sm font-medium">{formatCurrency(poolDetails?.stoppedInstanceCost || 0)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm text-blue-600">Total instance hours</span>
-                        <span className="text-sm font-medium">{Math.round(poolCosts.totalInstanceHours || 0)}</span>
+                        <span className="text-sm font-medium">{Math.round(poolDetails?.totalInstanceHours || 0)}</span>
                       </div>
                       <div className="flex justify-between border-t border-blue-200 pt-2 mt-2">
-                        <span className="text-sm font-medium text-blue-700">Total monthly cost</span>
-                        <span className="text-sm font-medium">{formatCurrency(poolCosts.totalMonthlyCost)}</span>
+                        <span className="text-sm font-medium text-blue-700">
+                          {pricingEstimate?.discount ? "List monthly cost" : "Total monthly cost"}
+                        </span>
+                        <span className="text-sm font-medium">{formatCurrency(poolDetails ? poolListMonthlyCost : 0)}</span>
                       </div>
-                      {/* Add additional verification display at the bottom */}
-                      {pricingEstimate?.poolPricingDetails?.hourlyStreamingRate && (
-                        <div className="mt-2 pt-2 border-t border-blue-200 text-xs text-blue-700">
-                          <div className="flex justify-between">
-                            <span>Calculation check:</span>
-                            <span>
-                              {pricingEstimate.poolPricingDetails.totalInstanceHours} hrs × 
-                              ${pricingEstimate.poolPricingDetails.hourlyStreamingRate}/hr = 
-                              ${((pricingEstimate.poolPricingDetails.totalInstanceHours || 0) * 
-                                 (pricingEstimate.poolPricingDetails.hourlyStreamingRate || 0)).toFixed(2)}
-                            </span>
-                          </div>
-                        </div>
-                      )}
                     </div>
                   </div>
                 </div>
               )}
+              {poolDetails?.simulation && <PoolSimulationChart simulation={poolDetails.simulation} />}
               <div className="pt-4 border-t border-gray-200">
                 <h3 className="text-sm font-medium text-gray-500">Total Monthly Cost</h3>
                 <p className="text-3xl font-bold text-gray-900">
-                  {isPool
-                    ? formatCurrency(poolOptimizedMonthlyCost)
-                    : formatCurrency(fullMonthlyCost)}
+                  {formatCurrency(fullMonthlyCost)}
                 </p>
               </div>
               <div>
                 <h3 className="text-sm font-medium text-gray-500">Annual Estimate</h3>
                 <p className="text-xl font-semibold text-gray-900">
-                  {isPool
-                    ? formatCurrency(poolOptimizedMonthlyCost * 12)
-                    : formatCurrency(fullMonthlyCost * 12)}
+                  {formatCurrency(pricingEstimate?.annualEstimate || 0)}
                 </p>
               </div>
             </div>
@@ -495,17 +269,70 @@ export default function CostSummaryPanel({ config, pricingEstimate, isLoading, a
               )}
             </div>
 
-            {/* Add special debugging for AppStream calculations */}
-            {isPool && config.isAppStream === true && pricingEstimate?.poolPricingDetails && (
-              <div className="mt-2 p-2 bg-amber-50 border border-amber-100 rounded-md">
-                <div className="text-xs text-amber-800 font-medium">Pricing Verification</div>
-                <div className="text-xs text-amber-700">
-                  API Rate: ${pricingEstimate.poolPricingDetails.hourlyStreamingRate}/hr<br />
-                  Hours: {Math.round(pricingEstimate.poolPricingDetails.totalInstanceHours || 0)}<br />
-                  Expected: ${((pricingEstimate.poolPricingDetails.hourlyStreamingRate || 0) * 
-                             (pricingEstimate.poolPricingDetails.totalInstanceHours || 0)).toFixed(2)}<br />
-                  Displayed: ${poolCosts.activeStreamingCost.toFixed(2)}
+            {pricingEstimate?.lineItems && (
+              <LineItemsTable
+                className="mt-6 pt-6 border-t border-gray-200"
+                lineItems={pricingEstimate.lineItems}
+                totalMonthlyCost={pricingEstimate.totalMonthlyCost}
+                discount={pricingEstimate.discount}
+              />
+            )}
+
+            {pricingEstimate?.commitments && (
+              <CommitmentOptions
+                className="mt-6 pt-6 border-t border-gray-200"
+                commitments={pricingEstimate.commitments}
+              />
+            )}
+
+            {pricingEstimate && userCount > 0 && (
+              <TcoProjection
+                className="mt-6 pt-6 border-t border-gray-200"
+                monthlyCostPerUser={pricingEstimate.costPerWorkspace}
+                plannedUsers={userCount}
+              />
+            )}
+
+            {pricingEstimate && userCount > 0 && (
+              <OnPremComparison
+                className="mt-6 pt-6 border-t border-gray-200"
+                cloudMonthlyCost={pricingEstimate.totalMonthlyCost}
+                seats={userCount}
+              />
+            )}
+
+            {!isPool && pricingEstimate?.autoStop && (
+              <div className="mt-4 p-3 bg-blue-50 rounded-md border border-blue-100">
+                <div className="text-sm font-medium text-blue-800">AutoStop vs AlwaysOn</div>
+                <div className="text-xs text-blue-700 mt-1">
+                  {formatCurrency(pricingEstimate.autoStop.fixedMonthlyFee)}/month + {formatCurrency(pricingEstimate.autoStop.hourlyRate, 3)}/hr
+                  {" "}at {Math.round(pricingEstimate.autoStop.hoursPerUser)} hrs per user
                 </div>
+                {pricingEstimate.autoStop.breakevenHours !== null ? (
+                  <div className="text-xs text-blue-700">
+                    AlwaysOn ({formatCurrency(pricingEstimate.autoStop.alwaysOnMonthlyCost ?? 0)}/month) is cheaper above
+                    {" "}{pricingEstimate.autoStop.breakevenHours} hrs per month
+                    {pricingEstimate.autoStop.usersAboveBreakeven
+                      ? ` — ${pricingEstimate.autoStop.usersAboveBreakeven} of ${config.numberOfWorkspaces} WorkSpaces exceed it`
+                      : ""}
+                  </div>
+                ) : (
+                  <div className="text-xs text-blue-700">AlwaysOn pricing is unavailable, breakeven could not be calculated</div>
+                )}
+              </div>
+            )}
+
+            {pricingEstimate && getExportRequest && (
+              <div className="mt-6 pt-4 border-t border-gray-200 flex justify-between items-center">
+                <span className="text-sm text-gray-500">Export estimate</span>
+                <ExportEstimateButtons getExportRequest={getExportRequest} />
+              </div>
+            )}
+
+            {pricingEstimate && getExportRequest && (
+              <div className="mt-3 flex justify-between items-center">
+                <span className="text-sm text-gray-500">Customer proposal (PDF)</span>
+                <DownloadProposalButton getExportRequest={getExportRequest} />
               </div>
             )}
           </>
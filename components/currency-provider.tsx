@@ -0,0 +1,78 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { fetchCurrencyOptions } from '@/lib/api';
+import {
+  BASE_CURRENCY,
+  DEFAULT_EXCHANGE_RATES,
+  USD_DISPLAY_CURRENCY,
+  formatCurrencyAmount,
+  getDisplayCurrency,
+  getTableCurrencies,
+} from '@/lib/currency';
+import { readShareState, writeShareState } from '@/lib/share-state';
+import type { CurrencyInfo, DisplayCurrency, ExchangeRateTable } from '@/types/currency';
+
+interface CurrencyContextValue {
+  currency: DisplayCurrency;
+  currencies: CurrencyInfo[];
+  exchangeRates: ExchangeRateTable;
+  setCurrencyCode: (code: string) => void;
+  // Formats a USD amount in the selected currency
+  formatCurrency: (amountUsd: number, maximumFractionDigits?: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue>({
+  currency: USD_DISPLAY_CURRENCY,
+  currencies: getTableCurrencies(DEFAULT_EXCHANGE_RATES),
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  setCurrencyCode: () => {},
+  formatCurrency: (amountUsd, maximumFractionDigits) =>
+    formatCurrencyAmount(amountUsd, USD_DISPLAY_CURRENCY, { maximumFractionDigits }),
+});
+
+/**
+ * Holds the currency the calculators show their estimates in, kept in the shared link
+ */
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>(DEFAULT_EXCHANGE_RATES);
+  const [currencyCode, setCurrencyCode] = useState(BASE_CURRENCY);
+
+  useEffect(() => {
+    const sharedCurrency = readShareState()?.currency;
+    if (sharedCurrency) {
+      setCurrencyCode(sharedCurrency);
+    }
+
+    fetchCurrencyOptions()
+      .then(options => setExchangeRates(options.exchangeRates))
+      .catch(error => console.error('Failed to load exchange rates, using the built-in table:', error));
+  }, []);
+
+  // A currency the table has no rate for is shown in USD
+  const currency = getDisplayCurrency(currencyCode, exchangeRates) || USD_DISPLAY_CURRENCY;
+
+  const handleCurrencyChange = (code: string) => {
+    setCurrencyCode(code);
+    writeShareState({ currency: code === BASE_CURRENCY ? undefined : code });
+  };
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        currency,
+        currencies: getTableCurrencies(exchangeRates),
+        exchangeRates,
+        setCurrencyCode: handleCurrencyChange,
+        formatCurrency: (amountUsd, maximumFractionDigits) =>
+          formatCurrencyAmount(amountUsd, currency, { maximumFractionDigits }),
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency(): CurrencyContextValue {
+  return useContext(CurrencyContext);
+}
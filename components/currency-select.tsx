@@ -0,0 +1,28 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrency } from './currency-provider';
+
+// Currency the estimates are shown in, with the date of the exchange rates
+export function CurrencySelect() {
+  const { currency, currencies, exchangeRates, setCurrencyCode } = useCurrency();
+
+  return (
+    <Select value={currency.code} onValueChange={setCurrencyCode}>
+      <SelectTrigger
+        aria-label="Currency"
+        className="w-[110px]"
+        title={`Exchange rates effective ${exchangeRates.effectiveDate}`}
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map((option) => (
+          <SelectItem key={option.code} value={option.code}>
+            {option.code} - {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
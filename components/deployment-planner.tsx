@@ -0,0 +1,377 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { OptionSelect } from './option-select';
+import { calculateDeploymentPricing } from '@/lib/api';
+import {
+  APPSTREAM_INSTANCE_TYPES,
+  APPSTREAM_USAGE_PATTERNS,
+  CORE_BUNDLES,
+  createDeploymentGroup,
+  DEPLOYMENT_GROUP_TYPES,
+  LICENSES,
+  POOL_BUNDLES,
+  RUNNING_MODES,
+} from '@/lib/deployments';
+import { regions } from '@/lib/regions';
+import type { AppStreamEstimateRequest } from '@/types/appstream';
+import type { DeploymentEstimate, DeploymentGroup, DeploymentGroupType } from '@/types/deployment';
+import type { WorkSpaceConfig } from '@/types/workspace';
+import { useCurrency } from './currency-provider';
+import { useDiscounts } from './discounts-provider';
+
+// Fixed id so the server and client render the same markup
+const INITIAL_GROUPS: DeploymentGroup[] = [{ ...createDeploymentGroup('core', 'Group 1'), id: 'group-1' }];
+
+const regionOptions = regions.map(region => ({ value: region.code, label: region.name }));
+
+export default function DeploymentPlanner() {
+  const { formatCurrency } = useCurrency();
+  const { discounts } = useDiscounts();
+  const [name, setName] = useState('New deployment');
+  const [groups, setGroups] = useState<DeploymentGroup[]>(INITIAL_GROUPS);
+  const [estimate, setEstimate] = useState<DeploymentEstimate | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateGroup = (id: string, updates: Partial<DeploymentGroup>) => {
+    setGroups(groups.map(group => group.id === id ? { ...group, ...updates } : group));
+  };
+
+  const updateWorkspaceConfig = (group: DeploymentGroup, updates: Partial<WorkSpaceConfig>) => {
+    updateGroup(group.id, { workspaceConfig: { ...group.workspaceConfig!, ...updates } });
+  };
+
+  const updateAppStreamConfig = (group: DeploymentGroup, updates: Partial<AppStreamEstimateRequest>) => {
+    updateGroup(group.id, { appStreamConfig: { ...group.appStreamConfig!, ...updates } });
+  };
+
+  // Switching type starts the group over with that calculator's defaults
+  const changeGroupType = (group: DeploymentGroup, type: DeploymentGroupType) => {
+    const replacement = createDeploymentGroup(type, group.name);
+    setGroups(groups.map(item => item.id === group.id ? replacement : item));
+  };
+
+  const addGroup = () => {
+    setGroups([...groups, createDeploymentGroup('core', `Group ${groups.length + 1}`)]);
+  };
+
+  const removeGroup = (id: string) => {
+    setGroups(groups.filter(group => group.id !== id));
+  };
+
+  const handleCalculate = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEstimate(await calculateDeploymentPricing({ name, groups, discounts }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to calculate deployment pricing');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderGroupFields = (group: DeploymentGroup) => {
+    if (group.type === 'appstream' && group.appStreamConfig) {
+      const config = group.appStreamConfig;
+      return (
+        <>
+          <OptionSelect
+            id={`${group.id}-region`}
+            label="AWS Region"
+            value={config.region}
+            options={regionOptions}
+            onChange={(value) => updateAppStreamConfig(group, { region: value })}
+          />
+          <OptionSelect
+            id={`${group.id}-instance`}
+            label="Instance Type"
+            value={config.instanceType}
+            options={APPSTREAM_INSTANCE_TYPES.map(type => ({ value: type.value, label: type.value }))}
+            onChange={(value) => updateAppStreamConfig(group, {
+              instanceType: value,
+              instanceFamily: APPSTREAM_INSTANCE_TYPES.find(type => type.value === value)?.family || config.instanceFamily,
+              instanceSpecs: null
+            })}
+          />
+          <OptionSelect
+            id={`${group.id}-pattern`}
+            label="Usage Pattern"
+            value={config.usagePattern || 'business-hours'}
+            options={APPSTREAM_USAGE_PATTERNS}
+            onChange={(value) => updateAppStreamConfig(group, { usagePattern: value })}
+          />
+          <div>
+            <Label htmlFor={`${group.id}-users`}>Users</Label>
+            <Input
+              id={`${group.id}-users`}
+              type="number"
+              min={1}
+              value={config.userCount || 0}
+              onChange={(e) => {
+                const userCount = parseInt(e.target.value, 10) || 0;
+                // Business hours and always-on size the fleet from peak concurrency
+                updateAppStreamConfig(group, { userCount, weekdayPeakConcurrentUsers: userCount });
+              }}
+            />
+          </div>
+        </>
+      );
+    }
+
+    if (!group.workspaceConfig) {
+      return null;
+    }
+    const config = group.workspaceConfig;
+
+    if (group.type === 'pool') {
+      return (
+        <>
+          <OptionSelect
+            id={`${group.id}-region`}
+            label="AWS Region"
+            value={config.poolRegion || config.region}
+            options={regionOptions}
+            onChange={(value) => updateWorkspaceConfig(group, { poolRegion: value })}
+          />
+          <OptionSelect
+            id={`${group.id}-bundle`}
+            label="Pool Bundle"
+            value={config.poolBundleId || 'pool-standard'}
+            options={POOL_BUNDLES}
+            onChange={(value) => updateWorkspaceConfig(group, { poolBundleId: value })}
+          />
+          <OptionSelect
+            id={`${group.id}-license`}
+            label="License Type"
+            value={config.poolLicense || 'included'}
+            options={LICENSES}
+            onChange={(value) => updateWorkspaceConfig(group, { poolLicense: value })}
+          />
+          <div>
+            <Label htmlFor={`${group.id}-users`}>Users</Label>
+            <Input
+              id={`${group.id}-users`}
+              type="number"
+              min={1}
+              value={config.poolNumberOfUsers || 0}
+              onChange={(e) => updateWorkspaceConfig(group, { poolNumberOfUsers: parseInt(e.target.value, 10) || 0 })}
+            />
+          </div>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <OptionSelect
+          id={`${group.id}-region`}
+          label="AWS Region"
+          value={config.region}
+          options={regionOptions}
+          onChange={(value) => updateWorkspaceConfig(group, { region: value })}
+        />
+        <OptionSelect
+          id={`${group.id}-bundle`}
+          label="WorkSpace Bundle"
+          value={config.bundleId}
+          options={CORE_BUNDLES}
+          onChange={(value) => updateWorkspaceConfig(group, { bundleId: value })}
+        />
+        <OptionSelect
+          id={`${group.id}-mode`}
+          label="Running Mode"
+          value={config.runningMode}
+          options={RUNNING_MODES}
+          onChange={(value) => updateWorkspaceConfig(group, {
+            runningMode: value,
+            billingOption: value === 'auto-stop' ? 'hourly' : 'monthly'
+          })}
+        />
+        <OptionSelect
+          id={`${group.id}-license`}
+          label="License Type"
+          value={config.license || 'included'}
+          options={LICENSES}
+          onChange={(value) => updateWorkspaceConfig(group, { license: value })}
+        />
+        <div>
+          <Label htmlFor={`${group.id}-count`}>Number of WorkSpaces</Label>
+          <Input
+            id={`${group.id}-count`}
+            type="number"
+            min={1}
+            value={config.numberOfWorkspaces || 0}
+            onChange={(e) => updateWorkspaceConfig(group, { numberOfWorkspaces: parseInt(e.target.value, 10) || 0 })}
+          />
+        </div>
+        {config.runningMode === 'auto-stop' && (
+          <div>
+            <Label htmlFor={`${group.id}-hours`}>Hours per User per Month</Label>
+            <Input
+              id={`${group.id}-hours`}
+              type="number"
+              min={0}
+              max={730}
+              value={config.autoStopHoursPerUser ?? 160}
+              onChange={(e) => updateWorkspaceConfig(group, { autoStopHoursPerUser: parseInt(e.target.value, 10) || 0 })}
+            />
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <Card className="bg-white shadow-sm border-gray-200">
+        <CardContent className="p-6 space-y-6">
+          <div>
+            <Label htmlFor="deploymentName">Deployment Name</Label>
+            <Input id="deploymentName" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          {groups.map((group) => (
+            <div key={group.id} className="p-4 border border-gray-200 rounded-md space-y-4">
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label htmlFor={`${group.id}-name`}>Group Name</Label>
+                  <Input
+                    id={`${group.id}-name`}
+                    value={group.name}
+                    onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeGroup(group.id)}
+                  disabled={groups.length === 1}
+                  aria-label={`Remove ${group.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <OptionSelect
+                id={`${group.id}-type`}
+                label="Service"
+                value={group.type}
+                options={DEPLOYMENT_GROUP_TYPES}
+                onChange={(value) => changeGroupType(group, value as DeploymentGroupType)}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                {renderGroupFields(group)}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={addGroup}>
+              <Plus className="h-4 w-4 mr-1" /> Add Group
+            </Button>
+            <Button onClick={handleCalculate} disabled={loading}>
+              {loading ? 'Calculating...' : 'Calculate Deployment'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm border-gray-200">
+        <CardContent className="p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Deployment Estimate</h2>
+
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {!estimate ? (
+            <p className="text-sm text-gray-500">Add user groups and calculate to see the combined estimate.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                <div>
+                  <div className="text-sm text-gray-500">Monthly Cost</div>
+                  <div className="text-2xl font-bold text-gray-900">{formatCurrency(estimate.totalMonthlyCost)}</div>
+                  {estimate.discount && (
+                    <div className="text-xs text-gray-500">
+                      List {formatCurrency(estimate.discount.listMonthlyCost)}, less {formatCurrency(estimate.discount.discountAmount)} in discounts
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Annual Estimate</div>
+                  <div className="text-2xl font-bold text-gray-900">{formatCurrency(estimate.annualEstimate)}</div>
+                </div>
+              </div>
+
+              <Table className="text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8 px-2">Group</TableHead>
+                    <TableHead className="h-8 px-2">Bundle</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Users</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Per User</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Monthly</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {estimate.groups.map((group) => (
+                    <TableRow key={group.groupId}>
+                      <TableCell className="p-2">
+                        <div className="font-medium text-gray-900">{group.name}</div>
+                        <Badge variant="outline" className="mt-1 text-[10px]">
+                          {DEPLOYMENT_GROUP_TYPES.find(type => type.value === group.type)?.label}
+                        </Badge>
+                        {group.error && <div className="text-red-600 mt-1">{group.error}</div>}
+                      </TableCell>
+                      <TableCell className="p-2 text-gray-700">{group.bundleName || '-'}</TableCell>
+                      <TableCell className="p-2 text-right text-gray-700">{group.userCount}</TableCell>
+                      <TableCell className="p-2 text-right text-gray-700">
+                        {group.error ? '-' : formatCurrency(group.costPerUser)}
+                      </TableCell>
+                      <TableCell className="p-2 text-right font-medium text-gray-900">
+                        {group.error ? '-' : formatCurrency(group.monthlyCost)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2} className="p-2 font-medium">Total</TableCell>
+                    <TableCell className="p-2 text-right font-medium">{estimate.totalUsers}</TableCell>
+                    <TableCell />
+                    <TableCell className="p-2 text-right font-medium">{formatCurrency(estimate.totalMonthlyCost)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+
+              {estimate.priceBook && (
+                <p className="text-xs text-gray-500 mt-4">Price book: {estimate.priceBook.version}</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
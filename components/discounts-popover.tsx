@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Percent, Plus, X } from 'lucide-react';
+import { DISCOUNT_SERVICES, hasDiscounts, validateDiscountSettings } from '@/lib/pricing-engine';
+import type { CommitmentTier } from '@/types/commitments';
+import type { DiscountService, DiscountSettings } from '@/types/discounts';
+import { useDiscounts } from './discounts-provider';
+
+// Empty fields are no discount
+const toPercent = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+// A negotiated commitment tier as typed, numbers still text
+type TierFields = Record<keyof CommitmentTier, string>;
+
+const EMPTY_TIER: TierFields = { name: '', annualCommitment: '', discountPercent: '', termYears: '1' };
+
+const TIER_FIELDS: { field: Exclude<keyof CommitmentTier, 'name'>; label: string }[] = [
+  { field: 'annualCommitment', label: 'Spend / year' },
+  { field: 'discountPercent', label: 'Discount (%)' },
+  { field: 'termYears', label: 'Years' },
+];
+
+// EDP and private pricing percentages every calculator prices with
+export function DiscountsPopover() {
+  const { discounts, setDiscounts } = useDiscounts();
+  const [open, setOpen] = useState(false);
+  const [edpPercent, setEdpPercent] = useState('');
+  const [servicePercents, setServicePercents] = useState<Record<DiscountService, string>>({ core: '', pools: '', appstream: '' });
+  const [tiers, setTiers] = useState<TierFields[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setEdpPercent(discounts.edpPercent?.toString() ?? '');
+      setServicePercents({
+        core: discounts.servicePercents?.core?.toString() ?? '',
+        pools: discounts.servicePercents?.pools?.toString() ?? '',
+        appstream: discounts.servicePercents?.appstream?.toString() ?? '',
+      });
+      setTiers((discounts.commitmentTiers || []).map((tier) => ({
+        name: tier.name,
+        annualCommitment: String(tier.annualCommitment),
+        discountPercent: String(tier.discountPercent),
+        termYears: String(tier.termYears),
+      })));
+      setError(null);
+    }
+  };
+
+  const handleApply = () => {
+    const updated: DiscountSettings = {
+      edpPercent: toPercent(edpPercent),
+      servicePercents: {
+        core: toPercent(servicePercents.core),
+        pools: toPercent(servicePercents.pools),
+        appstream: toPercent(servicePercents.appstream),
+      },
+      commitmentTiers: tiers.length > 0
+        ? tiers.map((tier) => ({
+            name: tier.name.trim(),
+            annualCommitment: Number(tier.annualCommitment),
+            discountPercent: Number(tier.discountPercent),
+            termYears: Number(tier.termYears),
+          }))
+        : undefined,
+    };
+    const validationError = validateDiscountSettings(updated);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setDiscounts(updated);
+    setOpen(false);
+  };
+
+  const handleClear = () => {
+    setDiscounts({});
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <Percent className="h-4 w-4 mr-1" />
+          {discounts.edpPercent ? `EDP ${discounts.edpPercent}%` : hasDiscounts(discounts) ? 'Discounted' : 'Discounts'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 space-y-3">
+        <div>
+          <h4 className="font-medium">Discounts</h4>
+          <p className="text-xs text-gray-500">
+            Taken off list prices after any negotiated rates, the service discount first and the EDP on what remains.
+          </p>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="edp-percent">EDP discount (%)</Label>
+          <Input
+            id="edp-percent"
+            type="number"
+            min={0}
+            max={100}
+            step="0.1"
+            value={edpPercent}
+            onChange={(e) => setEdpPercent(e.target.value)}
+          />
+        </div>
+        {DISCOUNT_SERVICES.map((service) => (
+          <div key={service.value} className="space-y-1">
+            <Label htmlFor={`${service.value}-percent`}>{service.label} discount (%)</Label>
+            <Input
+              id={`${service.value}-percent`}
+              type="number"
+              min={0}
+              max={100}
+              step="0.1"
+              value={servicePercents[service.value]}
+              onChange={(e) => setServicePercents({ ...servicePercents, [service.value]: e.target.value })}
+            />
+          </div>
+        ))}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Negotiated commitments</Label>
+            <Button variant="ghost" size="sm" onClick={() => setTiers([...tiers, EMPTY_TIER])}>
+              <Plus className="h-4 w-4 mr-1" /> Add
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Discount tiers of a private pricing agreement, compared with list prices under Commitment Options.
+          </p>
+          {tiers.map((tier, index) => (
+            <div key={index} className="space-y-1 border rounded-md p-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  aria-label="Commitment name"
+                  placeholder="Name, e.g. 3-year PPA"
+                  value={tier.name}
+                  onChange={(e) => setTiers(tiers.map((current, i) => i === index ? { ...current, name: e.target.value } : current))}
+                />
+                <Button variant="ghost" size="icon" onClick={() => setTiers(tiers.filter((_, i) => i !== index))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {TIER_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <Label htmlFor={`tier-${index}-${field}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`tier-${index}-${field}`}
+                      type="number"
+                      min={0}
+                      value={tier[field]}
+                      onChange={(e) => setTiers(tiers.map((current, i) => i === index ? { ...current, [field]: e.target.value } : current))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={handleClear}>Clear</Button>
+          <Button size="sm" onClick={handleApply}>Apply</Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
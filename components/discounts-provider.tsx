@@ -0,0 +1,45 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { hasDiscounts } from '@/lib/pricing-engine';
+import { readShareState, writeShareState } from '@/lib/share-state';
+import type { DiscountSettings } from '@/types/discounts';
+
+interface DiscountsContextValue {
+  discounts: DiscountSettings;
+  setDiscounts: (discounts: DiscountSettings) => void;
+}
+
+const DiscountsContext = createContext<DiscountsContextValue>({
+  discounts: {},
+  setDiscounts: () => {},
+});
+
+/**
+ * Holds the customer discounts the calculators price with, kept in the shared link
+ */
+export function DiscountsProvider({ children }: { children: ReactNode }) {
+  const [discounts, setDiscounts] = useState<DiscountSettings>({});
+
+  useEffect(() => {
+    const sharedDiscounts = readShareState()?.discounts;
+    if (sharedDiscounts) {
+      setDiscounts(sharedDiscounts);
+    }
+  }, []);
+
+  const handleDiscountsChange = (updated: DiscountSettings) => {
+    setDiscounts(updated);
+    writeShareState({ discounts: hasDiscounts(updated) ? updated : undefined });
+  };
+
+  return (
+    <DiscountsContext.Provider value={{ discounts, setDiscounts: handleDiscountsChange }}>
+      {children}
+    </DiscountsContext.Provider>
+  );
+}
+
+export function useDiscounts(): DiscountsContextValue {
+  return useContext(DiscountsContext);
+}
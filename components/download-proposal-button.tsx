@@ -0,0 +1,55 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { FileText } from 'lucide-react';
+import { downloadProposal } from '@/lib/api';
+import { getExportFileName } from '@/lib/estimate-export';
+import { isBaseCurrency } from '@/lib/currency';
+import { useCurrency } from './currency-provider';
+import type { EstimateExportRequest } from '@/types/estimates';
+
+interface DownloadProposalButtonProps {
+  // Collects the estimate and its assumptions, called when the proposal is requested
+  getExportRequest: () => Promise<EstimateExportRequest>;
+  className?: string;
+}
+
+export function DownloadProposalButton({ getExportRequest, className }: DownloadProposalButtonProps) {
+  const { currency } = useCurrency();
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      // Amounts stay in USD, with the selected currency added next to them
+      const exportRequest = {
+        ...await getExportRequest(),
+        currency: isBaseCurrency(currency) ? undefined : currency,
+      };
+      const file = await downloadProposal(exportRequest);
+
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getExportFileName(exportRequest.name, 'pdf');
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate proposal');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <Button variant="outline" size="sm" onClick={handleDownload} disabled={generating}>
+        <FileText className="h-4 w-4 mr-1" /> {generating ? 'Generating...' : 'Download proposal'}
+      </Button>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import RightsizingRecommendations from './rightsizing-recommendations';
+import EnvironmentRunningModes from './environment-running-modes';
+import { calculateDeploymentPricing, fetchCurrentWorkspaces } from '@/lib/api';
+import {
+  buildInventoryDeployment,
+  getInventoryGroupName,
+  groupWorkspaceInventory,
+  isPricedComputeType,
+} from '@/lib/inventory';
+import { DEFAULT_AUTOSTOP_HOURS_PER_USER } from '@/lib/pricing-engine';
+import { getRegionName, getServiceRegions } from '@/lib/regions';
+import type { DeploymentEstimate } from '@/types/deployment';
+import type { InventoryGroup, WorkspaceInventory } from '@/types/inventory';
+import { useCurrency } from './currency-provider';
+
+// Regions WorkSpaces is offered in
+const regions = getServiceRegions('core');
+
+export default function EnvironmentAnalysis() {
+  const { formatCurrency } = useCurrency();
+  const [selectedRegions, setSelectedRegions] = useState<string[]>(['us-east-1']);
+  const [inventory, setInventory] = useState<WorkspaceInventory | null>(null);
+  const [groups, setGroups] = useState<InventoryGroup[]>([]);
+  const [estimate, setEstimate] = useState<DeploymentEstimate | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleRegion = (code: string, checked: boolean) => {
+    setSelectedRegions(checked
+      ? [...selectedRegions, code]
+      : selectedRegions.filter(region => region !== code));
+  };
+
+  const handleAnalyze = async () => {
+    setLoading(true);
+    setError(null);
+    setEstimate(null);
+    try {
+      const result = await fetchCurrentWorkspaces(selectedRegions);
+      const inventoryGroups = groupWorkspaceInventory(result.workspaces);
+      setInventory(result);
+      setGroups(inventoryGroups);
+
+      const deployment = buildInventoryDeployment(inventoryGroups);
+      if (deployment.groups.length > 0) {
+        setEstimate(await calculateDeploymentPricing(deployment));
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to analyze the environment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getGroupEstimate = (group: InventoryGroup) =>
+    estimate?.groups.find(groupEstimate => groupEstimate.groupId === group.id);
+
+  const workspaceCount = groups.reduce((sum, group) => sum + group.count, 0);
+  const hasAutoStop = groups.some(group => group.runningMode === 'auto-stop');
+
+  return (
+    <div className="grid md:grid-cols-3 gap-6">
+      <Card className="bg-white shadow-sm border-gray-200">
+        <CardContent className="p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Analyze My Environment</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Lists the WorkSpaces of your AWS account in the selected regions, groups them by configuration
+              and prices each group at current rates.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Regions</Label>
+            {regions.map((region) => (
+              <div key={region.code} className="flex items-center gap-2">
+                <Checkbox
+                  id={`inventory-region-${region.code}`}
+                  checked={selectedRegions.includes(region.code)}
+                  onCheckedChange={(checked) => toggleRegion(region.code, checked === true)}
+                />
+                <Label htmlFor={`inventory-region-${region.code}`} className="font-normal">
+                  {region.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <Button onClick={handleAnalyze} disabled={loading || selectedRegions.length === 0} className="w-full">
+            {loading ? 'Analyzing...' : 'Analyze my environment'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm border-gray-200 md:col-span-2">
+        <CardContent className="p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Current Run-Rate</h2>
+
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {inventory && inventory.errors.length > 0 && (
+            <Alert className="mb-4">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {inventory.errors.map((regionError) => (
+                  <div key={regionError.region}>
+                    {getRegionName(regionError.region)}: {regionError.error}
+                  </div>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {!inventory ? (
+            <p className="text-sm text-gray-500">Select regions and analyze to price your existing WorkSpaces.</p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-gray-500">No billable WorkSpaces found in the selected regions.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                <div>
+                  <div className="text-sm text-gray-500">WorkSpaces</div>
+                  <div className="text-2xl font-bold text-gray-900">{workspaceCount}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Monthly Run-Rate</div>
+                  <div className="text-2xl font-bold text-gray-900">
+                    {estimate ? formatCurrency(estimate.totalMonthlyCost) : '-'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Annual Run-Rate</div>
+                  <div className="text-2xl font-bold text-gray-900">
+                    {estimate ? formatCurrency(estimate.annualEstimate) : '-'}
+                  </div>
+                </div>
+              </div>
+
+              <Table className="text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8 px-2">Region</TableHead>
+                    <TableHead className="h-8 px-2">Configuration</TableHead>
+                    <TableHead className="h-8 px-2 text-right">WorkSpaces</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Per WorkSpace</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Monthly</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map((group) => {
+                    const groupEstimate = getGroupEstimate(group);
+                    const groupError = !isPricedComputeType(group.computeTypeName)
+                      ? `Compute type ${group.computeTypeName} is not priced by the calculator`
+                      : groupEstimate?.error;
+                    return (
+                      <TableRow key={group.id}>
+                        <TableCell className="p-2 text-gray-700">{getRegionName(group.region)}</TableCell>
+                        <TableCell className="p-2">
+                          <div className="font-medium text-gray-900">{getInventoryGroupName(group)}</div>
+                          <div className="flex gap-1 mt-1">
+                            <Badge variant="outline" className="text-[10px]">{group.operatingSystem}</Badge>
+                            {group.license === 'bring-your-own-license' && (
+                              <Badge variant="outline" className="text-[10px]">BYOL</Badge>
+                            )}
+                          </div>
+                          {groupError && <div className="text-red-600 mt-1">{groupError}</div>}
+                        </TableCell>
+                        <TableCell className="p-2 text-right text-gray-700">{group.count}</TableCell>
+                        <TableCell className="p-2 text-right text-gray-700">
+                          {groupEstimate && !groupError ? formatCurrency(groupEstimate.costPerUser) : '-'}
+                        </TableCell>
+                        <TableCell className="p-2 text-right font-medium text-gray-900">
+                          {groupEstimate && !groupError ? formatCurrency(groupEstimate.monthlyCost) : '-'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+                {estimate && (
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={2} className="p-2 font-medium">Total priced</TableCell>
+                      <TableCell className="p-2 text-right font-medium">{estimate.totalUsers}</TableCell>
+                      <TableCell />
+                      <TableCell className="p-2 text-right font-medium">{formatCurrency(estimate.totalMonthlyCost)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                )}
+              </Table>
+
+              {hasAutoStop && (
+                <p className="text-xs text-gray-500 mt-4">
+                  AutoStop WorkSpaces are priced at {DEFAULT_AUTOSTOP_HOURS_PER_USER} hours per month each; actual
+                  usage is not read from the account.
+                </p>
+              )}
+              {estimate?.priceBook && (
+                <p className="text-xs text-gray-500 mt-2">Price book: {estimate.priceBook.version}</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <RightsizingRecommendations regions={selectedRegions} />
+      <EnvironmentRunningModes regions={selectedRegions} />
+    </div>
+  );
+}
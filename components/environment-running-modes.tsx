@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { RunningModePlanTable } from './running-mode-plan-table';
+import { fetchEnvironmentRunningModes } from '@/lib/api';
+import { getInventoryGroupName } from '@/lib/inventory';
+import type { EnvironmentRunningModePlan } from '@/types/running-mode';
+import { useCurrency } from './currency-provider';
+
+const DEFAULT_MONTHS = 3;
+
+interface EnvironmentRunningModesProps {
+  regions: string[];
+}
+
+export default function EnvironmentRunningModes({ regions }: EnvironmentRunningModesProps) {
+  const { formatCurrency } = useCurrency();
+  const [months, setMonths] = useState(DEFAULT_MONTHS);
+  const [result, setResult] = useState<EnvironmentRunningModePlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePlan = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await fetchEnvironmentRunningModes(regions, months));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to plan running modes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white shadow-sm border-gray-200 md:col-span-3">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Running Mode Plan</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Replays the connected hours of each WorkSpace in the last complete months on both running modes and
+              picks the cheaper one per month, at the rates of its bundle and region.
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <Label htmlFor="runningModeMonths">Months</Label>
+              <Input
+                id="runningModeMonths"
+                type="number"
+                min={1}
+                max={12}
+                className="w-24"
+                value={months}
+                onChange={(e) => setMonths(parseInt(e.target.value, 10) || DEFAULT_MONTHS)}
+              />
+            </div>
+            <Button onClick={handlePlan} disabled={loading || regions.length === 0}>
+              {loading ? 'Planning...' : 'Plan running modes'}
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && result.errors.length > 0 && (
+          <Alert className="mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {result.errors.map((regionError) => (
+                <div key={regionError.region}>{regionError.error}</div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div>
+                <div className="text-sm text-gray-500">Current Modes</div>
+                <div className="text-2xl font-bold text-gray-900">{formatCurrency(result.currentCost)}</div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-500">Optimal Modes</div>
+                <div className="text-2xl font-bold text-gray-900">{formatCurrency(result.optimalCost)}</div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-500">Savings over {result.months.length} months</div>
+                <div className="text-2xl font-bold text-green-700">{formatCurrency(result.savings)}</div>
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              {result.groups.map((item) => (
+                <div key={item.group.id}>
+                  <h3 className="text-sm font-medium text-gray-900">
+                    {item.group.region}: {getInventoryGroupName(item.group)}
+                  </h3>
+                  {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+                  {item.plan && <RunningModePlanTable plan={item.plan} className="mt-2" />}
+                  {item.plan && item.unmeasuredWorkspaces > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {item.unmeasuredWorkspaces} WorkSpaces without connection data are left out.
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download } from 'lucide-react';
+import { exportEstimate } from '@/lib/api';
+import { getExportFileName } from '@/lib/estimate-export';
+import { isBaseCurrency } from '@/lib/currency';
+import { useCurrency } from './currency-provider';
+import type { EstimateExportFormat, EstimateExportRequest } from '@/types/estimates';
+
+interface ExportEstimateButtonsProps {
+  // Collects the estimate and its assumptions, called when an export is requested
+  getExportRequest: () => Promise<EstimateExportRequest>;
+  className?: string;
+}
+
+export function ExportEstimateButtons({ getExportRequest, className }: ExportEstimateButtonsProps) {
+  const { currency } = useCurrency();
+  const [exporting, setExporting] = useState<EstimateExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: EstimateExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      // Amounts stay in USD, with the selected currency added next to them
+      const exportRequest = {
+        ...await getExportRequest(),
+        currency: isBaseCurrency(currency) ? undefined : currency,
+      };
+      const file = await exportEstimate(exportRequest, format);
+
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getExportFileName(exportRequest.name, format);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to export estimate');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={exporting !== null}>
+          <Download className="h-4 w-4 mr-1" /> {exporting === 'csv' ? 'Exporting...' : 'CSV'}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')} disabled={exporting !== null}>
+          <Download className="h-4 w-4 mr-1" /> {exporting === 'xlsx' ? 'Exporting...' : 'Excel'}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { Info } from "lucide-react"
+import type { EstimateDiscount } from "@/types/discounts"
+import type { PricingLineItem } from "@/types/workspace"
+import { useCurrency } from "./currency-provider"
+
+interface LineItemsTableProps {
+  lineItems: PricingLineItem[]
+  totalMonthlyCost: number
+  // Adds the list price above the net total of discounted estimates
+  discount?: EstimateDiscount
+  className?: string
+}
+
+const formatQuantity = (value: number) =>
+  new Intl.NumberFormat('en-US', { maximumFractionDigits: 1 }).format(value)
+
+export function LineItemsTable({ lineItems, totalMonthlyCost, discount, className }: LineItemsTableProps) {
+  const { formatCurrency } = useCurrency()
+  if (lineItems.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={className}>
+      <h3 className="text-sm font-medium text-gray-500 mb-2">Cost Breakdown</h3>
+      <TooltipProvider>
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8 px-2">Item</TableHead>
+              <TableHead className="h-8 px-2 text-right">Quantity</TableHead>
+              <TableHead className="h-8 px-2 text-right">Unit Price</TableHead>
+              <TableHead className="h-8 px-2 text-right">Monthly</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lineItems.map((item, index) => (
+              <TableRow key={`${item.description}-${index}`}>
+                <TableCell className="p-2">
+                  <div className="flex items-center gap-1">
+                    <span className="text-gray-900">{item.description}</span>
+                    {(item.note || item.rateCode) && (
+                      <Tooltip>
+                        <TooltipTrigger>
+                          <Info className="h-3 w-3 text-gray-400" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs">
+                          {item.note && <p className="text-xs">{item.note}</p>}
+                          {item.rateCode && <p className="text-xs text-gray-500">Rate code: {item.rateCode}</p>}
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="p-2 text-right text-gray-700">
+                  {formatQuantity(item.quantity)} <span className="text-gray-400">{item.unit}</span>
+                </TableCell>
+                <TableCell className="p-2 text-right text-gray-700">
+                  {formatCurrency(item.unitPrice, 4)}
+                </TableCell>
+                <TableCell className="p-2 text-right font-medium text-gray-900">
+                  {formatCurrency(item.extendedCost)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            {discount && (
+              <TableRow>
+                <TableCell colSpan={3} className="p-2 text-gray-500">List monthly cost</TableCell>
+                <TableCell className="p-2 text-right text-gray-500">{formatCurrency(discount.listMonthlyCost)}</TableCell>
+              </TableRow>
+            )}
+            <TableRow>
+              <TableCell colSpan={3} className="p-2 font-medium">
+                {discount ? "Net monthly cost" : "Total monthly cost"}
+              </TableCell>
+              <TableCell className="p-2 text-right font-medium">{formatCurrency(totalMonthlyCost)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </TooltipProvider>
+    </div>
+  )
+}
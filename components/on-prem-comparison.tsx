@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { OptionSelect } from './option-select';
+import {
+  ON_PREM_COMPARISON_MONTHS,
+  ON_PREM_DEFAULTS,
+  ON_PREM_ENVIRONMENT_KINDS,
+  compareOnPrem,
+  validateOnPremEnvironment,
+} from '@/lib/pricing-engine';
+import type { CloudMigration, OnPremEnvironment, OnPremEnvironmentKind } from '@/types/on-prem';
+import { useCurrency } from './currency-provider';
+
+const chartConfig = {
+  onPremCumulative: { label: 'On-premises', color: 'hsl(var(--chart-1))' },
+  cloudCumulative: { label: 'Cloud', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+type EnvironmentField = keyof Omit<OnPremEnvironment, 'kind' | 'seats'>;
+
+const ENVIRONMENT_FIELDS: { field: EnvironmentField; label: string }[] = [
+  { field: 'hardwareCostPerSeat', label: 'Hardware per seat at refresh' },
+  { field: 'refreshCycleYears', label: 'Refresh cycle (years)' },
+  { field: 'monthsUntilRefresh', label: 'Months until next refresh' },
+  { field: 'brokerLicensePerSeatPerYear', label: 'Citrix/VMware per seat per year' },
+  { field: 'windowsVdaPerSeatPerYear', label: 'Windows VDA per seat per year' },
+  { field: 'datacenterCostPerMonth', label: 'Datacenter power and space per month' },
+  { field: 'adminFtes', label: 'Admin FTEs' },
+  { field: 'annualCostPerFte', label: 'Annual cost per FTE' },
+];
+
+interface OnPremComparisonProps {
+  // Monthly cost of the current WorkSpaces or AppStream estimate
+  cloudMonthlyCost: number;
+  // Users of the estimate, the seats of the on-premises estate
+  seats: number;
+  className?: string;
+}
+
+// Business case of moving today's VDI or physical desktops to the current estimate
+export function OnPremComparison({ cloudMonthlyCost, seats, className }: OnPremComparisonProps) {
+  const { formatCurrency } = useCurrency();
+  const [environment, setEnvironment] = useState<Omit<OnPremEnvironment, 'seats'>>(ON_PREM_DEFAULTS.vdi);
+  const [migration, setMigration] = useState<CloudMigration>({ adminFtes: 1, oneTimeCost: 0 });
+
+  const onPremEnvironment = { ...environment, seats };
+  const error = validateOnPremEnvironment(onPremEnvironment, migration);
+  const comparison = error ? null : compareOnPrem(cloudMonthlyCost, onPremEnvironment, migration);
+  const years = ON_PREM_COMPARISON_MONTHS / 12;
+
+  return (
+    <div className={className}>
+      <h3 className="text-sm font-medium text-gray-500 mb-1">On-Premises Comparison</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Today&apos;s cost of the same {seats} users against this estimate, in USD. The defaults are placeholders,
+        enter the customer&apos;s own figures.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2">
+          <OptionSelect
+            id="on-prem-kind"
+            label="Current environment"
+            value={environment.kind}
+            options={ON_PREM_ENVIRONMENT_KINDS}
+            onChange={(value) => setEnvironment(ON_PREM_DEFAULTS[value as OnPremEnvironmentKind])}
+          />
+        </div>
+        {ENVIRONMENT_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <Label htmlFor={`on-prem-${field}`}>{label}</Label>
+            <Input
+              id={`on-prem-${field}`}
+              type="number"
+              value={environment[field]}
+              onChange={(e) => setEnvironment({ ...environment, [field]: Number(e.target.value) })}
+            />
+          </div>
+        ))}
+        <div>
+          <Label htmlFor="cloud-admin-ftes">Admin FTEs after migration</Label>
+          <Input
+            id="cloud-admin-ftes"
+            type="number"
+            value={migration.adminFtes}
+            onChange={(e) => setMigration({ ...migration, adminFtes: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="cloud-migration-cost">One-time migration cost</Label>
+          <Input
+            id="cloud-migration-cost"
+            type="number"
+            value={migration.oneTimeCost}
+            onChange={(e) => setMigration({ ...migration, oneTimeCost: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+
+      {comparison && (
+        <>
+          <div className="grid grid-cols-2 gap-4 mt-4">
+            <div>
+              <div className="text-xs text-gray-500">Break-even</div>
+              <div className="text-lg font-bold text-gray-900">
+                {comparison.breakevenMonth ? `Month ${comparison.breakevenMonth}` : `Not within ${years} years`}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">{years}-year savings</div>
+              <div className={`text-lg font-bold ${comparison.savings >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                {formatCurrency(comparison.savings)} ({comparison.savingsPercent}%)
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">On-premises per month (hardware amortized)</div>
+              <div className="text-sm font-medium text-gray-900">{formatCurrency(comparison.onPremMonthlyCost)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Cloud per month (with admin FTEs)</div>
+              <div className="text-sm font-medium text-gray-900">{formatCurrency(comparison.cloudMonthlyCost)}</div>
+            </div>
+          </div>
+
+          <ChartContainer config={chartConfig} className="w-full aspect-auto h-56 mt-4">
+            <LineChart data={comparison.months} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} tick={{ fontSize: 11 }} />
+              <YAxis tickLine={false} axisLine={false} tickFormatter={(value) => formatCurrency(Number(value), 0)} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="onPremCumulative" type="stepAfter" stroke="var(--color-onPremCumulative)" dot={false} strokeWidth={2} />
+              <Line dataKey="cloudCumulative" stroke="var(--color-cloudCumulative)" dot={false} strokeWidth={2} />
+            </LineChart>
+          </ChartContainer>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, type ChangeEvent } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Upload, RotateCcw } from 'lucide-react';
+import {
+  DEFAULT_POOL_SCALING_POLICY,
+  buildPoolDemandProfile,
+  parsePoolDemandProfileCsv,
+  validatePoolDemandProfile,
+  validatePoolScalingPolicy,
+} from '@/lib/pricing-engine';
+import type { PoolScalingPolicy, PoolSimulation } from '@/types/pool-simulation';
+import type { PoolUsagePattern, WorkSpaceConfig } from '@/types/workspace';
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const chartConfig = {
+  sessions: { label: 'Sessions', color: 'hsl(var(--chart-1))' },
+  runningInstances: { label: 'Running instances', color: 'hsl(var(--chart-2))' },
+  stoppedBufferInstances: { label: 'Stopped buffer', color: 'hsl(var(--chart-3))' },
+} satisfies ChartConfig;
+
+const POLICY_FIELDS: { field: keyof PoolScalingPolicy; label: string }[] = [
+  { field: 'minCapacity', label: 'Minimum capacity' },
+  { field: 'maxCapacity', label: 'Maximum capacity (0 = none)' },
+  { field: 'scaleOutThresholdPercent', label: 'Scale out below free (%)' },
+  { field: 'scaleOutIncrement', label: 'Scale-out step (instances)' },
+  { field: 'scaleInThresholdPercent', label: 'Scale in above free (%)' },
+  { field: 'scaleInPercentPerHour', label: 'Scale in per hour (%)' },
+  { field: 'bufferCapacityPercent', label: 'Stopped buffer (%)' },
+  { field: 'disconnectTimeoutMinutes', label: 'Disconnect timeout (min)' },
+];
+
+type SimulationConfig = Pick<WorkSpaceConfig, 'poolDemandProfile' | 'poolScalingPolicy'>;
+
+interface PoolCapacitySimulationProps {
+  userCount: number;
+  // Starting point of the hourly profile when the simulation is turned on
+  usagePattern: PoolUsagePattern;
+  demandProfile?: number[];
+  scalingPolicy?: PoolScalingPolicy;
+  onChange: (updates: SimulationConfig) => void;
+  className?: string;
+}
+
+// Hour-by-hour demand profile and scaling policy of a pool, priced by the capacity simulation
+export function PoolCapacitySimulation({
+  userCount,
+  usagePattern,
+  demandProfile,
+  scalingPolicy = DEFAULT_POOL_SCALING_POLICY,
+  onChange,
+  className,
+}: PoolCapacitySimulationProps) {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateHour = (hour: number, value: number) => {
+    if (demandProfile) {
+      onChange({ poolDemandProfile: demandProfile.map((current, i) => i === hour ? value : current) });
+    }
+  };
+
+  const importCsv = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    const profile = parsePoolDemandProfileCsv(await file.text());
+    const error = validatePoolDemandProfile(profile);
+    setImportError(error);
+    if (!error) {
+      onChange({ poolDemandProfile: profile, poolScalingPolicy: scalingPolicy });
+    }
+  };
+
+  const error = demandProfile
+    ? validatePoolDemandProfile(demandProfile) ?? validatePoolScalingPolicy(scalingPolicy)
+    : null;
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="pool-simulation">Simulate autoscaling hour by hour</Label>
+        <Switch
+          id="pool-simulation"
+          checked={!!demandProfile}
+          onCheckedChange={(checked) => onChange(checked
+            ? { poolDemandProfile: buildPoolDemandProfile(usagePattern), poolScalingPolicy: scalingPolicy }
+            : { poolDemandProfile: undefined, poolScalingPolicy: undefined })}
+        />
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Prices the pool from the instances its scaling policy keeps running each hour of the week, instead of the
+        usage pattern above.
+      </p>
+
+      {demandProfile && (
+        <div className="mt-4 space-y-4">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Concurrent users per hour (% of {userCount})</Label>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onChange({ poolDemandProfile: buildPoolDemandProfile(usagePattern) })}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" /> From usage pattern
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="h-4 w-4 mr-1" /> Import CSV
+                    <input type="file" accept=".csv,text/csv" className="hidden" onChange={importCsv} />
+                  </label>
+                </Button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="text-[10px]">
+                <thead>
+                  <tr>
+                    <th />
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <th key={hour} className="font-normal text-gray-500">{hour}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {DAYS.map((day, dayIndex) => (
+                    <tr key={day}>
+                      <th className="pr-1 font-normal text-gray-500 text-left">{day}</th>
+                      {Array.from({ length: 24 }, (_, hour) => {
+                        const weekHour = dayIndex * 24 + hour;
+                        return (
+                          <td key={hour}>
+                            <input
+                              aria-label={`${day} ${hour}:00`}
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={demandProfile[weekHour]}
+                              onChange={(e) => updateHour(weekHour, Number(e.target.value))}
+                              className="w-8 h-6 border rounded-sm text-center"
+                            />
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {importError && <p className="text-xs text-red-600 mt-1">{importError}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {POLICY_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <Label htmlFor={`pool-policy-${field}`}>{label}</Label>
+                <Input
+                  id={`pool-policy-${field}`}
+                  type="number"
+                  value={scalingPolicy[field]}
+                  onChange={(e) => onChange({ poolScalingPolicy: { ...scalingPolicy, [field]: Number(e.target.value) } })}
+                />
+              </div>
+            ))}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PoolSimulationChartProps {
+  simulation: PoolSimulation;
+  className?: string;
+}
+
+// Sessions against running and stopped buffer instances over the simulated week, as priced by the API
+export function PoolSimulationChart({ simulation, className }: PoolSimulationChartProps) {
+  return (
+    <div className={className}>
+      <h3 className="text-sm font-medium text-gray-500 mb-2">Simulated Week</h3>
+      <ChartContainer config={chartConfig} className="w-full aspect-auto h-48">
+        <LineChart data={simulation.hours} margin={{ left: 0, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="hour"
+            tickLine={false}
+            axisLine={false}
+            ticks={DAYS.map((_, dayIndex) => dayIndex * 24)}
+            tickFormatter={(hour) => DAYS[Math.floor(Number(hour) / 24)]}
+            tick={{ fontSize: 11 }}
+          />
+          <YAxis tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line dataKey="sessions" type="stepAfter" stroke="var(--color-sessions)" dot={false} strokeWidth={2} />
+          <Line dataKey="runningInstances" type="stepAfter" stroke="var(--color-runningInstances)" dot={false} strokeWidth={2} />
+          <Line dataKey="stoppedBufferInstances" type="stepAfter" stroke="var(--color-stoppedBufferInstances)" dot={false} />
+        </LineChart>
+      </ChartContainer>
+      <div className="grid grid-cols-2 gap-2 text-xs mt-2">
+        <div className="text-gray-500">Running instance hours / month</div>
+        <div className="text-right font-medium">{Math.round(simulation.provisionedInstanceHours)}</div>
+        <div className="text-gray-500">Of which idle, kept free by scaling</div>
+        <div className="text-right font-medium">{Math.round(simulation.idleInstanceHours)}</div>
+        <div className="text-gray-500">Stopped buffer hours / month</div>
+        <div className="text-right font-medium">{Math.round(simulation.stoppedBufferHours)}</div>
+        <div className="text-gray-500">Peak running instances</div>
+        <div className="text-right font-medium">{simulation.peakRunningInstances}</div>
+      </div>
+      {simulation.unservedSessionHours > 0 && (
+        <p className="text-xs text-amber-600 mt-2">
+          The maximum capacity leaves {Math.round(simulation.unservedSessionHours)} session hours a month without an
+          instance.
+        </p>
+      )}
+    </div>
+  );
+}
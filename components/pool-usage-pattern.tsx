@@ -12,6 +12,7 @@ import { Badge } from "@/components/ui/badge"
 import { Clock, Users, Calendar, ChevronDown, ChevronUp, Info } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { PoolUsagePattern } from "@/types/workspace"
+import { DEFAULT_POOL_BUFFER_PERCENT, POOL_STOPPED_INSTANCE_RATE, USER_LICENSE_COST_PER_MONTH } from "@/lib/pricing-engine"
 
 interface PoolUsagePatternProps {
   value: PoolUsagePattern
@@ -37,6 +38,7 @@ export function PoolUsagePattern({ value = DEFAULT_USAGE_PATTERN, onChange, clas
   const [isWeekdayExpanded, setIsWeekdayExpanded] = useState(true)
   const [isWeekendExpanded, setIsWeekendExpanded] = useState(false)
   const [activeTab, setActiveTab] = useState("weekday")
+  const [isCostInputsExpanded, setIsCostInputsExpanded] = useState(false)
 
   // Helper function to create sliders with labels and tooltips
   const renderSlider = (
@@ -96,6 +98,43 @@ export function PoolUsagePattern({ value = DEFAULT_USAGE_PATTERN, onChange, clas
     )
   }
 
+  // Cost inputs left empty fall back to the pricing engine defaults shown as placeholders
+  const renderCostInput = (
+    id: keyof PoolUsagePattern,
+    label: string,
+    tooltip: string,
+    defaultValue: number,
+    step: number
+  ) => {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`pool-${id}`} className="text-sm">{label}</Label>
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="h-4 w-4 text-muted-foreground cursor-help" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-sm">
+                <p className="text-xs">{tooltip}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+        <Input
+          id={`pool-${id}`}
+          type="number"
+          value={value[id] ?? ""}
+          placeholder={String(defaultValue)}
+          onChange={(e) => onChange({ [id]: e.target.value === "" ? undefined : parseFloat(e.target.value) })}
+          className="w-24 h-8 text-center"
+          min={0}
+          step={step}
+        />
+      </div>
+    )
+  }
+
   return (
     <Card className={cn("border border-muted shadow-sm", className)}>
       <CardContent className="pt-6">
@@ -230,6 +269,36 @@ export function PoolUsagePattern({ value = DEFAULT_USAGE_PATTERN, onChange, clas
           </TabsContent>
         </Tabs>
 
+        <Collapsible open={isCostInputsExpanded} onOpenChange={setIsCostInputsExpanded} className="mt-4">
+          <CollapsibleTrigger className="flex w-full items-center justify-between text-sm font-medium">
+            Cost inputs
+            {isCostInputsExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </CollapsibleTrigger>
+          <CollapsibleContent className="bg-muted/40 rounded-md p-4 mt-2 space-y-3">
+            {renderCostInput(
+              "bufferPercent",
+              "Buffer instances (%)",
+              "Stopped instances kept ready per concurrent user, billed at the stopped instance rate.",
+              DEFAULT_POOL_BUFFER_PERCENT,
+              1
+            )}
+            {renderCostInput(
+              "stoppedInstanceRate",
+              "Stopped instance rate (USD/hr)",
+              "Hourly fee of a stopped buffer instance.",
+              POOL_STOPPED_INSTANCE_RATE,
+              0.01
+            )}
+            {renderCostInput(
+              "userLicenseCostPerMonth",
+              "User license (USD/user/mo)",
+              "Monthly Microsoft RDS SAL fee per user, charged when the license is included.",
+              USER_LICENSE_COST_PER_MONTH,
+              0.01
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+
         <div className="pt-4 flex justify-between text-sm text-muted-foreground">
           <span>💡 Tip: A usage-based Pool can save you money compared to dedicated WorkSpaces.</span>
         </div>
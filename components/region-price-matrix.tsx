@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { OptionSelect } from './option-select';
+import { calculateRegionMatrix } from '@/lib/api';
+import { setRegionMatrixHome } from '@/lib/region-matrix';
+import type { RegionMatrix, RegionMatrixRequest } from '@/types/region-matrix';
+import { useCurrency } from './currency-provider';
+
+const chartConfig = {
+  monthlyCost: { label: 'Monthly cost', color: 'hsl(var(--chart-1))' },
+  home: { label: 'Home region', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+interface RegionPriceMatrixProps {
+  // Builds the configuration to price from the calculator's current settings, null when incomplete
+  getRequest: () => RegionMatrixRequest | null;
+  disabled?: boolean;
+}
+
+export default function RegionPriceMatrix({ getRequest, disabled }: RegionPriceMatrixProps) {
+  const { formatCurrency } = useCurrency();
+  const formatDelta = (value: number) => `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+  const [matrix, setMatrix] = useState<RegionMatrix | null>(null);
+  const [homeRegion, setHomeRegion] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCalculate = async () => {
+    const request = getRequest();
+    if (!request) {
+      setError('Complete the configuration before pricing it in every region');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await calculateRegionMatrix(request);
+      setMatrix(result);
+      setHomeRegion(result.homeRegion);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to calculate region matrix');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The home region can be changed without pricing the regions again
+  const rows = matrix ? setRegionMatrixHome(matrix.rows, homeRegion) : [];
+  const pricedRows = rows.filter(row => !row.error);
+  const chartData = pricedRows.map(row => ({
+    name: row.regionName,
+    monthlyCost: row.monthlyCost,
+    home: row.region === homeRegion
+  }));
+
+  return (
+    <Card className="bg-white shadow-sm border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Price in Every Region</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Prices this configuration in every region WorkSpaces is offered in, cheapest first.
+            </p>
+          </div>
+          <Button onClick={handleCalculate} disabled={loading || disabled}>
+            {loading ? 'Pricing...' : 'Compare regions'}
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {matrix && (
+          <>
+            <OptionSelect
+              id="matrixHomeRegion"
+              label="Home region"
+              value={homeRegion}
+              options={pricedRows.map(row => ({ value: row.region, label: row.regionName }))}
+              onChange={setHomeRegion}
+            />
+
+            {chartData.length > 0 && (
+              <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height: chartData.length * 28 + 40 }}>
+                <BarChart data={chartData} layout="vertical" margin={{ left: 24 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value) => formatCurrency(Number(value))} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={160} tick={{ fontSize: 11 }} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="monthlyCost" radius={4}>
+                    {chartData.map((entry) => (
+                      <Cell key={entry.name} fill={entry.home ? 'var(--color-home)' : 'var(--color-monthlyCost)'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            )}
+
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-8 px-2">Region</TableHead>
+                  <TableHead className="h-8 px-2 text-right">Monthly</TableHead>
+                  <TableHead className="h-8 px-2 text-right">Per User</TableHead>
+                  <TableHead className="h-8 px-2 text-right">vs Home</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.region}>
+                    <TableCell className="p-2">
+                      <div className="flex items-center gap-1">
+                        <span className="font-medium text-gray-900">{row.regionName}</span>
+                        {row.region === homeRegion && <Badge variant="outline" className="text-[10px]">Home</Badge>}
+                        {row.pricingSource === 'calculated' && (
+                          <Badge variant="outline" className="text-[10px]">Estimated</Badge>
+                        )}
+                      </div>
+                      {row.error && <div className="text-red-600 mt-1">{row.error}</div>}
+                    </TableCell>
+                    <TableCell className="p-2 text-right text-gray-900">
+                      {row.error ? '-' : formatCurrency(row.monthlyCost)}
+                    </TableCell>
+                    <TableCell className="p-2 text-right text-gray-700">
+                      {row.error ? '-' : formatCurrency(row.costPerUser)}
+                    </TableCell>
+                    <TableCell
+                      className={`p-2 text-right ${(row.deltaToHome ?? 0) < 0 ? 'text-green-700' : (row.deltaToHome ?? 0) > 0 ? 'text-red-600' : 'text-gray-700'}`}
+                    >
+                      {row.deltaToHome === null ? '-' : `${formatDelta(row.deltaToHome)} (${row.deltaPercent ?? 0}%)`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {matrix.priceBook && (
+              <p className="text-xs text-gray-500">Price book: {matrix.priceBook.version}</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
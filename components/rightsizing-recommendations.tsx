@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { fetchRightsizing } from '@/lib/api';
+import { DEFAULT_LOOKBACK_DAYS } from '@/lib/rightsizing';
+import type { RightsizingAction, RightsizingReport } from '@/types/rightsizing';
+import { useCurrency } from './currency-provider';
+
+const ACTION_LABELS: Record<RightsizingAction, string> = {
+  'switch-to-auto-stop': 'Switch to AutoStop',
+  'switch-to-always-on': 'Switch to AlwaysOn',
+  'downsize': 'Downsize',
+  'upsize': 'Upsize',
+  'move-to-pool': 'Move to Pool',
+};
+
+interface RightsizingRecommendationsProps {
+  regions: string[];
+}
+
+export default function RightsizingRecommendations({ regions }: RightsizingRecommendationsProps) {
+  const { formatCurrency } = useCurrency();
+  const [lookbackDays, setLookbackDays] = useState(DEFAULT_LOOKBACK_DAYS);
+  const [report, setReport] = useState<RightsizingReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAnalyze = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await fetchRightsizing(regions, lookbackDays));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to fetch rightsizing recommendations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const withRecommendations = report?.workspaces.filter(item => item.recommendations.length > 0) || [];
+  const withErrors = report?.workspaces.filter(item => item.error) || [];
+  const alreadyFit = report ? report.workspaces.length - withRecommendations.length - withErrors.length : 0;
+
+  return (
+    <Card className="bg-white shadow-sm border-gray-200 md:col-span-3">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Rightsizing Recommendations</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Uses connection history and CloudWatch UserConnected, CPU and memory metrics to suggest running mode,
+              bundle and Pool changes, each priced against the WorkSpace&apos;s current cost.
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <Label htmlFor="rightsizingDays">Lookback (days)</Label>
+              <Input
+                id="rightsizingDays"
+                type="number"
+                min={1}
+                max={63}
+                className="w-24"
+                value={lookbackDays}
+                onChange={(e) => setLookbackDays(parseInt(e.target.value, 10) || DEFAULT_LOOKBACK_DAYS)}
+              />
+            </div>
+            <Button onClick={handleAnalyze} disabled={loading || regions.length === 0}>
+              {loading ? 'Analyzing...' : 'Find savings'}
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {report && report.errors.length > 0 && (
+          <Alert className="mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {report.errors.map((regionError, index) => (
+                <div key={index}>{regionError.error}</div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div>
+                <div className="text-sm text-gray-500">WorkSpaces Analyzed</div>
+                <div className="text-2xl font-bold text-gray-900">{report.workspaces.length}</div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-500">With Recommendations</div>
+                <div className="text-2xl font-bold text-gray-900">{withRecommendations.length}</div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-500">Potential Monthly Savings</div>
+                <div className="text-2xl font-bold text-green-700">{formatCurrency(report.totalMonthlySavings)}</div>
+              </div>
+            </div>
+
+            {withRecommendations.length > 0 && (
+              <Table className="text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8 px-2">WorkSpace</TableHead>
+                    <TableHead className="h-8 px-2">Usage</TableHead>
+                    <TableHead className="h-8 px-2">Recommendation</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Current</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Recommended</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Monthly Savings</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {withRecommendations.flatMap((item) => item.recommendations.map((recommendation, index) => (
+                    <TableRow key={`${item.workspace.id}-${recommendation.action}`}>
+                      <TableCell className="p-2 align-top">
+                        {index === 0 && (
+                          <>
+                            <div className="font-medium text-gray-900">{item.workspace.id}</div>
+                            <div className="text-gray-500">{item.workspace.username} · {item.workspace.region}</div>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="p-2 align-top text-gray-700">
+                        {index === 0 && item.usage && (
+                          <>
+                            {item.projectedMonthlyHours !== null && <div>{item.projectedMonthlyHours} hrs/month</div>}
+                            {item.usage.cpuP95 !== null && <div>CPU p95 {Math.round(item.usage.cpuP95)}%</div>}
+                            {item.usage.memoryP95 !== null && <div>Memory p95 {Math.round(item.usage.memoryP95)}%</div>}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="p-2 align-top">
+                        <Badge variant="outline" className="text-[10px]">{ACTION_LABELS[recommendation.action]}</Badge>
+                        <div className="text-gray-900 mt-1">{recommendation.recommendedConfiguration}</div>
+                        <div className="text-gray-500">{recommendation.reason}</div>
+                      </TableCell>
+                      <TableCell className="p-2 align-top text-right text-gray-700">
+                        {formatCurrency(recommendation.currentMonthlyCost)}
+                      </TableCell>
+                      <TableCell className="p-2 align-top text-right text-gray-700">
+                        {formatCurrency(recommendation.recommendedMonthlyCost)}
+                      </TableCell>
+                      <TableCell className={`p-2 align-top text-right font-medium ${recommendation.monthlySavings >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                        {formatCurrency(recommendation.monthlySavings)}
+                      </TableCell>
+                    </TableRow>
+                  )))}
+                </TableBody>
+              </Table>
+            )}
+
+            <p className="text-xs text-gray-500 mt-4">
+              {alreadyFit} WorkSpaces already fit their usage over the last {report.lookbackDays} days.
+              Savings total the largest saving of each WorkSpace.
+            </p>
+            {withErrors.map((item) => (
+              <p key={item.workspace.id} className="text-xs text-red-600 mt-1">{item.workspace.id}: {item.error}</p>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { RunningModePlanTable } from './running-mode-plan-table';
+import { planRunningModes } from '@/lib/api';
+import type { RunningModePlan, RunningModeUser } from '@/types/running-mode';
+import type { WorkSpaceConfig } from '@/types/workspace';
+
+// A user as entered: hours are one value for every month or a comma-separated value per month
+interface UserRow {
+  id: string;
+  name: string;
+  runningMode: string;
+  hours: string;
+}
+
+// Months planned when every user has a single value
+const DEFAULT_MONTH_COUNT = 12;
+
+const createUserRow = (index: number, runningMode = 'always-on', hours = '160'): UserRow => ({
+  id: `user-${Date.now().toString(36)}-${index}`,
+  name: `User ${index}`,
+  runningMode,
+  hours
+});
+
+const parseHours = (hours: string) =>
+  hours.split(',').map(value => value.trim()).filter(Boolean).map(value => Number(value));
+
+// Expands single values over the months of the longest per-month list
+function buildUsers(rows: UserRow[]): RunningModeUser[] {
+  const hoursByRow = rows.map(row => parseHours(row.hours));
+  const invalid = rows.find((row, index) =>
+    hoursByRow[index].length === 0 || hoursByRow[index].some(value => !Number.isFinite(value) || value < 0));
+  if (invalid) {
+    throw new Error(`Enter the hours of ${invalid.name} as a number or a comma-separated list of numbers`);
+  }
+
+  const listLengths = hoursByRow.filter(hours => hours.length > 1).map(hours => hours.length);
+  const monthCount = listLengths.length > 0 ? Math.max(...listLengths) : DEFAULT_MONTH_COUNT;
+  if (listLengths.some(length => length !== monthCount)) {
+    throw new Error(`Every per-month list needs ${monthCount} values`);
+  }
+
+  return rows.map((row, index) => ({
+    id: row.id,
+    name: row.name,
+    runningMode: row.runningMode,
+    monthlyHours: hoursByRow[index].length === 1
+      ? Array.from({ length: monthCount }, () => hoursByRow[index][0])
+      : hoursByRow[index]
+  }));
+}
+
+interface RunningModeOptimizerProps {
+  config: WorkSpaceConfig;
+}
+
+export default function RunningModeOptimizer({ config }: RunningModeOptimizerProps) {
+  const [rows, setRows] = useState<UserRow[]>(() => [
+    createUserRow(1, 'always-on', '60'),
+    createUserRow(2, 'auto-stop', '200'),
+  ]);
+  const [plan, setPlan] = useState<RunningModePlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRow = (id: string, updates: Partial<UserRow>) => {
+    setRows(rows.map(row => row.id === id ? { ...row, ...updates } : row));
+  };
+
+  const handleOptimize = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPlan(await planRunningModes({ config, users: buildUsers(rows) }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to plan running modes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white shadow-sm border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Running Mode Optimizer</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Finds the cheaper of AlwaysOn and AutoStop for each user in each month, at the rates of the selected
+            bundle and region. Enter one value for every month or a comma-separated value per month.
+          </p>
+        </div>
+
+        {rows.map((row) => (
+          <div key={row.id} className="grid grid-cols-[1fr_8rem_1fr_auto] gap-2 items-end">
+            <div>
+              <Label htmlFor={`${row.id}-name`}>User</Label>
+              <Input
+                id={`${row.id}-name`}
+                value={row.name}
+                onChange={(e) => updateRow(row.id, { name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`${row.id}-mode`}>Current mode</Label>
+              <Select value={row.runningMode} onValueChange={(value) => updateRow(row.id, { runningMode: value })}>
+                <SelectTrigger id={`${row.id}-mode`} className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="always-on">AlwaysOn</SelectItem>
+                  <SelectItem value="auto-stop">AutoStop</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor={`${row.id}-hours`}>Hours per month</Label>
+              <Input
+                id={`${row.id}-hours`}
+                value={row.hours}
+                placeholder="160 or 40, 60, 220, ..."
+                onChange={(e) => updateRow(row.id, { hours: e.target.value })}
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setRows(rows.filter(item => item.id !== row.id))}
+              disabled={rows.length === 1}
+              aria-label={`Remove ${row.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setRows([...rows, createUserRow(rows.length + 1)])}>
+            <Plus className="h-4 w-4 mr-1" /> Add User
+          </Button>
+          <Button onClick={handleOptimize} disabled={loading}>
+            {loading ? 'Calculating...' : 'Find cheapest modes'}
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {plan && <RunningModePlanTable plan={plan} />}
+      </CardContent>
+    </Card>
+  );
+}
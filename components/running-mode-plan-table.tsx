@@ -0,0 +1,84 @@
+"use client"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { RunningModePlan } from "@/types/running-mode"
+import { useCurrency } from "./currency-provider"
+
+interface RunningModePlanTableProps {
+  plan: RunningModePlan
+  className?: string
+}
+
+const formatRunningMode = (runningMode: string) => runningMode === "auto-stop" ? "AutoStop" : "AlwaysOn"
+
+// Users by month: hours and the cheaper running mode of each month, then the period totals
+export function RunningModePlanTable({ plan, className }: RunningModePlanTableProps) {
+  const { formatCurrency } = useCurrency()
+  return (
+    <div className={className}>
+      <div className="text-xs text-gray-500 mb-2">
+        AutoStop {formatCurrency(plan.fixedMonthlyFee)}/month + {formatCurrency(plan.hourlyRate, 3)}/hr, AlwaysOn{" "}
+        {formatCurrency(plan.alwaysOnMonthlyCost)}/month
+        {plan.breakevenHours !== null && ` — AlwaysOn is cheaper above ${plan.breakevenHours} hrs per month`}
+      </div>
+      <div className="overflow-x-auto">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8 px-2">User</TableHead>
+              {plan.months.map(month => (
+                <TableHead key={month} className="h-8 px-2 text-center whitespace-nowrap">{month}</TableHead>
+              ))}
+              <TableHead className="h-8 px-2 text-right">Current</TableHead>
+              <TableHead className="h-8 px-2 text-right">Optimal</TableHead>
+              <TableHead className="h-8 px-2 text-right">Savings</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plan.users.map(user => (
+              <TableRow key={user.id}>
+                <TableCell className="p-2">
+                  <div className="font-medium text-gray-900">{user.name || user.id}</div>
+                  <div className="text-gray-500">
+                    {formatRunningMode(user.runningMode)} today
+                    {user.switches > 0 && `, ${user.switches} ${user.switches === 1 ? "switch" : "switches"}`}
+                  </div>
+                </TableCell>
+                {user.months.map((month, index) => (
+                  <TableCell
+                    key={index}
+                    className={`p-2 text-center ${month.optimalRunningMode === user.runningMode ? "text-gray-700" : "text-blue-700 font-medium"}`}
+                  >
+                    <div>{Math.round(month.hours)} hrs</div>
+                    <div>{formatRunningMode(month.optimalRunningMode)}</div>
+                  </TableCell>
+                ))}
+                <TableCell className="p-2 text-right text-gray-700">{formatCurrency(user.currentCost)}</TableCell>
+                <TableCell className="p-2 text-right text-gray-700">{formatCurrency(user.optimalCost)}</TableCell>
+                <TableCell className="p-2 text-right font-medium text-green-700">{formatCurrency(user.savings)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={plan.months.length + 1} className="p-2 font-medium">
+                Total over {plan.months.length} {plan.months.length === 1 ? "month" : "months"}
+              </TableCell>
+              <TableCell className="p-2 text-right font-medium">{formatCurrency(plan.currentCost)}</TableCell>
+              <TableCell className="p-2 text-right font-medium">{formatCurrency(plan.optimalCost)}</TableCell>
+              <TableCell className="p-2 text-right font-medium text-green-700">{formatCurrency(plan.savings)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Save } from 'lucide-react';
+import { saveEstimate } from '@/lib/api';
+import type { SavedEstimateInput } from '@/types/estimates';
+
+interface SaveEstimateButtonProps {
+  // Collects the settings and estimate to save, called when the user confirms
+  buildInput: () => Promise<Omit<SavedEstimateInput, 'name'>>;
+  defaultName: string;
+  disabled?: boolean;
+}
+
+export function SaveEstimateButton({ buildInput, defaultName, disabled }: SaveEstimateButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(defaultName);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setName(defaultName);
+      setError(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await saveEstimate({ ...(await buildInput()), name });
+      setOpen(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save estimate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full" disabled={disabled}>
+          <Save className="h-4 w-4 mr-1" /> Save Estimate
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save Estimate</DialogTitle>
+          <DialogDescription>Saved estimates can be reopened from the Saved Estimates list.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="savedEstimateName">Name</Label>
+          <Input
+            id="savedEstimateName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) handleSave(); }}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Check, Copy, FolderOpen, Pencil, Trash2, X } from 'lucide-react';
+import {
+  deleteSavedEstimate,
+  duplicateSavedEstimate,
+  fetchSavedEstimates,
+  renameSavedEstimate,
+} from '@/lib/api';
+import { encodeShareState, SHARE_STATE_PARAM } from '@/lib/share-state';
+import type { SavedEstimate } from '@/types/estimates';
+import { useCurrency } from './currency-provider';
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+
+export function SavedEstimatesSheet() {
+  const { formatCurrency } = useCurrency();
+  const [estimates, setEstimates] = useState<SavedEstimate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const loadEstimates = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEstimates(await fetchSavedEstimates());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load saved estimates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs an action on a saved estimate, then reloads the list
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await loadEstimates();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update saved estimate');
+    }
+  };
+
+  const handleRename = (id: string) => runAction(async () => {
+    await renameSavedEstimate(id, newName);
+    setRenamingId(null);
+  });
+
+  // Reopening is loading the calculator from a link to the saved settings
+  const handleOpen = (saved: SavedEstimate) => {
+    const state = encodeShareState({
+      tab: saved.type,
+      workspaces: saved.workspaces,
+      appstream: saved.appstream,
+    });
+    window.location.assign(`${window.location.pathname}?${SHARE_STATE_PARAM}=${state}`);
+  };
+
+  return (
+    <Sheet onOpenChange={(open) => { if (open) loadEstimates(); }}>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <FolderOpen className="h-4 w-4 mr-1" /> Saved Estimates
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Saved Estimates</SheetTitle>
+          <SheetDescription>Reopen, rename, duplicate or delete saved customer scenarios.</SheetDescription>
+        </SheetHeader>
+
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+        <div className="mt-6 space-y-3">
+          {loading && estimates.length === 0 && (
+            <p className="text-sm text-gray-500">Loading saved estimates...</p>
+          )}
+          {!loading && estimates.length === 0 && (
+            <p className="text-sm text-gray-500">No saved estimates yet. Use "Save Estimate" below a cost summary.</p>
+          )}
+
+          {estimates.map((saved) => (
+            <div key={saved.id} className="p-3 border border-gray-200 rounded-md">
+              {renamingId === saved.id ? (
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && newName.trim()) handleRename(saved.id); }}
+                    autoFocus
+                  />
+                  <Button size="icon" variant="ghost" onClick={() => handleRename(saved.id)} disabled={!newName.trim()} aria-label="Save name">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => setRenamingId(null)} aria-label="Cancel rename">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium text-gray-900">{saved.name}</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      <Badge variant="outline" className="mr-2 text-[10px]">
+                        {saved.type === 'appstream' ? 'AppStream' : 'WorkSpaces'}
+                      </Badge>
+                      {saved.estimate.bundleName} · {formatDate(saved.updatedAt)}
+                    </div>
+                  </div>
+                  <div className="text-right font-medium text-gray-900 whitespace-nowrap">
+                    {formatCurrency(saved.estimate.totalMonthlyCost)}
+                    <span className="text-xs text-gray-500">/mo</span>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-1 mt-2">
+                <Button size="sm" onClick={() => handleOpen(saved)}>Open</Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => { setRenamingId(saved.id); setNewName(saved.name); }}
+                  aria-label={`Rename ${saved.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => runAction(() => duplicateSavedEstimate(saved.id))} aria-label={`Duplicate ${saved.name}`}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => runAction(() => deleteSavedEstimate(saved.id))} aria-label={`Delete ${saved.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
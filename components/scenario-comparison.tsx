@@ -0,0 +1,301 @@
+'use client';
+
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { OptionSelect } from './option-select';
+import { calculateDeploymentPricing } from '@/lib/api';
+import { APPSTREAM_INSTANCE_TYPES, CORE_BUNDLES, LICENSES, POOL_BUNDLES } from '@/lib/deployments';
+import {
+  buildComparisonDeployment,
+  compareLineItems,
+  COMPARISON_SCENARIOS,
+  DEFAULT_COMPARISON_POPULATION,
+  getCheapestScenario,
+  MAX_COMPARISON_SCENARIOS,
+  MIN_COMPARISON_SCENARIOS,
+} from '@/lib/scenario-comparison';
+import { regions } from '@/lib/regions';
+import type { ComparisonPopulation, ComparisonScenarioId } from '@/types/comparison';
+import type { DeploymentEstimate } from '@/types/deployment';
+import { useCurrency } from './currency-provider';
+import { useDiscounts } from './discounts-provider';
+
+const regionOptions = regions.map(region => ({ value: region.code, label: region.name }));
+
+const chartConfig = {
+  monthlyCost: { label: 'Monthly cost', color: 'hsl(var(--chart-1))' },
+  cheapest: { label: 'Cheapest', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+export default function ScenarioComparison() {
+  const { formatCurrency } = useCurrency();
+  const { discounts } = useDiscounts();
+  const [population, setPopulation] = useState<ComparisonPopulation>(DEFAULT_COMPARISON_POPULATION);
+  const [scenarioIds, setScenarioIds] = useState<ComparisonScenarioId[]>(COMPARISON_SCENARIOS.map(scenario => scenario.id));
+  const [comparison, setComparison] = useState<DeploymentEstimate | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updatePopulation = (updates: Partial<ComparisonPopulation>) => {
+    setPopulation({ ...population, ...updates });
+  };
+
+  const toggleScenario = (id: ComparisonScenarioId, checked: boolean) => {
+    setScenarioIds(checked ? [...scenarioIds, id] : scenarioIds.filter(scenarioId => scenarioId !== id));
+  };
+
+  const handleCompare = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setComparison(await calculateDeploymentPricing({ ...buildComparisonDeployment(scenarioIds, population), discounts }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to compare scenarios');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cheapestId = comparison ? getCheapestScenario(comparison.groups) : null;
+  const cheapest = comparison?.groups.find(group => group.groupId === cheapestId);
+  const lineItemRows = comparison ? compareLineItems(comparison.groups) : [];
+  const chartData = (comparison?.groups || [])
+    .filter(group => !group.error)
+    .map(group => ({ name: group.name, monthlyCost: group.monthlyCost, cheapest: group.groupId === cheapestId }));
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white shadow-sm border-gray-200">
+        <CardContent className="p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Compare Scenarios</h2>
+            <p className="text-sm text-gray-500">Price the same user population on each product</p>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <OptionSelect
+              id="compareRegion"
+              label="AWS Region"
+              value={population.region}
+              options={regionOptions}
+              onChange={(value) => updatePopulation({ region: value })}
+            />
+            <div>
+              <Label htmlFor="compareUsers">Users</Label>
+              <Input
+                id="compareUsers"
+                type="number"
+                min={1}
+                value={population.userCount || 0}
+                onChange={(e) => updatePopulation({ userCount: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+            <OptionSelect
+              id="compareLicense"
+              label="License Type"
+              value={population.license}
+              options={LICENSES}
+              onChange={(value) => updatePopulation({ license: value })}
+            />
+            <div>
+              <Label htmlFor="compareAutoStopHours">AutoStop Hours per User</Label>
+              <Input
+                id="compareAutoStopHours"
+                type="number"
+                min={0}
+                max={730}
+                value={population.autoStopHoursPerUser}
+                onChange={(e) => updatePopulation({ autoStopHoursPerUser: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+            <OptionSelect
+              id="compareCoreBundle"
+              label="Core Bundle"
+              value={population.coreBundleId}
+              options={CORE_BUNDLES}
+              onChange={(value) => updatePopulation({ coreBundleId: value })}
+            />
+            <OptionSelect
+              id="comparePoolBundle"
+              label="Pool Bundle"
+              value={population.poolBundleId}
+              options={POOL_BUNDLES}
+              onChange={(value) => updatePopulation({ poolBundleId: value })}
+            />
+            <OptionSelect
+              id="compareAppStreamInstance"
+              label="AppStream Instance"
+              value={population.appStreamInstanceType}
+              options={APPSTREAM_INSTANCE_TYPES.map(type => ({ value: type.value, label: type.value }))}
+              onChange={(value) => updatePopulation({ appStreamInstanceType: value })}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6">
+            {COMPARISON_SCENARIOS.map((scenario) => {
+              const checked = scenarioIds.includes(scenario.id);
+              return (
+                <div key={scenario.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`compare-${scenario.id}`}
+                    checked={checked}
+                    disabled={checked
+                      ? scenarioIds.length <= MIN_COMPARISON_SCENARIOS
+                      : scenarioIds.length >= MAX_COMPARISON_SCENARIOS}
+                    onCheckedChange={(value) => toggleScenario(scenario.id, value === true)}
+                  />
+                  <Label htmlFor={`compare-${scenario.id}`}>{scenario.label}</Label>
+                </div>
+              );
+            })}
+            <Button onClick={handleCompare} disabled={loading || population.userCount <= 0} className="ml-auto">
+              {loading ? 'Comparing...' : 'Compare'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {comparison && (
+        <Card className="bg-white shadow-sm border-gray-200">
+          <CardContent className="p-6 space-y-6">
+            <div className="flex justify-between items-center">
+              <h2 className="text-lg font-medium text-gray-900">Comparison for {population.userCount} users</h2>
+              {cheapest && (
+                <p className="text-sm text-gray-500">
+                  Cheapest: <span className="font-medium text-green-700">{cheapest.name}</span>
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {comparison.groups.map((group) => (
+                <div
+                  key={group.groupId}
+                  className={`p-4 rounded-md border ${group.groupId === cheapestId ? 'border-green-500 bg-green-50' : 'border-gray-200'}`}
+                >
+                  <div className="flex justify-between items-start">
+                    <div className="font-medium text-gray-900">{group.name}</div>
+                    {group.groupId === cheapestId && (
+                      <Badge variant="outline" className="bg-green-100 text-green-700">Cheapest</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mb-3">{group.bundleName || '-'}</div>
+                  {group.error ? (
+                    <div className="text-sm text-red-600">{group.error}</div>
+                  ) : (
+                    <div className="space-y-1 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Monthly</span>
+                        <span className="font-medium text-gray-900">{formatCurrency(group.monthlyCost)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Annual</span>
+                        <span className="text-gray-900">{formatCurrency(group.annualCost)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Per user</span>
+                        <span className="text-gray-900">{formatCurrency(group.costPerUser)}/mo</span>
+                      </div>
+                      {cheapest && group.groupId !== cheapestId && (
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-500">vs cheapest</span>
+                          <span className="text-red-600">+{formatCurrency(group.monthlyCost - cheapest.monthlyCost)}/mo</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {chartData.length > 0 && (
+              <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} tickFormatter={(value) => formatCurrency(Number(value))} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="monthlyCost" radius={4}>
+                    {chartData.map((entry) => (
+                      <Cell
+                        key={entry.name}
+                        fill={entry.cheapest ? 'var(--color-cheapest)' : 'var(--color-monthlyCost)'}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            )}
+
+            {lineItemRows.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-2">Line Items</h3>
+                <Table className="text-xs">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="h-8 px-2">Item</TableHead>
+                      {comparison.groups.map((group) => (
+                        <TableHead key={group.groupId} className="h-8 px-2 text-right">{group.name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lineItemRows.map((row) => (
+                      <TableRow key={row.description}>
+                        <TableCell className="p-2 text-gray-900">{row.description}</TableCell>
+                        {row.costs.map((cost, index) => (
+                          <TableCell key={comparison.groups[index].groupId} className="p-2 text-right text-gray-700">
+                            {cost === null ? '-' : formatCurrency(cost)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell className="p-2 font-medium">Total</TableCell>
+                      {comparison.groups.map((group) => (
+                        <TableCell key={group.groupId} className="p-2 text-right font-medium">
+                          {group.error ? '-' : formatCurrency(group.monthlyCost)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+            )}
+
+            {comparison.priceBook && (
+              <p className="text-xs text-gray-500">Price book: {comparison.priceBook.version}</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { OptionSelect } from './option-select';
+import { DEFAULT_TCO_ASSUMPTIONS, MAX_TCO_YEARS, projectTco, validateTcoAssumptions } from '@/lib/pricing-engine';
+import type { TcoAssumptions, TcoOneTimeCost } from '@/types/tco';
+import { useCurrency } from './currency-provider';
+
+const chartConfig = {
+  totalCost: { label: 'Monthly cost', color: 'hsl(var(--chart-1))' },
+  cumulativeCost: { label: 'Cumulative cost', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const YEAR_OPTIONS = Array.from({ length: MAX_TCO_YEARS }, (_, index) => ({
+  value: String(index + 1),
+  label: `${index + 1} year${index > 0 ? 's' : ''}`,
+}));
+
+interface TcoProjectionProps {
+  // Monthly cost of one user in the current estimate
+  monthlyCostPerUser: number;
+  // Users the estimate is sized for, the headcount of the first year
+  plannedUsers: number;
+  className?: string;
+}
+
+// Multi-year cost of the estimate with a user ramp, headcount growth, price changes and one-time costs
+export function TcoProjection({ monthlyCostPerUser, plannedUsers, className }: TcoProjectionProps) {
+  const { formatCurrency } = useCurrency();
+  const [assumptions, setAssumptions] = useState<TcoAssumptions>(DEFAULT_TCO_ASSUMPTIONS);
+
+  const update = (updates: Partial<TcoAssumptions>) => setAssumptions({ ...assumptions, ...updates });
+  const updateOneTimeCost = (index: number, updates: Partial<TcoOneTimeCost>) =>
+    update({ oneTimeCosts: assumptions.oneTimeCosts.map((cost, i) => i === index ? { ...cost, ...updates } : cost) });
+
+  const error = validateTcoAssumptions(assumptions);
+  const projection = error ? null : projectTco(monthlyCostPerUser, plannedUsers, assumptions);
+
+  const numberInput = (id: string, label: string, field: keyof Omit<TcoAssumptions, 'years' | 'oneTimeCosts'>) => (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        value={assumptions[field]}
+        onChange={(e) => update({ [field]: Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <div className={className}>
+      <h3 className="text-sm font-medium text-gray-500 mb-1">Multi-Year TCO</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Scales the cost per user of this estimate ({formatCurrency(monthlyCostPerUser)}) over the program. Leave users
+        per month at 0 to start with all {plannedUsers} users.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <OptionSelect
+          id="tco-years"
+          label="Projection"
+          value={String(assumptions.years)}
+          options={YEAR_OPTIONS}
+          onChange={(value) => update({ years: Number(value) })}
+        />
+        {numberInput('tco-initial-users', 'Users at go-live', 'initialUsers')}
+        {numberInput('tco-users-per-month', 'Users onboarded per month', 'usersPerMonth')}
+        {numberInput('tco-growth', 'Annual headcount growth (%)', 'annualGrowthPercent')}
+        {numberInput('tco-price-change', 'Annual price change (%)', 'annualPriceChangePercent')}
+      </div>
+
+      <div className="mt-3 space-y-2">
+        <Label>One-time costs</Label>
+        {assumptions.oneTimeCosts.map((cost, index) => (
+          <div key={index} className="grid grid-cols-[1fr_7rem_5rem_auto] gap-2">
+            <Input
+              aria-label="Description"
+              value={cost.description}
+              onChange={(e) => updateOneTimeCost(index, { description: e.target.value })}
+            />
+            <Input
+              aria-label="Amount (USD)"
+              type="number"
+              value={cost.amount}
+              onChange={(e) => updateOneTimeCost(index, { amount: Number(e.target.value) })}
+            />
+            <Input
+              aria-label="Month"
+              type="number"
+              value={cost.month}
+              onChange={(e) => updateOneTimeCost(index, { month: Number(e.target.value) })}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => update({ oneTimeCosts: assumptions.oneTimeCosts.filter((_, i) => i !== index) })}
+              aria-label={`Remove ${cost.description}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => update({
+            oneTimeCosts: [...assumptions.oneTimeCosts, { description: 'Migration services', amount: 0, month: 1 }]
+          })}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add one-time cost (USD)
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+
+      {projection && (
+        <>
+          <ChartContainer config={chartConfig} className="w-full aspect-auto h-56 mt-4">
+            <ComposedChart data={projection.months} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} tick={{ fontSize: 11 }} />
+              <YAxis yAxisId="monthly" tickLine={false} axisLine={false} tickFormatter={(value) => formatCurrency(Number(value), 0)} />
+              <YAxis yAxisId="cumulative" orientation="right" tickLine={false} axisLine={false} tickFormatter={(value) => formatCurrency(Number(value), 0)} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar yAxisId="monthly" dataKey="totalCost" fill="var(--color-totalCost)" radius={2} />
+              <Line yAxisId="cumulative" dataKey="cumulativeCost" stroke="var(--color-cumulativeCost)" dot={false} strokeWidth={2} />
+            </ComposedChart>
+          </ChartContainer>
+
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8 px-2">Year</TableHead>
+                <TableHead className="h-8 px-2 text-right">Users</TableHead>
+                <TableHead className="h-8 px-2 text-right">Recurring</TableHead>
+                <TableHead className="h-8 px-2 text-right">One-time</TableHead>
+                <TableHead className="h-8 px-2 text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {projection.years.map((year) => (
+                <TableRow key={year.year}>
+                  <TableCell className="p-2">Year {year.year}</TableCell>
+                  <TableCell className="p-2 text-right text-gray-700">{year.users}</TableCell>
+                  <TableCell className="p-2 text-right text-gray-700">{formatCurrency(year.recurringCost)}</TableCell>
+                  <TableCell className="p-2 text-right text-gray-700">{formatCurrency(year.oneTimeCost)}</TableCell>
+                  <TableCell className="p-2 text-right font-medium text-gray-900">{formatCurrency(year.totalCost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4} className="p-2 font-medium">{assumptions.years}-year total cost of ownership</TableCell>
+                <TableCell className="p-2 text-right font-medium">{formatCurrency(projection.totalCost)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+}
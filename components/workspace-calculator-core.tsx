@@ -4,9 +4,16 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import ConfigurationPanel from './configuration-panel';
 import CostSummaryPanel from './cost-summary-panel';
-import type { WorkSpaceConfig } from '@/types/workspace';
+import { SaveEstimateButton } from './save-estimate-button';
+import RunningModeOptimizer from './running-mode-optimizer';
+import RegionPriceMatrix from './region-price-matrix';
+import { useDiscounts } from './discounts-provider';
+import type { PricingEstimate, WorkSpaceConfig } from '@/types/workspace';
 import { calculatePricing, fetchConfigOptions } from '@/lib/api';
-import { regions } from '@/lib/regions'; // Add regions import
+import { buildDeploymentGroupRequest } from '@/lib/deployments';
+import { getWorkSpacesAssumptions } from '@/lib/estimate-export';
+import { readShareState, toShareableConfig, writeShareState } from '@/lib/share-state';
+import { getServiceRegions } from '@/lib/regions';
 
 const DEFAULT_CONFIG: WorkSpaceConfig = {
   region: 'us-east-1',
@@ -22,15 +29,44 @@ const DEFAULT_CONFIG: WorkSpaceConfig = {
   operatingSystem: 'windows',
   runningMode: 'always-on',
   numberOfWorkspaces: 1,
-  billingOption: 'monthly'
+  billingOption: 'monthly',
+  poolNumberOfUsers: 10
 };
 
 export default function WorkspaceCalculatorCore() {
   const [config, setConfig] = useState<WorkSpaceConfig>(DEFAULT_CONFIG);
-  const [pricingEstimate, setPricingEstimate] = useState(null);
+  const [pricingEstimate, setPricingEstimate] = useState<PricingEstimate | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('core');
   const [configOptions, setConfigOptions] = useState(undefined);
+  const [isRestored, setIsRestored] = useState(false);
+  const { discounts } = useDiscounts();
+
+  // Restore a shared estimate before the panels mount, so they start from the shared configuration
+  useEffect(() => {
+    const shared = readShareState()?.workspaces;
+    if (shared) {
+      const restoredConfig = { ...DEFAULT_CONFIG, ...shared.config };
+      setConfig(restoredConfig);
+      setActiveTab(shared.tab || 'core');
+      priceConfig(restoredConfig, shared.tab || 'core');
+    }
+    setIsRestored(true);
+  }, []);
+
+  // Keep the URL in sync so the current estimate can be shared
+  useEffect(() => {
+    if (isRestored) {
+      writeShareState({ workspaces: { tab: activeTab, config: toShareableConfig(config) } });
+    }
+  }, [isRestored, config, activeTab]);
+
+  // Reprice the current configuration when the customer discounts change
+  useEffect(() => {
+    if (pricingEstimate) {
+      handleConfigChange({});
+    }
+  }, [discounts]);
 
   // Add useEffect to fetch config options when component mounts
   useEffect(() => {
@@ -46,13 +82,19 @@ export default function WorkspaceCalculatorCore() {
     loadConfigOptions();
   }, []);
 
-  const handleConfigChange = async (updates: Partial<WorkSpaceConfig>) => {
-    const newConfig = { ...config, ...updates };
-    setConfig(newConfig);
-    
+  // The Pool tab is priced as a pool calculation of the pool* fields, the Core tab as is
+  const priceConfig = async (newConfig: WorkSpaceConfig, tab: string) => {
     setIsLoading(true);
     try {
-      const estimate = await calculatePricing(newConfig);
+      const request = tab === 'pool'
+        ? buildDeploymentGroupRequest({
+            id: 'pool',
+            name: 'Pool',
+            type: 'pool',
+            workspaceConfig: newConfig
+          }, undefined, discounts) as WorkSpaceConfig
+        : { ...newConfig, discounts };
+      const estimate = await calculatePricing(request);
       setPricingEstimate(estimate);
     } catch (error) {
       console.error('Failed to calculate pricing:', error);
@@ -61,22 +103,75 @@ export default function WorkspaceCalculatorCore() {
     }
   };
 
+  const handleConfigChange = async (updates: Partial<WorkSpaceConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    await priceConfig(newConfig, activeTab);
+  };
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab);
+    priceConfig(config, tab);
+  };
+
+  const estimateName = activeTab === 'pool' ? 'WorkSpaces Pool estimate' : 'WorkSpaces Core estimate';
+
+  const getCurrentEstimate = async () => {
+    if (!pricingEstimate) {
+      throw new Error('No estimate calculated yet');
+    }
+    return pricingEstimate;
+  };
+
+  const buildSavedEstimate = async () => ({
+    type: 'workspaces' as const,
+    workspaces: { tab: activeTab, config: toShareableConfig(config) },
+    estimate: await getCurrentEstimate()
+  });
+
+  const getExportRequest = async () => ({
+    name: estimateName,
+    assumptions: getWorkSpacesAssumptions(config, activeTab),
+    estimate: await getCurrentEstimate()
+  });
+
+  const getRegionMatrixRequest = () => ({
+    type: activeTab === 'pool' ? 'pool' as const : 'core' as const,
+    workspaceConfig: { ...config, discounts },
+    homeRegion: activeTab === 'pool' ? config.poolRegion || config.region : config.region
+  });
+
+  if (!isRestored) {
+    return null;
+  }
+
   return (
     <div className="grid md:grid-cols-2 gap-6">
       <ConfigurationPanel 
         config={config} 
         onConfigChange={handleConfigChange}
         isLoading={isLoading}
-        onTabChange={setActiveTab}
-        regions={regions} // Add regions prop
+        initialTab={activeTab}
+        onTabChange={handleTabChange}
+        regions={getServiceRegions('core')}
         configOptions={configOptions} // Add this prop
       />
-      <CostSummaryPanel 
-        config={config}
-        pricingEstimate={pricingEstimate}
-        isLoading={isLoading}
-        activeTab={activeTab}
-      />
+      <div className="space-y-4">
+        <CostSummaryPanel 
+          config={config}
+          pricingEstimate={pricingEstimate}
+          isLoading={isLoading}
+          activeTab={activeTab}
+          getExportRequest={getExportRequest}
+        />
+        <SaveEstimateButton
+          buildInput={buildSavedEstimate}
+          defaultName={estimateName}
+          disabled={!pricingEstimate || isLoading}
+        />
+        <RegionPriceMatrix getRequest={getRegionMatrixRequest} disabled={isLoading} />
+        {activeTab === 'core' && <RunningModeOptimizer config={config} />}
+      </div>
     </div>
   );
 }
@@ -1,31 +1,93 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Check, Link } from 'lucide-react';
 import WorkspaceCalculatorTab from './workspace-calculator-core'; // Updated import path
 import AppStreamCalculator from './appstream-calculator';
+import DeploymentPlanner from './deployment-planner';
+import ScenarioComparison from './scenario-comparison';
+import EnvironmentAnalysis from './environment-analysis';
+import { SavedEstimatesSheet } from './saved-estimates-sheet';
+import { CurrencyProvider } from './currency-provider';
+import { CurrencySelect } from './currency-select';
+import { DiscountsProvider } from './discounts-provider';
+import { DiscountsPopover } from './discounts-popover';
+import { readShareState, writeShareState } from '@/lib/share-state';
 
 export default function CalculatorTabs() {
   const [activeTab, setActiveTab] = useState<string>('workspaces');
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Reopen the tab a shared link was created from
+  useEffect(() => {
+    const sharedTab = readShareState()?.tab;
+    if (sharedTab) {
+      setActiveTab(sharedTab);
+    }
+  }, []);
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab);
+    writeShareState({ tab });
+  };
+
+  // The URL always carries the current state, so sharing is copying it
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy estimate link:', error);
+    }
+  };
 
   return (
-    <Tabs 
-      defaultValue="workspaces" 
-      className="w-full"
-      value={activeTab}
-      onValueChange={setActiveTab}
-    >
-      <TabsList className="grid w-full grid-cols-2 mb-8">
-        <TabsTrigger value="workspaces">WorkSpaces</TabsTrigger>
-        <TabsTrigger value="appstream">AppStream</TabsTrigger>
-      </TabsList>
-      <TabsContent value="workspaces">
-        <WorkspaceCalculatorTab />
-      </TabsContent>
-      <TabsContent value="appstream">
-        <AppStreamCalculator />
-      </TabsContent>
-    </Tabs>
+    <CurrencyProvider>
+      <DiscountsProvider>
+        <Tabs
+          defaultValue="workspaces"
+          className="w-full"
+          value={activeTab}
+          onValueChange={handleTabChange}
+        >
+          <div className="flex items-center gap-4 mb-8">
+            <TabsList className="grid flex-1 grid-cols-5">
+              <TabsTrigger value="workspaces">WorkSpaces</TabsTrigger>
+              <TabsTrigger value="appstream">AppStream</TabsTrigger>
+              <TabsTrigger value="deployment">Mixed Fleet</TabsTrigger>
+              <TabsTrigger value="compare">Compare</TabsTrigger>
+              <TabsTrigger value="inventory">My Environment</TabsTrigger>
+            </TabsList>
+            <div className="flex gap-2">
+              <CurrencySelect />
+              <DiscountsPopover />
+              <SavedEstimatesSheet />
+              <Button variant="outline" onClick={handleCopyLink}>
+                {linkCopied ? <Check className="h-4 w-4 mr-1" /> : <Link className="h-4 w-4 mr-1" />}
+                {linkCopied ? 'Copied' : 'Copy Link'}
+              </Button>
+            </div>
+          </div>
+          <TabsContent value="workspaces">
+            <WorkspaceCalculatorTab />
+          </TabsContent>
+          <TabsContent value="appstream">
+            <AppStreamCalculator />
+          </TabsContent>
+          <TabsContent value="deployment">
+            <DeploymentPlanner />
+          </TabsContent>
+          <TabsContent value="compare">
+            <ScenarioComparison />
+          </TabsContent>
+          <TabsContent value="inventory">
+            <EnvironmentAnalysis />
+          </TabsContent>
+        </Tabs>
+      </DiscountsProvider>
+    </CurrencyProvider>
   );
 }
-
@@ -1,4 +1,11 @@
 import type { WorkSpaceConfig, ConfigOptions, PricingEstimate } from "@/types/workspace"
+import type { Deployment, DeploymentEstimate } from "@/types/deployment"
+import type { CurrencyOptions } from "@/types/currency"
+import type { EstimateExportFormat, EstimateExportRequest, SavedEstimate, SavedEstimateInput } from "@/types/estimates"
+import type { WorkspaceInventory } from "@/types/inventory"
+import type { RegionMatrix, RegionMatrixRequest } from "@/types/region-matrix"
+import type { RightsizingReport } from "@/types/rightsizing"
+import type { EnvironmentRunningModePlan, RunningModePlan, RunningModePlanRequest } from "@/types/running-mode"
 
 // Fetch configuration options (regions, bundles, OS, etc.)
 export async function fetchConfigOptions(): Promise<ConfigOptions> {
@@ -65,27 +72,93 @@ export async function fetchConfigOptions(): Promise<ConfigOptions> {
   }
 }
 
-// Fetch user's current WorkSpaces setup
-export async function fetchCurrentWorkspaces() {
-  try {
-    const response = await fetch("/api/user/current-workspaces")
+// Fetch the currencies estimates can be shown in and the exchange-rate table
+export async function fetchCurrencyOptions(): Promise<CurrencyOptions> {
+  const response = await fetch("/api/config/currencies")
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error("API error:", errorData)
-      throw new Error(`Failed to fetch current workspaces: ${response.status}`)
-    }
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error("API error:", errorData)
+    throw new Error(errorData.error || `Failed to fetch currencies: ${response.status}`)
+  }
 
-    return await response.json()
-  } catch (error) {
-    console.error("Error fetching current workspaces:", {
-    message: error?.message,
-    stack: error?.stack,
-    name: error?.name,
+  return await response.json()
+}
+
+// Fetch the user's current WorkSpaces in the given regions (the server's default region when empty)
+export async function fetchCurrentWorkspaces(regions: string[] = []): Promise<WorkspaceInventory> {
+  const query = regions.length > 0 ? `?regions=${encodeURIComponent(regions.join(","))}` : ""
+  const response = await fetch(`/api/user/current-workspaces${query}`)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error("API error:", errorData)
+    throw new Error(errorData.error || `Failed to fetch current workspaces: ${response.status}`)
+  }
+
+  return await response.json()
+}
+
+// Fetch rightsizing recommendations for the user's WorkSpaces in the given regions
+export async function fetchRightsizing(regions: string[], lookbackDays: number): Promise<RightsizingReport> {
+  const query = new URLSearchParams({ regions: regions.join(","), days: String(lookbackDays) })
+  const response = await fetch(`/api/user/rightsizing?${query}`)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error("API error:", errorData)
+    throw new Error(errorData.error || `Failed to fetch rightsizing recommendations: ${response.status}`)
+  }
+
+  return await response.json()
+}
+
+// Cheapest running mode of each user in each month, for one bundle configuration
+export async function planRunningModes(request: RunningModePlanRequest): Promise<RunningModePlan> {
+  const response = await fetch("/api/pricing/running-mode", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error("API error:", errorData)
+    throw new Error(errorData.error || `Failed to plan running modes: ${response.status}`)
+  }
+
+  return await response.json()
+}
+
+// Running mode plan of the user's WorkSpaces from their connected hours in the last complete months
+export async function fetchEnvironmentRunningModes(regions: string[], months: number): Promise<EnvironmentRunningModePlan> {
+  const query = new URLSearchParams({ regions: regions.join(","), months: String(months) })
+  const response = await fetch(`/api/user/running-mode?${query}`)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error("API error:", errorData)
+    throw new Error(errorData.error || `Failed to plan running modes: ${response.status}`)
+  }
+
+  return await response.json()
+}
+
+// Price one configuration in every region, cheapest first
+export async function calculateRegionMatrix(request: RegionMatrixRequest): Promise<RegionMatrix> {
+  const response = await fetch("/api/pricing/region-matrix", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
   })
-    // Return an empty array as a fallback
-    return []
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error("API error:", errorData)
+    throw new Error(errorData.error || `Failed to calculate region matrix: ${response.status}`)
   }
+
+  return await response.json()
 }
 
 // Calculate pricing based on selected configuration
@@ -336,3 +409,112 @@ export async function calculateAppStreamPricing(params: any) {
   }
 }
 
+
+// Price every group of a mixed fleet deployment as one quote
+export async function calculateDeploymentPricing(deployment: Deployment): Promise<DeploymentEstimate> {
+  try {
+    const response = await fetch("/api/pricing/deployment/estimate", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(deployment),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error("API error:", errorData);
+      throw new Error(errorData.error || `Failed to calculate deployment pricing: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error calculating deployment pricing:', error);
+    throw error;
+  }
+}
+
+// Saved estimates
+async function requestSavedEstimates<T>(path: string, init: RequestInit | undefined, errorMessage: string): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error("API error:", errorData);
+    throw new Error(errorData.error || `${errorMessage}: ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+export async function fetchSavedEstimates(): Promise<SavedEstimate[]> {
+  const { estimates } = await requestSavedEstimates<{ estimates: SavedEstimate[] }>(
+    "/api/estimates", undefined, "Failed to fetch saved estimates"
+  );
+  return estimates;
+}
+
+export async function saveEstimate(input: SavedEstimateInput): Promise<SavedEstimate> {
+  return requestSavedEstimates<SavedEstimate>(
+    "/api/estimates", { method: "POST", body: JSON.stringify(input) }, "Failed to save estimate"
+  );
+}
+
+export async function renameSavedEstimate(id: string, name: string): Promise<SavedEstimate> {
+  return requestSavedEstimates<SavedEstimate>(
+    `/api/estimates/${encodeURIComponent(id)}`, { method: "PATCH", body: JSON.stringify({ name }) }, "Failed to rename estimate"
+  );
+}
+
+export async function duplicateSavedEstimate(id: string): Promise<SavedEstimate> {
+  return requestSavedEstimates<SavedEstimate>(
+    `/api/estimates/${encodeURIComponent(id)}/duplicate`, { method: "POST" }, "Failed to duplicate estimate"
+  );
+}
+
+export async function deleteSavedEstimate(id: string): Promise<void> {
+  await requestSavedEstimates<{ deleted: boolean }>(
+    `/api/estimates/${encodeURIComponent(id)}`, { method: "DELETE" }, "Failed to delete estimate"
+  );
+}
+
+// Export an estimate as a CSV or XLSX file
+export async function exportEstimate(exportRequest: EstimateExportRequest, format: EstimateExportFormat): Promise<Blob> {
+  const response = await fetch(`/api/estimates/export?format=${format}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(exportRequest),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error("API error:", errorData);
+    throw new Error(errorData.error || `Failed to export estimate: ${response.status}`);
+  }
+
+  return await response.blob();
+}
+
+// Render the PDF proposal of an estimate
+export async function downloadProposal(exportRequest: EstimateExportRequest): Promise<Blob> {
+  const response = await fetch("/api/estimates/proposal", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(exportRequest),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error("API error:", errorData);
+    throw new Error(errorData.error || `Failed to generate proposal: ${response.status}`);
+  }
+
+  return await response.blob();
+}
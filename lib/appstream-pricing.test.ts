@@ -0,0 +1,88 @@
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test"
+import { resolvePriceBook } from "@/lib/price-books"
+import { clearPricingCache } from "@/lib/pricing-client"
+import type { AppStreamEstimateRequest } from "@/types/appstream"
+import {
+  buildAppStreamEstimateConfig,
+  lookupAppStreamRates,
+  validateAppStreamEstimateRequest
+} from "@/lib/appstream-pricing"
+
+let tempDir: string
+let originalCacheDir: string | undefined
+
+const request: AppStreamEstimateRequest = {
+  region: "us-east-1",
+  instanceType: "stream.standard.medium",
+  instanceFamily: "general-purpose",
+  instanceFunction: "fleet",
+  operatingSystem: "windows",
+}
+
+before(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "appstream-pricing-"))
+  originalCacheDir = process.env.PRICING_CACHE_DIR
+})
+
+beforeEach(() => {
+  process.env.PRICING_CACHE_DIR = tempDir
+  mock.method(console, "log", () => {})
+  mock.method(console, "warn", () => {})
+  mock.method(console, "error", () => {})
+})
+
+afterEach(() => {
+  mock.restoreAll()
+  clearPricingCache()
+})
+
+after(async () => {
+  if (originalCacheDir === undefined) {
+    delete process.env.PRICING_CACHE_DIR
+  } else {
+    process.env.PRICING_CACHE_DIR = originalCacheDir
+  }
+  await fs.rm(tempDir, { recursive: true, force: true })
+})
+
+describe("validateAppStreamEstimateRequest", () => {
+  it("requires the instance and rejects a given instance count", () => {
+    assert.equal(validateAppStreamEstimateRequest(request), null)
+    assert.equal(validateAppStreamEstimateRequest({ ...request, instanceType: "" }), "Missing required parameters")
+    assert.match(validateAppStreamEstimateRequest({ ...request, numberOfInstances: 3 } as AppStreamEstimateRequest)!, /numberOfInstances is not supported/)
+    assert.notEqual(validateAppStreamEstimateRequest({ ...request, usersPerInstance: 0 }), null)
+  })
+})
+
+describe("buildAppStreamEstimateConfig", () => {
+  it("fills in the defaults of omitted fields and clamps the buffer", () => {
+    const config = buildAppStreamEstimateConfig({ ...request, multiSession: "true", usersPerInstance: 4, bufferFactor: 1.5 })
+
+    assert.equal(config.multiSession, true)
+    assert.equal(config.sessionsPerInstance, 4)
+    assert.equal(config.bufferFactor, 1)
+    assert.equal(config.usagePattern, "always-on")
+    assert.equal(config.userCount, 10)
+    assert.equal(config.includeWeekends, true)
+  })
+})
+
+describe("lookupAppStreamRates", () => {
+  it("uses the given instance size and falls back to the hardcoded rates when calculator.aws is unreachable", async () => {
+    mock.method(globalThis, "fetch", async () => { throw new TypeError("fetch failed") })
+
+    const lookup = await lookupAppStreamRates(
+      { ...request, instanceSpecs: { vcpu: "2", memory: "4", videoMemory: "0" } },
+      (await resolvePriceBook(undefined))!
+    )
+
+    assert.equal(lookup.rates?.source, "calculated")
+    assert.ok(lookup.rates!.hourlyPrice > 0)
+    assert.equal(lookup.instanceVCpu, 2)
+    assert.equal(lookup.instanceMemoryGib, 4)
+  })
+})
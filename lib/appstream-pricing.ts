@@ -0,0 +1,287 @@
+import { getRegionLocation } from '@/lib/regions';
+import { fetchAwsPricingData, buildPricingUrl } from '@/lib/pricing-client';
+import { CURRENT_PRICE_BOOK, PriceBookGapError, type ResolvedPriceBook } from '@/lib/price-books';
+import {
+  getFallbackAppStreamRates,
+  validateAppStreamComponents,
+  validateAppStreamSessionSizing,
+  validateDiscountSettings,
+  type AppStreamEstimateConfig,
+  type AppStreamRateTable
+} from '@/lib/pricing-engine';
+import type { AppStreamEstimateRequest } from '@/types/appstream';
+
+/**
+ * AppStream 2.0 rate lookup: turns an estimate request into the pricing engine's configuration
+ * and reads the instance type's hourly rates from calculator.aws, falling back to the engine's
+ * hardcoded rates when live prices can't be used.
+ */
+
+// Rates of an instance type, with its size when calculator.aws or the client provided it
+export interface AppStreamRateLookup {
+  rates: AppStreamRateTable | null;
+  instanceVCpu?: number;
+  instanceMemoryGib?: number;
+}
+
+/**
+ * Checks an estimate request, returning an error message for invalid input
+ */
+export function validateAppStreamEstimateRequest(data: AppStreamEstimateRequest): string | null {
+  const { region, instanceType, instanceFamily, instanceFunction, operatingSystem, usersPerInstance = 1, userResources, components, discounts } = data;
+  if (!region || !instanceType || !instanceFamily || !instanceFunction || !operatingSystem) {
+    return "Missing required parameters";
+  }
+
+  // Instances are sized from the concurrent users and users per instance, never taken as given
+  if ('numberOfInstances' in data) {
+    return "numberOfInstances is not supported, instances are sized from the concurrent users and usersPerInstance";
+  }
+
+  return validateAppStreamSessionSizing(Number(usersPerInstance), userResources)
+    ?? (components ? validateAppStreamComponents(components) : null)
+    ?? (discounts ? validateDiscountSettings(discounts) : null);
+}
+
+/**
+ * Pricing engine configuration of an estimate request, with the defaults of omitted fields
+ */
+export function buildAppStreamEstimateConfig(data: AppStreamEstimateRequest): AppStreamEstimateConfig {
+  const {
+    region,
+    instanceType,
+    instanceFamily,
+    instanceFunction,
+    operatingSystem,
+    multiSession,
+    usageHours,
+    // Sessions sharing one instance on multi-session fleets
+    usersPerInstance = 1,
+    // vCPU and memory of a typical user, to recommend sessions per instance
+    userResources,
+    // Image builder, storage and data transfer costs
+    components,
+    usagePattern = 'always-on',
+    userCount = 10,
+    bufferFactor = 0.0, // Default to 0 for elastic fleet
+    includeWeekends = true,
+    // Extract the concurrent user values from the request
+    weekdayPeakConcurrentUsers = 80,
+    weekdayOffPeakConcurrentUsers = 10,
+    weekendPeakConcurrentUsers = 40,
+    weekendOffPeakConcurrentUsers = 5,
+    weekdayDaysCount = 5,
+    weekdayPeakHoursPerDay = 8,
+    weekendDaysCount = 2,
+    weekendPeakHoursPerDay = 4
+  } = data;
+
+  // Ensure bufferFactor is properly parsed as a number and is valid
+  const parsedBufferFactor = Math.min(1, Math.max(0, 
+    typeof bufferFactor === 'string' ? parseFloat(bufferFactor) : (bufferFactor ?? 0)
+  ));
+
+  // Log the buffer factor being used
+  console.log(`Using buffer factor: ${parsedBufferFactor * 100}%`);
+
+  return {
+    region,
+    instanceType,
+    instanceFamily,
+    instanceFunction,
+    operatingSystem,
+    multiSession: multiSession === 'true',
+    sessionsPerInstance: Number(usersPerInstance),
+    userResources,
+    components,
+    usagePattern,
+    usageHours,
+    userCount,
+    bufferFactor: parsedBufferFactor,
+    includeWeekends,
+    weekdayPeakConcurrentUsers,
+    weekdayOffPeakConcurrentUsers,
+    weekendPeakConcurrentUsers,
+    weekendOffPeakConcurrentUsers,
+    weekdayDaysCount,
+    weekdayPeakHoursPerDay,
+    weekendDaysCount,
+    weekendPeakHoursPerDay
+  };
+}
+
+/**
+ * Looks up the hourly rates of the request's instance type in the price book.
+ * Throws a PriceBookGapError when a pinned price book can't price it, live prices fall back
+ * to the hardcoded rates instead.
+ */
+export async function lookupAppStreamRates(
+  data: AppStreamEstimateRequest,
+  priceBook: ResolvedPriceBook
+): Promise<AppStreamRateLookup> {
+  const { region, instanceType, instanceFamily, instanceFunction, operatingSystem, components, instanceSpecs = null } = data;
+  const lookup: AppStreamRateLookup = { rates: null };
+
+  try {
+    const regionName = getRegionLocation(region);
+    
+    // Extract instance specs either from the provided data or fetch from API
+    let vCPU, memory, videoMemory;
+    
+    if (instanceSpecs) {
+      // Use the specs provided by the client
+      console.log('Using instance specs provided by client:', instanceSpecs);
+      vCPU = instanceSpecs.vcpu || instanceSpecs.vCPU;
+      memory = instanceSpecs.memory;
+      videoMemory = instanceSpecs.videoMemory;
+    } else {
+      // Fall back to fetching from the API
+      console.log('No instance specs provided, fetching from API');
+      
+      // First, fetch the instance specs from the aggregation data
+      const aggregationUrl = buildPricingUrl('appstream', 'appstream-instances-calc', `${encodeURIComponent(regionName)}/primary-selector-aggregations.json`);
+      
+      console.log('Fetching instance specifications from:', aggregationUrl);
+      
+      const aggregationData = await fetchAwsPricingData(
+        aggregationUrl,
+        `Failed to fetch instance specifications for ${regionName}`,
+        priceBook.fetchOptions
+      );
+      
+      // Find the matching instance details
+      const instanceDetails = aggregationData.aggregations.find(item => 
+        item.selectors["Instance Type"] === instanceType && 
+        item.selectors["Instance Family"] === mapInstanceFamily(instanceFamily) &&
+        item.selectors["Instance Function"] === mapInstanceFunction(instanceFunction) &&
+        item.selectors["Operating System"] === mapOperatingSystem(operatingSystem)
+      );
+      
+      if (!instanceDetails) {
+        throw new Error(`Could not find specifications for ${instanceType} with the given parameters`);
+      }
+      
+      // Extract the specs from the found instance
+      vCPU = instanceDetails.selectors["vCPU"];
+      memory = instanceDetails.selectors["Memory (GiB)"];
+      videoMemory = instanceDetails.selectors["Video Memory (GiB)"];
+    }
+    
+    console.log(`Using instance specs: vCPU=${vCPU}, Memory=${memory}, Video Memory=${videoMemory}`);
+
+    // Recommend the sessions per instance from the instance's size
+    lookup.instanceVCpu = parseFloat(vCPU) || undefined;
+    lookup.instanceMemoryGib = parseFloat(memory) || undefined;
+    
+    // Looks up the hourly rate of the instance type for a fleet or image builder function
+    const fetchRate = async (rateFunction: string) => {
+      // Now construct URL with the extracted parameters
+      const urlParams = [
+        encodeURIComponent(regionName),
+        encodeURIComponent(mapInstanceFamily(instanceFamily)),
+        encodeURIComponent(mapInstanceFunction(rateFunction)),
+        encodeURIComponent(instanceType),
+        encodeURIComponent(vCPU),
+        encodeURIComponent(memory),
+        encodeURIComponent(videoMemory),
+        encodeURIComponent(mapOperatingSystem(operatingSystem))
+      ];
+      
+      const awsPricingUrl = buildPricingUrl('appstream', 'appstream-instances-calc', `${urlParams.join('/')}/index.json`);
+      
+      console.log('Fetching AppStream pricing from:', awsPricingUrl);
+      
+      const data = await fetchAwsPricingData(
+        awsPricingUrl,
+        'AWS Pricing API request failed',
+        priceBook.fetchOptions
+      );
+
+      if (!data || !data.regions) {
+        throw new Error('AWS Pricing API request failed');
+      }
+      const regionData = data.regions[regionName];
+      if (!regionData) {
+        throw new Error(`No pricing data found for region ${regionName}`);
+      }
+
+      // Find the matching instance by key components
+      const priceKey = Object.keys(regionData).find(key => {
+        const entry = regionData[key];
+        return entry["Instance Type"] === instanceType &&
+               entry["Instance Family"] === mapInstanceFamily(instanceFamily) &&
+               entry["Instance Function"] === mapInstanceFunction(rateFunction) &&
+               entry["Operating System"] === mapOperatingSystem(operatingSystem);
+      });
+      if (!priceKey) {
+        throw new Error(`No matching price found for ${instanceType} in ${regionName}`);
+      }
+      return {
+        hourlyPrice: parseFloat(regionData[priceKey].price),
+        rateCode: regionData[priceKey].rateCode
+      };
+    };
+
+    const rates: AppStreamRateTable = {
+      source: 'aws-api',
+      ...await fetchRate(instanceFunction)
+    };
+    console.log(`Using AWS API pricing: $${rates.hourlyPrice}/hr for ${instanceType} from API`);
+
+    // Image builders have their own rate; the fleet rate stands in when it can't be found
+    if ((components?.imageBuilderHours ?? 0) > 0) {
+      try {
+        const imageBuilderRate = instanceFunction === 'imagebuilder' ? rates : await fetchRate('imagebuilder');
+        rates.imageBuilderHourlyPrice = imageBuilderRate.hourlyPrice;
+        rates.imageBuilderRateCode = imageBuilderRate.rateCode;
+      } catch (error) {
+        console.log(`Pricing image builder hours at the fleet rate (${error instanceof Error ? error.message : error})`);
+      }
+    }
+    lookup.rates = rates;
+  } catch (error) {
+    // A pinned price book is the only source of prices, so a gap in it is an error rather than a fallback
+    if (priceBook.reference.version !== CURRENT_PRICE_BOOK) {
+      throw new PriceBookGapError(priceBook.reference, error);
+    }
+
+    // Fallback to hardcoded pricing if AWS API fails
+    lookup.rates = getFallbackAppStreamRates(instanceFamily, instanceType);
+    console.log(`Using fallback pricing: $${lookup.rates?.hourlyPrice}/hr for ${instanceType} (${error.message})`);
+  }
+
+  return lookup;
+}
+
+// Map our values to the values calculator.aws expects
+function mapInstanceFamily(family: string): string {
+  const mapping = {
+    'general-purpose': 'General purpose',
+    'compute-optimized': 'Compute optimized',
+    'memory-optimized': 'Memory optimized',
+    'graphics': 'Graphics',
+    'graphics-pro': 'Graphics Pro',
+    'graphics-g5': 'Graphics G5',
+    'graphics-design': 'Graphics Design'
+  };
+  return mapping[family] || family;
+}
+
+function mapInstanceFunction(func: string): string {
+  const mapping = {
+    'fleet': 'Fleet',
+    'imagebuilder': 'ImageBuilder',
+    'elasticfleet': 'ElasticFleet'
+  };
+  return mapping[func] || func;
+}
+
+function mapOperatingSystem(os: string): string {
+  const mapping = {
+    'windows': 'Windows',
+    'amazon-linux': 'Amazon Linux',
+    'rhel': 'Red Hat Enterprise Linux',
+    'rocky-linux': 'Rocky Linux'
+  };
+  return mapping[os] || os;
+}
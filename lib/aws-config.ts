@@ -1,6 +1,7 @@
 import { WorkSpacesClient } from "@aws-sdk/client-workspaces"
 import { EC2Client } from "@aws-sdk/client-ec2"
 import { PricingClient } from "@aws-sdk/client-pricing"
+import { CloudWatchClient } from "@aws-sdk/client-cloudwatch"
 
 const region = process.env.AWS_REGION || "us-east-1"
 
@@ -15,11 +16,35 @@ if (!process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY) {
   console.warn("AWS credentials not found. Using empty credentials.")
 }
 
-// Create AWS SDK clients with explicit credentials
-export const workspacesClient = new WorkSpacesClient({
-  region,
+// Memoizes one client per region
+function createRegionalClients<T>(create: (clientRegion: string) => T): (clientRegion: string) => T {
+  const clients = new Map<string, T>()
+  return (clientRegion) => {
+    let client = clients.get(clientRegion)
+    if (!client) {
+      client = create(clientRegion)
+      clients.set(clientRegion, client)
+    }
+    return client
+  }
+}
+
+// WORKSPACES_ENDPOINT and CLOUDWATCH_ENDPOINT point the clients at another endpoint,
+// e.g. a local stub of the APIs (see scripts/workspaces-stub.ts)
+export const getWorkspacesClient = createRegionalClients((clientRegion) => new WorkSpacesClient({
+  region: clientRegion,
   credentials,
-})
+  endpoint: process.env.WORKSPACES_ENDPOINT || undefined,
+}))
+
+export const getCloudWatchClient = createRegionalClients((clientRegion) => new CloudWatchClient({
+  region: clientRegion,
+  credentials,
+  endpoint: process.env.CLOUDWATCH_ENDPOINT || undefined,
+}))
+
+// Create AWS SDK clients with explicit credentials
+export const workspacesClient = getWorkspacesClient(region)
 
 export const ec2Client = new EC2Client({
   region,
@@ -0,0 +1,139 @@
+import type { CurrencyInfo, DisplayCurrency, ExchangeRateTable } from "@/types/currency"
+
+/**
+ * Currency conversion of estimates. Prices are always fetched and calculated in USD, the only
+ * currency calculator.aws publishes, and converted for display with a dated exchange-rate table.
+ */
+
+export const BASE_CURRENCY = "USD"
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: "USD", name: "US Dollar", locale: "en-US" },
+  { code: "EUR", name: "Euro", locale: "de-DE" },
+  { code: "GBP", name: "British Pound", locale: "en-GB" },
+  { code: "JPY", name: "Japanese Yen", locale: "ja-JP" },
+  { code: "AUD", name: "Australian Dollar", locale: "en-AU" },
+  { code: "INR", name: "Indian Rupee", locale: "en-IN" },
+  { code: "CAD", name: "Canadian Dollar", locale: "en-CA" },
+  { code: "SGD", name: "Singapore Dollar", locale: "en-SG" },
+  { code: "KRW", name: "South Korean Won", locale: "ko-KR" },
+  { code: "BRL", name: "Brazilian Real", locale: "pt-BR" },
+  { code: "CHF", name: "Swiss Franc", locale: "de-CH" },
+  { code: "ZAR", name: "South African Rand", locale: "en-ZA" },
+]
+
+// Used when no exchange-rate file is configured; replace it with the rates finance publishes
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  effectiveDate: "2025-01-02",
+  rates: {
+    EUR: 0.97,
+    GBP: 0.8,
+    JPY: 157.2,
+    AUD: 1.61,
+    INR: 85.7,
+    CAD: 1.44,
+    SGD: 1.37,
+    KRW: 1472,
+    BRL: 6.18,
+    CHF: 0.91,
+    ZAR: 18.8,
+  },
+}
+
+export const USD_DISPLAY_CURRENCY: DisplayCurrency = {
+  code: BASE_CURRENCY,
+  rate: 1,
+  effectiveDate: DEFAULT_EXCHANGE_RATES.effectiveDate,
+}
+
+export function getCurrencyInfo(code: string): CurrencyInfo {
+  return CURRENCIES.find(currency => currency.code === code) || { code, name: code, locale: "en-US" }
+}
+
+/**
+ * Currencies of the table, USD first
+ */
+export function getTableCurrencies(table: ExchangeRateTable): CurrencyInfo[] {
+  return [
+    getCurrencyInfo(BASE_CURRENCY),
+    ...Object.keys(table.rates).filter(code => code !== BASE_CURRENCY).map(getCurrencyInfo),
+  ]
+}
+
+/**
+ * Currency with its rate from the table, or null when the table has no rate for it
+ */
+export function getDisplayCurrency(code: string, table: ExchangeRateTable): DisplayCurrency | null {
+  if (code === BASE_CURRENCY) {
+    return { ...USD_DISPLAY_CURRENCY, effectiveDate: table.effectiveDate }
+  }
+  const rate = table.rates[code]
+  return rate ? { code, rate, effectiveDate: table.effectiveDate } : null
+}
+
+export function isBaseCurrency(currency?: DisplayCurrency | null): boolean {
+  return !currency || currency.code === BASE_CURRENCY
+}
+
+/**
+ * Error of an exchange-rate table read from a file or request, null when it can be used
+ */
+export function validateExchangeRateTable(value: any): string | null {
+  if (!value || typeof value !== "object") {
+    return "The exchange-rate table must be an object"
+  }
+  if (typeof value.effectiveDate !== "string" || Number.isNaN(Date.parse(value.effectiveDate))) {
+    return "The exchange-rate table needs an effectiveDate"
+  }
+  if (!value.rates || typeof value.rates !== "object") {
+    return "The exchange-rate table needs rates by currency code"
+  }
+  for (const [code, rate] of Object.entries(value.rates)) {
+    if (!/^[A-Z]{3}$/.test(code)) {
+      return `${code} is not an ISO 4217 currency code`
+    }
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+      return `The rate of ${code} must be a positive number`
+    }
+  }
+  return null
+}
+
+export function convertFromUsd(amount: number, currency: DisplayCurrency): number {
+  return amount * currency.rate
+}
+
+/**
+ * Formats a USD amount in a currency, e.g. "1.234,56 €" for EUR. Amounts keep the currency's
+ * own decimals (none for JPY); maximumFractionDigits allows more for hourly rates.
+ */
+export function formatCurrencyAmount(
+  amountUsd: number,
+  currency: DisplayCurrency = USD_DISPLAY_CURRENCY,
+  options: { maximumFractionDigits?: number; currencyDisplay?: "symbol" | "code" } = {}
+): string {
+  const { locale } = getCurrencyInfo(currency.code)
+  const currencyDigits = new Intl.NumberFormat(locale, { style: "currency", currency: currency.code })
+    .resolvedOptions().maximumFractionDigits ?? 2
+
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: currency.code,
+    currencyDisplay: options.currencyDisplay,
+    minimumFractionDigits: currencyDigits,
+    maximumFractionDigits: Math.max(currencyDigits, options.maximumFractionDigits ?? currencyDigits),
+  }).format(convertFromUsd(amountUsd, currency))
+}
+
+/**
+ * Formats a USD amount labelled with its currency code, e.g. "USD 0.03", for notes and
+ * assumptions that stay in USD whatever the display currency
+ */
+export function formatUsdAmount(amountUsd: number, maximumFractionDigits?: number): string {
+  return formatCurrencyAmount(amountUsd, USD_DISPLAY_CURRENCY, { maximumFractionDigits, currencyDisplay: "code" })
+}
+
+// e.g. "EUR at 0.97 per USD, rates effective 2025-01-02"
+export function describeConversion(currency: DisplayCurrency): string {
+  return `${currency.code} at ${currency.rate} per ${BASE_CURRENCY}, rates effective ${currency.effectiveDate}`
+}
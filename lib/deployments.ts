@@ -0,0 +1,172 @@
+import { APPSTREAM_FALLBACK_HOURLY_PRICING } from "@/lib/pricing-engine"
+import type { AppStreamEstimateRequest } from "@/types/appstream"
+import type { DeploymentGroup, DeploymentGroupType } from "@/types/deployment"
+import type { DiscountSettings } from "@/types/discounts"
+import type { WorkSpaceConfig } from "@/types/workspace"
+
+/**
+ * Deployment groups: named sets of users that each carry their own Core, Pool or AppStream
+ * configuration, so a mixed fleet can be quoted as one estimate
+ */
+
+export const DEPLOYMENT_GROUP_TYPES: { value: DeploymentGroupType; label: string }[] = [
+  { value: "core", label: "WorkSpaces Core" },
+  { value: "pool", label: "WorkSpaces Pool" },
+  { value: "appstream", label: "AppStream 2.0" },
+]
+
+// Options offered when configuring a group
+export const CORE_BUNDLES = [
+  { value: "value", label: "Value" },
+  { value: "standard", label: "Standard" },
+  { value: "performance", label: "Performance" },
+  { value: "power", label: "Power" },
+  { value: "powerpro", label: "PowerPro" },
+  { value: "graphics-g4dn", label: "Graphics.g4dn" },
+  { value: "graphicspro-g4dn", label: "GraphicsPro.g4dn" },
+]
+
+export const POOL_BUNDLES = [
+  { value: "pool-value", label: "Value" },
+  { value: "pool-standard", label: "Standard" },
+  { value: "pool-performance", label: "Performance" },
+  { value: "pool-power", label: "Power" },
+  { value: "pool-powerpro", label: "PowerPro" },
+]
+
+export const RUNNING_MODES = [
+  { value: "always-on", label: "AlwaysOn" },
+  { value: "auto-stop", label: "AutoStop" },
+]
+
+export const LICENSES = [
+  { value: "included", label: "Included" },
+  { value: "bring-your-own-license", label: "BYOL" },
+]
+
+export const APPSTREAM_USAGE_PATTERNS = [
+  { value: "business-hours", label: "Business Hours" },
+  { value: "always-on", label: "Always-On (24/7)" },
+]
+
+// Every AppStream instance type with the family it belongs to
+export const APPSTREAM_INSTANCE_TYPES = Object.entries(APPSTREAM_FALLBACK_HOURLY_PRICING).flatMap(([family, types]) =>
+  Object.keys(types).map(instanceType => ({ value: instanceType, family }))
+)
+
+const DEFAULT_WORKSPACE_CONFIG: WorkSpaceConfig = {
+  region: "us-east-1",
+  bundleId: "standard",
+  bundleSpecs: {
+    vCPU: 2,
+    memory: 8,
+    storage: 130,
+    graphics: "Standard"
+  },
+  rootVolume: "80",
+  userVolume: "50",
+  operatingSystem: "windows",
+  license: "included",
+  runningMode: "always-on",
+  numberOfWorkspaces: 10,
+  billingOption: "monthly",
+  poolRegion: "us-east-1",
+  poolBundleId: "pool-standard",
+  poolOperatingSystem: "windows",
+  poolLicense: "included",
+  poolNumberOfUsers: 10
+}
+
+const DEFAULT_APPSTREAM_CONFIG: AppStreamEstimateRequest = {
+  region: "us-east-1",
+  instanceType: "stream.standard.medium",
+  instanceFamily: "general-purpose",
+  instanceFunction: "fleet",
+  operatingSystem: "windows",
+  multiSession: "false",
+  usagePattern: "business-hours",
+  userCount: 10,
+  bufferFactor: 0.1,
+  weekdayDaysCount: 5,
+  weekdayPeakHoursPerDay: 8,
+  weekdayPeakConcurrentUsers: 10,
+  weekdayOffPeakConcurrentUsers: 0,
+  weekendDaysCount: 2,
+  weekendPeakHoursPerDay: 4,
+  weekendPeakConcurrentUsers: 0,
+  weekendOffPeakConcurrentUsers: 0
+}
+
+/**
+ * Creates a group of the given type with default configuration
+ */
+export function createDeploymentGroup(type: DeploymentGroupType, name: string): DeploymentGroup {
+  const id = `${type}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+
+  if (type === "appstream") {
+    return { id, name, type, appStreamConfig: { ...DEFAULT_APPSTREAM_CONFIG } }
+  }
+  return { id, name, type, workspaceConfig: { ...DEFAULT_WORKSPACE_CONFIG } }
+}
+
+/**
+ * Number of users a group is sized for
+ */
+export function getDeploymentGroupUserCount(group: DeploymentGroup): number {
+  switch (group.type) {
+    case "core":
+      return group.workspaceConfig?.numberOfWorkspaces || 0
+    case "pool":
+      return group.workspaceConfig?.poolNumberOfUsers || group.workspaceConfig?.numberOfWorkspaces || 0
+    case "appstream":
+      return group.appStreamConfig?.userCount || 0
+  }
+}
+
+/**
+ * Builds the request body of the estimate endpoint that prices a group.
+ * Pool groups are sent as pool calculations of their pool* fields. The price book and
+ * discounts of the deployment, when given, replace those of the group.
+ */
+export function buildDeploymentGroupRequest(
+  group: DeploymentGroup,
+  priceBookVersion?: string,
+  discounts?: DiscountSettings
+): WorkSpaceConfig | AppStreamEstimateRequest | null {
+  if (group.type === "appstream") {
+    const appStreamConfig = group.appStreamConfig
+    return appStreamConfig
+      ? {
+          ...appStreamConfig,
+          priceBookVersion: priceBookVersion ?? appStreamConfig.priceBookVersion,
+          discounts: discounts ?? appStreamConfig.discounts
+        }
+      : null
+  }
+
+  const config = group.workspaceConfig
+  if (!config) {
+    return null
+  }
+
+  if (group.type === "pool") {
+    return {
+      ...config,
+      region: config.poolRegion || config.region,
+      bundleId: config.poolBundleId || config.bundleId,
+      operatingSystem: config.poolOperatingSystem || config.operatingSystem,
+      license: config.poolLicense || config.license,
+      numberOfWorkspaces: getDeploymentGroupUserCount(group),
+      isPoolCalculation: true,
+      priceBookVersion: priceBookVersion ?? config.priceBookVersion,
+      discounts: discounts ?? config.discounts
+    }
+  }
+
+  return {
+    ...config,
+    isPoolCalculation: false,
+    priceBookVersion: priceBookVersion ?? config.priceBookVersion,
+    discounts: discounts ?? config.discounts
+  }
+}
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { buildEstimateExportRows, toCsv } from "@/lib/estimate-export"
+import type { PricingEstimate } from "@/types/workspace"
+
+const estimate = {
+  bundleName: "Standard pool",
+  pricingSource: "aws-api",
+  totalMonthlyCost: 41.9,
+  lineItems: [
+    // 4.19 * 10 in floating point
+    { description: "User license (Microsoft RDS SAL)", kind: "user-license", unit: "User-Month", quantity: 10, unitPrice: 4.19, extendedCost: 41.900000000000006 },
+  ],
+} as PricingEstimate
+
+describe("buildEstimateExportRows", () => {
+  it("rounds the monthly cost of each line item, in USD and the local currency", () => {
+    const rows = buildEstimateExportRows({
+      assumptions: [],
+      estimate,
+      currency: { code: "EUR", rate: 0.3, effectiveDate: "2025-01-15" },
+    })
+
+    assert.match(toCsv(rows), /\r\nUser license \(Microsoft RDS SAL\),,User-Month,10,4\.19,41\.9,12\.57,\r\n/)
+  })
+})
@@ -0,0 +1,289 @@
+import { convertFromUsd, describeConversion, formatUsdAmount, isBaseCurrency } from "@/lib/currency"
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import { getRegionName } from "@/lib/regions"
+import type { AppStreamShareState } from "@/lib/share-state"
+import type { SpreadsheetCell, SpreadsheetRow } from "@/lib/xlsx"
+import type { AppStreamComponents } from "@/types/appstream"
+import type { DisplayCurrency } from "@/types/currency"
+import type { EstimateAssumption, EstimateExportFormat, EstimateExportRequest, SavedEstimate } from "@/types/estimates"
+import type { PoolScalingPolicy } from "@/types/pool-simulation"
+import type { PoolUsagePattern, WorkSpaceConfig } from "@/types/workspace"
+
+/**
+ * Spreadsheet exports of an estimate: its assumptions, line items and totals, as rows shared
+ * by the CSV and XLSX output so both carry the same content.
+ */
+
+export const EXPORT_FORMATS: EstimateExportFormat[] = ["csv", "xlsx"]
+
+// Item, Rate code, Unit, Quantity, Unit price, Monthly cost, Note
+const EXPORT_COLUMN_WIDTHS = [48, 30, 16, 12, 14, 16, 40]
+
+/**
+ * Column widths of an export, with the local currency column before the note when there is one
+ */
+export function getExportColumnWidths(currency?: DisplayCurrency): number[] {
+  return isBaseCurrency(currency)
+    ? EXPORT_COLUMN_WIDTHS
+    : [...EXPORT_COLUMN_WIDTHS.slice(0, 6), 18, ...EXPORT_COLUMN_WIDTHS.slice(6)]
+}
+
+const formatRegion = (code?: string) => code ? getRegionName(code) : "-"
+
+const LICENSE_LABELS: Record<string, string> = {
+  "included": "Included",
+  "bring-your-own-license": "BYOL",
+  "not-applicable": "Not applicable",
+}
+
+const OS_LABELS: Record<string, string> = {
+  "windows": "Windows",
+  "linux": "Linux",
+  "amazon-linux": "Amazon Linux",
+  "ubuntu": "Ubuntu",
+  "rhel": "Red Hat Enterprise Linux",
+  "rocky-linux": "Rocky Linux",
+}
+
+const RUNNING_MODE_LABELS: Record<string, string> = {
+  "always-on": "AlwaysOn",
+  "auto-stop": "AutoStop",
+}
+
+const getLabel = (labels: Record<string, string>, value?: string) => (value && labels[value]) || value || "-"
+
+// e.g. "5 days, 8 peak hours/day, 80% peak / 10% off-peak"
+function describeUsage(days: number, peakHours: number, peak: number, offPeak: number, unit: string): string {
+  return `${days} days, ${peakHours} peak hours/day, ${peak}${unit} peak / ${offPeak}${unit} off-peak`
+}
+
+function getUsagePatternAssumptions(pattern: PoolUsagePattern, unit: string): EstimateAssumption[] {
+  return [
+    {
+      label: "Weekday usage",
+      value: describeUsage(pattern.weekdayDaysCount, pattern.weekdayPeakHoursPerDay,
+        pattern.weekdayPeakConcurrentUsers, pattern.weekdayOffPeakConcurrentUsers, unit)
+    },
+    {
+      label: "Weekend usage",
+      value: describeUsage(pattern.weekendDaysCount, pattern.weekendPeakHoursPerDay,
+        pattern.weekendPeakConcurrentUsers, pattern.weekendOffPeakConcurrentUsers, unit)
+    },
+  ]
+}
+
+// Buffer, stopped instance rate and user license of a pool, when they replace the defaults
+function getPoolCostInputAssumptions(pattern?: PoolUsagePattern, isSimulated = false): EstimateAssumption[] {
+  const inputs = [
+    pattern?.bufferPercent !== undefined && !isSimulated ? `${pattern.bufferPercent}% stopped buffer` : null,
+    pattern?.stoppedInstanceRate !== undefined
+      ? `${formatUsdAmount(pattern.stoppedInstanceRate, 4)}/hr per stopped instance`
+      : null,
+    pattern?.userLicenseCostPerMonth !== undefined
+      ? `${formatUsdAmount(pattern.userLicenseCostPerMonth)}/user/month license`
+      : null,
+  ].filter(Boolean)
+  return inputs.length > 0 ? [{ label: "Pool cost inputs", value: inputs.join(", ") }] : []
+}
+
+// Demand profile and scaling policy of a pool priced by the capacity simulation
+function getPoolSimulationAssumptions(profile: number[], policy?: PoolScalingPolicy): EstimateAssumption[] {
+  const average = profile.reduce((total, value) => total + value, 0) / (profile.length || 1)
+  const assumptions: EstimateAssumption[] = [
+    {
+      label: "Hourly demand",
+      value: `${profile.length}-hour weekly profile, ${Math.max(0, ...profile)}% peak / ${Math.round(average)}% average concurrent users`
+    },
+  ]
+  if (policy) {
+    assumptions.push({
+      label: "Scaling policy",
+      value: `${policy.minCapacity}-${policy.maxCapacity || "unlimited"} instances, ` +
+        `scale out by ${policy.scaleOutIncrement} below ${policy.scaleOutThresholdPercent}% free, ` +
+        `scale in by ${policy.scaleInPercentPerHour}%/hr above ${policy.scaleInThresholdPercent}% free, ` +
+        `${policy.bufferCapacityPercent}% stopped buffer, ${policy.disconnectTimeoutMinutes} min disconnect timeout`
+    })
+  }
+  return assumptions
+}
+
+/**
+ * Assumptions of a WorkSpaces estimate, from the Core or Pool fields depending on the tab
+ */
+export function getWorkSpacesAssumptions(config: WorkSpaceConfig, tab: string): EstimateAssumption[] {
+  if (tab === "pool") {
+    const specs = config.poolBundleSpecs
+    const bundleId = config.poolBundleId || "-"
+    return [
+      { label: "Product", value: "WorkSpaces Pool" },
+      { label: "Region", value: formatRegion(config.poolRegion || config.region) },
+      { label: "Bundle", value: specs ? `${bundleId} (${specs.vCPU} vCPU, ${specs.memory} GB)` : bundleId },
+      { label: "Operating system", value: getLabel(OS_LABELS, config.poolOperatingSystem) },
+      { label: "License", value: getLabel(LICENSE_LABELS, config.poolLicense) },
+      { label: "Users", value: String(config.poolNumberOfUsers ?? 0) },
+      ...(config.poolDemandProfile
+        ? getPoolSimulationAssumptions(config.poolDemandProfile, config.poolScalingPolicy)
+        : config.poolUsagePattern ? getUsagePatternAssumptions(config.poolUsagePattern, "%") : []),
+      ...getPoolCostInputAssumptions(config.poolUsagePattern, !!config.poolDemandProfile),
+    ]
+  }
+
+  const specs = config.bundleSpecs
+  const assumptions: EstimateAssumption[] = [
+    { label: "Product", value: "WorkSpaces Core" },
+    { label: "Region", value: formatRegion(config.region) },
+    { label: "Bundle", value: specs ? `${config.bundleId} (${specs.vCPU} vCPU, ${specs.memory} GB)` : config.bundleId },
+    { label: "Root volume", value: config.rootVolume ? `${config.rootVolume} GB` : "-" },
+    { label: "User volume", value: config.userVolume ? `${config.userVolume} GB` : "-" },
+    { label: "Operating system", value: getLabel(OS_LABELS, config.operatingSystem) },
+    { label: "License", value: getLabel(LICENSE_LABELS, config.license || "included") },
+    { label: "Running mode", value: getLabel(RUNNING_MODE_LABELS, config.runningMode) },
+    { label: "WorkSpaces", value: String(config.numberOfWorkspaces) },
+  ]
+  if (config.runningMode === "auto-stop") {
+    assumptions.push({ label: "Hours per user per month", value: String(config.autoStopHoursPerUser ?? "-") })
+  }
+  return assumptions
+}
+
+// Image builder, storage and data transfer inputs of an AppStream estimate, when any were priced
+function getAppStreamComponentAssumptions(components: AppStreamComponents = {}): EstimateAssumption[] {
+  const inputs = [
+    components.imageBuilderHours ? `${components.imageBuilderHours} image builder hours/month` : null,
+    components.homeFolderGbPerUser ? `${components.homeFolderGbPerUser} GB home folder/user` : null,
+    components.appSettingsGbPerUser ? `${components.appSettingsGbPerUser} GB app settings/user` : null,
+    components.storageRequestsPerUser ? `${components.storageRequestsPerUser} S3 requests/user/month` : null,
+    components.dataTransferOutGbPerUser ? `${components.dataTransferOutGbPerUser} GB data transfer out/user/month` : null,
+  ].filter(Boolean)
+  return inputs.length > 0 ? [{ label: "Additional components", value: inputs.join(", ") }] : []
+}
+
+/**
+ * Assumptions of an AppStream estimate
+ */
+export function getAppStreamAssumptions(settings: AppStreamShareState): EstimateAssumption[] {
+  return [
+    { label: "Product", value: "AppStream 2.0" },
+    { label: "Region", value: formatRegion(settings.region) },
+    { label: "Instance type", value: settings.instanceType || "-" },
+    { label: "Instance family", value: settings.instanceFamily || "-" },
+    { label: "Fleet type", value: settings.instanceFunction || "-" },
+    { label: "Operating system", value: getLabel(OS_LABELS, settings.operatingSystem) },
+    { label: "Multi-session", value: settings.multiSession === "true" ? "Yes" : "No" },
+    ...(settings.multiSession === "true" && settings.instanceFunction !== "elasticfleet"
+      ? [{ label: "Users per instance", value: String(settings.usersPerInstance) }]
+      : []),
+    { label: "Users", value: String(settings.userCount) },
+    ...getUsagePatternAssumptions(settings.usagePattern, " users"),
+    { label: "Buffer factor", value: `${Math.round(settings.bufferFactor * 100)}%` },
+    ...getAppStreamComponentAssumptions(settings.components),
+  ]
+}
+
+/**
+ * Assumptions of a saved estimate, from the calculator settings it was saved with
+ */
+export function getSavedEstimateAssumptions(saved: SavedEstimate): EstimateAssumption[] {
+  if (saved.type === "appstream" && saved.appstream) {
+    return getAppStreamAssumptions(saved.appstream)
+  }
+  return saved.workspaces ? getWorkSpacesAssumptions(saved.workspaces.config, saved.workspaces.tab) : []
+}
+
+/**
+ * Rows of an export: title, pricing source, assumptions, line items and totals
+ */
+export function buildEstimateExportRows(request: EstimateExportRequest, generatedAt = new Date()): SpreadsheetRow[] {
+  const { estimate } = request
+  const text = (...values: (string | null)[]) => values.map(value => ({ value }))
+  // USD amounts are followed by the local currency amount when one is requested
+  const localCurrency = isBaseCurrency(request.currency) ? null : request.currency!
+  const local = (amountUsd: number): SpreadsheetCell[] => localCurrency
+    ? [{ value: formatPriceForStorage(convertFromUsd(amountUsd, localCurrency)), format: "amount" }]
+    : []
+
+  const pricingSource = estimate.pricingSource === "aws-api" ? "AWS Pricing API" : "Calculated from fallback rates"
+  const rows: SpreadsheetRow[] = [
+    { cells: text(request.name || estimate.bundleName || "Estimate"), style: "title" },
+    { cells: text("Generated", generatedAt.toISOString()) },
+    { cells: text("Pricing source", pricingSource) },
+  ]
+  if (estimate.priceBook) {
+    rows.push({ cells: text("Price book", estimate.priceBook.version) })
+  }
+  if (localCurrency) {
+    rows.push({ cells: text("Currency", `USD, with amounts in ${describeConversion(localCurrency)}`) })
+  }
+
+  rows.push({ cells: [] }, { cells: text("Assumptions"), style: "section" })
+  for (const assumption of request.assumptions) {
+    rows.push({ cells: text(assumption.label, assumption.value) })
+  }
+
+  rows.push(
+    { cells: [] },
+    { cells: text("Line Items"), style: "section" },
+    {
+      cells: text("Item", "Rate code", "Unit", "Quantity", "Unit price", "Monthly cost",
+        ...(localCurrency ? [`Monthly cost (${localCurrency.code})`] : []), "Note"),
+      style: "header"
+    }
+  )
+  for (const item of estimate.lineItems || []) {
+    const extendedCost = formatPriceForStorage(item.extendedCost)
+    rows.push({
+      cells: [
+        { value: item.description },
+        { value: item.rateCode || null },
+        { value: item.unit },
+        { value: item.quantity, format: "number" },
+        { value: item.unitPrice, format: "rate" },
+        { value: extendedCost, format: "currency" },
+        ...local(extendedCost),
+        { value: item.note || null },
+      ]
+    })
+  }
+
+  const total = (label: string, value: number) => ({
+    cells: [{ value: label }, ...text(null, null, null, null), { value, format: "currency" as const }, ...local(value)],
+    style: "total" as const
+  })
+  // Discounted estimates show the list price and discount above the net total
+  if (estimate.discount) {
+    rows.push(
+      total("List monthly cost", estimate.discount.listMonthlyCost),
+      total("Discounts and negotiated rates", -estimate.discount.discountAmount)
+    )
+  }
+  rows.push(
+    total("Total monthly cost", estimate.totalMonthlyCost),
+    total("Annual estimate", estimate.annualEstimate ?? estimate.totalMonthlyCost * 12),
+    total("Cost per user per month", estimate.costPerWorkspace)
+  )
+
+  return rows
+}
+
+function escapeCsvValue(value: string | number | null): string {
+  if (value === null) {
+    return ""
+  }
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV of the export rows, numbers unformatted so spreadsheets read them as numbers
+ */
+export function toCsv(rows: SpreadsheetRow[]): string {
+  return rows.map(row => row.cells.map(cell => escapeCsvValue(cell.value)).join(",")).join("\r\n") + "\r\n"
+}
+
+/**
+ * File name for an export or proposal, e.g. "finance-team-2025-01-15.xlsx"
+ */
+export function getExportFileName(name: string | undefined, format: EstimateExportFormat | "pdf", date = new Date()): string {
+  const slug = (name || "estimate").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "estimate"
+  return `${slug}-${date.toISOString().slice(0, 10)}.${format}`
+}
@@ -0,0 +1,139 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { randomUUID } from "crypto"
+import type { SavedEstimate, SavedEstimateInput } from "@/types/estimates"
+
+/**
+ * Saved estimates, persisted as a single JSON file so customer scenarios can be reopened later.
+ *
+ * Environment variables:
+ * - ESTIMATE_STORE_PATH: the JSON file estimates are kept in (default ./data/estimates.json)
+ */
+
+interface EstimateStoreFile {
+  estimates: SavedEstimate[]
+}
+
+export function getEstimateStorePath(): string {
+  return path.resolve(process.env.ESTIMATE_STORE_PATH || path.join(process.cwd(), "data", "estimates.json"))
+}
+
+async function readStore(): Promise<EstimateStoreFile> {
+  try {
+    const content = await fs.readFile(getEstimateStorePath(), "utf8")
+    const store = JSON.parse(content) as EstimateStoreFile
+    return { estimates: Array.isArray(store.estimates) ? store.estimates : [] }
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return { estimates: [] }
+    }
+    throw error
+  }
+}
+
+// Writes to a temporary file first so a crash never leaves a truncated store behind
+async function writeStore(store: EstimateStoreFile): Promise<void> {
+  const storePath = getEstimateStorePath()
+  const tempPath = `${storePath}.${process.pid}.tmp`
+  await fs.mkdir(path.dirname(storePath), { recursive: true })
+  await fs.writeFile(tempPath, JSON.stringify(store, null, 2))
+  await fs.rename(tempPath, storePath)
+}
+
+// Read-modify-write cycles run one at a time so concurrent requests don't drop each other's changes
+let pendingUpdate: Promise<unknown> = Promise.resolve()
+
+function updateStore<T>(update: (store: EstimateStoreFile) => T): Promise<T> {
+  const result = pendingUpdate.then(async () => {
+    const store = await readStore()
+    const value = update(store)
+    await writeStore(store)
+    return value
+  })
+  pendingUpdate = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Saved estimates, most recently updated first
+ */
+export async function listSavedEstimates(): Promise<SavedEstimate[]> {
+  const { estimates } = await readStore()
+  return [...estimates].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export async function getSavedEstimate(id: string): Promise<SavedEstimate | null> {
+  const { estimates } = await readStore()
+  return estimates.find(estimate => estimate.id === id) || null
+}
+
+export function createSavedEstimate(input: SavedEstimateInput): Promise<SavedEstimate> {
+  const now = new Date().toISOString()
+  const saved: SavedEstimate = {
+    id: randomUUID(),
+    name: input.name,
+    type: input.type,
+    workspaces: input.workspaces,
+    appstream: input.appstream,
+    estimate: input.estimate,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  return updateStore(store => {
+    store.estimates.push(saved)
+    return saved
+  })
+}
+
+/**
+ * Renames a saved estimate, or returns null if it does not exist
+ */
+export function renameSavedEstimate(id: string, name: string): Promise<SavedEstimate | null> {
+  return updateStore(store => {
+    const saved = store.estimates.find(estimate => estimate.id === id)
+    if (!saved) {
+      return null
+    }
+    saved.name = name
+    saved.updatedAt = new Date().toISOString()
+    return saved
+  })
+}
+
+/**
+ * Copies a saved estimate under a new name ("<name> (copy)" by default), or returns null if it does not exist
+ */
+export function duplicateSavedEstimate(id: string, name?: string): Promise<SavedEstimate | null> {
+  return updateStore(store => {
+    const original = store.estimates.find(estimate => estimate.id === id)
+    if (!original) {
+      return null
+    }
+
+    const now = new Date().toISOString()
+    const copy: SavedEstimate = {
+      ...structuredClone(original),
+      id: randomUUID(),
+      name: name || `${original.name} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+    }
+    store.estimates.push(copy)
+    return copy
+  })
+}
+
+/**
+ * Deletes a saved estimate, returns false if it does not exist
+ */
+export function deleteSavedEstimate(id: string): Promise<boolean> {
+  return updateStore(store => {
+    const index = store.estimates.findIndex(estimate => estimate.id === id)
+    if (index === -1) {
+      return false
+    }
+    store.estimates.splice(index, 1)
+    return true
+  })
+}
@@ -0,0 +1,40 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { DEFAULT_EXCHANGE_RATES, validateExchangeRateTable } from "@/lib/currency"
+import type { ExchangeRateTable } from "@/types/currency"
+
+/**
+ * Locally configured exchange-rate table, read from EXCHANGE_RATES_FILE. Server-side only.
+ *
+ * The file holds { "effectiveDate": "2025-01-15", "rates": { "EUR": 0.92, ... } } with the units
+ * of each currency per USD. Without a file, or with one that can't be used, the built-in
+ * DEFAULT_EXCHANGE_RATES apply.
+ */
+
+export function getExchangeRatesFile(): string {
+  return process.env.EXCHANGE_RATES_FILE || path.join(process.cwd(), "exchange-rates.json")
+}
+
+export async function loadExchangeRates(): Promise<ExchangeRateTable> {
+  const file = getExchangeRatesFile()
+
+  let contents: string
+  try {
+    contents = await fs.readFile(file, "utf8")
+  } catch {
+    return DEFAULT_EXCHANGE_RATES
+  }
+
+  try {
+    const table = JSON.parse(contents)
+    const error = validateExchangeRateTable(table)
+    if (error) {
+      console.error(`Ignoring exchange rates in ${file}: ${error}`)
+      return DEFAULT_EXCHANGE_RATES
+    }
+    return { effectiveDate: table.effectiveDate, rates: table.rates }
+  } catch (error) {
+    console.error(`Error reading exchange rates from ${file}:`, error)
+    return DEFAULT_EXCHANGE_RATES
+  }
+}
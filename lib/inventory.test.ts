@@ -0,0 +1,92 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { buildInventoryDeployment, buildInventoryWorkspaceConfig, groupWorkspaceInventory } from "@/lib/inventory"
+import type { CurrentWorkspace } from "@/types/inventory"
+
+const standard: CurrentWorkspace = {
+  region: "us-east-1",
+  state: "AVAILABLE",
+  computeTypeName: "STANDARD",
+  rootVolumeSizeGib: 80,
+  userVolumeSizeGib: 50,
+  runningMode: "ALWAYS_ON",
+  operatingSystemName: "WINDOWS_SERVER_2022",
+}
+
+describe("groupWorkspaceInventory", () => {
+  it("leaves out WorkSpaces that are no longer billed", () => {
+    const groups = groupWorkspaceInventory(
+      ["AVAILABLE", "STOPPED", "PENDING", "TERMINATING", "TERMINATED", "ERROR"].map(state => ({ ...standard, state }))
+    )
+
+    assert.equal(groups.length, 1)
+    assert.equal(groups[0].count, 3)
+  })
+
+  it("maps each operating system to the calculator's operating system and license", () => {
+    const names = [
+      "WINDOWS_SERVER_2022",
+      "WINDOWS_SERVER_2019",
+      "WINDOWS_10",
+      "WINDOWS_11",
+      "AMAZON_LINUX_2",
+      "UBUNTU_22_04",
+      "RHEL_8",
+      "ROCKY_8",
+      undefined,
+    ]
+    const groups = groupWorkspaceInventory(names.map(operatingSystemName => ({ ...standard, operatingSystemName })))
+
+    assert.deepEqual(groups.map(group => [group.operatingSystem, group.license, group.count]), [
+      ["windows", "included", 3],
+      ["windows", "bring-your-own-license", 2],
+      ["amazon-linux", "included", 1],
+      ["ubuntu", "included", 1],
+      ["rhel", "included", 1],
+      ["rocky-linux", "included", 1],
+    ])
+  })
+
+  it("groups by region, compute type, volumes and running mode, largest group of each region first", () => {
+    const groups = groupWorkspaceInventory([
+      { ...standard, region: "us-east-1" },
+      { ...standard, region: "eu-west-1", runningMode: "AUTO_STOP" },
+      { ...standard, region: "us-east-1", userVolumeSizeGib: 100 },
+      { ...standard, region: "us-east-1", userVolumeSizeGib: 100 },
+      { ...standard, region: "eu-west-1", runningMode: "MANUAL" },
+    ])
+
+    assert.deepEqual(groups.map(group => [group.region, group.userVolumeSizeGib, group.runningMode, group.count]), [
+      ["eu-west-1", 50, "auto-stop", 1],
+      ["eu-west-1", 50, "always-on", 1],
+      ["us-east-1", 100, "always-on", 2],
+      ["us-east-1", 50, "always-on", 1],
+    ])
+  })
+})
+
+describe("buildInventoryDeployment", () => {
+  it("prices each group as a Core group and skips compute types the calculator can't price", () => {
+    const groups = groupWorkspaceInventory([
+      { ...standard, runningMode: "AUTO_STOP", operatingSystemName: "WINDOWS_11" },
+      { ...standard, computeTypeName: "GRAPHICS_G5" },
+    ])
+
+    assert.equal(buildInventoryWorkspaceConfig(groups.find(group => group.computeTypeName === "GRAPHICS_G5")!), null)
+
+    const deployment = buildInventoryDeployment(groups)
+    assert.equal(deployment.groups.length, 1)
+    assert.deepEqual(deployment.groups[0].workspaceConfig, {
+      region: "us-east-1",
+      bundleId: "standard",
+      bundleSpecs: { vCPU: 2, memory: 4, graphics: "Standard", storage: 130 },
+      rootVolume: "80",
+      userVolume: "50",
+      operatingSystem: "windows",
+      license: "bring-your-own-license",
+      runningMode: "auto-stop",
+      numberOfWorkspaces: 1,
+      billingOption: "hourly",
+    })
+  })
+})
@@ -0,0 +1,147 @@
+import { getBundleName } from "@/lib/pricing-engine"
+import type { Deployment } from "@/types/deployment"
+import type { CurrentWorkspace, InventoryGroup } from "@/types/inventory"
+import type { BundleSpecs, WorkSpaceConfig } from "@/types/workspace"
+
+/**
+ * Existing WorkSpaces inventory: WorkSpaces listed by DescribeWorkspaces are grouped by
+ * configuration and each group is priced as a WorkSpaces Core group of a deployment, giving
+ * the current monthly run-rate of the environment.
+ */
+
+// Calculator bundle and specs of each WorkSpaces compute type
+const COMPUTE_TYPE_BUNDLES: Record<string, { bundleId: string; specs: Omit<BundleSpecs, "storage"> }> = {
+  VALUE: { bundleId: "value", specs: { vCPU: 1, memory: 2, graphics: "Standard" } },
+  STANDARD: { bundleId: "standard", specs: { vCPU: 2, memory: 4, graphics: "Standard" } },
+  PERFORMANCE: { bundleId: "performance", specs: { vCPU: 2, memory: 8, graphics: "Standard" } },
+  POWER: { bundleId: "power", specs: { vCPU: 4, memory: 16, graphics: "High Performance" } },
+  POWERPRO: { bundleId: "powerpro", specs: { vCPU: 8, memory: 32, graphics: "High Performance" } },
+  GRAPHICS: { bundleId: "graphics", specs: { vCPU: 8, memory: 15, graphics: "High Performance", gpu: true } },
+  GRAPHICSPRO: { bundleId: "graphicspro", specs: { vCPU: 16, memory: 122, graphics: "High Performance", gpu: true } },
+  GRAPHICS_G4DN: { bundleId: "graphics-g4dn", specs: { vCPU: 4, memory: 16, graphics: "High Performance", gpu: true } },
+  GRAPHICSPRO_G4DN: { bundleId: "graphicspro-g4dn", specs: { vCPU: 16, memory: 64, graphics: "High Performance", gpu: true } },
+  GENERALPURPOSE_4XLARGE: { bundleId: "general-16", specs: { vCPU: 16, memory: 64, graphics: "Standard" } },
+  GENERALPURPOSE_8XLARGE: { bundleId: "general-32", specs: { vCPU: 32, memory: 128, graphics: "Standard" } },
+}
+
+// WorkSpaces in these states are no longer billed
+const UNBILLED_STATES = ["TERMINATING", "TERMINATED", "ERROR"]
+
+// Calculator operating system and license of a WorkSpaces OperatingSystemName
+function getOperatingSystem(operatingSystemName?: string): { operatingSystem: string; license: string } {
+  const name = operatingSystemName || ""
+  if (name.startsWith("AMAZON_LINUX")) {
+    return { operatingSystem: "amazon-linux", license: "included" }
+  }
+  if (name.startsWith("UBUNTU")) {
+    return { operatingSystem: "ubuntu", license: "included" }
+  }
+  if (name.startsWith("RHEL")) {
+    return { operatingSystem: "rhel", license: "included" }
+  }
+  if (name.startsWith("ROCKY")) {
+    return { operatingSystem: "rocky-linux", license: "included" }
+  }
+  // Desktop Windows (7, 10, 11) only runs on imported BYOL images, Windows Server is license-included
+  if (name.startsWith("WINDOWS_") && !name.startsWith("WINDOWS_SERVER")) {
+    return { operatingSystem: "windows", license: "bring-your-own-license" }
+  }
+  return { operatingSystem: "windows", license: "included" }
+}
+
+/**
+ * Whether the calculator can price WorkSpaces of the compute type
+ */
+export function isPricedComputeType(computeTypeName: string): boolean {
+  return computeTypeName in COMPUTE_TYPE_BUNDLES
+}
+
+/**
+ * Groups WorkSpaces by region, compute type, volume sizes, running mode and operating system.
+ * Terminated WorkSpaces are left out. Groups are sorted by region, largest first.
+ */
+export function groupWorkspaceInventory(workspaces: CurrentWorkspace[]): InventoryGroup[] {
+  const groups = new Map<string, InventoryGroup>()
+
+  for (const workspace of workspaces) {
+    if (workspace.state && UNBILLED_STATES.includes(workspace.state)) {
+      continue
+    }
+
+    const computeTypeName = workspace.computeTypeName || "UNKNOWN"
+    const rootVolumeSizeGib = workspace.rootVolumeSizeGib ?? 0
+    const userVolumeSizeGib = workspace.userVolumeSizeGib ?? 0
+    const runningMode = workspace.runningMode === "AUTO_STOP" ? "auto-stop" : "always-on"
+    const { operatingSystem, license } = getOperatingSystem(workspace.operatingSystemName)
+
+    const id = [workspace.region, computeTypeName, rootVolumeSizeGib, userVolumeSizeGib, runningMode, operatingSystem, license]
+      .join("|")
+    const group = groups.get(id)
+    if (group) {
+      group.count++
+    } else {
+      groups.set(id, {
+        id,
+        region: workspace.region,
+        computeTypeName,
+        rootVolumeSizeGib,
+        userVolumeSizeGib,
+        runningMode,
+        operatingSystem,
+        license,
+        count: 1
+      })
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.region.localeCompare(b.region) || b.count - a.count)
+}
+
+/**
+ * Display name of a group, e.g. "Standard, 80 GB root / 50 GB user, AutoStop"
+ */
+export function getInventoryGroupName(group: InventoryGroup): string {
+  const bundle = COMPUTE_TYPE_BUNDLES[group.computeTypeName]
+  const bundleName = bundle ? getBundleName(bundle.bundleId) : group.computeTypeName
+  const runningMode = group.runningMode === "auto-stop" ? "AutoStop" : "AlwaysOn"
+  return `${bundleName}, ${group.rootVolumeSizeGib} GB root / ${group.userVolumeSizeGib} GB user, ${runningMode}`
+}
+
+/**
+ * Calculator configuration of a group, null when its compute type cannot be priced
+ */
+export function buildInventoryWorkspaceConfig(group: InventoryGroup): WorkSpaceConfig | null {
+  const bundle = COMPUTE_TYPE_BUNDLES[group.computeTypeName]
+  if (!bundle) {
+    return null
+  }
+
+  return {
+    region: group.region,
+    bundleId: bundle.bundleId,
+    bundleSpecs: { ...bundle.specs, storage: group.rootVolumeSizeGib + group.userVolumeSizeGib },
+    rootVolume: String(group.rootVolumeSizeGib),
+    userVolume: String(group.userVolumeSizeGib),
+    operatingSystem: group.operatingSystem,
+    license: group.license,
+    runningMode: group.runningMode,
+    numberOfWorkspaces: group.count,
+    billingOption: group.runningMode === "auto-stop" ? "hourly" : "monthly"
+  }
+}
+
+/**
+ * Deployment with one Core group per priceable inventory group, group ids kept so the
+ * group estimates can be matched back to the inventory
+ */
+export function buildInventoryDeployment(groups: InventoryGroup[]): Deployment {
+  return {
+    name: "Current environment",
+    groups: groups.flatMap(group => {
+      const workspaceConfig = buildInventoryWorkspaceConfig(group)
+      return workspaceConfig
+        ? [{ id: group.id, name: getInventoryGroupName(group), type: "core" as const, workspaceConfig }]
+        : []
+    })
+  }
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { inflateSync } from "zlib"
+import { PdfDocument } from "@/lib/pdf"
+import { PROPOSAL_DISCLAIMER, createProposalPdf } from "@/lib/proposal"
+import type { PricingEstimate } from "@/types/workspace"
+
+// Text shown by each page of a PDF, read from the Tj operators of its content streams
+function readPageText(pdf: Buffer): string[][] {
+  const source = pdf.toString("latin1")
+  const pages: string[][] = []
+  const streamPattern = /<< \/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g
+  let match: RegExpExecArray | null
+  while ((match = streamPattern.exec(source))) {
+    const start = match.index + match[0].length
+    const content = inflateSync(pdf.subarray(start, start + Number(match[1]))).toString("latin1")
+    pages.push(Array.from(content.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g), ([, text]) =>
+      text.replace(/\\([0-7]{3}|.)/g, (_, escaped: string) =>
+        escaped.length === 3 ? String.fromCharCode(parseInt(escaped, 8)) : escaped)))
+  }
+  return pages
+}
+
+describe("PdfDocument", () => {
+  it("writes the text of every page, escaping PDF string delimiters", () => {
+    const pdf = new PdfDocument()
+    pdf.text("Cost (monthly) \\ user", 54, 72)
+    pdf.addPage()
+    pdf.text("Café – 1.200 €", 54, 72, { bold: true })
+
+    const buffer = pdf.toBuffer()
+
+    assert.equal(buffer.subarray(0, 8).toString("latin1"), "%PDF-1.4")
+    assert.match(buffer.toString("latin1"), /\/Count 2 >>/)
+    assert.match(buffer.toString("latin1"), /%%EOF\n$/)
+    assert.deepEqual(readPageText(buffer), [["Cost (monthly) \\ user"], ["Café \u0096 1.200 \u0080"]])
+  })
+
+  it("points the cross-reference table at each object", () => {
+    const buffer = new PdfDocument().toBuffer()
+    const source = buffer.toString("latin1")
+    const startXref = Number(source.match(/startxref\n(\d+)/)![1])
+    const offsets = source.slice(startXref).match(/^\d{10} 00000 n $/gm)!.map(entry => Number(entry.slice(0, 10)))
+
+    assert.equal(source.slice(startXref, startXref + 4), "xref")
+    offsets.forEach((offset, index) => assert.ok(source.startsWith(`${index + 1} 0 obj`, offset)))
+  })
+
+  it("wraps text between words to fit a width", () => {
+    const pdf = new PdfDocument()
+
+    assert.deepEqual(pdf.wrapText("Estimated monthly cost of the pool", 100), ["Estimated monthly", "cost of the pool"])
+  })
+})
+
+describe("createProposalPdf", () => {
+  it("contains the estimate, its line items, the assumptions and the disclaimer", () => {
+    const estimate = {
+      bundleName: "Standard",
+      pricingSource: "aws-api",
+      totalMonthlyCost: 350,
+      annualEstimate: 4200,
+      costPerWorkspace: 35,
+      lineItems: [
+        { description: "Standard bundle compute", unit: "WorkSpace-Month", quantity: 10, unitPrice: 35, extendedCost: 350 },
+      ],
+    } as PricingEstimate
+
+    const pages = readPageText(createProposalPdf({
+      name: "Finance team",
+      assumptions: [{ label: "Region", value: "US East (N. Virginia)" }],
+      estimate,
+    }, new Date("2025-01-15T12:00:00Z")))
+    const text = pages.flat().join(" ")
+
+    assert.ok(pages.length >= 2)
+    for (const expected of [
+      "Cost Proposal",
+      "Finance team",
+      "Prepared January 15, 2025",
+      "$350.00",
+      "$4,200.00",
+      "US East (N. Virginia)",
+      "Standard bundle compute",
+      "Itemized Costs",
+      "Total monthly cost",
+    ]) {
+      assert.ok(text.includes(expected), `missing "${expected}"`)
+    }
+    assert.ok(text.replace(/\s+/g, " ").includes(PROPOSAL_DISCLAIMER.slice(0, 60)))
+  })
+})
@@ -0,0 +1,218 @@
+import { deflateSync } from "zlib"
+
+/**
+ * Minimal PDF writer: US Letter pages with Helvetica text, lines and filled rectangles.
+ * Server-side only. Coordinates are in points from the top-left corner of the page, text is
+ * encoded as WinAnsi so only Latin characters (plus a few typographic ones) are supported.
+ */
+
+export const PAGE_WIDTH = 612
+export const PAGE_HEIGHT = 792
+
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  color?: PdfColor
+  align?: "left" | "right" | "center"
+}
+
+// Character widths of Helvetica and Helvetica-Bold for codes 32-126, in 1/1000 of the font size (from the AFM files)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+const DEFAULT_CHAR_WIDTH = 556
+
+// WinAnsi codes of the typographic characters outside Latin-1
+const WIN_ANSI_CODES: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "•": 0x95, "–": 0x96, "—": 0x97, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "™": 0x99,
+}
+
+function toWinAnsi(text: string): number[] {
+  return Array.from(text, char => {
+    const code = char.charCodeAt(0)
+    if (WIN_ANSI_CODES[char]) {
+      return WIN_ANSI_CODES[char]
+    }
+    return (code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? code : 63 // "?"
+  })
+}
+
+function encodePdfString(text: string): string {
+  return toWinAnsi(text).map(code => {
+    if (code === 40 || code === 41 || code === 92) {
+      return `\\${String.fromCharCode(code)}`
+    }
+    return code > 126 ? `\\${code.toString(8).padStart(3, "0")}` : String.fromCharCode(code)
+  }).join("")
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString()
+
+const formatColor = (color: PdfColor) => color.map(component => formatNumber(component)).join(" ")
+
+export class PdfDocument {
+  private pages: string[][] = []
+  private currentPage = -1
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage(): void {
+    this.pages.push([])
+    this.currentPage = this.pages.length - 1
+  }
+
+  /**
+   * Makes an earlier page current again, e.g. to add footers once the page count is known
+   */
+  goToPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`Page ${index} does not exist`)
+    }
+    this.currentPage = index
+  }
+
+  private get content(): string[] {
+    if (this.pages.length === 0) {
+      this.addPage()
+    }
+    return this.pages[this.currentPage]
+  }
+
+  /**
+   * Width of the text in points
+   */
+  measureText(text: string, size = 10, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+    const units = toWinAnsi(text).reduce((sum, code) =>
+      sum + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_CHAR_WIDTH), 0)
+    return units * size / 1000
+  }
+
+  /**
+   * Draws one line of text with its baseline at y; x is the left, right or center edge depending on align
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const { size = 10, bold = false, color = [0, 0, 0], align = "left" } = options
+    const width = this.measureText(text, size, bold)
+    const left = align === "right" ? x - width : align === "center" ? x - width / 2 : x
+
+    this.content.push(
+      `BT /${bold ? "F2" : "F1"} ${size} Tf ${formatColor(color)} rg ${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y)} Td (${encodePdfString(text)}) Tj ET`
+    )
+  }
+
+  /**
+   * Splits text into lines that fit the width, breaking between words
+   */
+  wrapText(text: string, width: number, size = 10, bold = false): string[] {
+    const lines: string[] = []
+    let line = ""
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && this.measureText(candidate, size, bold) > width) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    if (line) {
+      lines.push(line)
+    }
+    return lines
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [0.8, 0.8, 0.8], width = 0.5): void {
+    this.content.push(
+      `${formatColor(color)} RG ${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): void {
+    this.content.push(
+      `${formatColor(fill)} rg ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+    )
+  }
+
+  /**
+   * Serializes the document: catalog, page tree, the two fonts, then each page and its content stream
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      this.addPage()
+    }
+
+    const objects: Buffer[] = []
+    const addObject = (body: string | Buffer) => {
+      objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body)
+      return objects.length
+    }
+
+    const pageCount = this.pages.length
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+    const pageIds = this.pages.map((_, index) => 5 + index * 2)
+    addObject("<< /Type /Catalog /Pages 2 0 R >>")
+    addObject(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageCount} >>`)
+    addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>")
+    addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>")
+
+    for (const [index, content] of this.pages.entries()) {
+      const stream = deflateSync(Buffer.from(content.join("\n"), "latin1"))
+      addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      )
+      addObject(Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+        stream,
+        Buffer.from("\nendstream", "latin1"),
+      ]))
+    }
+
+    const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n", "latin1")]
+    const offsets: number[] = []
+    let length = parts[0].length
+    objects.forEach((body, index) => {
+      const object = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+        body,
+        Buffer.from("\nendobj\n", "latin1"),
+      ])
+      offsets.push(length)
+      parts.push(object)
+      length += object.length
+    })
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map(offset => `${offset.toString().padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+      "startxref",
+      String(length),
+      "%%EOF",
+    ].join("\n")
+    parts.push(Buffer.from(`${xref}\n`, "latin1"))
+
+    return Buffer.concat(parts)
+  }
+}
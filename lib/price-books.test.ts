@@ -0,0 +1,155 @@
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test"
+import {
+  CURRENT_PRICE_BOOK,
+  capturePriceBook,
+  getPriceBook,
+  getPriceBookPath,
+  isValidPriceBookVersion,
+  listPriceBooks,
+  resolvePriceBook
+} from "@/lib/price-books"
+import { clearPricingCache } from "@/lib/pricing-client"
+
+const ENV_VARIABLES = ["PRICE_BOOK_DIR", "PRICING_CACHE_DIR"]
+
+let tempDir: string
+const originalEnv: Record<string, string | undefined> = {}
+
+const coreSelectors = {
+  "Bundle Description": "Standard",
+  rootVolume: "80 GB",
+  userVolume: "50 GB",
+  "Operating System": "Windows",
+  License: "Included",
+  "Running Mode": "AlwaysOn",
+  "Product Family": "WorkSpaces",
+}
+
+// Answers calculator.aws for one region of the Core calculator, with the given index.json documents missing
+function mockCalculatorAws(missingIndexes: string[] = []) {
+  return mock.method(globalThis, "fetch", async (input: string | URL | Request) => {
+    const url = decodeURIComponent(String(input))
+    if (url.endsWith("/metadata.json")) {
+      return new Response(JSON.stringify({ valueAttributes: { Location: ["US East (N. Virginia)", "EU (Ireland)"] } }))
+    }
+    if (url.endsWith("/primary-selector-aggregations.json")) {
+      return new Response(JSON.stringify({
+        aggregations: [
+          { selectors: coreSelectors },
+          { selectors: { ...coreSelectors, "Bundle Description": "Performance" } },
+        ]
+      }))
+    }
+    if (missingIndexes.some(bundle => url.includes(`/${bundle}/`))) {
+      return new Response("Not Found", { status: 404, statusText: "Not Found" })
+    }
+    return new Response(JSON.stringify({ regions: {} }))
+  })
+}
+
+const today = () => new Date().toISOString().split("T")[0]
+
+before(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "price-books-"))
+  for (const name of ENV_VARIABLES) {
+    originalEnv[name] = process.env[name]
+  }
+})
+
+beforeEach(async () => {
+  process.env.PRICE_BOOK_DIR = await fs.mkdtemp(path.join(tempDir, "books-"))
+  process.env.PRICING_CACHE_DIR = path.join(tempDir, "cache")
+  mock.method(console, "error", () => {})
+})
+
+afterEach(() => {
+  mock.restoreAll()
+  clearPricingCache()
+})
+
+after(async () => {
+  for (const name of ENV_VARIABLES) {
+    if (originalEnv[name] === undefined) {
+      delete process.env[name]
+    } else {
+      process.env[name] = originalEnv[name]
+    }
+  }
+  await fs.rm(tempDir, { recursive: true, force: true })
+})
+
+describe("price book versions", () => {
+  it("only accepts dated versions, so a version can't point outside the price book directory", async () => {
+    assert.equal(isValidPriceBookVersion("2025-01-15"), true)
+    assert.equal(isValidPriceBookVersion("2025-01-15-2"), true)
+    assert.equal(isValidPriceBookVersion("../2025-01-15"), false)
+    assert.equal(isValidPriceBookVersion("latest"), false)
+
+    assert.throws(() => getPriceBookPath("../secrets"), /Invalid price book version: \.\.\/secrets/)
+    assert.equal(await getPriceBook("../secrets"), null)
+  })
+
+  it("resolves the current prices, a captured book, or nothing for an unknown version", async () => {
+    const bookDir = path.join(process.env.PRICE_BOOK_DIR!, "2025-01-15")
+    await fs.mkdir(bookDir)
+    await fs.writeFile(path.join(bookDir, "manifest.json"), JSON.stringify({ version: "2025-01-15", capturedAt: "2025-01-15T10:00:00.000Z" }))
+
+    assert.deepEqual(await resolvePriceBook(undefined), { reference: { version: CURRENT_PRICE_BOOK, capturedAt: null }, fetchOptions: {} })
+    assert.deepEqual(await resolvePriceBook("2025-01-15"), {
+      reference: { version: "2025-01-15", capturedAt: "2025-01-15T10:00:00.000Z" },
+      fetchOptions: { snapshotDir: bookDir },
+    })
+    assert.equal(await resolvePriceBook("2025-02-01"), null)
+  })
+})
+
+describe("capturePriceBook", () => {
+  it("stores the documents of the requested regions with a manifest of what failed", async () => {
+    const fetch = mockCalculatorAws(["Performance"])
+
+    const manifest = await capturePriceBook({ calculators: ["workspaces-core-calc"], regions: ["us-east-1"], onProgress: () => {} })
+
+    assert.equal(fetch.mock.callCount(), 4)
+    assert.equal(manifest.version, today())
+    assert.deepEqual(manifest.regions, ["US East (N. Virginia)"])
+    assert.equal(manifest.documentCount, 3)
+    assert.deepEqual(manifest.failedDocuments, [
+      "workspaces/USD/current/workspaces-core-calc/US%20East%20(N.%20Virginia)/Performance/80%20GB/50%20GB/Windows/Included/AlwaysOn/WorkSpaces/index.json",
+    ])
+
+    const bookDir = getPriceBookPath(manifest.version)
+    assert.deepEqual(await getPriceBook(manifest.version), manifest)
+    const indexDocument = path.join(bookDir, "workspaces", "USD", "current", "workspaces-core-calc",
+      "US%20East%20(N.%20Virginia)", "Standard", "80%20GB", "50%20GB", "Windows", "Included", "AlwaysOn", "WorkSpaces", "index.json")
+    assert.deepEqual(JSON.parse(await fs.readFile(indexDocument, "utf8")), { regions: {} })
+    assert.deepEqual(await fs.readdir(process.env.PRICE_BOOK_DIR!), [manifest.version])
+  })
+
+  it("suffixes the version of a second capture on the same day", async () => {
+    mockCalculatorAws()
+    const options = { calculators: ["workspaces-core-calc"], regions: ["eu-west-1"], onProgress: () => {} }
+
+    const first = await capturePriceBook(options)
+    const second = await capturePriceBook(options)
+
+    assert.equal(second.version, `${first.version}-2`)
+    assert.deepEqual((await listPriceBooks()).map(book => book.version).sort(), [first.version, second.version])
+  })
+
+  it("leaves no book behind when nothing could be captured", async () => {
+    // A capture interrupted earlier today left its staging directory
+    const stagingDir = `${getPriceBookPath(today())}.partial`
+    await fs.mkdir(stagingDir)
+    await fs.writeFile(path.join(stagingDir, "stale.json"), "{}")
+    mock.method(globalThis, "fetch", async () => { throw new TypeError("fetch failed") })
+
+    await assert.rejects(capturePriceBook({ calculators: ["workspaces-core-calc"], onProgress: () => {} }), /No pricing documents could be captured/)
+
+    assert.deepEqual(await fs.readdir(process.env.PRICE_BOOK_DIR!), [])
+    assert.deepEqual(await listPriceBooks(), [])
+  })
+})
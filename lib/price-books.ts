@@ -0,0 +1,357 @@
+import { promises as fs } from "fs"
+import path from "path"
+import {
+  buildPricingUrl,
+  fetchAwsPricingData,
+  getPricingDocumentKey,
+  MissingPricingDocumentError,
+  type PricingFetchOptions,
+} from "@/lib/pricing-client"
+import { getRegionLocation, getServiceRegions, type RegionService } from "@/lib/regions"
+
+/**
+ * Versioned price books: dated captures of every calculator.aws document the
+ * pricing routes read, so an estimate can be reproduced with the prices that
+ * were current when it was quoted.
+ *
+ * A price book is a snapshot directory (same layout as PRICING_SNAPSHOT_DIR)
+ * with a manifest.json at its root:
+ *
+ *   <PRICE_BOOK_DIR>/2025-01-15/manifest.json
+ *   <PRICE_BOOK_DIR>/2025-01-15/workspaces/USD/current/workspaces-core-calc/...
+ *
+ * Environment variables:
+ * - PRICE_BOOK_DIR: where price books are stored (default ./price-books)
+ */
+
+// Version reported by estimates that used live calculator.aws prices
+export const CURRENT_PRICE_BOOK = "current"
+
+const MANIFEST_FILE = "manifest.json"
+const DEFAULT_CAPTURE_CONCURRENCY = 4
+
+// Versions are dated directory names, optionally suffixed when captured twice on one day
+const VERSION_PATTERN = /^\d{4}-\d{2}-\d{2}(-\d+)?$/
+
+export interface PriceBookManifest {
+  version: string
+  capturedAt: string
+  calculators: string[]
+  regions: string[]
+  documentCount: number
+  // Documents that could not be fetched during capture (usually unpriced combinations)
+  failedDocuments: string[]
+}
+
+// Recorded on every estimate so the quote can be reproduced later
+export interface PriceBookReference {
+  version: string
+  capturedAt: string | null
+}
+
+// Price book an estimate is priced from, with the options that make the pricing client read it
+export interface ResolvedPriceBook {
+  reference: PriceBookReference
+  fetchOptions: PricingFetchOptions
+}
+
+export interface CapturePriceBookOptions {
+  // Region codes or names as used by calculator.aws, e.g. "US East (N. Virginia)"; defaults to all regions
+  regions?: string[]
+  // Calculator names, e.g. "workspaces-core-calc"; defaults to all calculators
+  calculators?: string[]
+  concurrency?: number
+  onProgress?: (message: string) => void
+}
+
+interface CalculatorDefinition {
+  service: string
+  calculator: string
+  // Service of the region registry the calculator prices
+  regionService: RegionService
+  // Builds the selector values of every index.json path for one aggregation entry
+  indexSelectors: (selectors: Record<string, string>) => string[][]
+}
+
+// The index.json paths must match the ones built by the estimate and config routes
+const CALCULATORS: CalculatorDefinition[] = [
+  {
+    service: "workspaces",
+    calculator: "workspaces-core-calc",
+    regionService: "core",
+    indexSelectors: selectors => [[
+      selectors["Bundle Description"],
+      selectors.rootVolume,
+      selectors.userVolume,
+      selectors["Operating System"],
+      selectors.License,
+      selectors["Running Mode"],
+      selectors["Product Family"],
+    ]],
+  },
+  {
+    service: "workspaces",
+    calculator: "workspaces-pools-calc",
+    regionService: "pools",
+    indexSelectors: selectors => {
+      const paths: string[][] = []
+      // pool-bundles prices both license types, the estimate route always uses the Pool running mode
+      for (const license of ["Included", "Bring Your Own License"]) {
+        const common = [selectors.Bundle, selectors.vCPU, selectors.rootVolume, selectors.Memory, selectors["Operating System"], license]
+        paths.push([...common, selectors["Running Mode"], selectors["Product Family"]])
+        paths.push([...common, "Pool", "Enterprise Applications"])
+      }
+      return paths
+    },
+  },
+  {
+    service: "appstream",
+    calculator: "appstream-instances-calc",
+    regionService: "appstream",
+    indexSelectors: selectors => [[
+      selectors["Instance Family"],
+      selectors["Instance Function"],
+      selectors["Instance Type"],
+      selectors.vCPU,
+      selectors["Memory (GiB)"],
+      selectors["Video Memory (GiB)"],
+      selectors["Operating System"],
+    ]],
+  },
+]
+
+export function getPriceBookDir(): string {
+  return process.env.PRICE_BOOK_DIR || path.join(process.cwd(), "price-books")
+}
+
+export function isValidPriceBookVersion(version: string): boolean {
+  return VERSION_PATTERN.test(version)
+}
+
+/**
+ * Returns the directory holding a price book's documents
+ */
+export function getPriceBookPath(version: string): string {
+  if (!isValidPriceBookVersion(version)) {
+    throw new Error(`Invalid price book version: ${version}`)
+  }
+  return path.join(getPriceBookDir(), version)
+}
+
+/**
+ * Reads a price book manifest, or returns null if the version does not exist
+ */
+export async function getPriceBook(version: string): Promise<PriceBookManifest | null> {
+  if (!isValidPriceBookVersion(version)) {
+    return null
+  }
+
+  try {
+    const contents = await fs.readFile(path.join(getPriceBookPath(version), MANIFEST_FILE), "utf8")
+    return JSON.parse(contents)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Lists all captured price books, newest first
+ */
+export async function listPriceBooks(): Promise<PriceBookManifest[]> {
+  let entries: string[] = []
+  try {
+    entries = await fs.readdir(getPriceBookDir())
+  } catch {
+    return []
+  }
+
+  const manifests = await Promise.all(entries.filter(isValidPriceBookVersion).map(getPriceBook))
+  return manifests
+    .filter((manifest): manifest is PriceBookManifest => manifest !== null)
+    .sort((a, b) => b.capturedAt.localeCompare(a.capturedAt))
+}
+
+/**
+ * Resolves the price book an estimate should use.
+ * Returns the fetch options for the pricing client and the reference to record on the estimate,
+ * or null if the requested version does not exist.
+ */
+export async function resolvePriceBook(
+  version?: string | null
+): Promise<ResolvedPriceBook | null> {
+  if (!version || version === CURRENT_PRICE_BOOK) {
+    return {
+      reference: { version: CURRENT_PRICE_BOOK, capturedAt: null },
+      fetchOptions: {},
+    }
+  }
+
+  const manifest = await getPriceBook(version)
+  if (!manifest) {
+    return null
+  }
+
+  return {
+    reference: { version: manifest.version, capturedAt: manifest.capturedAt },
+    fetchOptions: { snapshotDir: getPriceBookPath(manifest.version) },
+  }
+}
+
+/**
+ * Explains why an estimate pinned to a price book can't be priced, naming the document the book
+ * lacks when that is the cause. Pinned estimates are never priced from fallback rates instead.
+ */
+export function describePriceBookGap(reference: PriceBookReference, error: unknown): string {
+  if (error instanceof MissingPricingDocumentError) {
+    return `Price book ${reference.version} has no pricing document ${error.documentKey}`
+  }
+  const reason = error instanceof Error ? error.message : "no prices were found"
+  return `Price book ${reference.version} can't price this configuration: ${reason}`
+}
+
+// Thrown when an estimate pinned to a price book can't be priced from it, the routes answer with a 422
+export class PriceBookGapError extends Error {
+  constructor(readonly reference: PriceBookReference, cause: unknown) {
+    super(describePriceBookGap(reference, cause))
+    this.name = "PriceBookGapError"
+  }
+}
+
+// Picks today's version name, adding a suffix if a book was already captured today
+async function nextPriceBookVersion(): Promise<string> {
+  const date = new Date().toISOString().split("T")[0]
+  let version = date
+  let suffix = 1
+
+  while (await getPriceBook(version)) {
+    suffix++
+    version = `${date}-${suffix}`
+  }
+
+  return version
+}
+
+// Runs the tasks with at most `limit` in flight at once
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const item = items[next++]
+      await task(item)
+    }
+  })
+  await Promise.all(workers)
+}
+
+/**
+ * Crawls calculator.aws and stores every document the pricing routes use as a new price book
+ */
+export async function capturePriceBook(options: CapturePriceBookOptions = {}): Promise<PriceBookManifest> {
+  const log = options.onProgress || (message => console.log(`[Price Books] ${message}`))
+  const concurrency = options.concurrency || DEFAULT_CAPTURE_CONCURRENCY
+
+  const calculators = options.calculators
+    ? CALCULATORS.filter(definition => options.calculators!.includes(definition.calculator))
+    : CALCULATORS
+  if (calculators.length === 0) {
+    throw new Error(`Unknown calculators: ${options.calculators!.join(", ")}`)
+  }
+
+  const version = await nextPriceBookVersion()
+  const bookDir = getPriceBookPath(version)
+  // Write into a temporary directory so an interrupted capture never looks like a complete book
+  const stagingDir = `${bookDir}.partial`
+  await fs.rm(stagingDir, { recursive: true, force: true })
+  await fs.mkdir(stagingDir, { recursive: true })
+
+  let documentCount = 0
+  const failedDocuments: string[] = []
+  const capturedRegions = new Set<string>()
+
+  // Fetches a live document and stores it in the book, returning null on failure
+  const captureDocument = async (url: string): Promise<any | null> => {
+    const key = getPricingDocumentKey(url)
+    if (!key) {
+      return null
+    }
+
+    try {
+      const data = await fetchAwsPricingData(url, `Failed to capture ${key}`, { fresh: true })
+      const filePath = path.join(stagingDir, ...key.split("/"))
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(data))
+      documentCount++
+      return data
+    } catch {
+      failedDocuments.push(key)
+      return null
+    }
+  }
+
+  for (const definition of calculators) {
+    const { service, calculator } = definition
+
+    const metadata = await captureDocument(buildPricingUrl(service, calculator, "metadata.json"))
+    // Not every calculator lists its regions in metadata.json, so fall back to the registry regions of its service
+    const availableRegions: string[] = metadata?.valueAttributes?.Location
+      || getServiceRegions(definition.regionService).map(region => region.location)
+    const requestedRegions = options.regions?.map(getRegionLocation)
+    const regions = requestedRegions
+      ? availableRegions.filter(region => requestedRegions.includes(region))
+      : availableRegions
+
+    if (regions.length === 0) {
+      log(`${calculator}: no regions to capture`)
+      continue
+    }
+
+    for (const region of regions) {
+      const encodedRegion = encodeURIComponent(region)
+      const aggregations = await captureDocument(
+        buildPricingUrl(service, calculator, `${encodedRegion}/primary-selector-aggregations.json`)
+      )
+      if (!aggregations?.aggregations) {
+        log(`${calculator}: no aggregations for ${region}`)
+        continue
+      }
+
+      // Collect the unique index.json paths for this region
+      const indexPaths = new Set<string>()
+      for (const item of aggregations.aggregations) {
+        if (!item.selectors) continue
+
+        for (const values of definition.indexSelectors(item.selectors)) {
+          if (values.some(value => value === undefined || value === null)) continue
+          indexPaths.add([encodedRegion, ...values.map(value => encodeURIComponent(value))].join("/"))
+        }
+      }
+
+      await runWithConcurrency(Array.from(indexPaths), concurrency, async indexPath => {
+        await captureDocument(buildPricingUrl(service, calculator, `${indexPath}/index.json`))
+      })
+
+      capturedRegions.add(region)
+      log(`${calculator}: captured ${indexPaths.size} price documents for ${region}`)
+    }
+  }
+
+  if (documentCount === 0) {
+    await fs.rm(stagingDir, { recursive: true, force: true })
+    throw new Error("No pricing documents could be captured, is calculator.aws reachable?")
+  }
+
+  const manifest: PriceBookManifest = {
+    version,
+    capturedAt: new Date().toISOString(),
+    calculators: calculators.map(definition => definition.calculator),
+    regions: Array.from(capturedRegions).sort(),
+    documentCount,
+    failedDocuments: failedDocuments.sort(),
+  }
+
+  await fs.writeFile(path.join(stagingDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2))
+  await fs.rename(stagingDir, bookDir)
+
+  log(`Price book ${version} captured: ${documentCount} documents, ${failedDocuments.length} failed`)
+  return manifest
+}
@@ -1,3 +1,6 @@
+import { formatCurrencyAmount } from "@/lib/currency";
+import type { DisplayCurrency } from "@/types/currency";
+
 /**
  * Standardizes price display and value handling throughout the application
  */
@@ -13,13 +16,14 @@ export function formatPriceForStorage(price: number): number {
 
 /**
  * Formats a price for display in the UI
- * @param price The price to format
+ * @param price The price to format, in USD
  * @param includeUnit Whether to include the "/mo" unit
+ * @param currency The currency to show the price in, USD by default
  * @returns A string with the formatted price
  */
-export function formatPriceForDisplay(price: number, includeUnit: boolean = true): string {
-  // Format with exactly 2 decimal places and add dollar sign
-  const formattedPrice = `$${price.toFixed(2)}`;
+export function formatPriceForDisplay(price: number, includeUnit: boolean = true, currency?: DisplayCurrency): string {
+  // Formatted with the currency's symbol and locale
+  const formattedPrice = formatCurrencyAmount(price, currency);
   
   // Add unit if requested
   return includeUnit ? `${formattedPrice}/mo` : formattedPrice;
@@ -27,11 +31,12 @@ export function formatPriceForDisplay(price: number, includeUnit: boolean = true
 
 /**
  * Formats an hourly price for display in the UI
- * @param price The hourly price to format
+ * @param price The hourly price to format, in USD
+ * @param currency The currency to show the price in, USD by default
  * @returns A string with the formatted hourly price
  */
-export function formatHourlyPriceForDisplay(price: number): string {
-  return `$${price.toFixed(3)}/hr`;
+export function formatHourlyPriceForDisplay(price: number, currency?: DisplayCurrency): string {
+  return `${formatCurrencyAmount(price, currency, { maximumFractionDigits: 3 })}/hr`;
 }
 
 /**
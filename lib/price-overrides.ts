@@ -0,0 +1,79 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { validatePriceOverride } from "@/lib/pricing-engine"
+import type { PriceOverride } from "@/types/discounts"
+
+/**
+ * Negotiated per-bundle rates, read from PRICE_OVERRIDES_FILE. Server-side only.
+ *
+ * The file is either JSON, an array of PriceOverride objects, or CSV with a header row of
+ * service,bundle,unit,unitPrice,region,runningMode,kind,rateCode (all but the first four may be
+ * left empty):
+ *
+ *   service,bundle,unit,unitPrice,region,runningMode,kind,rateCode
+ *   core,standard,WorkSpace-Month,29.50,us-east-1,always-on,,
+ *   appstream,stream.standard.medium,Hour,0.07,,,,
+ *   pools,pool-power,Hour,0.02,,,stopped-buffer,
+ *
+ * Rows that can't be used are skipped with an error in the log. Without a file, list prices apply.
+ */
+
+const CSV_COLUMNS: (keyof PriceOverride)[] = ["service", "bundle", "unit", "unitPrice", "region", "runningMode", "kind", "rateCode"]
+
+export function getPriceOverridesFile(): string {
+  return process.env.PRICE_OVERRIDES_FILE || path.join(process.cwd(), "price-overrides.json")
+}
+
+function parseCsvOverrides(contents: string): Partial<PriceOverride>[] {
+  const [header, ...lines] = contents.split(/\r?\n/).filter(line => line.trim())
+  const columns = (header || "").split(",").map(column => column.trim())
+
+  return lines.map(line => {
+    const values = line.split(",").map(value => value.trim())
+    const entry: Record<string, string | number | undefined> = {}
+    for (const column of CSV_COLUMNS) {
+      const index = columns.indexOf(column)
+      const value = index === -1 ? "" : values[index] || ""
+      entry[column] = column === "unitPrice" ? parseFloat(value) : value || undefined
+    }
+    return entry as Partial<PriceOverride>
+  })
+}
+
+/**
+ * Parses the contents of a price override file, CSV when the file name ends in .csv
+ */
+export function parsePriceOverrides(contents: string, fileName: string): PriceOverride[] {
+  const entries: Partial<PriceOverride>[] = path.extname(fileName).toLowerCase() === ".csv"
+    ? parseCsvOverrides(contents)
+    : JSON.parse(contents)
+  if (!Array.isArray(entries)) {
+    throw new Error("Expected an array of price overrides")
+  }
+
+  return entries.filter((entry, index) => {
+    const error = validatePriceOverride(entry)
+    if (error) {
+      console.error(`Ignoring price override ${index + 1} in ${fileName}: ${error}`)
+    }
+    return !error
+  }) as PriceOverride[]
+}
+
+export async function loadPriceOverrides(): Promise<PriceOverride[]> {
+  const file = getPriceOverridesFile()
+
+  let contents: string
+  try {
+    contents = await fs.readFile(file, "utf8")
+  } catch {
+    return []
+  }
+
+  try {
+    return parsePriceOverrides(contents, file)
+  } catch (error) {
+    console.error(`Error reading price overrides from ${file}:`, error)
+    return []
+  }
+}
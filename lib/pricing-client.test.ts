@@ -0,0 +1,128 @@
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test"
+import {
+  MissingPricingDocumentError,
+  buildPricingUrl,
+  clearPricingCache,
+  fetchAwsPricingData
+} from "@/lib/pricing-client"
+
+const ENV_VARIABLES = ["PRICING_CACHE_TTL_SECONDS", "PRICING_CACHE_DIR", "PRICING_SNAPSHOT_DIR", "PRICING_OFFLINE"]
+
+let tempDir: string
+let snapshotDir: string
+const originalEnv: Record<string, string | undefined> = {}
+
+// A calculator.aws index.json URL of its own per test, so the memory cache is never shared
+const documentUrl = (name: string) => buildPricingUrl("workspaces", "workspaces-core-calc", `${name}/index.json`)
+
+// Answers calculator.aws requests with the number of requests made so far
+function mockCalculatorAws() {
+  let requests = 0
+  return mock.method(globalThis, "fetch", async () => new Response(JSON.stringify({ request: ++requests })))
+}
+
+async function writeSnapshot(name: string, data: unknown) {
+  const filePath = path.join(snapshotDir, "workspaces", "USD", "current", "workspaces-core-calc", name, "index.json")
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, JSON.stringify(data))
+}
+
+before(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pricing-client-"))
+  snapshotDir = path.join(tempDir, "snapshot")
+  for (const name of ENV_VARIABLES) {
+    originalEnv[name] = process.env[name]
+  }
+})
+
+beforeEach(() => {
+  process.env.PRICING_CACHE_TTL_SECONDS = "60"
+  process.env.PRICING_CACHE_DIR = path.join(tempDir, "cache")
+  delete process.env.PRICING_SNAPSHOT_DIR
+  delete process.env.PRICING_OFFLINE
+  mock.method(console, "warn", () => {})
+  mock.method(console, "error", () => {})
+})
+
+afterEach(() => {
+  mock.restoreAll()
+  mock.timers.reset()
+  clearPricingCache()
+})
+
+after(async () => {
+  for (const name of ENV_VARIABLES) {
+    if (originalEnv[name] === undefined) {
+      delete process.env[name]
+    } else {
+      process.env[name] = originalEnv[name]
+    }
+  }
+  await fs.rm(tempDir, { recursive: true, force: true })
+})
+
+describe("fetchAwsPricingData", () => {
+  it("serves documents from the memory and disk cache until the TTL passes", async () => {
+    mock.timers.enable({ apis: ["Date"], now: Date.now() })
+    const fetch = mockCalculatorAws()
+    const url = documentUrl("ttl")
+
+    assert.deepEqual(await fetchAwsPricingData(url, "Failed"), { request: 1 })
+    assert.deepEqual(await fetchAwsPricingData(url, "Failed"), { request: 1 })
+    // The disk cache outlives the memory cache
+    clearPricingCache()
+    assert.deepEqual(await fetchAwsPricingData(url, "Failed"), { request: 1 })
+    assert.equal(fetch.mock.callCount(), 1)
+
+    mock.timers.tick(61 * 1000)
+    assert.deepEqual(await fetchAwsPricingData(url, "Failed"), { request: 2 })
+    assert.equal(fetch.mock.callCount(), 2)
+  })
+
+  it("shares one request between concurrent callers of a document", async () => {
+    const fetch = mockCalculatorAws()
+    const url = documentUrl("in-flight")
+
+    const documents = await Promise.all([1, 2, 3].map(() => fetchAwsPricingData(url, "Failed")))
+
+    assert.equal(fetch.mock.callCount(), 1)
+    assert.deepEqual(documents, [{ request: 1 }, { request: 1 }, { request: 1 }])
+  })
+
+  it("falls back to the offline snapshot when calculator.aws can't be reached", async () => {
+    process.env.PRICING_SNAPSHOT_DIR = snapshotDir
+    await writeSnapshot("unreachable", { source: "snapshot" })
+    mock.method(globalThis, "fetch", async () => { throw new TypeError("fetch failed") })
+
+    assert.deepEqual(await fetchAwsPricingData(documentUrl("unreachable"), "Failed"), { source: "snapshot" })
+    await assert.rejects(fetchAwsPricingData(documentUrl("not-captured"), "Failed to fetch pricing"), /^Error: Failed to fetch pricing$/)
+  })
+
+  it("serves only the snapshot in offline mode", async () => {
+    process.env.PRICING_SNAPSHOT_DIR = snapshotDir
+    process.env.PRICING_OFFLINE = "true"
+    await writeSnapshot("offline", { source: "snapshot" })
+    const fetch = mockCalculatorAws()
+
+    assert.deepEqual(await fetchAwsPricingData(documentUrl("offline"), "Failed"), { source: "snapshot" })
+    await assert.rejects(fetchAwsPricingData(documentUrl("offline-missing"), "Failed"))
+    assert.equal(fetch.mock.callCount(), 0)
+  })
+
+  it("names the document a pinned snapshot lacks instead of fetching it", async () => {
+    await writeSnapshot("pinned", { source: "snapshot" })
+    const fetch = mockCalculatorAws()
+
+    assert.deepEqual(await fetchAwsPricingData(documentUrl("pinned"), "Failed", { snapshotDir }), { source: "snapshot" })
+    await assert.rejects(
+      fetchAwsPricingData(documentUrl("pinned-missing"), "Failed", { snapshotDir }),
+      (error: unknown) => error instanceof MissingPricingDocumentError &&
+        error.documentKey === "workspaces/USD/current/workspaces-core-calc/pinned-missing/index.json"
+    )
+    assert.equal(fetch.mock.callCount(), 0)
+  })
+})
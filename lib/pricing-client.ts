@@ -0,0 +1,276 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+/**
+ * Shared client for the public calculator.aws pricing documents
+ * (metadata.json, primary-selector-aggregations.json and index.json).
+ *
+ * Every document is cached in memory and on disk for a configurable TTL, and
+ * concurrent requests for the same URL share a single network call.
+ *
+ * Environment variables:
+ * - PRICING_CACHE_TTL_SECONDS: how long a cached document stays fresh (default 3600)
+ * - PRICING_CACHE_DIR: on-disk cache location (default .next/cache/pricing)
+ * - PRICING_SNAPSHOT_DIR: directory holding an offline snapshot of the documents
+ * - PRICING_OFFLINE: when "true", never call calculator.aws and serve only from the snapshot
+ */
+
+// Base URL for all calculator.aws metered unit maps
+export const PRICING_BASE_URL = "https://calculator.aws/pricing/2.0/meteredUnitMaps"
+
+// Headers calculator.aws expects from its own front end
+const PRICING_REQUEST_HEADERS = {
+  'User-Agent': 'AWS-Calculator-Client',
+  'Accept': '*/*',
+  'Referer': 'https://calculator.aws/',
+  'Origin': 'https://calculator.aws',
+}
+
+const DEFAULT_CACHE_TTL_SECONDS = 3600
+
+export interface PricingFetchOptions {
+  // Serve documents only from this directory, e.g. a captured price book
+  snapshotDir?: string
+  // Always call calculator.aws and never fall back to a cached or snapshot copy
+  fresh?: boolean
+}
+
+// Thrown when a pinned snapshot, such as a price book, lacks a document, so callers can tell
+// a gap in the snapshot from calculator.aws being unavailable
+export class MissingPricingDocumentError extends Error {
+  constructor(readonly documentKey: string, snapshotDir: string) {
+    super(`No document for ${documentKey} in ${snapshotDir}`)
+    this.name = "MissingPricingDocumentError"
+  }
+}
+
+interface CacheEntry {
+  expiresAt: number
+  data: any
+}
+
+const memoryCache = new Map<string, CacheEntry>()
+const inFlightRequests = new Map<string, Promise<any>>()
+
+function getCacheTtlMs(): number {
+  const ttlSeconds = parseInt(process.env.PRICING_CACHE_TTL_SECONDS || "", 10)
+  return (isNaN(ttlSeconds) ? DEFAULT_CACHE_TTL_SECONDS : ttlSeconds) * 1000
+}
+
+function getCacheDir(): string {
+  return process.env.PRICING_CACHE_DIR || path.join(process.cwd(), ".next", "cache", "pricing")
+}
+
+function getSnapshotDir(): string | undefined {
+  return process.env.PRICING_SNAPSHOT_DIR || undefined
+}
+
+export function isOfflineMode(): boolean {
+  return process.env.PRICING_OFFLINE === "true"
+}
+
+/**
+ * Builds a calculator.aws document URL
+ * @param service The metered unit map service, e.g. "workspaces" or "appstream"
+ * @param calculator The calculator name, e.g. "workspaces-core-calc"
+ * @param documentPath The already URL-encoded path below the calculator, e.g. "metadata.json"
+ */
+export function buildPricingUrl(service: string, calculator: string, documentPath: string): string {
+  return `${PRICING_BASE_URL}/${service}/USD/current/${calculator}/${documentPath}`
+}
+
+/**
+ * Converts a pricing URL into the relative path used by the disk cache and snapshots,
+ * e.g. "workspaces/USD/current/workspaces-core-calc/metadata.json".
+ * Returns null for URLs outside calculator.aws metered unit maps.
+ */
+export function getPricingDocumentKey(url: string): string | null {
+  if (!url.startsWith(`${PRICING_BASE_URL}/`)) {
+    return null
+  }
+
+  const key = url.substring(PRICING_BASE_URL.length + 1).split('?')[0]
+
+  // Never allow a key to escape the cache or snapshot directory
+  if (key.split('/').some(segment => segment === '..' || segment === '')) {
+    return null
+  }
+
+  return key
+}
+
+function resolveDocumentPath(baseDir: string, key: string): string {
+  return path.join(baseDir, ...key.split('/'))
+}
+
+async function readJsonDocument(filePath: string): Promise<any | null> {
+  try {
+    const contents = await fs.readFile(filePath, "utf8")
+    return JSON.parse(contents)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads a document from the offline snapshot directory, if one is configured
+ */
+export async function readSnapshotDocument(url: string, snapshotDir = getSnapshotDir()): Promise<any | null> {
+  const key = getPricingDocumentKey(url)
+  if (!key || !snapshotDir) {
+    return null
+  }
+
+  return readJsonDocument(resolveDocumentPath(snapshotDir, key))
+}
+
+async function readDiskCache(key: string, allowStale: boolean): Promise<any | null> {
+  const filePath = resolveDocumentPath(getCacheDir(), key)
+
+  try {
+    const stats = await fs.stat(filePath)
+    if (!allowStale && Date.now() - stats.mtimeMs > getCacheTtlMs()) {
+      return null
+    }
+  } catch {
+    return null
+  }
+
+  return readJsonDocument(filePath)
+}
+
+async function writeDiskCache(key: string, data: any): Promise<void> {
+  const filePath = resolveDocumentPath(getCacheDir(), key)
+
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify(data))
+  } catch (error) {
+    // A read-only file system should not break pricing lookups
+    console.warn(`[Pricing Client] Unable to write disk cache for ${key}:`, error)
+  }
+}
+
+async function requestDocument(url: string): Promise<any> {
+  const response = await fetch(url, {
+    headers: PRICING_REQUEST_HEADERS,
+    cache: 'no-store',
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch from ${url}: ${response.statusText}`)
+  }
+
+  return await response.json()
+}
+
+async function loadDocument(url: string, options: PricingFetchOptions): Promise<any> {
+  const key = getPricingDocumentKey(url)
+
+  // A pinned snapshot is authoritative and never falls through to live prices
+  if (options.snapshotDir) {
+    const snapshot = await readSnapshotDocument(url, options.snapshotDir)
+    if (snapshot === null) {
+      throw new MissingPricingDocumentError(key || url, options.snapshotDir)
+    }
+    return snapshot
+  }
+
+  if (options.fresh) {
+    const data = await requestDocument(url)
+    if (key) {
+      await writeDiskCache(key, data)
+    }
+    return data
+  }
+
+  // Offline mode never touches the network
+  if (isOfflineMode()) {
+    const snapshot = await readSnapshotDocument(url)
+    if (snapshot === null) {
+      throw new Error(`Offline mode: no snapshot document for ${key || url}`)
+    }
+    return snapshot
+  }
+
+  if (key) {
+    const cached = await readDiskCache(key, false)
+    if (cached !== null) {
+      return cached
+    }
+  }
+
+  try {
+    const data = await requestDocument(url)
+    if (key) {
+      await writeDiskCache(key, data)
+    }
+    return data
+  } catch (error) {
+    // calculator.aws is unreachable, so prefer stale data over the hardcoded fallbacks
+    if (key) {
+      const fallback = (await readDiskCache(key, true)) ?? (await readSnapshotDocument(url))
+      if (fallback !== null) {
+        console.warn(`[Pricing Client] Serving cached copy of ${key} after fetch failure`)
+        return fallback
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * Fetches a pricing document from calculator.aws, using the memory cache, disk cache
+ * and offline snapshot as configured
+ * @param url The full calculator.aws document URL
+ * @param errorMessage The message of the error thrown when the document is unavailable, unless a
+ * pinned snapshot lacks it (MissingPricingDocumentError)
+ * @param options Optional snapshot directory to serve the document from, or `fresh` to bypass every cache
+ */
+export async function fetchAwsPricingData<T = any>(
+  url: string,
+  errorMessage: string,
+  options: PricingFetchOptions = {}
+): Promise<T> {
+  const cacheKey = options.snapshotDir ? `${options.snapshotDir}::${url}` : url
+
+  const cached = options.fresh ? undefined : memoryCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.data
+  }
+
+  // De-duplicate concurrent requests for the same document
+  let request = options.fresh ? undefined : inFlightRequests.get(cacheKey)
+  if (!request) {
+    request = loadDocument(url, options)
+      .then(data => {
+        memoryCache.set(cacheKey, { data, expiresAt: Date.now() + getCacheTtlMs() })
+        return data
+      })
+      .finally(() => {
+        if (inFlightRequests.get(cacheKey) === request) {
+          inFlightRequests.delete(cacheKey)
+        }
+      })
+    if (!options.fresh) {
+      inFlightRequests.set(cacheKey, request)
+    }
+  }
+
+  try {
+    return await request
+  } catch (error) {
+    console.error(errorMessage, error)
+    if (error instanceof MissingPricingDocumentError) {
+      throw error
+    }
+    throw new Error(errorMessage)
+  }
+}
+
+/**
+ * Clears the in-memory cache; the disk cache is left untouched
+ */
+export function clearPricingCache(): void {
+  memoryCache.clear()
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import { calculateAppStreamEstimate, recommendSessionsPerInstance } from "./appstream"
+import type { AppStreamEstimateConfig, AppStreamRateTable } from "./types"
+
+const fleetRates: AppStreamRateTable = { source: "aws-api", hourlyPrice: 0.1, rateCode: "FLEET-HOUR" }
+
+// 100 Windows users, all of them streaming around the clock
+const fleetConfig: AppStreamEstimateConfig = {
+  region: "us-east-1",
+  instanceType: "stream.standard.large",
+  instanceFamily: "general_purpose",
+  instanceFunction: "fleet",
+  operatingSystem: "windows",
+  multiSession: false,
+  sessionsPerInstance: 1,
+  usagePattern: "always-on",
+  userCount: 100,
+  bufferFactor: 0,
+  includeWeekends: true,
+  weekdayPeakConcurrentUsers: 100,
+  weekdayOffPeakConcurrentUsers: 100,
+  weekendPeakConcurrentUsers: 100,
+  weekendOffPeakConcurrentUsers: 100,
+  weekdayDaysCount: 5,
+  weekdayPeakHoursPerDay: 8,
+  weekendDaysCount: 2,
+  weekendPeakHoursPerDay: 4,
+}
+
+describe("calculateAppStreamEstimate", () => {
+  it("runs one instance per concurrent user on single-session fleets", () => {
+    const estimate = calculateAppStreamEstimate(fleetConfig, fleetRates)
+
+    assert.equal(estimate.totalInstanceHours, 73000)
+    assert.equal(formatPriceForStorage(estimate.instanceCost), 7300)
+    assert.equal(formatPriceForStorage(estimate.userLicenseCost), 419)
+    assert.equal(formatPriceForStorage(estimate.totalMonthlyCost), 7719)
+  })
+
+  it("shares instances between the users of multi-session fleets", () => {
+    const estimate = calculateAppStreamEstimate({ ...fleetConfig, multiSession: true, sessionsPerInstance: 4 }, fleetRates)
+
+    assert.equal(estimate.details.sessionSizing.peakInstances, 25)
+    assert.equal(estimate.totalInstanceHours, 18250)
+    assert.equal(formatPriceForStorage(estimate.instanceCost), 1825)
+    // The RDS SAL is still charged per user
+    assert.equal(formatPriceForStorage(estimate.userLicenseCost), 419)
+  })
+
+  it("adds buffer capacity to fleets, but not to elastic fleets", () => {
+    const buffered = { ...fleetConfig, bufferFactor: 0.1 }
+
+    assert.equal(formatPriceForStorage(calculateAppStreamEstimate(buffered, fleetRates).bufferInstanceHours), 7300)
+    assert.equal(calculateAppStreamEstimate({ ...buffered, instanceFunction: "elasticfleet" }, fleetRates).bufferInstanceHours, 0)
+  })
+
+  it("prices image builder hours at the fleet rate when there is no image builder rate", () => {
+    const estimate = calculateAppStreamEstimate({
+      ...fleetConfig,
+      components: { imageBuilderHours: 20, homeFolderGbPerUser: 5 },
+    }, fleetRates)
+    const [imageBuilder, homeFolders] = estimate.details.components
+
+    assert.equal(imageBuilder.unitPrice, 0.1)
+    assert.equal(imageBuilder.note, "Priced at the fleet instance rate")
+    assert.equal(formatPriceForStorage(homeFolders.extendedCost), 11.5)
+    assert.equal(formatPriceForStorage(estimate.componentsCost), 13.5)
+  })
+})
+
+describe("recommendSessionsPerInstance", () => {
+  it("fits as many users as both vCPUs and memory allow", () => {
+    assert.equal(recommendSessionsPerInstance(2, 8), 4)
+    assert.equal(recommendSessionsPerInstance(8, 8), 4)
+    assert.equal(recommendSessionsPerInstance(2, 1), 1)
+  })
+})
@@ -0,0 +1,397 @@
+import { HOURS_PER_MONTH, USER_LICENSE_COST_PER_MONTH, WEEKS_PER_MONTH } from "./constants"
+import type {
+  AppStreamComponents,
+  AppStreamEstimate,
+  AppStreamEstimateConfig,
+  AppStreamHours,
+  AppStreamRateTable,
+  AppStreamUserResources,
+  PricingLineItem
+} from "./types"
+
+// Region price multipliers relative to US East (N. Virginia)
+const REGION_MULTIPLIERS: Record<string, number> = {
+  'us-east-1': 1.0,       // N. Virginia (reference)
+  'us-east-2': 1.0,       // Ohio
+  'us-west-2': 1.05,      // Oregon
+  'ap-northeast-1': 1.25, // Tokyo
+  'ap-southeast-1': 1.25, // Singapore
+  'ap-southeast-2': 1.25, // Sydney
+  'ap-south-1': 1.25,     // Mumbai
+  'ap-northeast-2': 1.25, // Seoul
+  'eu-central-1': 1.15,   // Frankfurt
+  'eu-west-1': 1.15,      // Ireland
+  'eu-west-2': 1.15,      // London
+  'ca-central-1': 1.10,   // Canada
+  'sa-east-1': 1.30,      // Sao Paulo
+  'us-gov-west-1': 1.25,  // GovCloud (US)
+  'us-gov-east-1': 1.25   // GovCloud (US-East)
+}
+
+// OS pricing addition per hour
+const OS_PRICING: Record<string, number> = {
+  'windows': 0.00,        // Windows license included in instance price
+  'amazon-linux': 0.00,   // Linux is free
+  'rhel': 0.10,           // Red Hat additional cost
+  'rocky-linux': 0.00     // Rocky Linux is free
+}
+
+// Instance function multipliers
+const FUNCTION_MULTIPLIERS: Record<string, number> = {
+  'fleet': 1.0,            // Standard fleet instance
+  'imagebuilder': 1.0,     // ImageBuilder is charged at the same rate
+  'elasticfleet': 0.9      // ElasticFleet has potential savings (approximate)
+}
+
+// Resources of a typical user, from light task workers to power users
+export const APPSTREAM_USER_PROFILES: { value: string; label: string; resources: AppStreamUserResources }[] = [
+  { value: "task", label: "Task worker (0.25 vCPU, 1 GiB)", resources: { vCpuPerUser: 0.25, memoryGibPerUser: 1 } },
+  { value: "knowledge", label: "Knowledge worker (0.5 vCPU, 2 GiB)", resources: { vCpuPerUser: 0.5, memoryGibPerUser: 2 } },
+  { value: "power", label: "Power user (1 vCPU, 4 GiB)", resources: { vCpuPerUser: 1, memoryGibPerUser: 4 } },
+]
+
+export const DEFAULT_APPSTREAM_USER_RESOURCES: AppStreamUserResources = APPSTREAM_USER_PROFILES[1].resources
+
+/**
+ * Recommends how many users share one multi-session instance: as many as both its vCPUs and
+ * its memory can hold at the given resources per user, and at least one
+ */
+export function recommendSessionsPerInstance(
+  instanceVCpu: number,
+  instanceMemoryGib: number,
+  userResources: AppStreamUserResources = DEFAULT_APPSTREAM_USER_RESOURCES
+): number {
+  const byVCpu = instanceVCpu / userResources.vCpuPerUser
+  const byMemory = instanceMemoryGib / userResources.memoryGibPerUser
+  return Math.max(1, Math.floor(Math.min(byVCpu, byMemory)))
+}
+
+// US East (N. Virginia) list prices of the storage and transfer AppStream uses: S3 Standard
+// storage (first 50 TB), S3 PUT/COPY/POST/LIST requests and internet data transfer out (first 10 TB)
+export const APPSTREAM_STORAGE_RATE_PER_GB_MONTH = 0.023
+export const APPSTREAM_STORAGE_REQUEST_RATE_PER_1000 = 0.005
+export const APPSTREAM_DATA_TRANSFER_OUT_RATE_PER_GB = 0.09
+
+/**
+ * Returns why optional components can't be priced, or null when they are valid
+ */
+export function validateAppStreamComponents(components: AppStreamComponents): string | null {
+  const values = [
+    components.imageBuilderHours,
+    components.homeFolderGbPerUser,
+    components.appSettingsGbPerUser,
+    components.storageRequestsPerUser,
+    components.dataTransferOutGbPerUser,
+  ]
+  const isValid = (value: unknown) => value === undefined || value === null ||
+    (typeof value === "number" && Number.isFinite(value) && value >= 0)
+  if (!values.every(isValid)) {
+    return "Image builder hours, storage, requests and data transfer must be at least 0"
+  }
+  return null
+}
+
+/**
+ * Prices the optional components of an AppStream estimate, one line item each: image builder
+ * hours at the image builder rate, home folders and application settings at the S3 storage
+ * rate, their sync requests and the fleet's internet data transfer out. Storage, requests and
+ * transfer are per user, so they scale with the user count.
+ */
+export function calculateAppStreamComponents(config: AppStreamEstimateConfig, rates: AppStreamRateTable): PricingLineItem[] {
+  const components = config.components || {}
+  const users = config.userCount
+  const lineItems: PricingLineItem[] = []
+  const addLineItem = (item: Omit<PricingLineItem, "extendedCost">) => {
+    if (item.quantity > 0) {
+      lineItems.push({ ...item, extendedCost: item.quantity * item.unitPrice })
+    }
+  }
+
+  const imageBuilderRate = rates.imageBuilderHourlyPrice ?? rates.hourlyPrice
+  addLineItem({
+    description: `${config.instanceType} image builder`,
+    kind: "image-builder",
+    rateCode: rates.imageBuilderHourlyPrice !== undefined ? rates.imageBuilderRateCode : undefined,
+    unit: "Hour",
+    quantity: components.imageBuilderHours || 0,
+    unitPrice: imageBuilderRate,
+    note: rates.imageBuilderHourlyPrice === undefined ? "Priced at the fleet instance rate" : undefined,
+  })
+  addLineItem({
+    description: "Home folders (S3 storage)",
+    kind: "storage",
+    unit: "GB-Month",
+    quantity: (components.homeFolderGbPerUser || 0) * users,
+    unitPrice: APPSTREAM_STORAGE_RATE_PER_GB_MONTH,
+  })
+  addLineItem({
+    description: "Application settings persistence (S3 storage)",
+    kind: "storage",
+    unit: "GB-Month",
+    quantity: (components.appSettingsGbPerUser || 0) * users,
+    unitPrice: APPSTREAM_STORAGE_RATE_PER_GB_MONTH,
+  })
+  addLineItem({
+    description: "Home folder and settings sync (S3 requests)",
+    kind: "storage",
+    unit: "1,000 Requests",
+    quantity: (components.storageRequestsPerUser || 0) * users / 1000,
+    unitPrice: APPSTREAM_STORAGE_REQUEST_RATE_PER_1000,
+  })
+  addLineItem({
+    description: "Data transfer out to the internet",
+    kind: "data-transfer",
+    unit: "GB",
+    quantity: (components.dataTransferOutGbPerUser || 0) * users,
+    unitPrice: APPSTREAM_DATA_TRANSFER_OUT_RATE_PER_GB,
+  })
+  return lineItems
+}
+
+/**
+ * Returns why multi-session sizing inputs can't be priced, or null when they are valid
+ */
+export function validateAppStreamSessionSizing(
+  sessionsPerInstance: number,
+  userResources?: AppStreamUserResources
+): string | null {
+  if (!Number.isInteger(sessionsPerInstance) || sessionsPerInstance < 1) {
+    return "Users per instance must be a whole number of at least 1"
+  }
+  if (userResources && !(userResources.vCpuPerUser > 0 && userResources.memoryGibPerUser > 0)) {
+    return "vCPU and memory per user must be above 0"
+  }
+  return null
+}
+
+// Elastic fleets stream one session per instance, so only multi-session Always-On and On-Demand fleets share instances
+function getSessionsPerInstance(config: AppStreamEstimateConfig): number {
+  return config.multiSession && config.instanceFunction !== "elasticfleet"
+    ? Math.max(1, config.sessionsPerInstance)
+    : 1
+}
+
+/**
+ * Converts an AppStream usage pattern into utilized, buffer and total instance hours per month.
+ * Concurrent users are turned into instances first: one per user, or one per sessionsPerInstance
+ * users (rounded up) on multi-session fleets.
+ */
+export function calculateAppStreamHours(config: AppStreamEstimateConfig): AppStreamHours {
+  const { userCount, instanceFunction } = config
+  const sessionsPerInstance = getSessionsPerInstance(config)
+  const toInstances = (concurrentUsers: number) => Math.ceil(concurrentUsers / sessionsPerInstance)
+
+  const calculationDetails: Record<string, any> = {
+    pattern: config.usagePattern,
+    weeksPerMonth: WEEKS_PER_MONTH,
+    userCount,
+    sessionsPerInstance,
+    bufferFactor: config.bufferFactor
+  }
+
+  // Elastic fleets are billed per streaming session, so they never carry buffer capacity
+  const getBufferHours = (utilizedHours: number) =>
+    instanceFunction === 'elasticfleet' ? 0 : (utilizedHours * config.bufferFactor)
+
+  let totalUtilizedHours = 0
+  let totalBufferHours = 0
+  let peakConcurrentUsers = 0
+
+  if (config.usagePattern === 'always-on') {
+    // Always-on: 24/7 access
+    const concurrentUsers = Math.min(userCount, config.weekdayPeakConcurrentUsers)
+    peakConcurrentUsers = concurrentUsers
+    totalUtilizedHours = HOURS_PER_MONTH * toInstances(concurrentUsers)
+    totalBufferHours = getBufferHours(totalUtilizedHours)
+
+    Object.assign(calculationDetails, {
+      hoursInMonth: HOURS_PER_MONTH,
+      concurrentUsers,
+      instances: toInstances(concurrentUsers),
+      pattern: 'Always-On (24/7)'
+    })
+  } else if (config.usagePattern === 'business-hours') {
+    // Business hours: 8 hours per day, weekdays only
+    const hoursPerDay = 8
+    const weekdayBusinessHours = config.weekdayDaysCount * hoursPerDay * WEEKS_PER_MONTH
+    const concurrentUsers = Math.min(userCount, config.weekdayPeakConcurrentUsers)
+    peakConcurrentUsers = concurrentUsers
+    totalUtilizedHours = weekdayBusinessHours * toInstances(concurrentUsers)
+    totalBufferHours = getBufferHours(totalUtilizedHours)
+
+    Object.assign(calculationDetails, {
+      weekdayBusinessHours,
+      concurrentUsers,
+      instances: toInstances(concurrentUsers),
+      pattern: 'Business Hours'
+    })
+  } else if (config.usagePattern === 'custom') {
+    const weekdayPeakConcurrentUsers = Math.min(config.weekdayPeakConcurrentUsers, userCount)
+    const weekdayOffPeakConcurrentUsers = Math.min(config.weekdayOffPeakConcurrentUsers, userCount)
+    const weekendPeakConcurrentUsers = Math.min(config.weekendPeakConcurrentUsers, userCount)
+    const weekendOffPeakConcurrentUsers = Math.min(config.weekendOffPeakConcurrentUsers, userCount)
+    peakConcurrentUsers = Math.max(
+      weekdayPeakConcurrentUsers,
+      weekdayOffPeakConcurrentUsers,
+      weekendPeakConcurrentUsers,
+      weekendOffPeakConcurrentUsers
+    )
+
+    // Weekday calculations
+    const weekdayPeakHoursPerMonth = config.weekdayPeakHoursPerDay * config.weekdayDaysCount * WEEKS_PER_MONTH
+    const weekdayOffPeakHoursPerMonth = (24 * config.weekdayDaysCount * WEEKS_PER_MONTH) - weekdayPeakHoursPerMonth
+    const weekdayPeakHours = weekdayPeakHoursPerMonth * toInstances(weekdayPeakConcurrentUsers)
+    const weekdayOffPeakHours = weekdayOffPeakHoursPerMonth * toInstances(weekdayOffPeakConcurrentUsers)
+
+    // Weekend calculations
+    const weekendPeakHoursPerMonth = config.weekendPeakHoursPerDay * config.weekendDaysCount * WEEKS_PER_MONTH
+    const weekendOffPeakHoursPerMonth = (24 * config.weekendDaysCount * WEEKS_PER_MONTH) - weekendPeakHoursPerMonth
+    const weekendPeakHours = weekendPeakHoursPerMonth * toInstances(weekendPeakConcurrentUsers)
+    const weekendOffPeakHours = weekendOffPeakHoursPerMonth * toInstances(weekendOffPeakConcurrentUsers)
+
+    totalUtilizedHours = weekdayPeakHours + weekdayOffPeakHours + weekendPeakHours + weekendOffPeakHours
+    totalBufferHours = getBufferHours(totalUtilizedHours)
+
+    Object.assign(calculationDetails, {
+      weekdayPeakHoursPerMonth,
+      weekdayOffPeakHoursPerMonth,
+      weekendPeakHoursPerMonth,
+      weekendOffPeakHoursPerMonth,
+      weekdayPeakConcurrentUsers,
+      weekdayOffPeakConcurrentUsers,
+      weekendPeakConcurrentUsers,
+      weekendOffPeakConcurrentUsers,
+      weekdayPeakInstances: toInstances(weekdayPeakConcurrentUsers),
+      weekdayOffPeakInstances: toInstances(weekdayOffPeakConcurrentUsers),
+      weekendPeakInstances: toInstances(weekendPeakConcurrentUsers),
+      weekendOffPeakInstances: toInstances(weekendOffPeakConcurrentUsers),
+      weekdayPeakHours,
+      weekdayOffPeakHours,
+      weekendPeakHours,
+      weekendOffPeakHours,
+      pattern: 'Custom',
+      includeWeekends: config.includeWeekends
+    })
+  } else {
+    // Default to simple calculation based on provided hours
+    const estimatedMonthlyHours = config.usageHours || HOURS_PER_MONTH
+    const concurrentUsers = Math.min(userCount, config.weekdayPeakConcurrentUsers)
+    peakConcurrentUsers = concurrentUsers
+    totalUtilizedHours = estimatedMonthlyHours * toInstances(concurrentUsers)
+    totalBufferHours = getBufferHours(totalUtilizedHours)
+
+    Object.assign(calculationDetails, {
+      userSpecifiedHours: estimatedMonthlyHours,
+      concurrentUsers,
+      instances: toInstances(concurrentUsers),
+      pattern: 'User Specified'
+    })
+  }
+
+  const totalInstanceHours = totalUtilizedHours + totalBufferHours
+  Object.assign(calculationDetails, { totalUtilizedHours, totalBufferHours, totalInstanceHours })
+
+  return {
+    totalUtilizedHours,
+    totalBufferHours,
+    totalInstanceHours,
+    calculationDetails,
+    peakConcurrentUsers,
+    peakInstances: toInstances(peakConcurrentUsers)
+  }
+}
+
+/**
+ * Calculates an AppStream 2.0 estimate from the fleet configuration and the instance's hourly rate
+ */
+export function calculateAppStreamEstimate(config: AppStreamEstimateConfig, rates: AppStreamRateTable): AppStreamEstimate {
+  const hours = calculateAppStreamHours(config)
+  const { totalUtilizedHours, totalBufferHours, totalInstanceHours, calculationDetails } = hours
+
+  // Reported for reference only: the API price already includes OS, function and region
+  const functionMultiplier = FUNCTION_MULTIPLIERS[config.instanceFunction] || 1.0
+  const regionMultiplier = REGION_MULTIPLIERS[config.region] || 1.0
+
+  const sessionsPerInstance = getSessionsPerInstance(config)
+  const userResources = config.userResources || DEFAULT_APPSTREAM_USER_RESOURCES
+  const hasInstanceSpecs = !!config.instanceVCpu && !!config.instanceMemoryGib
+
+  // Use the exact hourly rate without any rounding to match AWS's pricing calculations
+  const hourlyPrice = rates.hourlyPrice
+  const instanceCost = totalInstanceHours * hourlyPrice
+
+  // Microsoft RDS SAL applies to Windows users only
+  const userLicenseCostPerMonth = config.operatingSystem === 'windows' ? USER_LICENSE_COST_PER_MONTH : 0
+  const userLicenseCost = config.userCount * userLicenseCostPerMonth
+
+  const components = calculateAppStreamComponents(config, rates)
+  const componentsCost = components.reduce((total, item) => total + item.extendedCost, 0)
+  const totalMonthlyCost = instanceCost + userLicenseCost + componentsCost
+
+  const lineItems: PricingLineItem[] = [{
+    description: sessionsPerInstance > 1
+      ? `${config.instanceType} multi-session fleet instances (${sessionsPerInstance} users each)`
+      : `${config.instanceType} fleet instances`,
+    kind: "compute",
+    rateCode: rates.rateCode,
+    unit: "Hour",
+    quantity: totalInstanceHours,
+    unitPrice: hourlyPrice,
+    extendedCost: instanceCost,
+  }]
+  if (userLicenseCostPerMonth > 0) {
+    lineItems.push({
+      description: "User license (Microsoft RDS SAL)",
+      kind: "user-license",
+      unit: "User-Month",
+      quantity: config.userCount,
+      unitPrice: userLicenseCostPerMonth,
+      extendedCost: userLicenseCost,
+    })
+  }
+  lineItems.push(...components)
+
+  const effectiveUserCount = config.userCount > 0 ? config.userCount : 1
+  const annualCost = totalMonthlyCost * 12
+
+  return {
+    hourlyPrice,
+    totalInstanceHours,
+    instanceCost,
+    userLicenseCost,
+    componentsCost,
+    totalMonthlyCost,
+    costPerUser: totalMonthlyCost / effectiveUserCount,
+    annualCost,
+    utilizedInstanceHours: totalUtilizedHours,
+    bufferInstanceHours: totalBufferHours,
+    lineItems,
+    details: {
+      baseInstancePrice: hourlyPrice,
+      osAddition: OS_PRICING[config.operatingSystem] || 0,
+      functionMultiplier,
+      regionMultiplier,
+      sessionSizing: {
+        multiSession: sessionsPerInstance > 1,
+        sessionsPerInstance,
+        recommendedSessionsPerInstance: hasInstanceSpecs
+          ? recommendSessionsPerInstance(config.instanceVCpu!, config.instanceMemoryGib!, userResources)
+          : null,
+        instanceVCpu: config.instanceVCpu ?? null,
+        instanceMemoryGib: config.instanceMemoryGib ?? null,
+        userResources,
+        peakConcurrentUsers: hours.peakConcurrentUsers,
+        peakInstances: hours.peakInstances
+      },
+      components,
+      calculationDetails,
+      instanceType: config.instanceType,
+      instanceFamily: config.instanceFamily,
+      instanceFunction: config.instanceFunction,
+      operatingSystem: config.operatingSystem,
+      multiSession: config.multiSession,
+      userCount: config.userCount,
+      bufferFactor: config.bufferFactor
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { analyzeCommitments, validateCommitmentTiers } from "./commitments"
+import type { CommitmentInput } from "./types"
+
+// 10 AutoStop WorkSpaces used 80 hours a month, with AlwaysOn rates of the same bundle
+const coreInput: CommitmentInput = {
+  service: "core",
+  pricingSource: "aws-api",
+  listMonthlyCost: 305.5,
+  billing: {
+    bundleName: "Standard",
+    runningMode: "auto-stop",
+    workspaceCount: 10,
+    hoursPerUser: 80,
+    rates: { fixedMonthlyFee: 9.75, hourlyRate: 0.26, alwaysOnMonthlyCost: 35 },
+  },
+}
+
+describe("analyzeCommitments", () => {
+  it("compares monthly and hourly billing of WorkSpaces Core", () => {
+    const [monthly, hourly] = analyzeCommitments(coreInput).options
+
+    assert.equal(monthly.monthlyCost, 350)
+    assert.equal(monthly.annualSavings, -534)
+    assert.equal(monthly.current, false)
+    assert.equal(hourly.monthlyCost, 305.5)
+    assert.equal(hourly.annualSavings, 0)
+    assert.equal(hourly.current, true)
+    assert.match(hourly.explanation, /cheaper than monthly billing below 97 hours/)
+  })
+
+  it("leaves the billing options unpriced when the other running mode has no rates", () => {
+    const [monthly, hourly] = analyzeCommitments({ ...coreInput, billing: { ...coreInput.billing!, rates: undefined } }).options
+
+    assert.equal(monthly.monthlyCost, null)
+    assert.equal(hourly.annualSavings, null)
+  })
+
+  it("charges the committed spend when the discounted cost is below it", () => {
+    const tiers = [
+      { name: "Small PPA", annualCommitment: 1000, discountPercent: 20, termYears: 1 },
+      { name: "Large PPA", annualCommitment: 5000, discountPercent: 10, termYears: 3 },
+    ]
+    const { options } = analyzeCommitments({ service: "pools", pricingSource: "calculated", listMonthlyCost: 305.5 }, tiers)
+    const [payAsYouGo, small, large] = options
+
+    assert.equal(payAsYouGo.annualCost, 3666)
+    assert.equal(small.annualCost, 2932.8)
+    assert.equal(small.annualSavings, 733.2)
+    assert.equal(large.annualCost, 5000)
+    assert.equal(large.annualSavings, -1334)
+    assert.match(large.explanation, /the commitment is paid/)
+  })
+
+  it("names the commitment programs AWS doesn't offer", () => {
+    assert.match(analyzeCommitments(coreInput).notOffered[0], /no Reserved Instances/)
+  })
+})
+
+describe("validateCommitmentTiers", () => {
+  it("requires a name, a commitment, a percentage and a whole number of years", () => {
+    const tier = { name: "PPA", annualCommitment: 1000, discountPercent: 10, termYears: 1 }
+
+    assert.equal(validateCommitmentTiers([tier]), null)
+    assert.match(validateCommitmentTiers([{ ...tier, name: " " }]) ?? "", /name/)
+    assert.match(validateCommitmentTiers([{ ...tier, discountPercent: 120 }]) ?? "", /percentage/)
+    assert.match(validateCommitmentTiers([{ ...tier, termYears: 1.5 }]) ?? "", /whole number/)
+  })
+})
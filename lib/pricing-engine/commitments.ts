@@ -0,0 +1,159 @@
+import { formatUsdAmount } from "@/lib/currency"
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import type {
+  CommitmentAnalysis,
+  CommitmentInput,
+  CommitmentOption,
+  CommitmentTier,
+  DiscountService,
+  PricingSource
+} from "./types"
+
+// Commitment programs that exist for other AWS services but not for these, so customers asking
+// for reserved prices get an answer instead of a made-up figure
+const NOT_OFFERED: Record<DiscountService, string[]> = {
+  core: [
+    "WorkSpaces has no Reserved Instances, and Savings Plans don't cover it. Full-time use is cheapest on monthly (AlwaysOn) billing.",
+  ],
+  pools: [
+    "WorkSpaces Pools has no Reserved Instances, and Savings Plans don't cover it.",
+  ],
+  appstream: [
+    "AppStream 2.0 has no Reserved Instances, and Savings Plans don't cover it.",
+  ],
+}
+
+const describeListSource = (pricingSource: PricingSource, rates: string) => pricingSource === "aws-api"
+  ? `AWS Pricing API, ${rates}`
+  : `Fallback rate table, estimated ${rates}`
+
+/**
+ * Returns why negotiated commitment tiers can't be compared, or null when they are valid
+ */
+export function validateCommitmentTiers(tiers: CommitmentTier[]): string | null {
+  if (!Array.isArray(tiers)) {
+    return "Commitment tiers must be a list"
+  }
+  for (const tier of tiers) {
+    if (!tier.name?.trim()) {
+      return "Every commitment tier needs a name"
+    }
+    if (typeof tier.annualCommitment !== "number" || !Number.isFinite(tier.annualCommitment) || tier.annualCommitment < 0) {
+      return `The annual commitment of ${tier.name} must be at least 0`
+    }
+    if (typeof tier.discountPercent !== "number" || !(tier.discountPercent >= 0 && tier.discountPercent <= 100)) {
+      return `The discount of ${tier.name} must be a percentage between 0 and 100`
+    }
+    if (!Number.isInteger(tier.termYears) || tier.termYears < 1) {
+      return `The term of ${tier.name} must be a whole number of years`
+    }
+  }
+  return null
+}
+
+// Monthly (AlwaysOn) and hourly (AutoStop) billing of WorkSpaces Core, priced from the rates of both modes
+function getBillingOptions(input: CommitmentInput): Omit<CommitmentOption, "annualSavings">[] {
+  const billing = input.billing!
+  const rates = billing.rates
+  const unpriced = "The other running mode of this bundle couldn't be priced, so the options can't be compared."
+  const monthly = rates ? formatPriceForStorage(rates.alwaysOnMonthlyCost * billing.workspaceCount) : null
+  const hourly = rates
+    ? formatPriceForStorage((rates.fixedMonthlyFee + rates.hourlyRate * billing.hoursPerUser) * billing.workspaceCount)
+    : null
+  const breakevenHours = rates && rates.hourlyRate > 0
+    ? Math.round(Math.max(0, (rates.alwaysOnMonthlyCost - rates.fixedMonthlyFee) / rates.hourlyRate))
+    : null
+
+  return [
+    {
+      id: "monthly",
+      label: "Monthly billing (AlwaysOn)",
+      source: "aws-list-price",
+      sourceDescription: describeListSource(input.pricingSource, `AlwaysOn rates of ${billing.bundleName}`),
+      explanation: monthly === null
+        ? unpriced
+        : `A flat ${formatUsdAmount(rates!.alwaysOnMonthlyCost)} per WorkSpace and month, however many hours it runs. ` +
+          "No term: the running mode can be switched at any time.",
+      monthlyCost: monthly,
+      annualCost: monthly !== null ? formatPriceForStorage(monthly * 12) : null,
+      termYears: 0,
+      current: billing.runningMode !== "auto-stop",
+    },
+    {
+      id: "hourly",
+      label: "Hourly billing (AutoStop)",
+      source: "aws-list-price",
+      sourceDescription: describeListSource(input.pricingSource, `AutoStop rates of ${billing.bundleName}`),
+      explanation: hourly === null
+        ? unpriced
+        : `A ${formatUsdAmount(rates!.fixedMonthlyFee)} monthly fee plus ${formatUsdAmount(rates!.hourlyRate, 4)} per hour, at ${billing.hoursPerUser} ` +
+          "hours per WorkSpace and month" +
+          (breakevenHours !== null ? `; cheaper than monthly billing below ${breakevenHours} hours.` : "."),
+      monthlyCost: hourly,
+      annualCost: hourly !== null ? formatPriceForStorage(hourly * 12) : null,
+      termYears: 0,
+      current: billing.runningMode === "auto-stop",
+    },
+  ]
+}
+
+// Pay-as-you-go list prices, the only AWS pricing of Pools and AppStream
+function getPayAsYouGoOption(input: CommitmentInput): Omit<CommitmentOption, "annualSavings"> {
+  return {
+    id: "pay-as-you-go",
+    label: "Pay as you go",
+    source: "aws-list-price",
+    sourceDescription: describeListSource(input.pricingSource, "hourly instance rates"),
+    explanation: "Instance hours and user fees at list prices, billed monthly for what runs. No term or commitment.",
+    monthlyCost: formatPriceForStorage(input.listMonthlyCost),
+    annualCost: formatPriceForStorage(input.listMonthlyCost * 12),
+    termYears: 0,
+    current: true,
+  }
+}
+
+// A negotiated tier: the discount off list prices, but never less than the committed spend
+function getTierOption(tier: CommitmentTier, index: number, listMonthlyCost: number): Omit<CommitmentOption, "annualSavings"> {
+  const discountedAnnual = listMonthlyCost * 12 * (1 - tier.discountPercent / 100)
+  const annualCost = formatPriceForStorage(Math.max(discountedAnnual, tier.annualCommitment))
+  const shortfall = tier.annualCommitment > discountedAnnual
+    ? ` The discounted cost of ${formatUsdAmount(discountedAnnual)} a year is below the commitment, so the commitment is paid.`
+    : ""
+  return {
+    id: `tier-${index}`,
+    label: tier.name,
+    source: "negotiated",
+    sourceDescription: `Negotiated commitment entered with the discounts: ${tier.name}`,
+    explanation: `${tier.discountPercent}% off list prices for committing to ${formatUsdAmount(tier.annualCommitment)} a year ` +
+      `for ${tier.termYears} year${tier.termYears === 1 ? "" : "s"}, assuming this estimate is the only spend ` +
+      `counted toward it.${shortfall}`,
+    monthlyCost: formatPriceForStorage(annualCost / 12),
+    annualCost,
+    termYears: tier.termYears,
+    current: false,
+  }
+}
+
+/**
+ * Lists the ways an estimate can be paid for, at list prices so they compare with each other:
+ * monthly and hourly billing for WorkSpaces Core, pay as you go for Pools and AppStream, and
+ * the negotiated commitment tiers the user entered. Each option names the rates or agreement
+ * its price comes from.
+ */
+export function analyzeCommitments(input: CommitmentInput, tiers: CommitmentTier[] = []): CommitmentAnalysis {
+  const listAnnualCost = input.listMonthlyCost * 12
+  const options = [
+    ...(input.service === "core" && input.billing ? getBillingOptions(input) : [getPayAsYouGoOption(input)]),
+    ...tiers.map((tier, index) => getTierOption(tier, index, input.listMonthlyCost)),
+  ].map(option => ({
+    ...option,
+    annualSavings: option.annualCost !== null ? formatPriceForStorage(listAnnualCost - option.annualCost) : null,
+  }))
+
+  return {
+    service: input.service,
+    listMonthlyCost: formatPriceForStorage(input.listMonthlyCost),
+    options,
+    notOffered: NOT_OFFERED[input.service],
+  }
+}
@@ -0,0 +1,11 @@
+// Average hours in a month, as used by the AWS Pricing Calculator
+export const HOURS_PER_MONTH = 730
+
+// 730 hours / 168 hours per week = 4.35
+export const WEEKS_PER_MONTH = 4.35
+
+// Monthly Microsoft RDS SAL fee per user for license-included WorkSpaces Pools and Windows AppStream
+export const USER_LICENSE_COST_PER_MONTH = 4.19
+
+// Monthly AutoStop usage assumed when none is given: 8 hours a day, 20 working days
+export const DEFAULT_AUTOSTOP_HOURS_PER_USER = 160
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { calculateCoreEstimate } from "./core"
+import type { CoreEstimateConfig, CoreRateTable } from "./types"
+
+const autoStopRates: CoreRateTable = {
+  source: "aws-api",
+  bundleName: "Standard",
+  rates: [
+    { description: "Standard AutoStop monthly fee", price: 9.75, unit: "Month", rateCode: "AS-FEE" },
+    { description: "Standard AutoStop usage", price: 0.26, unit: "Hour", rateCode: "AS-HOUR" },
+  ],
+  alwaysOnRates: [{ description: "Standard AlwaysOn", price: 35, unit: "Month", rateCode: "AO" }],
+}
+
+const autoStopConfig: CoreEstimateConfig = {
+  runningMode: "auto-stop",
+  billingOption: "hourly",
+  numberOfWorkspaces: 10,
+  autoStopHoursPerUser: 80,
+}
+
+describe("calculateCoreEstimate", () => {
+  it("bills AutoStop as the fixed monthly fee plus the hours used", () => {
+    const estimate = calculateCoreEstimate(autoStopConfig, autoStopRates)
+
+    assert.equal(estimate.costPerWorkspace, 30.55)
+    assert.equal(estimate.totalMonthlyCost, 305.5)
+    assert.equal(estimate.annualEstimate, 3666)
+    assert.deepEqual(
+      estimate.lineItems.map(item => [item.unit, item.quantity, item.unitPrice]),
+      [["WorkSpace-Month", 10, 9.75], ["Hour", 800, 0.26]]
+    )
+  })
+
+  it("finds the monthly hours above which AlwaysOn is cheaper", () => {
+    const { autoStop } = calculateCoreEstimate(autoStopConfig, autoStopRates)
+
+    assert.ok(autoStop)
+    assert.equal(autoStop.fixedMonthlyFee, 9.75)
+    assert.equal(autoStop.hourlyRate, 0.26)
+    assert.equal(autoStop.alwaysOnMonthlyCost, 35)
+    // (35 - 9.75) / 0.26 = 97.1 hours
+    assert.equal(autoStop.breakevenHours, 97.1)
+    assert.equal(autoStop.usersAboveBreakeven, 0)
+  })
+
+  it("counts the users of the usage bands above the breakeven", () => {
+    const { autoStop } = calculateCoreEstimate({
+      ...autoStopConfig,
+      autoStopUsageDistribution: [
+        { hoursPerMonth: 40, percentOfUsers: 70 },
+        { hoursPerMonth: 200, percentOfUsers: 30 },
+      ],
+    }, autoStopRates)
+
+    assert.equal(autoStop?.hoursPerUser, 88)
+    assert.equal(autoStop?.usersAboveBreakeven, 3)
+  })
+
+  it("bills AlwaysOn for the whole month, however many hours are used", () => {
+    const estimate = calculateCoreEstimate(
+      { ...autoStopConfig, runningMode: "always-on", billingOption: "monthly" },
+      { ...autoStopRates, rates: autoStopRates.alwaysOnRates!, alwaysOnRates: undefined, autoStopRates: autoStopRates.rates }
+    )
+
+    assert.equal(estimate.totalMonthlyCost, 350)
+    assert.equal(estimate.autoStop, undefined)
+    assert.deepEqual(estimate.billingRates, { fixedMonthlyFee: 9.75, hourlyRate: 0.26, alwaysOnMonthlyCost: 35 })
+  })
+})
@@ -0,0 +1,176 @@
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import { DEFAULT_AUTOSTOP_HOURS_PER_USER, HOURS_PER_MONTH } from "./constants"
+import type {
+  AutoStopAnalysis,
+  CoreEstimate,
+  CoreEstimateConfig,
+  CoreRateTable,
+  PricingLineItem,
+  RateEntry,
+  RunningModeRates
+} from "./types"
+
+const isHourlyRate = (rate: RateEntry) => !!rate.unit && rate.unit.toLowerCase() === 'hour'
+
+/**
+ * Sums price entries into a monthly price
+ * @param hoursPerMonth Billed hours for hourly entries, all 730 hours of the month by default
+ */
+export function getMonthlyRateTotal(rates: RateEntry[], hoursPerMonth: number = HOURS_PER_MONTH): number {
+  return rates.reduce((sum, item) => {
+    // Hourly prices (Pool or AutoStop usage) are billed for every hour used
+    if (isHourlyRate(item)) {
+      return sum + (item.price * hoursPerMonth)
+    }
+    return sum + item.price
+  }, 0)
+}
+
+// Clamps a number of hours to what fits in a month
+const clampHours = (hours: number) => Math.min(HOURS_PER_MONTH, Math.max(0, hours))
+
+// Usage bands with a positive share, when a distribution is given
+function getUsageBands(config: CoreEstimateConfig) {
+  return (config.autoStopUsageDistribution || []).filter(band => band.percentOfUsers > 0)
+}
+
+/**
+ * Average monthly AutoStop hours per WorkSpace, weighted by the usage distribution when one is given
+ */
+export function getAutoStopHoursPerUser(config: CoreEstimateConfig): number {
+  const bands = getUsageBands(config)
+  const totalShare = bands.reduce((sum, band) => sum + band.percentOfUsers, 0)
+  if (totalShare > 0) {
+    const weightedHours = bands.reduce((sum, band) => sum + clampHours(band.hoursPerMonth) * band.percentOfUsers, 0)
+    return weightedHours / totalShare
+  }
+  return clampHours(config.autoStopHoursPerUser ?? DEFAULT_AUTOSTOP_HOURS_PER_USER)
+}
+
+// Splits AutoStop rates into the fixed monthly fee and the hourly rate
+function splitAutoStopRates(rates: RateEntry[]) {
+  return {
+    fixedMonthlyFee: rates.filter(rate => !isHourlyRate(rate)).reduce((sum, rate) => sum + rate.price, 0),
+    hourlyRate: rates.filter(isHourlyRate).reduce((sum, rate) => sum + rate.price, 0),
+  }
+}
+
+// Rates of the configuration on both running modes, null when only the selected mode was priced
+function getBillingRates(config: CoreEstimateConfig, rates: CoreRateTable): RunningModeRates | null {
+  const autoStopRates = config.runningMode === "auto-stop" ? rates.rates : rates.autoStopRates
+  const alwaysOnRates = config.runningMode === "auto-stop" ? rates.alwaysOnRates : rates.rates
+  if (!autoStopRates?.length || !alwaysOnRates?.length) {
+    return null
+  }
+  return { ...splitAutoStopRates(autoStopRates), alwaysOnMonthlyCost: getMonthlyRateTotal(alwaysOnRates) }
+}
+
+// Splits AutoStop rates into the fixed fee and hourly rate, and finds where AlwaysOn becomes cheaper
+function analyzeAutoStop(config: CoreEstimateConfig, rates: CoreRateTable, hoursPerUser: number): AutoStopAnalysis {
+  const { fixedMonthlyFee, hourlyRate } = splitAutoStopRates(rates.rates)
+  const alwaysOnMonthlyCost = rates.alwaysOnRates?.length ? getMonthlyRateTotal(rates.alwaysOnRates) : null
+
+  // fixed fee + hourly rate * hours = AlwaysOn price
+  const breakevenHours = alwaysOnMonthlyCost !== null && hourlyRate > 0
+    ? Math.max(0, (alwaysOnMonthlyCost - fixedMonthlyFee) / hourlyRate)
+    : null
+
+  let usersAboveBreakeven: number | null = null
+  if (breakevenHours !== null) {
+    const bands = getUsageBands(config)
+    const totalShare = bands.reduce((sum, band) => sum + band.percentOfUsers, 0)
+    const shareAbove = totalShare > 0
+      ? bands.filter(band => band.hoursPerMonth > breakevenHours).reduce((sum, band) => sum + band.percentOfUsers, 0) / totalShare
+      : (hoursPerUser > breakevenHours ? 1 : 0)
+    usersAboveBreakeven = Math.round(shareAbove * config.numberOfWorkspaces)
+  }
+
+  return {
+    fixedMonthlyFee,
+    hourlyRate,
+    hoursPerUser,
+    alwaysOnMonthlyCost: alwaysOnMonthlyCost !== null ? formatPriceForStorage(alwaysOnMonthlyCost) : null,
+    breakevenHours: breakevenHours !== null ? Math.round(breakevenHours * 10) / 10 : null,
+    usersAboveBreakeven,
+  }
+}
+
+// Names a price entry after the component of the bundle it pays for
+function describeRate(rate: RateEntry, config: CoreEstimateConfig, rates: CoreRateTable): string {
+  if (rates.source === "calculated") {
+    return `${rate.description} (${rates.bundleName})`
+  }
+  if (isHourlyRate(rate)) {
+    return "AutoStop hourly usage"
+  }
+  return config.runningMode === "auto-stop"
+    ? `${rates.bundleName} AutoStop monthly fee`
+    : `${rates.bundleName} bundle compute`
+}
+
+// Itemizes every price entry for all WorkSpaces, plus the volumes included in the bundle price
+function buildCoreLineItems(config: CoreEstimateConfig, rates: CoreRateTable, hoursPerWorkspace: number): PricingLineItem[] {
+  const count = config.numberOfWorkspaces
+  const lineItems: PricingLineItem[] = rates.rates.map(rate => {
+    const isHourly = isHourlyRate(rate)
+    const quantity = isHourly ? hoursPerWorkspace * count : count
+    return {
+      description: describeRate(rate, config, rates),
+      kind: "compute",
+      rateCode: rate.rateCode,
+      unit: isHourly ? "Hour" : "WorkSpace-Month",
+      quantity,
+      unitPrice: rate.price,
+      extendedCost: quantity * rate.price,
+    }
+  })
+
+  const volumes = [
+    { description: "Root volume", sizeGb: config.rootVolumeGb },
+    { description: "User volume", sizeGb: config.userVolumeGb },
+  ]
+  for (const volume of volumes) {
+    if (!volume.sizeGb) continue
+    lineItems.push({
+      description: `${volume.description} (${volume.sizeGb} GB)`,
+      kind: "storage",
+      unit: "GB-Month",
+      quantity: volume.sizeGb * count,
+      unitPrice: 0,
+      extendedCost: 0,
+      note: "Included in the bundle price",
+    })
+  }
+
+  return lineItems
+}
+
+/**
+ * Calculates a WorkSpaces Core estimate from the rates of the selected bundle configuration
+ */
+export function calculateCoreEstimate(config: CoreEstimateConfig, rates: CoreRateTable): CoreEstimate {
+  // AutoStop is a fixed monthly fee plus the hours actually used, everything else runs all month
+  const isAutoStop = config.runningMode === "auto-stop"
+  const hoursPerWorkspace = isAutoStop ? getAutoStopHoursPerUser(config) : HOURS_PER_MONTH
+
+  const baseCost = formatPriceForStorage(getMonthlyRateTotal(rates.rates, hoursPerWorkspace))
+  const lineItems = buildCoreLineItems(config, rates, hoursPerWorkspace)
+
+  const costPerWorkspace = baseCost
+  const totalMonthlyCost = formatPriceForStorage(costPerWorkspace * config.numberOfWorkspaces)
+  const annualEstimate = formatPriceForStorage(totalMonthlyCost * 12)
+
+  return {
+    costPerWorkspace,
+    totalMonthlyCost,
+    annualEstimate,
+    bundleName: rates.bundleName,
+    billingModel: config.billingOption === "monthly" ? "Monthly" : "Hourly",
+    baseCost,
+    pricingSource: rates.source,
+    lineItems,
+    autoStop: isAutoStop ? analyzeAutoStop(config, rates, hoursPerWorkspace) : undefined,
+    billingRates: getBillingRates(config, rates) ?? undefined,
+    autoStopHoursPerUser: getAutoStopHoursPerUser(config),
+  }
+}
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { calculateAppStreamEstimate } from "./appstream"
+import { applyDiscounts, validateDiscountSettings, validatePriceOverride } from "./discounts"
+import type { AppStreamEstimateConfig, DiscountScope, PriceOverride, PricingLineItem } from "./types"
+
+const coreItems: PricingLineItem[] = [
+  { description: "Standard bundle compute", kind: "compute", rateCode: "AO", unit: "WorkSpace-Month", quantity: 10, unitPrice: 35, extendedCost: 350 },
+]
+
+const coreScope: DiscountScope = {
+  service: "core",
+  bundles: ["standard", "Standard"],
+  region: "us-east-1",
+  runningMode: "always-on",
+}
+
+const standardOverride: PriceOverride = { service: "core", bundle: "standard", unit: "WorkSpace-Month", unitPrice: 30 }
+
+// 10 Linux users streaming from one single-session instance each, around the clock
+const appStreamConfig: AppStreamEstimateConfig = {
+  region: "us-east-1",
+  instanceType: "stream.standard.large",
+  instanceFamily: "general_purpose",
+  instanceFunction: "fleet",
+  operatingSystem: "amazon-linux",
+  multiSession: false,
+  sessionsPerInstance: 1,
+  usagePattern: "always-on",
+  userCount: 10,
+  bufferFactor: 0,
+  includeWeekends: true,
+  weekdayPeakConcurrentUsers: 10,
+  weekdayOffPeakConcurrentUsers: 10,
+  weekendPeakConcurrentUsers: 10,
+  weekendOffPeakConcurrentUsers: 10,
+  weekdayDaysCount: 5,
+  weekdayPeakHoursPerDay: 8,
+  weekendDaysCount: 2,
+  weekendPeakHoursPerDay: 4,
+}
+
+describe("applyDiscounts", () => {
+  it("returns null when nothing is discounted", () => {
+    assert.equal(applyDiscounts(coreItems, 350, coreScope), null)
+    assert.equal(applyDiscounts(coreItems, 350, coreScope, { edpPercent: 0 }, []), null)
+  })
+
+  it("applies negotiated rates, then the service discount, then the EDP", () => {
+    const discounted = applyDiscounts(coreItems, 350, coreScope, { edpPercent: 5, servicePercents: { core: 10 } }, [standardOverride])
+
+    assert.ok(discounted)
+    assert.deepEqual(
+      discounted.lineItems.map(item => [item.description, item.extendedCost]),
+      [
+        ["Standard bundle compute", 300],
+        ["WorkSpaces Core private pricing discount (10%)", -30],
+        ["EDP discount (5%)", -13.5],
+      ]
+    )
+    assert.deepEqual(discounted.discount, {
+      listMonthlyCost: 350,
+      netMonthlyCost: 256.5,
+      discountAmount: 93.5,
+      edpPercent: 5,
+      servicePercent: 10,
+      negotiatedRates: 1,
+    })
+  })
+
+  it("ignores negotiated rates of other regions, running modes and services", () => {
+    const overrides: PriceOverride[] = [
+      { ...standardOverride, region: "eu-west-1" },
+      { ...standardOverride, runningMode: "auto-stop" },
+      { ...standardOverride, service: "pools" },
+      { ...standardOverride, bundle: "performance" },
+    ]
+
+    assert.equal(applyDiscounts(coreItems, 350, coreScope, {}, overrides), null)
+  })
+
+  it("replaces only the compute rate unless an override names another line item", () => {
+    const poolItems: PricingLineItem[] = [
+      { description: "Power pool active streaming", kind: "compute", rateCode: "POOL-HOUR", unit: "Hour", quantity: 7308, unitPrice: 0.5, extendedCost: 3654 },
+      { description: "Stopped buffer instances", kind: "stopped-buffer", unit: "Hour", quantity: 7308, unitPrice: 0.03, extendedCost: 219.24 },
+    ]
+    const poolScope: DiscountScope = { service: "pools", bundles: ["pool-power"], region: "us-east-1" }
+    const hourlyOverride: PriceOverride = { service: "pools", bundle: "pool-power", unit: "Hour", unitPrice: 0.4 }
+
+    const discounted = applyDiscounts(poolItems, 3873.24, poolScope, {}, [hourlyOverride])
+    assert.equal(discounted?.discount.negotiatedRates, 1)
+    assert.deepEqual(discounted?.lineItems.map(item => item.unitPrice), [0.4, 0.03])
+    assert.equal(discounted?.lineItems[1].extendedCost, 219.24)
+    assert.equal(discounted?.lineItems[0].note, "Negotiated rate, list price USD\u00a00.50")
+
+    const buffer = applyDiscounts(poolItems, 3873.24, poolScope, {}, [{ ...hourlyOverride, unitPrice: 0.02, kind: "stopped-buffer" }])
+    assert.deepEqual(buffer?.lineItems.map(item => item.unitPrice), [0.5, 0.02])
+
+    const byRateCode = applyDiscounts(poolItems, 3873.24, poolScope, {}, [{ ...hourlyOverride, kind: "stopped-buffer", rateCode: "POOL-HOUR" }])
+    assert.deepEqual(byRateCode?.lineItems.map(item => item.unitPrice), [0.4, 0.03])
+  })
+
+  it("leaves AppStream image builder hours at their rate under a fleet override", () => {
+    const estimate = calculateAppStreamEstimate({ ...appStreamConfig, components: { imageBuilderHours: 20 } }, { source: "aws-api", hourlyPrice: 0.1 })
+    const scope: DiscountScope = { service: "appstream", bundles: ["stream.standard.large"], region: "us-east-1" }
+    const fleetOverride: PriceOverride = { service: "appstream", bundle: "stream.standard.large", unit: "Hour", unitPrice: 0.08 }
+
+    const discounted = applyDiscounts(estimate.lineItems, estimate.totalMonthlyCost, scope, {}, [fleetOverride])
+    const imageBuilder = discounted?.lineItems.find(item => item.kind === "image-builder")
+    assert.equal(discounted?.discount.negotiatedRates, 1)
+    assert.equal(imageBuilder?.unitPrice, 0.1)
+    assert.equal(imageBuilder?.extendedCost, 2)
+  })
+
+  it("ignores service discounts of other services", () => {
+    assert.equal(applyDiscounts(coreItems, 350, coreScope, { servicePercents: { pools: 20 } }), null)
+  })
+})
+
+describe("validateDiscountSettings", () => {
+  it("rejects percentages outside 0-100 and unknown services", () => {
+    assert.equal(validateDiscountSettings({ edpPercent: 5, servicePercents: { core: 10 } }), null)
+    assert.match(validateDiscountSettings({ edpPercent: 101 }) ?? "", /EDP/)
+    assert.match(validateDiscountSettings({ servicePercents: { ec2: 5 } as never }) ?? "", /Unknown discount service/)
+  })
+})
+
+describe("validatePriceOverride", () => {
+  it("requires a known service, a bundle, a unit and a price of at least 0", () => {
+    assert.equal(validatePriceOverride(standardOverride), null)
+    assert.match(validatePriceOverride({ ...standardOverride, service: "ec2" as never }) ?? "", /Unknown service/)
+    assert.match(validatePriceOverride({ ...standardOverride, unit: "" }) ?? "", /unit/)
+    assert.match(validatePriceOverride({ ...standardOverride, unitPrice: -1 }) ?? "", /unit price/)
+    assert.match(validatePriceOverride({ ...standardOverride, kind: "license" as never }) ?? "", /Unknown line item kind/)
+  })
+})
@@ -0,0 +1,162 @@
+import { formatUsdAmount } from "@/lib/currency"
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import { validateCommitmentTiers } from "./commitments"
+import type {
+  DiscountScope,
+  DiscountService,
+  DiscountSettings,
+  DiscountedEstimate,
+  PriceOverride,
+  PricingLineItem,
+  PricingLineItemKind
+} from "./types"
+
+export const DISCOUNT_SERVICES: { value: DiscountService; label: string }[] = [
+  { value: "core", label: "WorkSpaces Core" },
+  { value: "pools", label: "WorkSpaces Pools" },
+  { value: "appstream", label: "AppStream 2.0" },
+]
+
+const LINE_ITEM_KINDS: PricingLineItemKind[] = ["compute", "stopped-buffer", "image-builder", "user-license", "storage", "data-transfer"]
+
+const isPercent = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100
+
+const sameText = (a?: string, b?: string) => (a || "").toLowerCase() === (b || "").toLowerCase()
+
+/**
+ * Returns why discount settings can't be used, or null when they are valid
+ */
+export function validateDiscountSettings(settings: DiscountSettings): string | null {
+  if (settings.edpPercent !== undefined && !isPercent(settings.edpPercent)) {
+    return "The EDP discount must be a percentage between 0 and 100"
+  }
+  for (const [service, percent] of Object.entries(settings.servicePercents || {})) {
+    if (!DISCOUNT_SERVICES.some(option => option.value === service)) {
+      return `Unknown discount service: ${service}`
+    }
+    if (percent !== undefined && !isPercent(percent)) {
+      return `The ${service} discount must be a percentage between 0 and 100`
+    }
+  }
+  return settings.commitmentTiers ? validateCommitmentTiers(settings.commitmentTiers) : null
+}
+
+/**
+ * Returns why a negotiated rate can't be used, or null when it is valid
+ */
+export function validatePriceOverride(override: Partial<PriceOverride>): string | null {
+  if (!DISCOUNT_SERVICES.some(option => option.value === override.service)) {
+    return `Unknown service "${override.service}", expected core, pools or appstream`
+  }
+  if (!override.bundle) {
+    return "A bundle is required"
+  }
+  if (!override.unit) {
+    return "A unit is required"
+  }
+  if (typeof override.unitPrice !== "number" || !Number.isFinite(override.unitPrice) || override.unitPrice < 0) {
+    return "The unit price must be a number of at least 0"
+  }
+  if (override.kind && !LINE_ITEM_KINDS.includes(override.kind)) {
+    return `Unknown line item kind "${override.kind}", expected ${LINE_ITEM_KINDS.join(", ")}`
+  }
+  return null
+}
+
+/**
+ * Whether the settings discount anything, so undiscounted estimates are returned unchanged
+ */
+export function hasDiscounts(settings?: DiscountSettings): boolean {
+  return Boolean(settings?.edpPercent) || Object.values(settings?.servicePercents || {}).some(Boolean)
+}
+
+// Whether an override names the line item: by its rate code when it has one, otherwise by its
+// kind, so only compute lines match overrides that name neither
+const namesLineItem = (override: PriceOverride, item: PricingLineItem) => override.rateCode
+  ? sameText(override.rateCode, item.rateCode)
+  : item.kind === (override.kind || "compute")
+
+function findPriceOverride(item: PricingLineItem, scope: DiscountScope, overrides: PriceOverride[]): PriceOverride | undefined {
+  return overrides.find(override =>
+    override.service === scope.service &&
+    scope.bundles.some(bundle => sameText(bundle, override.bundle)) &&
+    sameText(override.unit, item.unit) &&
+    namesLineItem(override, item) &&
+    (!override.region || sameText(override.region, scope.region)) &&
+    (!override.runningMode || sameText(override.runningMode, scope.runningMode))
+  )
+}
+
+// A percentage off the running subtotal, itemized as quantity (percent) times a negative unit price
+function percentLineItem(description: string, percent: number, subtotal: number): PricingLineItem {
+  return {
+    description: `${description} (${percent}%)`,
+    unit: "Percent",
+    quantity: percent,
+    unitPrice: -subtotal / 100,
+    extendedCost: -subtotal * percent / 100,
+  }
+}
+
+/**
+ * Applies a customer's discounts to the list price line items of an estimate. Negotiated rates
+ * replace the list unit price of the items they name (see PriceOverride) first, then the service discount and the EDP
+ * are taken off what remains, in that order. Returns null when nothing applies.
+ */
+export function applyDiscounts(
+  lineItems: PricingLineItem[],
+  listMonthlyCost: number,
+  scope: DiscountScope,
+  settings: DiscountSettings = {},
+  overrides: PriceOverride[] = []
+): DiscountedEstimate | null {
+  let negotiatedRates = 0
+  let negotiatedSavings = 0
+  const discountedItems = lineItems.map(item => {
+    const override = findPriceOverride(item, scope, overrides)
+    if (!override) {
+      return item
+    }
+    const extendedCost = item.quantity * override.unitPrice
+    negotiatedRates++
+    negotiatedSavings += item.extendedCost - extendedCost
+    return {
+      ...item,
+      unitPrice: override.unitPrice,
+      extendedCost,
+      note: `Negotiated rate, list price ${formatUsdAmount(item.unitPrice, 4)}`,
+    }
+  })
+
+  const servicePercent = settings.servicePercents?.[scope.service] || 0
+  const edpPercent = settings.edpPercent || 0
+  if (negotiatedRates === 0 && !servicePercent && !edpPercent) {
+    return null
+  }
+
+  let subtotal = listMonthlyCost - negotiatedSavings
+  if (servicePercent) {
+    const label = DISCOUNT_SERVICES.find(option => option.value === scope.service)?.label
+    const item = percentLineItem(`${label} private pricing discount`, servicePercent, subtotal)
+    discountedItems.push(item)
+    subtotal += item.extendedCost
+  }
+  if (edpPercent) {
+    const item = percentLineItem("EDP discount", edpPercent, subtotal)
+    discountedItems.push(item)
+    subtotal += item.extendedCost
+  }
+
+  const netMonthlyCost = formatPriceForStorage(subtotal)
+  return {
+    lineItems: discountedItems,
+    discount: {
+      listMonthlyCost,
+      netMonthlyCost,
+      discountAmount: formatPriceForStorage(listMonthlyCost - netMonthlyCost),
+      edpPercent,
+      servicePercent,
+      negotiatedRates,
+    },
+  }
+}
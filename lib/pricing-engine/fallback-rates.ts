@@ -0,0 +1,211 @@
+import { HOURS_PER_MONTH, USER_LICENSE_COST_PER_MONTH } from "./constants"
+import { POOL_STOPPED_INSTANCE_RATE } from "./pool"
+import type { AppStreamRateTable, CoreRateTable, PoolRateTable } from "./types"
+
+/**
+ * Hardcoded rate tables used when calculator.aws pricing is unavailable
+ */
+
+// Base pricing data (USD per hour) for US East (N. Virginia)
+export const APPSTREAM_FALLBACK_HOURLY_PRICING: Record<string, Record<string, number>> = {
+  'general-purpose': {
+    'stream.standard.small': 0.10,
+    'stream.standard.medium': 0.10,
+    'stream.standard.large': 0.25,
+    'stream.standard.xlarge': 0.34,
+    'stream.standard.2xlarge': 0.68
+  },
+  'compute-optimized': {
+    'stream.compute.large': 0.29,
+    'stream.compute.xlarge': 0.58,
+    'stream.compute.2xlarge': 1.16,
+    'stream.compute.4xlarge': 2.32,
+    'stream.compute.8xlarge': 4.64
+  },
+  'memory-optimized': {
+    'stream.memory.large': 0.27,
+    'stream.memory.xlarge': 0.54,
+    'stream.memory.2xlarge': 1.08,
+    'stream.memory.4xlarge': 2.16,
+    'stream.memory.8xlarge': 4.32,
+    'stream.memory.z1d.large': 0.30,
+    'stream.memory.z1d.xlarge': 0.60,
+    'stream.memory.z1d.2xlarge': 1.20,
+    'stream.memory.z1d.3xlarge': 1.80,
+    'stream.memory.z1d.6xlarge': 3.60,
+    'stream.memory.z1d.12xlarge': 7.20
+  },
+  'graphics': {
+    'stream.graphics.g4dn.xlarge': 0.65,
+    'stream.graphics.g4dn.2xlarge': 0.94,
+    'stream.graphics.g4dn.4xlarge': 1.88,
+    'stream.graphics.g4dn.8xlarge': 3.43,
+    'stream.graphics.g4dn.12xlarge': 5.37,
+    'stream.graphics.g4dn.16xlarge': 6.85
+  },
+  'graphics-g5': {
+    'stream.graphics.g5.xlarge': 0.75,
+    'stream.graphics.g5.2xlarge': 1.06,
+    'stream.graphics.g5.4xlarge': 2.12,
+    'stream.graphics.g5.8xlarge': 3.78,
+    'stream.graphics.g5.12xlarge': 5.89,
+    'stream.graphics.g5.16xlarge': 7.46,
+    'stream.graphics.g5.24xlarge': 11.78
+  },
+  'graphics-pro': {
+    'stream.graphics-pro.4xlarge': 3.40,
+    'stream.graphics-pro.8xlarge': 6.87,
+    'stream.graphics-pro.16xlarge': 13.10
+  },
+  'graphics-design': {
+    'stream.graphics-design.large': 0.42,
+    'stream.graphics-design.xlarge': 0.83,
+    'stream.graphics-design.2xlarge': 1.35,
+    'stream.graphics-design.4xlarge': 2.75
+  }
+}
+
+// Standard hourly rates for pool bundles by license model
+const POOL_BUNDLE_HOURLY_RATES: Record<string, { included: number; byol: number }> = {
+  'value': { 'included': 0.070, 'byol': 0.059 },
+  'standard': { 'included': 0.090, 'byol': 0.075 },
+  'performance': { 'included': 0.130, 'byol': 0.110 },
+  'power': { 'included': 0.175, 'byol': 0.149 },
+  'powerpro': { 'included': 0.250, 'byol': 0.213 }
+}
+
+// AutoStop fee and hourly rate relative to the AlwaysOn price, e.g. Standard is $35/month
+// AlwaysOn or $9.75/month + $0.30/hour AutoStop
+const AUTOSTOP_FIXED_FEE_SHARE = 0.28
+const AUTOSTOP_HOURLY_RATE_DIVISOR = 115
+
+// Helper function to estimate the AlwaysOn monthly price based on bundle specs
+export function estimateBundlePrice(bundleId: string, operatingSystem: string) {
+  // Convert bundleId to a standard format
+  const bundleType = bundleId.toLowerCase()
+
+  // Base prices for different bundle types
+  let basePrice = 0
+
+  if (bundleType.includes('value')) {
+    basePrice = 21
+  } else if (bundleType.includes('standard')) {
+    basePrice = 35
+  } else if (bundleType.includes('performance')) {
+    basePrice = 60
+  } else if (bundleType.includes('power') && !bundleType.includes('pro')) {
+    basePrice = 80
+  } else if (bundleType.includes('powerpro')) {
+    basePrice = 124
+  } else if (bundleType.includes('graphics') && bundleType.includes('pro')) {
+    basePrice = 350
+  } else if (bundleType.includes('graphics')) {
+    basePrice = 220
+  } else if (bundleType.includes('general') && bundleType.includes('16')) {
+    basePrice = 250
+  } else if (bundleType.includes('general') && bundleType.includes('32')) {
+    basePrice = 500
+  } else {
+    basePrice = 35 // Default to standard pricing
+  }
+
+  // Adjust price based on operating system
+  if (operatingSystem === 'any' || operatingSystem.includes('byol')) {
+    basePrice *= 0.85 // BYOL discount approximately 15%
+  }
+
+  return basePrice
+}
+
+// Helper function to get bundle name from bundle ID
+export function getBundleName(bundleId: string) {
+  const bundleMap: Record<string, string> = {
+    'value': 'Value',
+    'standard': 'Standard',
+    'performance': 'Performance',
+    'power': 'Power',
+    'powerpro': 'PowerPro',
+    'graphics': 'Graphics', // Fixed: removed incorrect CPU' suffix
+    'graphicspro': 'GraphicsPro', // Fixed: removed incorrect vCPU' suffix
+    'graphics-g4dn': 'Graphics.g4dn',
+    'graphicspro-g4dn': 'GraphicsPro.g4dn',
+    'general-16': 'General Purpose (16 vCPU',  // Ensure format matches AWS exactly
+    'general-32': 'General Purpose (32 vCPU'   // Ensure format matches AWS exactly
+  }
+
+  // Check each key against the bundleId, longest first so "powerpro" is not taken for "power"
+  const entries = Object.entries(bundleMap).sort(([a], [b]) => b.length - a.length)
+  for (const [key, value] of entries) {
+    if (bundleId.toLowerCase().includes(key)) {
+      return value
+    }
+  }
+
+  return 'Custom Bundle'
+}
+
+/**
+ * Estimated WorkSpaces Core rates for a bundle
+ */
+export function getFallbackCoreRates(bundleId: string, operatingSystem: string, runningMode: string): CoreRateTable {
+  const alwaysOnPrice = estimateBundlePrice(bundleId, operatingSystem)
+  const alwaysOnRates = [{
+    description: "Estimated bundle price",
+    price: alwaysOnPrice,
+    unit: "Month"
+  }]
+
+  const autoStopRates = [
+    {
+      description: "Estimated AutoStop monthly fee",
+      price: alwaysOnPrice * AUTOSTOP_FIXED_FEE_SHARE,
+      unit: "Month"
+    },
+    {
+      description: "Estimated AutoStop hourly usage",
+      price: alwaysOnPrice / AUTOSTOP_HOURLY_RATE_DIVISOR,
+      unit: "Hour"
+    }
+  ]
+
+  if (runningMode !== 'auto-stop') {
+    return { source: "calculated", bundleName: getBundleName(bundleId), rates: alwaysOnRates, autoStopRates }
+  }
+
+  return { source: "calculated", bundleName: getBundleName(bundleId), rates: autoStopRates, alwaysOnRates }
+}
+
+/**
+ * Estimated WorkSpaces Pools rates for a bundle
+ * @param monthlyBaseCost The estimated monthly bundle price, used when no standard hourly rate exists
+ */
+export function getFallbackPoolRates(bundleId: string, byol: boolean, monthlyBaseCost: number): PoolRateTable {
+  // Extract the bundle type from bundleId (strip 'pool-' prefix if present)
+  const bundleType = bundleId.toLowerCase().replace('pool-', '')
+  const standardRates = POOL_BUNDLE_HOURLY_RATES[bundleType]
+
+  // Apply a 15% discount to the estimated price for BYOL
+  const estimatedMonthlyCost = byol ? monthlyBaseCost * 0.85 : monthlyBaseCost
+
+  return {
+    source: "calculated",
+    bundleName: getBundleName(bundleId),
+    hourlyStreamingRate: standardRates
+      ? standardRates[byol ? 'byol' : 'included']
+      : estimatedMonthlyCost / HOURS_PER_MONTH,
+    stoppedInstanceRate: POOL_STOPPED_INSTANCE_RATE,
+    userLicenseCostPerMonth: USER_LICENSE_COST_PER_MONTH,
+  }
+}
+
+/**
+ * Hardcoded AppStream rate for an instance type, or null if it is not known
+ */
+export function getFallbackAppStreamRates(instanceFamily: string, instanceType: string): AppStreamRateTable | null {
+  const hourlyPrice = APPSTREAM_FALLBACK_HOURLY_PRICING[instanceFamily]?.[instanceType]
+  if (hourlyPrice === undefined) {
+    return null
+  }
+
+  return { source: "calculated", hourlyPrice }
+}
@@ -0,0 +1,65 @@
+/**
+ * Framework-free pricing engine.
+ *
+ * Every calculator takes a typed configuration plus a rate table and returns an
+ * itemized estimate. Nothing here fetches prices or depends on Next.js, so the
+ * same math can run in API routes, scripts and tests. Rates come from
+ * calculator.aws (see lib/pricing-client.ts) or the hardcoded fallback tables.
+ */
+export * from "./types"
+export * from "./constants"
+export { getMonthlyRateTotal, getAutoStopHoursPerUser, calculateCoreEstimate } from "./core"
+export { getRunningModeBreakevenHours, optimizeRunningModes } from "./running-mode"
+export {
+  POOL_STOPPED_INSTANCE_RATE,
+  DEFAULT_POOL_BUFFER_PERCENT,
+  DEFAULT_POOL_ESTIMATE_USAGE_PATTERN,
+  calculatePoolEstimate,
+  validatePoolCostInputs,
+} from "./pool"
+export {
+  DEFAULT_POOL_SCALING_POLICY,
+  POOL_WEEK_HOURS,
+  buildPoolDemandProfile,
+  parsePoolDemandProfileCsv,
+  simulatePoolCapacity,
+  validatePoolDemandProfile,
+  validatePoolScalingPolicy,
+} from "./pool-simulation"
+export {
+  APPSTREAM_DATA_TRANSFER_OUT_RATE_PER_GB,
+  APPSTREAM_STORAGE_RATE_PER_GB_MONTH,
+  APPSTREAM_STORAGE_REQUEST_RATE_PER_1000,
+  APPSTREAM_USER_PROFILES,
+  DEFAULT_APPSTREAM_USER_RESOURCES,
+  calculateAppStreamComponents,
+  calculateAppStreamHours,
+  calculateAppStreamEstimate,
+  recommendSessionsPerInstance,
+  validateAppStreamComponents,
+  validateAppStreamSessionSizing,
+} from "./appstream"
+export {
+  ON_PREM_COMPARISON_MONTHS,
+  ON_PREM_DEFAULTS,
+  ON_PREM_ENVIRONMENT_KINDS,
+  compareOnPrem,
+  validateOnPremEnvironment,
+} from "./on-prem"
+export { DEFAULT_TCO_ASSUMPTIONS, MAX_TCO_YEARS, projectTco, validateTcoAssumptions } from "./tco"
+export {
+  DISCOUNT_SERVICES,
+  applyDiscounts,
+  hasDiscounts,
+  validateDiscountSettings,
+  validatePriceOverride,
+} from "./discounts"
+export { analyzeCommitments, validateCommitmentTiers } from "./commitments"
+export {
+  APPSTREAM_FALLBACK_HOURLY_PRICING,
+  estimateBundlePrice,
+  getBundleName,
+  getFallbackCoreRates,
+  getFallbackPoolRates,
+  getFallbackAppStreamRates,
+} from "./fallback-rates"
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { ON_PREM_DEFAULTS, compareOnPrem, validateOnPremEnvironment } from "./on-prem"
+import type { CloudMigration, OnPremEnvironment } from "@/types/on-prem"
+
+// 100 seats at 1,500 a month of licenses, 1,000 of datacenter and 20,000 of admins, refreshed in a year
+const vdi: OnPremEnvironment = {
+  kind: "vdi",
+  seats: 100,
+  hardwareCostPerSeat: 1200,
+  refreshCycleYears: 3,
+  monthsUntilRefresh: 12,
+  brokerLicensePerSeatPerYear: 120,
+  windowsVdaPerSeatPerYear: 60,
+  datacenterCostPerMonth: 1000,
+  adminFtes: 2,
+  annualCostPerFte: 120000,
+}
+
+// 10,000 a month for the admin left after the migration
+const migration: CloudMigration = { adminFtes: 1, oneTimeCost: 100000 }
+
+describe("compareOnPrem", () => {
+  it("reports the break-even month and the savings over 3 years", () => {
+    const comparison = compareOnPrem(3500, vdi, migration)
+
+    assert.equal(comparison.months.length, 36)
+    assert.deepEqual(comparison.months[0], { month: 1, onPremCost: 22500, cloudCost: 113500, onPremCumulative: 22500, cloudCumulative: 113500 })
+    // 100,000 of migration caught up at 9,000 a month
+    assert.equal(comparison.breakevenMonth, 12)
+    assert.deepEqual(comparison.months[11], { month: 12, onPremCost: 22500, cloudCost: 13500, onPremCumulative: 270000, cloudCumulative: 262000 })
+
+    // 36 months of 22,500 and one refresh of 120,000, against 100,000 and 36 months of 13,500
+    assert.equal(comparison.onPremTotal, 930000)
+    assert.equal(comparison.cloudTotal, 586000)
+    assert.equal(comparison.savings, 344000)
+    assert.equal(comparison.savingsPercent, 37)
+    // The refresh spread over 36 months
+    assert.equal(comparison.onPremMonthlyCost, 25833.33)
+    assert.equal(comparison.cloudMonthlyCost, 13500)
+  })
+
+  it("pays the hardware in full at every refresh of the cycle", () => {
+    const comparison = compareOnPrem(3500, { ...vdi, refreshCycleYears: 1, monthsUntilRefresh: 0 }, migration)
+    const refreshMonths = comparison.months.filter(month => month.onPremCost > 22500)
+
+    assert.deepEqual(refreshMonths.map(month => [month.month, month.onPremCost]), [
+      [1, 142500],
+      [13, 142500],
+      [25, 142500],
+    ])
+  })
+
+  it("breaks even earlier when a refresh falls in the comparison", () => {
+    const migrationCost = { ...migration, oneTimeCost: 200000 }
+
+    // The month 13 refresh instead of 23 months of 9,000
+    assert.equal(compareOnPrem(3500, vdi, migrationCost).breakevenMonth, 13)
+    assert.equal(compareOnPrem(3500, { ...vdi, monthsUntilRefresh: 36 }, migrationCost).breakevenMonth, 23)
+  })
+
+  it("adds up licenses per seat, datacenter power and space, and admin FTEs", () => {
+    const environment: OnPremEnvironment = {
+      ...vdi,
+      seats: 10,
+      hardwareCostPerSeat: 0,
+      datacenterCostPerMonth: 500,
+      adminFtes: 0.5,
+    }
+    const { months } = compareOnPrem(0, environment, { adminFtes: 0, oneTimeCost: 0 }, 1)
+    const onPremCost = (changes: Partial<OnPremEnvironment>) =>
+      compareOnPrem(0, { ...environment, ...changes }, { adminFtes: 0, oneTimeCost: 0 }, 1).months[0].onPremCost
+
+    // 10 seats * 180 a year, 500, and half of 10,000 a month
+    assert.equal(months[0].onPremCost, 5650)
+    assert.equal(onPremCost({ brokerLicensePerSeatPerYear: 0, windowsVdaPerSeatPerYear: 0 }), 5500)
+    assert.equal(onPremCost({ datacenterCostPerMonth: 0 }), 5150)
+    assert.equal(onPremCost({ adminFtes: 0 }), 650)
+  })
+
+  it("never breaks even when the cloud costs more every month", () => {
+    const comparison = compareOnPrem(25000, vdi, migration)
+
+    assert.equal(comparison.breakevenMonth, null)
+    assert.equal(comparison.savings, -430000)
+    assert.equal(comparison.savingsPercent, -46.2)
+  })
+
+  it("doesn't break even when the cloud is only ahead until the refresh is paid off", () => {
+    // The refresh is due now, after which the cloud costs 7,500 more a month
+    const comparison = compareOnPrem(20000, { ...vdi, refreshCycleYears: 5, monthsUntilRefresh: 0 }, { adminFtes: 1, oneTimeCost: 0 })
+
+    assert.ok(comparison.months[15].cloudCumulative <= comparison.months[15].onPremCumulative)
+    assert.ok(comparison.months[16].cloudCumulative > comparison.months[16].onPremCumulative)
+    assert.equal(comparison.breakevenMonth, null)
+  })
+})
+
+describe("validateOnPremEnvironment", () => {
+  it("needs seats, a refresh cycle and amounts of at least 0", () => {
+    assert.equal(validateOnPremEnvironment(vdi, migration), null)
+    assert.equal(validateOnPremEnvironment({ ...ON_PREM_DEFAULTS.physical, seats: 50 }, migration), null)
+    assert.match(validateOnPremEnvironment({ ...vdi, seats: 0 }, migration) ?? "", /at least one seat/)
+    assert.match(validateOnPremEnvironment({ ...vdi, refreshCycleYears: 0 }, migration) ?? "", /refresh cycle/)
+    assert.match(validateOnPremEnvironment(vdi, { ...migration, oneTimeCost: -1 }) ?? "", /at least 0/)
+  })
+})
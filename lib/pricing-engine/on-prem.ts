@@ -0,0 +1,130 @@
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import type {
+  CloudMigration,
+  OnPremComparison,
+  OnPremComparisonMonth,
+  OnPremEnvironment,
+  OnPremEnvironmentKind
+} from "@/types/on-prem"
+
+// The break-even and savings are reported over 3 years unless asked otherwise
+export const ON_PREM_COMPARISON_MONTHS = 36
+
+export const ON_PREM_ENVIRONMENT_KINDS: { value: OnPremEnvironmentKind; label: string }[] = [
+  { value: "vdi", label: "On-premises VDI" },
+  { value: "physical", label: "Physical desktops and laptops" },
+]
+
+// Starting points for the form, to be replaced with the customer's own figures
+export const ON_PREM_DEFAULTS: Record<OnPremEnvironmentKind, Omit<OnPremEnvironment, "seats">> = {
+  vdi: {
+    kind: "vdi",
+    hardwareCostPerSeat: 900,
+    refreshCycleYears: 5,
+    monthsUntilRefresh: 12,
+    brokerLicensePerSeatPerYear: 180,
+    windowsVdaPerSeatPerYear: 100,
+    datacenterCostPerMonth: 1500,
+    adminFtes: 2,
+    annualCostPerFte: 120000,
+  },
+  physical: {
+    kind: "physical",
+    hardwareCostPerSeat: 1200,
+    refreshCycleYears: 4,
+    monthsUntilRefresh: 12,
+    brokerLicensePerSeatPerYear: 0,
+    windowsVdaPerSeatPerYear: 0,
+    datacenterCostPerMonth: 0,
+    adminFtes: 1,
+    annualCostPerFte: 120000,
+  },
+}
+
+const isNonNegative = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0
+
+/**
+ * Returns why an on-premises environment can't be compared, or null when it is valid
+ */
+export function validateOnPremEnvironment(environment: OnPremEnvironment, migration: CloudMigration): string | null {
+  if (!Number.isInteger(environment.seats) || environment.seats < 1) {
+    return "The on-premises environment needs at least one seat"
+  }
+  if (!isNonNegative(environment.refreshCycleYears) || environment.refreshCycleYears === 0) {
+    return "The hardware refresh cycle must be longer than 0 years"
+  }
+  const amounts = [
+    environment.hardwareCostPerSeat,
+    environment.monthsUntilRefresh,
+    environment.brokerLicensePerSeatPerYear,
+    environment.windowsVdaPerSeatPerYear,
+    environment.datacenterCostPerMonth,
+    environment.adminFtes,
+    environment.annualCostPerFte,
+    migration.adminFtes,
+    migration.oneTimeCost,
+  ]
+  if (!amounts.every(isNonNegative)) {
+    return "Costs, FTEs and months must be at least 0"
+  }
+  return null
+}
+
+// Whether a hardware refresh is paid in the given month, the first at monthsUntilRefresh
+function isRefreshMonth(index: number, environment: OnPremEnvironment): boolean {
+  const cycleMonths = Math.max(1, Math.round(environment.refreshCycleYears * 12))
+  const sinceFirstRefresh = index - Math.round(environment.monthsUntilRefresh)
+  return sinceFirstRefresh >= 0 && sinceFirstRefresh % cycleMonths === 0
+}
+
+/**
+ * Compares the cost of keeping an on-premises estate with moving the same users to a cloud
+ * estimate, month by month. On-premises hardware is paid in full at each refresh, so the
+ * cumulative costs show when the cloud breaks even; licenses, datacenter and admin costs are
+ * spread evenly over the months.
+ */
+export function compareOnPrem(
+  cloudMonthlyCost: number,
+  environment: OnPremEnvironment,
+  migration: CloudMigration,
+  monthCount = ON_PREM_COMPARISON_MONTHS
+): OnPremComparison {
+  const hardwareCost = environment.seats * environment.hardwareCostPerSeat
+  const onPremRecurring =
+    environment.seats * (environment.brokerLicensePerSeatPerYear + environment.windowsVdaPerSeatPerYear) / 12 +
+    environment.datacenterCostPerMonth +
+    environment.adminFtes * environment.annualCostPerFte / 12
+  const cloudRecurring = cloudMonthlyCost + migration.adminFtes * environment.annualCostPerFte / 12
+
+  const months: OnPremComparisonMonth[] = []
+  let onPremCumulative = 0
+  let cloudCumulative = 0
+  for (let index = 0; index < monthCount; index++) {
+    const onPremCost = formatPriceForStorage(onPremRecurring + (isRefreshMonth(index, environment) ? hardwareCost : 0))
+    const cloudCost = formatPriceForStorage(cloudRecurring + (index === 0 ? migration.oneTimeCost : 0))
+    onPremCumulative = formatPriceForStorage(onPremCumulative + onPremCost)
+    cloudCumulative = formatPriceForStorage(cloudCumulative + cloudCost)
+    months.push({ month: index + 1, onPremCost, cloudCost, onPremCumulative, cloudCumulative })
+  }
+
+  // The cloud breaks even once its cumulative cost stays at or below on-premises for good
+  let breakevenMonth: number | null = null
+  for (let index = months.length - 1; index >= 0; index--) {
+    if (months[index].cloudCumulative > months[index].onPremCumulative) {
+      break
+    }
+    breakevenMonth = months[index].month
+  }
+
+  const savings = formatPriceForStorage(onPremCumulative - cloudCumulative)
+  return {
+    months,
+    onPremMonthlyCost: formatPriceForStorage(onPremRecurring + hardwareCost / (environment.refreshCycleYears * 12)),
+    cloudMonthlyCost: formatPriceForStorage(cloudRecurring),
+    breakevenMonth,
+    onPremTotal: onPremCumulative,
+    cloudTotal: cloudCumulative,
+    savings,
+    savingsPercent: onPremCumulative > 0 ? Math.round(savings / onPremCumulative * 1000) / 10 : 0,
+  }
+}
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import {
+  POOL_WEEK_HOURS,
+  parsePoolDemandProfileCsv,
+  simulatePoolCapacity,
+  validatePoolDemandProfile,
+  validatePoolScalingPolicy
+} from "./pool-simulation"
+import type { PoolScalingPolicy } from "./types"
+
+// Scales out exactly to the sessions and keeps no buffer, so every step can be followed
+const exactPolicy: PoolScalingPolicy = {
+  minCapacity: 0,
+  maxCapacity: 0,
+  scaleOutThresholdPercent: 0,
+  scaleOutIncrement: 1,
+  scaleInThresholdPercent: 50,
+  scaleInPercentPerHour: 25,
+  bufferCapacityPercent: 0,
+  disconnectTimeoutMinutes: 0,
+}
+
+// A week with no demand but the given percentages of users from Monday 08:00
+const mondayMorning = (...percentages: number[]) => {
+  const profile = new Array<number>(POOL_WEEK_HOURS).fill(0)
+  profile.splice(8, percentages.length, ...percentages)
+  return profile
+}
+
+const runningInstances = (policy: PoolScalingPolicy, profile: number[], from: number, to: number) =>
+  simulatePoolCapacity(100, profile, policy).hours.slice(from, to).map(hour => hour.runningInstances)
+
+describe("simulatePoolCapacity", () => {
+  it("scales out in whole steps of the scale-out increment", () => {
+    const simulation = simulatePoolCapacity(100, mondayMorning(10), { ...exactPolicy, scaleOutIncrement: 4 })
+
+    assert.equal(simulation.hours[8].demand, 10)
+    // 10 sessions need 3 steps of 4 instances
+    assert.equal(simulation.hours[8].runningInstances, 12)
+    assert.equal(simulation.peakRunningInstances, 12)
+  })
+
+  it("keeps the scale-out threshold free", () => {
+    // 40 sessions with 20% of the instances free need 50 instances
+    assert.deepEqual(runningInstances({ ...exactPolicy, scaleOutThresholdPercent: 20 }, mondayMorning(40), 8, 9), [50])
+  })
+
+  it("scales in by a share of the running instances per hour, at least one instance", () => {
+    // 25% of 12, 9, 7 and 6 instances, then one instance an hour
+    assert.deepEqual(
+      runningInstances({ ...exactPolicy, scaleOutIncrement: 4 }, mondayMorning(10), 8, 18),
+      [12, 9, 7, 6, 5, 4, 3, 2, 1, 0]
+    )
+  })
+
+  it("doesn't scale in while the free share is within the scale-in threshold", () => {
+    // 6 of 10 instances stay in use, so 40% is free
+    assert.deepEqual(runningInstances(exactPolicy, mondayMorning(10, 6, 6), 8, 11), [10, 10, 10])
+  })
+
+  it("stays within the minimum and maximum capacity", () => {
+    const idle = simulatePoolCapacity(100, new Array(POOL_WEEK_HOURS).fill(0), { ...exactPolicy, minCapacity: 5 })
+    assert.ok(idle.hours.every(hour => hour.runningInstances === 5))
+    // 5 instances * 168 hours * 4.35 weeks
+    assert.equal(idle.provisionedInstanceHours, 3654)
+    assert.equal(idle.sessionHours, 0)
+    assert.equal(idle.idleInstanceHours, 3654)
+
+    const busy = simulatePoolCapacity(100, new Array(POOL_WEEK_HOURS).fill(50), { ...exactPolicy, maxCapacity: 20 })
+    assert.equal(busy.peakRunningInstances, 20)
+    assert.equal(busy.sessionHours, 14616)
+    // 30 sessions an hour find no instance
+    assert.equal(busy.unservedSessionHours, 21924)
+  })
+
+  it("keeps stopped buffer instances as a share of the running instances, rounded up", () => {
+    const simulation = simulatePoolCapacity(100, mondayMorning(10), { ...exactPolicy, scaleOutIncrement: 4, bufferCapacityPercent: 10 })
+
+    assert.equal(simulation.hours[8].stoppedBufferInstances, 2)
+    assert.equal(simulation.hours[9].stoppedBufferInstances, 1)
+    assert.equal(simulation.hours[20].stoppedBufferInstances, 0)
+    // 2 + 1 + 1 + 1 + 1 + 1 + 1 + 1 + 1 buffer instance hours a week, times 4.35 weeks
+    assert.equal(simulation.stoppedBufferHours, 43.5)
+  })
+
+  it("holds the instances of disconnected users for the disconnect timeout", () => {
+    const sessions = (disconnectTimeoutMinutes: number) => simulatePoolCapacity(100, mondayMorning(10), {
+      ...exactPolicy,
+      disconnectTimeoutMinutes,
+    }).hours.slice(8, 12).map(hour => hour.sessions)
+
+    assert.deepEqual(sessions(0), [10, 0, 0, 0])
+    assert.deepEqual(sessions(30), [10, 5, 0, 0])
+    assert.deepEqual(sessions(90), [10, 10, 5, 0])
+  })
+
+  it("starts the week from the capacity left at the end of the previous week", () => {
+    // Sunday 23:00 needs 40 instances, so Monday 00:00 is still scaling in from them
+    const profile = new Array<number>(POOL_WEEK_HOURS).fill(0)
+    profile[POOL_WEEK_HOURS - 1] = 40
+
+    assert.deepEqual(runningInstances(exactPolicy, profile, 0, 2), [30, 23])
+  })
+})
+
+describe("parsePoolDemandProfileCsv", () => {
+  const week = Array.from({ length: POOL_WEEK_HOURS }, (_, hour) => hour % 24 >= 8 && hour % 24 < 17 ? 60 : 5)
+
+  it("reads one value per line", () => {
+    assert.deepEqual(parsePoolDemandProfileCsv(week.join("\n")), week)
+  })
+
+  it("reads hour,percent pairs after a header row", () => {
+    const csv = ["hour,percent", ...week.map((percent, hour) => `${hour},${percent}`)].join("\r\n")
+
+    assert.deepEqual(parsePoolDemandProfileCsv(csv), week)
+  })
+
+  it("reads 7 rows of 24 values with day labels and a row of hours", () => {
+    const days = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+    const csv = [
+      ["day", ...Array.from({ length: 24 }, (_, hour) => hour)].join(","),
+      ...days.map((day, index) => [day, ...week.slice(index * 24, index * 24 + 24)].join(",")),
+    ].join("\n")
+
+    assert.deepEqual(parsePoolDemandProfileCsv(csv), week)
+  })
+
+  it("returns malformed profiles so that validation can name the problem", () => {
+    const withText = parsePoolDemandProfileCsv(["hour,percent", "0,5", "1,busy", ...week.slice(2).map((percent, hour) => `${hour + 2},${percent}`)].join("\n"))
+    assert.ok(Number.isNaN(withText[1]))
+    assert.equal(validatePoolDemandProfile(withText), "Hour 1 of the demand profile must be a percentage from 0 to 100")
+
+    assert.equal(validatePoolDemandProfile(parsePoolDemandProfileCsv(week.slice(0, 24).join("\n"))), "The demand profile needs 168 hourly values, found 24")
+    assert.equal(validatePoolDemandProfile(parsePoolDemandProfileCsv(["120", ...week.slice(1)].join("\n"))), "Hour 0 of the demand profile must be a percentage from 0 to 100")
+    assert.equal(validatePoolDemandProfile(parsePoolDemandProfileCsv("")), "The demand profile needs 168 hourly values, found 0")
+  })
+})
+
+describe("validatePoolScalingPolicy", () => {
+  it("rejects capacities, steps and thresholds that can't be simulated", () => {
+    assert.equal(validatePoolScalingPolicy(exactPolicy), null)
+    assert.match(validatePoolScalingPolicy({ ...exactPolicy, minCapacity: 10, maxCapacity: 5 }) ?? "", /maximum capacity/)
+    assert.match(validatePoolScalingPolicy({ ...exactPolicy, scaleOutIncrement: 0 }) ?? "", /scale-out step/)
+    assert.match(validatePoolScalingPolicy({ ...exactPolicy, scaleInPercentPerHour: 0 }) ?? "", /scale-in step/)
+    assert.match(validatePoolScalingPolicy({ ...exactPolicy, scaleInThresholdPercent: 0 }) ?? "", /scale-in threshold/)
+  })
+})
@@ -0,0 +1,188 @@
+import type { PoolUsagePattern } from "@/types/workspace"
+import type { PoolScalingPolicy, PoolSimulation, PoolSimulationHour } from "@/types/pool-simulation"
+import { WEEKS_PER_MONTH } from "./constants"
+
+export const POOL_WEEK_HOURS = 168
+
+// Peak hours of a usage pattern start at 08:00 when it is turned into an hourly profile
+const PEAK_START_HOUR = 8
+
+export const DEFAULT_POOL_SCALING_POLICY: PoolScalingPolicy = {
+  minCapacity: 0,
+  maxCapacity: 0,
+  scaleOutThresholdPercent: 20,
+  scaleOutIncrement: 1,
+  scaleInThresholdPercent: 50,
+  scaleInPercentPerHour: 25,
+  bufferCapacityPercent: 10,
+  disconnectTimeoutMinutes: 15,
+}
+
+const isNonNegative = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100
+
+/**
+ * Spreads a peak/off-peak usage pattern over the 168 hours of a week, weekdays from Monday
+ * and weekend days after them, with the peak hours of each day starting at 08:00
+ */
+export function buildPoolDemandProfile(pattern: PoolUsagePattern): number[] {
+  return Array.from({ length: POOL_WEEK_HOURS }, (_, hour) => {
+    const day = Math.floor(hour / 24)
+    const hourOfDay = hour % 24
+    const isWeekday = day < pattern.weekdayDaysCount
+    const isWeekend = !isWeekday && day < pattern.weekdayDaysCount + pattern.weekendDaysCount
+    if (!isWeekday && !isWeekend) {
+      return 0
+    }
+    const peakHours = isWeekday ? pattern.weekdayPeakHoursPerDay : pattern.weekendPeakHoursPerDay
+    const isPeak = hourOfDay >= PEAK_START_HOUR && hourOfDay < PEAK_START_HOUR + peakHours
+    if (isWeekday) {
+      return isPeak ? pattern.weekdayPeakConcurrentUsers : pattern.weekdayOffPeakConcurrentUsers
+    }
+    return isPeak ? pattern.weekendPeakConcurrentUsers : pattern.weekendOffPeakConcurrentUsers
+  })
+}
+
+/**
+ * Reads an hourly demand profile from CSV: 168 values (one per line, or "hour,percent"
+ * pairs) or 7 rows of 24 values, Monday first. A header row and a leading day label on
+ * each row are ignored. Cells that are not numbers come back as NaN, so the profile can
+ * be checked with validatePoolDemandProfile.
+ */
+export function parsePoolDemandProfileCsv(contents: string): number[] {
+  const rows = contents
+    .split(/\r?\n/)
+    .map(line => line.split(/[,;\t]/).map(cell => cell.trim()).filter(cell => cell !== ""))
+    .filter(cells => cells.length > 0)
+  const isNumber = (cell: string) => cell !== "" && !Number.isNaN(Number(cell))
+
+  // A header row has no numbers, or labels a column of hours or days ("day,0,1,...,23")
+  const hasHeader = rows.length > 0 && (!rows[0].some(isNumber) ||
+    (!isNumber(rows[0][0]) && (rows.length === 8 || rows.length === POOL_WEEK_HOURS + 1)))
+  if (hasHeader) {
+    rows.shift()
+  }
+  const values = rows.map(cells => isNumber(cells[0]) ? cells : cells.slice(1))
+
+  // "hour,percent" pairs keep the percentage only
+  if (values.length === POOL_WEEK_HOURS && values.every(cells => cells.length === 2)) {
+    return values.map(cells => Number(cells[1]))
+  }
+  return values.flat().map(Number)
+}
+
+/**
+ * Returns why an hourly demand profile can't be simulated, or null when it is valid
+ */
+export function validatePoolDemandProfile(profile: number[]): string | null {
+  if (!Array.isArray(profile) || profile.length !== POOL_WEEK_HOURS) {
+    return `The demand profile needs ${POOL_WEEK_HOURS} hourly values, found ${Array.isArray(profile) ? profile.length : 0}`
+  }
+  const invalidHour = profile.findIndex(value => !isNonNegative(value) || value > 100)
+  if (invalidHour >= 0) {
+    return `Hour ${invalidHour} of the demand profile must be a percentage from 0 to 100`
+  }
+  return null
+}
+
+/**
+ * Returns why a pool scaling policy can't be simulated, or null when it is valid
+ */
+export function validatePoolScalingPolicy(policy: PoolScalingPolicy): string | null {
+  if (!isCount(policy.minCapacity) || !isCount(policy.maxCapacity)) {
+    return "Minimum and maximum capacity must be whole numbers of at least 0"
+  }
+  if (policy.maxCapacity > 0 && policy.maxCapacity < policy.minCapacity) {
+    return "The maximum capacity can't be below the minimum capacity"
+  }
+  if (!Number.isInteger(policy.scaleOutIncrement) || policy.scaleOutIncrement < 1) {
+    return "The scale-out step must be at least 1 instance"
+  }
+  if (!isNonNegative(policy.scaleInPercentPerHour) || policy.scaleInPercentPerHour === 0 ||
+    policy.scaleInPercentPerHour > 100) {
+    return "The scale-in step must be a percentage above 0 and at most 100"
+  }
+  if (!isNonNegative(policy.scaleOutThresholdPercent) || policy.scaleOutThresholdPercent >= 100) {
+    return "The scale-out threshold must be a percentage from 0 to 99"
+  }
+  if (!isNonNegative(policy.scaleInThresholdPercent) || policy.scaleInThresholdPercent > 100 ||
+    policy.scaleInThresholdPercent <= policy.scaleOutThresholdPercent) {
+    return "The scale-in threshold must be above the scale-out threshold and at most 100%"
+  }
+  if (!isNonNegative(policy.bufferCapacityPercent) || !isNonNegative(policy.disconnectTimeoutMinutes)) {
+    return "Buffer capacity and disconnect timeout must be at least 0"
+  }
+  return null
+}
+
+// Sessions per hour: users who disconnect keep their instance for the disconnect timeout
+function getSessions(demand: number[], disconnectTimeoutMinutes: number): number[] {
+  const heldHours = Math.ceil(disconnectTimeoutMinutes / 60)
+  return demand.map((users, hour) => {
+    let held = 0
+    for (let age = 0; age < heldHours; age++) {
+      const dropHour = (hour - age + POOL_WEEK_HOURS) % POOL_WEEK_HOURS
+      const previousHour = (dropHour - 1 + POOL_WEEK_HOURS) % POOL_WEEK_HOURS
+      const disconnected = Math.max(0, demand[previousHour] - demand[dropHour])
+      const heldShare = Math.min(1, (disconnectTimeoutMinutes - 60 * age) / 60)
+      held += disconnected * heldShare
+    }
+    return users + held
+  })
+}
+
+/**
+ * Simulates a pool's running and stopped buffer instances over a week of hourly demand.
+ * Each hour the pool scales out in steps until the free share of its running instances
+ * reaches the scale-out threshold, or scales in by one step while the free share is above
+ * the scale-in threshold, within its minimum and maximum capacity. The week is cyclic, so
+ * it is simulated twice and the second pass, which starts from Sunday night's capacity, is
+ * reported. Hour totals are monthly.
+ */
+export function simulatePoolCapacity(userCount: number, profile: number[], policy: PoolScalingPolicy): PoolSimulation {
+  const demand = profile.map(percentage => Math.round(percentage / 100 * userCount))
+  const sessions = getSessions(demand, policy.disconnectTimeoutMinutes)
+  const maxCapacity = policy.maxCapacity > 0 ? policy.maxCapacity : Infinity
+  const freeShare = policy.scaleOutThresholdPercent / 100
+
+  let capacity = policy.minCapacity
+  let hours: PoolSimulationHour[] = []
+  for (let pass = 0; pass < 2; pass++) {
+    hours = sessions.map((hourSessions, hour) => {
+      const needed = Math.ceil(hourSessions)
+      const target = Math.ceil(needed / (1 - freeShare))
+      if (capacity < target) {
+        capacity += Math.ceil((target - capacity) / policy.scaleOutIncrement) * policy.scaleOutIncrement
+      } else if (capacity > 0 && (capacity - needed) / capacity * 100 > policy.scaleInThresholdPercent) {
+        const step = Math.max(1, Math.floor(capacity * policy.scaleInPercentPerHour / 100))
+        capacity = Math.max(target, capacity - step)
+      }
+      capacity = Math.min(maxCapacity, Math.max(policy.minCapacity, capacity))
+
+      return {
+        hour,
+        demand: demand[hour],
+        sessions: roundHours(hourSessions),
+        runningInstances: capacity,
+        stoppedBufferInstances: Math.ceil(capacity * policy.bufferCapacityPercent / 100),
+      }
+    })
+  }
+
+  const weekTotal = (hourValue: (hour: PoolSimulationHour) => number) =>
+    roundHours(hours.reduce((total, hour) => total + hourValue(hour), 0) * WEEKS_PER_MONTH)
+  const provisionedInstanceHours = weekTotal(hour => hour.runningInstances)
+  const sessionHours = weekTotal(hour => Math.min(hour.sessions, hour.runningInstances))
+
+  return {
+    hours,
+    peakRunningInstances: Math.max(0, ...hours.map(hour => hour.runningInstances)),
+    provisionedInstanceHours,
+    sessionHours,
+    idleInstanceHours: roundHours(provisionedInstanceHours - sessionHours),
+    stoppedBufferHours: weekTotal(hour => hour.stoppedBufferInstances),
+    unservedSessionHours: weekTotal(hour => Math.max(0, hour.sessions - hour.runningInstances)),
+  }
+}
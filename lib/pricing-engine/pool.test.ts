@@ -0,0 +1,61 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import { DEFAULT_POOL_ESTIMATE_USAGE_PATTERN, POOL_STOPPED_INSTANCE_RATE, calculatePoolEstimate } from "./pool"
+import type { PoolEstimateConfig, PoolRateTable } from "./types"
+
+const poolRates: PoolRateTable = {
+  source: "aws-api",
+  bundleName: "Standard pool",
+  hourlyStreamingRate: 0.5,
+  rateCode: "POOL-HOUR",
+  stoppedInstanceRate: POOL_STOPPED_INSTANCE_RATE,
+  userLicenseCostPerMonth: 4.19,
+}
+
+// Every user connected around the clock, with one stopped buffer instance per 10 of them
+const poolConfig: PoolEstimateConfig = {
+  userCount: 10,
+  usagePattern: { ...DEFAULT_POOL_ESTIMATE_USAGE_PATTERN, bufferPercent: 10 },
+  licenseIncluded: true,
+}
+
+describe("calculatePoolEstimate", () => {
+  it("bills buffer instances at the stopped rate, not the streaming rate", () => {
+    const estimate = calculatePoolEstimate(poolConfig, poolRates)
+    const details = estimate.poolPricingDetails
+
+    // 7 days * 24 hours * 4.35 weeks = 730.8 hours a month
+    assert.equal(formatPriceForStorage(details.totalUtilizedHours), 7308)
+    assert.equal(formatPriceForStorage(details.totalBufferHours), 730.8)
+    assert.equal(formatPriceForStorage(details.activeStreamingCost), 3654)
+    assert.equal(formatPriceForStorage(details.stoppedInstanceCost), 21.92)
+    assert.equal(formatPriceForStorage(details.userLicenseCost), 41.9)
+    assert.equal(estimate.totalMonthlyCost, 3717.82)
+    assert.equal(estimate.costPerWorkspace, 371.78)
+    assert.equal(estimate.annualEstimate, 44613.84)
+
+    const buffer = estimate.lineItems.find(item => item.description === "Stopped buffer instances")
+    assert.equal(buffer?.unitPrice, POOL_STOPPED_INSTANCE_RATE)
+    assert.equal(formatPriceForStorage(buffer?.extendedCost ?? 0), 21.92)
+  })
+
+  it("uses the stopped instance rate and license cost of the usage pattern when set", () => {
+    const estimate = calculatePoolEstimate({
+      ...poolConfig,
+      usagePattern: { ...poolConfig.usagePattern!, stoppedInstanceRate: 0.05, userLicenseCostPerMonth: 0 },
+    }, poolRates)
+
+    assert.equal(estimate.poolPricingDetails.stoppedInstanceRate, 0.05)
+    assert.equal(formatPriceForStorage(estimate.poolPricingDetails.stoppedInstanceCost), 36.54)
+    assert.equal(estimate.poolPricingDetails.userLicenseCost, 0)
+  })
+
+  it("leaves the user license out when the pool brings its own license", () => {
+    const estimate = calculatePoolEstimate({ ...poolConfig, licenseIncluded: false }, poolRates)
+
+    assert.equal(estimate.poolPricingDetails.userLicenseCost, 0)
+    assert.ok(!estimate.lineItems.some(item => item.unit === "User-Month"))
+    assert.equal(estimate.totalMonthlyCost, 3675.92)
+  })
+})
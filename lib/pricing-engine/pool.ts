@@ -0,0 +1,188 @@
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import type { PoolUsagePattern } from "@/types/workspace"
+import { WEEKS_PER_MONTH } from "./constants"
+import { DEFAULT_POOL_SCALING_POLICY, simulatePoolCapacity } from "./pool-simulation"
+import type { PoolEstimate, PoolEstimateConfig, PoolRateTable, PricingLineItem } from "./types"
+
+// USD per hour for stopped (buffer) pool instances
+export const POOL_STOPPED_INSTANCE_RATE = 0.03
+
+// Stopped buffer instances kept per concurrent user, as a percentage; the AWS calculator default
+export const DEFAULT_POOL_BUFFER_PERCENT = 0
+
+// Used when the request carries no usage pattern: every user connected around the clock
+export const DEFAULT_POOL_ESTIMATE_USAGE_PATTERN: PoolUsagePattern = {
+  weekdayDaysCount: 5,
+  weekdayPeakHoursPerDay: 8,
+  weekdayOffPeakConcurrentUsers: 100,
+  weekdayPeakConcurrentUsers: 100,
+  weekendDaysCount: 2,
+  weekendPeakHoursPerDay: 4,
+  weekendOffPeakConcurrentUsers: 100,
+  weekendPeakConcurrentUsers: 100
+}
+
+// Monthly peak/off-peak hours and utilized/buffer instance hours for one part of the week
+function calculatePeriodHours(
+  daysCount: number,
+  peakHoursPerDay: number,
+  peakConcurrentUsers: number,
+  offPeakConcurrentUsers: number,
+  bufferPercent: number
+) {
+  const peakHours = daysCount * peakHoursPerDay * WEEKS_PER_MONTH
+  const totalHours = daysCount * 24 * WEEKS_PER_MONTH
+  const offPeakHours = totalHours - peakHours
+
+  // Utilized instance hours - users * hours
+  const utilizedHours = peakConcurrentUsers * peakHours + offPeakConcurrentUsers * offPeakHours
+
+  const peakBufferInstances = Math.ceil(peakConcurrentUsers * bufferPercent / 100)
+  const offPeakBufferInstances = Math.ceil(offPeakConcurrentUsers * bufferPercent / 100)
+  const bufferHours = peakBufferInstances * peakHours + offPeakBufferInstances * offPeakHours
+
+  return { peakHours, offPeakHours, utilizedHours, bufferHours }
+}
+
+// Utilized and buffer hours of the usage pattern, split into weekday and weekend
+function calculatePatternHours(config: PoolEstimateConfig) {
+  const userCount = config.userCount
+  const usagePattern = config.usagePattern || DEFAULT_POOL_ESTIMATE_USAGE_PATTERN
+
+  // Concurrent users are percentages (0-100) of the user count
+  const toConcurrentUsers = (percentage: number) => Math.max(1, Math.floor((percentage / 100) * userCount))
+  const bufferPercent = usagePattern.bufferPercent ?? DEFAULT_POOL_BUFFER_PERCENT
+
+  const weekday = calculatePeriodHours(
+    usagePattern.weekdayDaysCount,
+    usagePattern.weekdayPeakHoursPerDay,
+    toConcurrentUsers(usagePattern.weekdayPeakConcurrentUsers),
+    toConcurrentUsers(usagePattern.weekdayOffPeakConcurrentUsers),
+    bufferPercent
+  )
+  const weekend = calculatePeriodHours(
+    usagePattern.weekendDaysCount,
+    usagePattern.weekendPeakHoursPerDay,
+    toConcurrentUsers(usagePattern.weekendPeakConcurrentUsers),
+    toConcurrentUsers(usagePattern.weekendOffPeakConcurrentUsers),
+    bufferPercent
+  )
+
+  return {
+    utilizedHours: weekday.utilizedHours + weekend.utilizedHours,
+    bufferHours: weekday.bufferHours + weekend.bufferHours,
+    details: {
+      weekdayPeakHours: weekday.peakHours,
+      weekdayOffPeakHours: weekday.offPeakHours,
+      weekdayUtilizedHours: weekday.utilizedHours,
+      weekdayBufferHours: weekday.bufferHours,
+      weekendPeakHours: weekend.peakHours,
+      weekendOffPeakHours: weekend.offPeakHours,
+      weekendUtilizedHours: weekend.utilizedHours,
+      weekendBufferHours: weekend.bufferHours,
+    }
+  }
+}
+
+const isNonNegative = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0
+
+/**
+ * Returns why the cost inputs of a pool usage pattern can't be priced, or null when they are valid
+ */
+export function validatePoolCostInputs(pattern: PoolUsagePattern): string | null {
+  const inputs = [pattern.bufferPercent, pattern.stoppedInstanceRate, pattern.userLicenseCostPerMonth]
+  if (!inputs.every(input => input === undefined || isNonNegative(input))) {
+    return "The buffer percentage, stopped instance rate and user license cost must be at least 0"
+  }
+  return null
+}
+
+/**
+ * Calculates a WorkSpaces Pools estimate from the usage pattern and the pool's hourly rates.
+ * The buffer percentage, stopped instance rate and user license cost of the usage pattern,
+ * when set, replace the defaults and the rate table's values. With a demand profile, the
+ * running and stopped buffer hours come from simulating the pool's scaling over the week
+ * instead (see simulatePoolCapacity).
+ *
+ * This is the only implementation of the Pools cost model: the estimate route prices with it
+ * and the UI shows its result.
+ */
+export function calculatePoolEstimate(config: PoolEstimateConfig, rates: PoolRateTable): PoolEstimate {
+  const userCount = config.userCount
+  const stoppedInstanceRate = config.usagePattern?.stoppedInstanceRate ?? rates.stoppedInstanceRate
+  const userLicenseCostPerMonth = config.usagePattern?.userLicenseCostPerMonth ?? rates.userLicenseCostPerMonth
+
+  // User license costs only apply to the license included model
+  const userLicenseCost = config.licenseIncluded ? userLicenseCostPerMonth * userCount : 0
+
+  const simulation = config.demandProfile
+    ? simulatePoolCapacity(userCount, config.demandProfile, config.scalingPolicy || DEFAULT_POOL_SCALING_POLICY)
+    : undefined
+  const hours = simulation
+    ? { utilizedHours: simulation.provisionedInstanceHours, bufferHours: simulation.stoppedBufferHours, details: { simulation } }
+    : calculatePatternHours(config)
+
+  const totalUtilizedHours = hours.utilizedHours
+  const totalBufferHours = hours.bufferHours
+  const totalInstanceHours = totalUtilizedHours + totalBufferHours
+
+  const activeStreamingCost = totalUtilizedHours * rates.hourlyStreamingRate
+  const stoppedInstanceCost = totalBufferHours * stoppedInstanceRate
+  const totalMonthlyCost = userLicenseCost + activeStreamingCost + stoppedInstanceCost
+
+  // Round to 2 decimal places for consistent display
+  const roundedTotalMonthlyCost = formatPriceForStorage(totalMonthlyCost)
+
+  const lineItems: PricingLineItem[] = [
+    {
+      description: `${rates.bundleName} active streaming`,
+      kind: "compute",
+      rateCode: rates.rateCode,
+      unit: "Hour",
+      quantity: totalUtilizedHours,
+      unitPrice: rates.hourlyStreamingRate,
+      extendedCost: activeStreamingCost,
+      ...(simulation && {
+        note: `${simulation.sessionHours} session hours and ${simulation.idleInstanceHours} idle hours kept free by scaling`
+      }),
+    },
+    {
+      description: "Stopped buffer instances",
+      kind: "stopped-buffer",
+      unit: "Hour",
+      quantity: totalBufferHours,
+      unitPrice: stoppedInstanceRate,
+      extendedCost: stoppedInstanceCost,
+    },
+  ]
+  if (config.licenseIncluded) {
+    lineItems.push({
+      description: "User license (Microsoft RDS SAL)",
+      kind: "user-license",
+      unit: "User-Month",
+      quantity: userCount,
+      unitPrice: userLicenseCostPerMonth,
+      extendedCost: userLicenseCost,
+    })
+  }
+
+  return {
+    costPerWorkspace: formatPriceForStorage(roundedTotalMonthlyCost / userCount),
+    totalMonthlyCost: roundedTotalMonthlyCost,
+    annualEstimate: formatPriceForStorage(roundedTotalMonthlyCost * 12),
+    bundleName: rates.bundleName,
+    pricingSource: rates.source,
+    poolPricingDetails: {
+      userLicenseCost,
+      activeStreamingCost,
+      stoppedInstanceCost,
+      hourlyStreamingRate: rates.hourlyStreamingRate,
+      stoppedInstanceRate,
+      totalInstanceHours,
+      totalUtilizedHours,
+      totalBufferHours,
+      ...hours.details,
+    },
+    lineItems
+  }
+}
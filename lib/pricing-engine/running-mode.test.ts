@@ -0,0 +1,70 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { getRunningModeBreakevenHours, optimizeRunningModes } from "./running-mode"
+import type { RunningModeRates } from "./types"
+
+// AutoStop costs as much as AlwaysOn at (35 - 10) / 0.25 = 100 hours a month
+const rates: RunningModeRates = { fixedMonthlyFee: 10, hourlyRate: 0.25, alwaysOnMonthlyCost: 35 }
+
+const optimalModes = (runningMode: string, monthlyHours: number[]) =>
+  optimizeRunningModes([{ id: "ws-1", runningMode, monthlyHours }], rates).users[0].months
+    .map(month => month.optimalRunningMode)
+
+describe("getRunningModeBreakevenHours", () => {
+  it("returns the monthly hours at which both running modes cost the same", () => {
+    assert.equal(getRunningModeBreakevenHours(rates), 100)
+    assert.equal(getRunningModeBreakevenHours({ fixedMonthlyFee: 9.75, hourlyRate: 0.26, alwaysOnMonthlyCost: 35 }), 97.1)
+    assert.equal(getRunningModeBreakevenHours({ ...rates, hourlyRate: 0 }), null)
+  })
+})
+
+describe("optimizeRunningModes", () => {
+  it("picks AutoStop below the breakeven and AlwaysOn above it", () => {
+    const [below, above] = optimizeRunningModes([{ id: "ws-1", runningMode: "always-on", monthlyHours: [60, 200] }], rates)
+      .users[0].months
+
+    assert.deepEqual(below, { hours: 60, alwaysOnCost: 35, autoStopCost: 25, optimalRunningMode: "auto-stop" })
+    assert.deepEqual(above, { hours: 200, alwaysOnCost: 35, autoStopCost: 60, optimalRunningMode: "always-on" })
+  })
+
+  it("keeps the current running mode at the breakeven", () => {
+    assert.deepEqual(optimalModes("always-on", [100]), ["always-on"])
+    assert.deepEqual(optimalModes("auto-stop", [100]), ["auto-stop"])
+  })
+
+  it("bills AutoStop for at most the hours of a month", () => {
+    const [month] = optimizeRunningModes([{ id: "ws-1", runningMode: "auto-stop", monthlyHours: [800] }], rates).users[0].months
+
+    // 10 + 0.25 * 730 hours
+    assert.equal(month.hours, 730)
+    assert.equal(month.autoStopCost, 192.5)
+  })
+
+  it("totals the savings of a mixed assignment against the current running modes", () => {
+    const plan = optimizeRunningModes([
+      { id: "ws-1", runningMode: "always-on", monthlyHours: [60, 100, 200] },
+      { id: "ws-2", runningMode: "auto-stop", monthlyHours: [40, 300, 100] },
+    ], rates)
+    const [alwaysOn, autoStop] = plan.users
+
+    assert.deepEqual(plan.months, ["Month 1", "Month 2", "Month 3"])
+    assert.equal(plan.breakevenHours, 100)
+
+    assert.deepEqual(alwaysOn.months.map(month => month.optimalRunningMode), ["auto-stop", "always-on", "always-on"])
+    // 35 * 3 today, 25 + 35 + 35 on the optimal modes
+    assert.deepEqual([alwaysOn.currentCost, alwaysOn.optimalCost, alwaysOn.savings, alwaysOn.switches], [105, 95, 10, 2])
+
+    assert.deepEqual(autoStop.months.map(month => month.optimalRunningMode), ["auto-stop", "always-on", "auto-stop"])
+    // 20 + 85 + 35 today, 20 + 35 + 35 on the optimal modes
+    assert.deepEqual([autoStop.currentCost, autoStop.optimalCost, autoStop.savings, autoStop.switches], [140, 90, 50, 2])
+
+    assert.deepEqual([plan.currentCost, plan.optimalCost, plan.savings], [245, 185, 60])
+  })
+
+  it("labels the months with the given labels", () => {
+    const plan = optimizeRunningModes([{ id: "ws-1", runningMode: "auto-stop", monthlyHours: [10, 20] }], rates, ["2026-06", "2026-07"])
+
+    assert.deepEqual(plan.months, ["2026-06", "2026-07"])
+    assert.equal(plan.savings, 0)
+  })
+})
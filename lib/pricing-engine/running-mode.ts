@@ -0,0 +1,85 @@
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import { HOURS_PER_MONTH } from "./constants"
+import type { RunningModeRates } from "./types"
+import type { RunningModeMonth, RunningModePlan, RunningModeUser, RunningModeUserPlan } from "@/types/running-mode"
+
+// Monthly hours above which AlwaysOn is cheaper, null when AutoStop has no hourly rate
+export function getRunningModeBreakevenHours(rates: RunningModeRates): number | null {
+  return rates.hourlyRate > 0
+    ? Math.round(Math.max(0, (rates.alwaysOnMonthlyCost - rates.fixedMonthlyFee) / rates.hourlyRate) * 10) / 10
+    : null
+}
+
+// Prices one month of a user on both running modes and picks the cheaper one
+function priceMonth(hours: number, runningMode: string, rates: RunningModeRates): RunningModeMonth {
+  const billedHours = Math.min(HOURS_PER_MONTH, Math.max(0, hours))
+  const alwaysOnCost = formatPriceForStorage(rates.alwaysOnMonthlyCost)
+  const autoStopCost = formatPriceForStorage(rates.fixedMonthlyFee + rates.hourlyRate * billedHours)
+
+  let optimalRunningMode = runningMode
+  if (autoStopCost < alwaysOnCost) {
+    optimalRunningMode = "auto-stop"
+  } else if (alwaysOnCost < autoStopCost) {
+    optimalRunningMode = "always-on"
+  }
+
+  return { hours: billedHours, alwaysOnCost, autoStopCost, optimalRunningMode }
+}
+
+const getMonthCost = (month: RunningModeMonth, runningMode: string) =>
+  runningMode === "auto-stop" ? month.autoStopCost : month.alwaysOnCost
+
+function planUser(user: RunningModeUser, rates: RunningModeRates): RunningModeUserPlan {
+  const months = user.monthlyHours.map(hours => priceMonth(hours, user.runningMode, rates))
+  const currentCost = formatPriceForStorage(months.reduce((sum, month) => sum + getMonthCost(month, user.runningMode), 0))
+  const optimalCost = formatPriceForStorage(months.reduce((sum, month) => sum + getMonthCost(month, month.optimalRunningMode), 0))
+
+  let switches = 0
+  let runningMode = user.runningMode
+  for (const month of months) {
+    if (month.optimalRunningMode !== runningMode) {
+      switches++
+      runningMode = month.optimalRunningMode
+    }
+  }
+
+  return {
+    id: user.id,
+    name: user.name,
+    runningMode: user.runningMode,
+    months,
+    currentCost,
+    optimalCost,
+    savings: formatPriceForStorage(currentCost - optimalCost),
+    switches
+  }
+}
+
+/**
+ * Assigns each user the cheaper running mode of every month, from the AutoStop fee and hourly
+ * rate and the AlwaysOn price of their bundle, and totals the savings against the modes they
+ * are on today.
+ * @param months Labels of the months, "Month 1" and on by default
+ */
+export function optimizeRunningModes(
+  users: RunningModeUser[],
+  rates: RunningModeRates,
+  months?: string[]
+): RunningModePlan {
+  const userPlans = users.map(user => planUser(user, rates))
+  const monthCount = Math.max(0, ...users.map(user => user.monthlyHours.length))
+  const currentCost = formatPriceForStorage(userPlans.reduce((sum, plan) => sum + plan.currentCost, 0))
+  const optimalCost = formatPriceForStorage(userPlans.reduce((sum, plan) => sum + plan.optimalCost, 0))
+
+  return {
+    months: months?.length ? months : Array.from({ length: monthCount }, (_, index) => `Month ${index + 1}`),
+    fixedMonthlyFee: rates.fixedMonthlyFee,
+    hourlyRate: rates.hourlyRate,
+    alwaysOnMonthlyCost: formatPriceForStorage(rates.alwaysOnMonthlyCost),
+    breakevenHours: getRunningModeBreakevenHours(rates),
+    users: userPlans,
+    currentCost,
+    optimalCost,
+    savings: formatPriceForStorage(currentCost - optimalCost)
+  }
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { DEFAULT_TCO_ASSUMPTIONS, projectTco, validateTcoAssumptions } from "./tco"
+import type { TcoAssumptions } from "@/types/tco"
+
+const twoYears: TcoAssumptions = { ...DEFAULT_TCO_ASSUMPTIONS, years: 2 }
+
+const yearTotals = (projection: ReturnType<typeof projectTco>) =>
+  projection.years.map(year => [year.users, year.recurringCost, year.oneTimeCost, year.totalCost])
+
+describe("projectTco", () => {
+  it("repeats the estimate every month when nothing changes", () => {
+    const projection = projectTco(30, 100, twoYears)
+
+    assert.equal(projection.months.length, 24)
+    assert.deepEqual(yearTotals(projection), [
+      [100, 36000, 0, 36000],
+      [100, 36000, 0, 36000],
+    ])
+    assert.equal(projection.months[11].cumulativeCost, 36000)
+    assert.equal(projection.totalCost, 72000)
+  })
+
+  it("grows the headcount and changes the cost per user at the start of every year after the first", () => {
+    const projection = projectTco(30, 100, { ...twoYears, years: 3, annualGrowthPercent: 10, annualPriceChangePercent: 5 })
+
+    assert.deepEqual(projection.months.filter(month => month.month % 12 === 1).map(month => [month.users, month.costPerUser]), [
+      [100, 30],
+      [110, 31.5],
+      [121, 33.08],
+    ])
+    // 110 users * 31.50 and 121 users * 33.075 a month
+    assert.deepEqual(yearTotals(projection), [
+      [100, 36000, 0, 36000],
+      [110, 41580, 0, 41580],
+      [121, 48024.96, 0, 48024.96],
+    ])
+    assert.equal(projection.totalCost, 125604.96)
+  })
+
+  it("passes lower prices on, for example from a committed rate in later years", () => {
+    const projection = projectTco(30, 100, { ...twoYears, annualPriceChangePercent: -20 })
+
+    assert.deepEqual(yearTotals(projection), [
+      [100, 36000, 0, 36000],
+      [100, 28800, 0, 28800],
+    ])
+  })
+
+  it("ramps users up each month until the planned headcount is live", () => {
+    const projection = projectTco(30, 100, { ...twoYears, initialUsers: 20, usersPerMonth: 30, annualGrowthPercent: 10 })
+
+    assert.deepEqual(projection.months.slice(0, 5).map(month => month.users), [20, 50, 80, 100, 100])
+    // The ramp has passed the grown headcount by the second year
+    assert.equal(projection.months[12].users, 110)
+    // 20 + 50 + 80 + 9 * 100 user-months at 30
+    assert.deepEqual(yearTotals(projection), [
+      [100, 31500, 0, 31500],
+      [110, 39600, 0, 39600],
+    ])
+  })
+
+  it("adds one-time costs to the month they are paid in", () => {
+    const projection = projectTco(30, 100, {
+      ...twoYears,
+      oneTimeCosts: [
+        { description: "Migration services", amount: 5000, month: 1 },
+        { description: "Image build", amount: 1000, month: 1 },
+        { description: "Second wave", amount: 2000, month: 13 },
+      ],
+    })
+
+    assert.deepEqual(projection.months[0], {
+      month: 1,
+      year: 1,
+      users: 100,
+      costPerUser: 30,
+      recurringCost: 3000,
+      oneTimeCost: 6000,
+      totalCost: 9000,
+      cumulativeCost: 9000,
+    })
+    assert.deepEqual(yearTotals(projection), [
+      [100, 36000, 6000, 42000],
+      [100, 36000, 2000, 38000],
+    ])
+    assert.equal(projection.oneTimeCost, 8000)
+    assert.equal(projection.totalCost, 80000)
+  })
+})
+
+describe("validateTcoAssumptions", () => {
+  it("rejects projections that can't be made", () => {
+    assert.equal(validateTcoAssumptions(twoYears), null)
+    assert.match(validateTcoAssumptions({ ...twoYears, years: 6 }) ?? "", /1 to 5 years/)
+    assert.match(validateTcoAssumptions({ ...twoYears, usersPerMonth: -1 }) ?? "", /user ramp/)
+    assert.match(validateTcoAssumptions({ ...twoYears, annualGrowthPercent: -100 }) ?? "", /growth/)
+    assert.match(validateTcoAssumptions({ ...twoYears, annualPriceChangePercent: -100 }) ?? "", /price change/)
+    assert.equal(
+      validateTcoAssumptions({ ...twoYears, oneTimeCosts: [{ description: "Migration services", amount: 5000, month: 25 }] }),
+      "One-time cost \"Migration services\" needs an amount of at least 0 and a month from 1 to 24"
+    )
+  })
+})
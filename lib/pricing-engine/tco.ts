@@ -0,0 +1,101 @@
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import type { TcoAssumptions, TcoMonth, TcoProjection, TcoYear } from "@/types/tco"
+
+export const MAX_TCO_YEARS = 5
+
+export const DEFAULT_TCO_ASSUMPTIONS: TcoAssumptions = {
+  years: 3,
+  initialUsers: 0,
+  usersPerMonth: 0,
+  annualGrowthPercent: 0,
+  annualPriceChangePercent: 0,
+  oneTimeCosts: [],
+}
+
+const isNonNegative = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0
+
+/**
+ * Returns why TCO assumptions can't be projected, or null when they are valid
+ */
+export function validateTcoAssumptions(assumptions: TcoAssumptions): string | null {
+  if (!Number.isInteger(assumptions.years) || assumptions.years < 1 || assumptions.years > MAX_TCO_YEARS) {
+    return `The projection must cover 1 to ${MAX_TCO_YEARS} years`
+  }
+  if (!isNonNegative(assumptions.initialUsers) || !isNonNegative(assumptions.usersPerMonth)) {
+    return "The user ramp needs user counts of at least 0"
+  }
+  if (!Number.isFinite(assumptions.annualGrowthPercent) || assumptions.annualGrowthPercent <= -100) {
+    return "Annual headcount growth must be above -100%"
+  }
+  if (!Number.isFinite(assumptions.annualPriceChangePercent) || assumptions.annualPriceChangePercent <= -100) {
+    return "The annual price change must be above -100%"
+  }
+  const monthCount = assumptions.years * 12
+  const invalidCost = assumptions.oneTimeCosts.find(cost =>
+    !isNonNegative(cost.amount) || !Number.isInteger(cost.month) || cost.month < 1 || cost.month > monthCount)
+  if (invalidCost) {
+    return `One-time cost "${invalidCost.description}" needs an amount of at least 0 and a month from 1 to ${monthCount}`
+  }
+  return null
+}
+
+/**
+ * Projects the monthly cost of an estimate over a multi-year program. The planned headcount
+ * starts at the estimate's users and grows every year; the ramp caps how many of them are
+ * live each month. Each live user costs the estimate's cost per user, changed every year by
+ * the price assumption, so the projection scales the estimate linearly with users.
+ */
+export function projectTco(monthlyCostPerUser: number, plannedUsers: number, assumptions: TcoAssumptions): TcoProjection {
+  const growth = 1 + assumptions.annualGrowthPercent / 100
+  const priceChange = 1 + assumptions.annualPriceChangePercent / 100
+
+  const months: TcoMonth[] = []
+  let cumulativeCost = 0
+  for (let index = 0; index < assumptions.years * 12; index++) {
+    const month = index + 1
+    const yearIndex = Math.floor(index / 12)
+    const headcount = Math.round(plannedUsers * Math.pow(growth, yearIndex))
+    const users = assumptions.usersPerMonth > 0
+      ? Math.min(headcount, Math.round(assumptions.initialUsers + assumptions.usersPerMonth * index))
+      : headcount
+
+    const costPerUser = monthlyCostPerUser * Math.pow(priceChange, yearIndex)
+    const recurringCost = formatPriceForStorage(users * costPerUser)
+    const oneTimeCost = formatPriceForStorage(assumptions.oneTimeCosts
+      .filter(cost => cost.month === month)
+      .reduce((sum, cost) => sum + cost.amount, 0))
+    const totalCost = formatPriceForStorage(recurringCost + oneTimeCost)
+    cumulativeCost = formatPriceForStorage(cumulativeCost + totalCost)
+
+    months.push({
+      month,
+      year: yearIndex + 1,
+      users,
+      costPerUser: formatPriceForStorage(costPerUser),
+      recurringCost,
+      oneTimeCost,
+      totalCost,
+      cumulativeCost,
+    })
+  }
+
+  const years: TcoYear[] = Array.from({ length: assumptions.years }, (_, yearIndex) => {
+    const yearMonths = months.slice(yearIndex * 12, yearIndex * 12 + 12)
+    const sum = (field: "recurringCost" | "oneTimeCost" | "totalCost") =>
+      formatPriceForStorage(yearMonths.reduce((total, month) => total + month[field], 0))
+    return {
+      year: yearIndex + 1,
+      users: yearMonths[yearMonths.length - 1].users,
+      recurringCost: sum("recurringCost"),
+      oneTimeCost: sum("oneTimeCost"),
+      totalCost: sum("totalCost"),
+    }
+  })
+
+  return {
+    months,
+    years,
+    totalCost: cumulativeCost,
+    oneTimeCost: formatPriceForStorage(years.reduce((total, year) => total + year.oneTimeCost, 0)),
+  }
+}
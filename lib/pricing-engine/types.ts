@@ -0,0 +1,249 @@
+import type {
+  AutoStopAnalysis,
+  AutoStopUsageBand,
+  PoolPricingDetails,
+  PoolUsagePattern,
+  PricingLineItem,
+  PricingLineItemKind
+} from "@/types/workspace"
+import type { DiscountService, DiscountSettings, EstimateDiscount, PriceOverride } from "@/types/discounts"
+import type { PoolScalingPolicy, PoolSimulation, PoolSimulationHour } from "@/types/pool-simulation"
+import type { AppStreamComponents, AppStreamUserResources } from "@/types/appstream"
+import type { CommitmentAnalysis, CommitmentOption, CommitmentSource, CommitmentTier } from "@/types/commitments"
+
+export type { AutoStopAnalysis, AutoStopUsageBand, PoolPricingDetails, PricingLineItem, PricingLineItemKind }
+export type { DiscountService, DiscountSettings, EstimateDiscount, PriceOverride }
+export type { PoolScalingPolicy, PoolSimulation, PoolSimulationHour }
+export type { AppStreamComponents, AppStreamUserResources }
+export type { CommitmentAnalysis, CommitmentOption, CommitmentSource, CommitmentTier }
+
+// Where the rates fed into the engine came from
+export type PricingSource = "aws-api" | "calculated"
+
+// A single price entry from a calculator.aws index.json document
+export interface RateEntry {
+  description: string
+  price: number
+  unit: string
+  rateCode?: string
+}
+
+// ===== WorkSpaces Core =====
+
+export interface CoreEstimateConfig {
+  runningMode: string
+  billingOption: string
+  numberOfWorkspaces: number
+  // Volume sizes of the priced configuration, itemized as included in the bundle price
+  rootVolumeGb?: number
+  userVolumeGb?: number
+  // Expected AutoStop usage, see WorkSpaceConfig
+  autoStopHoursPerUser?: number
+  autoStopUsageDistribution?: AutoStopUsageBand[]
+}
+
+export interface CoreRateTable {
+  source: PricingSource
+  bundleName: string
+  // Every price entry for the selected bundle configuration
+  rates: RateEntry[]
+  // AlwaysOn price entries of the same configuration, used for the AutoStop breakeven
+  alwaysOnRates?: RateEntry[]
+  // AutoStop price entries of the same configuration, to compare hourly billing on AlwaysOn estimates
+  autoStopRates?: RateEntry[]
+}
+
+export interface CoreEstimate {
+  costPerWorkspace: number
+  totalMonthlyCost: number
+  annualEstimate: number
+  bundleName: string
+  billingModel: string
+  baseCost: number
+  pricingSource: PricingSource
+  lineItems: PricingLineItem[]
+  // Only set for AutoStop estimates
+  autoStop?: AutoStopAnalysis
+  // Rates of both running modes, when the other mode of the configuration could be priced too
+  billingRates?: RunningModeRates
+  // Average monthly hours per WorkSpace the hourly billing option is priced at
+  autoStopHoursPerUser: number
+}
+
+// Core rates of one bundle configuration on both running modes, see AutoStopAnalysis
+export interface RunningModeRates {
+  fixedMonthlyFee: number
+  hourlyRate: number
+  alwaysOnMonthlyCost: number
+}
+
+// ===== WorkSpaces Pools =====
+
+export interface PoolEstimateConfig {
+  userCount: number
+  usagePattern?: PoolUsagePattern
+  // Concurrent users per hour of the week, replaces the usage pattern with a capacity simulation
+  demandProfile?: number[]
+  // Scaling of the simulated pool, DEFAULT_POOL_SCALING_POLICY when not given
+  scalingPolicy?: PoolScalingPolicy
+  // Whether the user license fee applies (license included rather than BYOL)
+  licenseIncluded: boolean
+}
+
+export interface PoolRateTable {
+  source: PricingSource
+  bundleName: string
+  hourlyStreamingRate: number
+  // AWS rate code of the streaming rate, when it comes from the AWS Pricing API
+  rateCode?: string
+  stoppedInstanceRate: number
+  userLicenseCostPerMonth: number
+}
+
+export interface PoolEstimate {
+  costPerWorkspace: number
+  totalMonthlyCost: number
+  annualEstimate: number
+  bundleName: string
+  pricingSource: PricingSource
+  poolPricingDetails: PoolPricingDetails
+  lineItems: PricingLineItem[]
+}
+
+// ===== AppStream 2.0 =====
+
+export interface AppStreamEstimateConfig {
+  region: string
+  instanceType: string
+  instanceFamily: string
+  instanceFunction: string
+  operatingSystem: string
+  multiSession: boolean
+  // Users sharing one instance on multi-session fleets, ignored for single-session and elastic fleets
+  sessionsPerInstance: number
+  // vCPU and memory of the instance type when known, for the density recommendation
+  instanceVCpu?: number
+  instanceMemoryGib?: number
+  // Resources of one user, DEFAULT_APPSTREAM_USER_RESOURCES when not given
+  userResources?: AppStreamUserResources
+  // Image builder, storage and data transfer costs priced next to the fleet
+  components?: AppStreamComponents
+  usagePattern: string
+  // Monthly hours per user for patterns other than always-on, business-hours and custom
+  usageHours?: number
+  userCount: number
+  // Share of utilized hours added as buffer capacity, between 0 and 1
+  bufferFactor: number
+  includeWeekends: boolean
+  weekdayPeakConcurrentUsers: number
+  weekdayOffPeakConcurrentUsers: number
+  weekendPeakConcurrentUsers: number
+  weekendOffPeakConcurrentUsers: number
+  weekdayDaysCount: number
+  weekdayPeakHoursPerDay: number
+  weekendDaysCount: number
+  weekendPeakHoursPerDay: number
+}
+
+export interface AppStreamRateTable {
+  source: PricingSource
+  hourlyPrice: number
+  rateCode?: string
+  // Hourly rate of an image builder of the instance type, the fleet rate when unknown
+  imageBuilderHourlyPrice?: number
+  imageBuilderRateCode?: string
+}
+
+// How many instances the concurrent users need, and the density the instance type supports
+export interface AppStreamSessionSizing {
+  multiSession: boolean
+  // Users per instance the estimate is priced with, 1 for single-session
+  sessionsPerInstance: number
+  // Density that fits the instance's vCPU and memory for the user resources, null when the specs are unknown
+  recommendedSessionsPerInstance: number | null
+  instanceVCpu: number | null
+  instanceMemoryGib: number | null
+  userResources: AppStreamUserResources
+  peakConcurrentUsers: number
+  peakInstances: number
+}
+
+export interface AppStreamHours {
+  // Instance hours of the concurrent users, divided by the sessions per instance on multi-session fleets
+  totalUtilizedHours: number
+  totalBufferHours: number
+  totalInstanceHours: number
+  // Intermediate values of the usage pattern, returned for display and debugging
+  calculationDetails: Record<string, any>
+  peakConcurrentUsers: number
+  peakInstances: number
+}
+
+export interface AppStreamEstimate {
+  hourlyPrice: number
+  totalInstanceHours: number
+  instanceCost: number
+  userLicenseCost: number
+  // Image builder, storage and data transfer costs
+  componentsCost: number
+  totalMonthlyCost: number
+  costPerUser: number
+  annualCost: number
+  utilizedInstanceHours: number
+  bufferInstanceHours: number
+  lineItems: PricingLineItem[]
+  details: {
+    baseInstancePrice: number
+    osAddition: number
+    functionMultiplier: number
+    regionMultiplier: number
+    sessionSizing: AppStreamSessionSizing
+    // One line item per priced optional component, also included in lineItems
+    components: PricingLineItem[]
+    calculationDetails: Record<string, any>
+    instanceType: string
+    instanceFamily: string
+    instanceFunction: string
+    operatingSystem: string
+    multiSession: boolean
+    userCount: number
+    bufferFactor: number
+  }
+}
+
+// ===== Discounts =====
+
+// The estimate a discount is applied to, used to find the negotiated rates that match it
+export interface DiscountScope {
+  service: DiscountService
+  // Ids and names the priced bundle is known by, e.g. ["standard", "Standard"]
+  bundles: string[]
+  region: string
+  runningMode?: string
+}
+
+export interface DiscountedEstimate {
+  // List price items with negotiated rates applied, followed by one item per percentage discount
+  lineItems: PricingLineItem[]
+  discount: EstimateDiscount
+}
+
+// ===== Commitments =====
+
+// What an estimate costs at list prices, and the rates behind it, to compare commitment options with
+export interface CommitmentInput {
+  service: DiscountService
+  pricingSource: PricingSource
+  // Monthly cost of the estimate at list prices, before discounts
+  listMonthlyCost: number
+  // WorkSpaces Core only: the bundle on both running modes
+  billing?: {
+    bundleName: string
+    runningMode: string
+    workspaceCount: number
+    // Average monthly hours per WorkSpace on hourly billing
+    hoursPerUser: number
+    // Rates of both running modes, unset when only the selected mode could be priced
+    rates?: RunningModeRates
+  }
+}
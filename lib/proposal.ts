@@ -0,0 +1,353 @@
+import { describeConversion, formatCurrencyAmount, isBaseCurrency } from "@/lib/currency"
+import { HOURS_PER_MONTH, WEEKS_PER_MONTH } from "@/lib/pricing-engine"
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, type PdfColor } from "@/lib/pdf"
+import type { DisplayCurrency } from "@/types/currency"
+import type { EstimateDiscount } from "@/types/discounts"
+import type { EstimateExportRequest } from "@/types/estimates"
+import type { PricingEstimate } from "@/types/workspace"
+
+/**
+ * PDF proposal of an estimate: a cover page followed by the configuration, itemized costs,
+ * usage-pattern hours, assumptions and a disclaimer, for customers to attach to a purchase request.
+ */
+
+const MARGIN = 54
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const FOOTER_Y = PAGE_HEIGHT - 36
+
+const ACCENT: PdfColor = [0.14, 0.39, 0.92]
+const MUTED: PdfColor = [0.42, 0.45, 0.5]
+const SHADE: PdfColor = [0.95, 0.96, 0.97]
+
+export const PROPOSAL_DISCLAIMER =
+  "This proposal is an estimate based on the configuration and usage assumptions listed above and on AWS list " +
+  "prices at the time it was generated. It is not a quote or a commitment from AWS. Actual charges depend on " +
+  "real usage, the region, applicable taxes, discounts, support plans and price changes. Prices are in USD " +
+  "and exclude taxes unless stated otherwise."
+
+const formatCurrency = (value: number, maximumFractionDigits = 2) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits
+  }).format(value)
+
+// Local currency amounts carry the ISO code, as Helvetica has no glyph for symbols such as ₹ or ₩
+const formatLocalCurrency = (value: number, currency: DisplayCurrency) =>
+  formatCurrencyAmount(value, currency, { currencyDisplay: "code" })
+
+const formatQuantity = (value: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 1 }).format(value)
+
+const formatDate = (value: Date) =>
+  new Intl.DateTimeFormat("en-US", { dateStyle: "long" }).format(value)
+
+// "weekdayPeakHoursPerMonth" -> "Weekday peak hours per month"
+function humanizeKey(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+interface TableColumn {
+  label: string
+  width: number
+  align?: "left" | "right"
+}
+
+// Lays out sections top to bottom, starting a new page when the next block doesn't fit
+class ProposalLayout {
+  y = MARGIN
+
+  constructor(private pdf: PdfDocument) {}
+
+  newPage() {
+    this.pdf.addPage()
+    this.y = MARGIN
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > FOOTER_Y - 18) {
+      this.newPage()
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(48)
+    this.y += 12
+    this.pdf.text(text, MARGIN, this.y, { size: 14, bold: true, color: ACCENT })
+    this.y += 6
+    this.pdf.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, ACCENT, 1)
+    this.y += 16
+  }
+
+  paragraph(text: string, size = 9, color: PdfColor = MUTED) {
+    for (const line of this.pdf.wrapText(text, CONTENT_WIDTH, size)) {
+      this.ensureSpace(size + 4)
+      this.pdf.text(line, MARGIN, this.y, { size, color })
+      this.y += size + 4
+    }
+  }
+
+  keyValues(rows: [string, string][]) {
+    for (const [label, value] of rows) {
+      const lines = this.pdf.wrapText(value, CONTENT_WIDTH - 180, 10)
+      this.ensureSpace(lines.length * 14)
+      this.pdf.text(label, MARGIN, this.y, { size: 10, color: MUTED })
+      lines.forEach((line, index) => this.pdf.text(line, MARGIN + 180, this.y + index * 14, { size: 10 }))
+      this.y += Math.max(lines.length, 1) * 14
+    }
+  }
+
+  table(columns: TableColumn[], rows: string[][], totals?: string[]) {
+    const drawRow = (cells: string[], options: { bold?: boolean; shade?: boolean } = {}) => {
+      this.ensureSpace(18)
+      if (options.shade) {
+        this.pdf.rect(MARGIN, this.y - 12, CONTENT_WIDTH, 18, SHADE)
+      }
+      let x = MARGIN
+      columns.forEach((column, index) => {
+        const text = this.fitText(cells[index] || "", column.width - 8, options.bold)
+        if (column.align === "right") {
+          this.pdf.text(text, x + column.width - 4, this.y, { size: 9, bold: options.bold, align: "right" })
+        } else {
+          this.pdf.text(text, x + 4, this.y, { size: 9, bold: options.bold })
+        }
+        x += column.width
+      })
+      this.y += 18
+    }
+
+    drawRow(columns.map(column => column.label), { bold: true, shade: true })
+    rows.forEach(row => drawRow(row))
+    if (totals) {
+      this.pdf.line(MARGIN, this.y - 12, MARGIN + CONTENT_WIDTH, this.y - 12)
+      drawRow(totals, { bold: true })
+    }
+    this.y += 6
+  }
+
+  // Shortens text with an ellipsis so it stays inside its column
+  private fitText(text: string, width: number, bold = false): string {
+    if (this.pdf.measureText(text, 9, bold) <= width) {
+      return text
+    }
+    let fitted = text
+    while (fitted.length > 1 && this.pdf.measureText(`${fitted}…`, 9, bold) > width) {
+      fitted = fitted.slice(0, -1)
+    }
+    return `${fitted}…`
+  }
+}
+
+function drawCoverPage(pdf: PdfDocument, request: EstimateExportRequest, generatedAt: Date) {
+  const { estimate } = request
+  const product = request.assumptions.find(assumption => assumption.label === "Product")?.value
+
+  pdf.rect(0, 0, PAGE_WIDTH, 220, ACCENT)
+  pdf.text("Cost Proposal", MARGIN, 120, { size: 32, bold: true, color: [1, 1, 1] })
+  if (product) {
+    pdf.text(product, MARGIN, 156, { size: 16, color: [1, 1, 1] })
+  }
+
+  let y = 290
+  pdf.text(request.name || estimate.bundleName || "Estimate", MARGIN, y, { size: 20, bold: true })
+  y += 24
+  pdf.text(`Prepared ${formatDate(generatedAt)}`, MARGIN, y, { size: 11, color: MUTED })
+
+  const monthly = estimate.totalMonthlyCost
+  const annual = estimate.annualEstimate ?? estimate.totalMonthlyCost * 12
+  const localCurrency = isBaseCurrency(request.currency) ? null : request.currency!
+
+  y += 70
+  pdf.rect(MARGIN, y - 30, CONTENT_WIDTH, localCurrency ? 126 : 110, SHADE)
+  pdf.text("Estimated monthly cost", MARGIN + 20, y, { size: 11, color: MUTED })
+  pdf.text(formatCurrency(monthly), MARGIN + 20, y + 34, { size: 28, bold: true })
+  pdf.text("Annual estimate", MARGIN + CONTENT_WIDTH / 2 + 20, y, { size: 11, color: MUTED })
+  pdf.text(formatCurrency(annual), MARGIN + CONTENT_WIDTH / 2 + 20, y + 34, { size: 20, bold: true })
+  const perUser = `${formatCurrency(estimate.costPerWorkspace)} per user per month`
+  pdf.text(
+    estimate.discount
+      ? `${perUser}, net of discounts on a list price of ${formatCurrency(estimate.discount.listMonthlyCost)} per month`
+      : perUser,
+    MARGIN + 20, y + 62, { size: 10, color: MUTED }
+  )
+  if (localCurrency) {
+    pdf.text(
+      `${formatLocalCurrency(monthly, localCurrency)} per month, ${formatLocalCurrency(annual, localCurrency)} per year`,
+      MARGIN + 20, y + 80, { size: 10, color: MUTED }
+    )
+  }
+
+  y += 140
+  pdf.text(`Pricing source: ${describePricingSource(estimate)}`, MARGIN, y, { size: 10, color: MUTED })
+  pdf.text(`Price book: ${describePriceBook(estimate)}`, MARGIN, y + 16, { size: 10, color: MUTED })
+}
+
+// e.g. "10% EDP, 5% private pricing, 2 negotiated rates"
+function describeDiscount(discount: EstimateDiscount): string {
+  const parts = [
+    discount.edpPercent ? `${discount.edpPercent}% EDP` : null,
+    discount.servicePercent ? `${discount.servicePercent}% private pricing` : null,
+    discount.negotiatedRates ? `${discount.negotiatedRates} negotiated rate${discount.negotiatedRates > 1 ? "s" : ""}` : null,
+  ]
+  return parts.filter(Boolean).join(", ")
+}
+
+function describePricingSource(estimate: PricingEstimate): string {
+  return estimate.pricingSource === "aws-api" ? "AWS Pricing API" : "Calculated from fallback rates"
+}
+
+function describePriceBook(estimate: PricingEstimate): string {
+  if (!estimate.priceBook) {
+    return "Current AWS prices"
+  }
+  const { version, capturedAt } = estimate.priceBook
+  return capturedAt ? `${version} (captured ${formatDate(new Date(capturedAt))})` : version
+}
+
+// Hours breakdown of a Pool or AppStream estimate, from poolPricingDetails and calculationDetails
+function getUsageRows(estimate: PricingEstimate): [string, string][] {
+  const rows: [string, string][] = []
+  const details = estimate.poolPricingDetails
+
+  if (details) {
+    const hours = (label: string, value?: number) => {
+      if (typeof value === "number") {
+        rows.push([label, `${formatQuantity(value)} hrs`])
+      }
+    }
+    hours("Weekday peak hours", details.weekdayPeakHours)
+    hours("Weekday off-peak hours", details.weekdayOffPeakHours)
+    hours("Weekend peak hours", details.weekendPeakHours)
+    hours("Weekend off-peak hours", details.weekendOffPeakHours)
+    if (details.simulation) {
+      hours("Session hours", details.simulation.sessionHours)
+      hours("Idle running instance hours", details.simulation.idleInstanceHours)
+      rows.push(["Peak running instances", String(details.simulation.peakRunningInstances)])
+    }
+    rows.push(
+      ["Utilized instance hours", `${formatQuantity(details.totalUtilizedHours)} hrs`],
+      ["Buffer instance hours", `${formatQuantity(details.totalBufferHours)} hrs`],
+      ["Total instance hours", `${formatQuantity(details.totalInstanceHours)} hrs`],
+      ["Streaming rate", `${formatCurrency(details.hourlyStreamingRate, 4)}/hr`],
+      ["Active streaming cost", formatCurrency(details.activeStreamingCost)],
+      ["Stopped instance cost", formatCurrency(details.stoppedInstanceCost)],
+      ["User license cost", formatCurrency(details.userLicenseCost)]
+    )
+  }
+
+  // Totals are already listed above, so only the pattern's own values are added
+  const skipped = new Set(["totalUtilizedHours", "totalBufferHours", "totalInstanceHours"])
+  for (const [key, value] of Object.entries(estimate.calculationDetails || {})) {
+    if (skipped.has(key) || value === null || value === undefined || typeof value === "object") {
+      continue
+    }
+    rows.push([humanizeKey(key), typeof value === "number" ? formatQuantity(value) : String(value)])
+  }
+
+  return rows
+}
+
+/**
+ * Renders the proposal PDF of an estimate
+ */
+export function createProposalPdf(request: EstimateExportRequest, generatedAt = new Date()): Buffer {
+  const { estimate } = request
+  const localCurrency = isBaseCurrency(request.currency) ? null : request.currency!
+  const pdf = new PdfDocument()
+  const layout = new ProposalLayout(pdf)
+
+  pdf.addPage()
+  drawCoverPage(pdf, request, generatedAt)
+
+  layout.newPage()
+  layout.heading("Configuration Summary")
+  layout.keyValues(request.assumptions.map(assumption => [assumption.label, assumption.value]))
+
+  layout.heading("Itemized Costs")
+  const lineItems = estimate.lineItems || []
+  if (lineItems.length > 0) {
+    layout.table(
+      [
+        { label: "Item", width: 210 },
+        { label: "Quantity", width: 70, align: "right" },
+        { label: "Unit", width: 82 },
+        { label: "Unit price", width: 72, align: "right" },
+        { label: "Monthly", width: CONTENT_WIDTH - 434, align: "right" },
+      ],
+      lineItems.map(item => [
+        item.description,
+        formatQuantity(item.quantity),
+        item.unit,
+        formatCurrency(item.unitPrice, 4),
+        formatCurrency(item.extendedCost),
+      ]),
+      ["Total monthly cost", "", "", "", formatCurrency(estimate.totalMonthlyCost)]
+    )
+  } else {
+    layout.paragraph("This estimate has no itemized costs.")
+  }
+  const annual = estimate.annualEstimate ?? estimate.totalMonthlyCost * 12
+  layout.keyValues([
+    ...(estimate.discount
+      ? [
+          ["List monthly cost", formatCurrency(estimate.discount.listMonthlyCost)],
+          ["Discounts and negotiated rates", formatCurrency(-estimate.discount.discountAmount)],
+        ] as [string, string][]
+      : []),
+    ["Annual estimate", formatCurrency(annual)],
+    ["Cost per user per month", formatCurrency(estimate.costPerWorkspace)],
+    ...(localCurrency
+      ? [
+          [`Total monthly cost (${localCurrency.code})`, formatLocalCurrency(estimate.totalMonthlyCost, localCurrency)],
+          [`Annual estimate (${localCurrency.code})`, formatLocalCurrency(annual, localCurrency)],
+          [`Cost per user per month (${localCurrency.code})`, formatLocalCurrency(estimate.costPerWorkspace, localCurrency)],
+        ] as [string, string][]
+      : []),
+    ["Billing model", estimate.billingModel || "-"],
+  ])
+
+  const usageRows = getUsageRows(estimate)
+  if (usageRows.length > 0) {
+    layout.heading("Usage Hours Breakdown")
+    layout.keyValues(usageRows)
+  }
+
+  if (estimate.autoStop) {
+    const { autoStop } = estimate
+    layout.heading("AutoStop Analysis")
+    layout.keyValues([
+      ["Monthly fee", formatCurrency(autoStop.fixedMonthlyFee)],
+      ["Hourly rate", `${formatCurrency(autoStop.hourlyRate, 4)}/hr`],
+      ["Expected hours per user", `${formatQuantity(autoStop.hoursPerUser)} hrs`],
+      ["AlwaysOn monthly price", autoStop.alwaysOnMonthlyCost !== null ? formatCurrency(autoStop.alwaysOnMonthlyCost) : "Unavailable"],
+      ["Breakeven", autoStop.breakevenHours !== null ? `${formatQuantity(autoStop.breakevenHours)} hrs per month` : "Unavailable"],
+    ])
+  }
+
+  layout.heading("Assumptions")
+  layout.keyValues([
+    ["Hours per month", String(HOURS_PER_MONTH)],
+    ["Weeks per month", String(WEEKS_PER_MONTH)],
+    ["Currency", localCurrency ? `USD, excluding taxes; also shown in ${describeConversion(localCurrency)}` : "USD, excluding taxes"],
+    ["Pricing source", describePricingSource(estimate)],
+    ["Price book", describePriceBook(estimate)],
+    ...(estimate.discount ? [["Discounts", describeDiscount(estimate.discount)]] as [string, string][] : []),
+    ["Generated", generatedAt.toISOString()],
+  ])
+
+  layout.heading("Disclaimer")
+  layout.paragraph(PROPOSAL_DISCLAIMER)
+
+  // Footers are drawn last so they can carry the page count; the cover page has none
+  const title = request.name || estimate.bundleName || "Estimate"
+  for (let page = 1; page < pdf.pageCount; page++) {
+    pdf.goToPage(page)
+    pdf.line(MARGIN, FOOTER_Y - 12, MARGIN + CONTENT_WIDTH, FOOTER_Y - 12)
+    pdf.text(title, MARGIN, FOOTER_Y, { size: 8, color: MUTED })
+    pdf.text(`Page ${page} of ${pdf.pageCount - 1}`, MARGIN + CONTENT_WIDTH, FOOTER_Y, { size: 8, color: MUTED, align: "right" })
+  }
+
+  return pdf.toBuffer()
+}
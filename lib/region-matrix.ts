@@ -0,0 +1,68 @@
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import type { DeploymentGroup, DeploymentGroupEstimate } from "@/types/deployment"
+import type { RegionMatrixRequest, RegionMatrixRow } from "@/types/region-matrix"
+
+/**
+ * Region matrix: one configuration priced in every region. Each region is a deployment group,
+ * so the regions go through the same estimate routes as the single-region calculators.
+ */
+
+/**
+ * Builds the deployment group that prices the configuration in a region
+ */
+export function buildRegionGroup(request: RegionMatrixRequest, region: string): DeploymentGroup {
+  const group: DeploymentGroup = { id: region, name: region, type: request.type }
+
+  if (request.type === "appstream") {
+    return request.appStreamConfig ? { ...group, appStreamConfig: { ...request.appStreamConfig, region } } : group
+  }
+
+  // Pool groups are priced from their pool region
+  return request.workspaceConfig
+    ? { ...group, workspaceConfig: { ...request.workspaceConfig, region, poolRegion: region } }
+    : group
+}
+
+/**
+ * Deltas of every row against the home region, null when either could not be priced
+ */
+export function setRegionMatrixHome(rows: RegionMatrixRow[], homeRegion: string): RegionMatrixRow[] {
+  const home = rows.find(row => row.region === homeRegion && !row.error)
+
+  return rows.map(row => {
+    const deltaToHome = !row.error && home ? formatPriceForStorage(row.monthlyCost - home.monthlyCost) : null
+    return {
+      ...row,
+      deltaToHome,
+      deltaPercent: deltaToHome !== null && home && home.monthlyCost > 0
+        ? Math.round(deltaToHome / home.monthlyCost * 1000) / 10
+        : null
+    }
+  })
+}
+
+/**
+ * Rows of the matrix with their delta against the home region, cheapest first and
+ * regions that could not be priced last
+ */
+export function buildRegionMatrixRows(
+  estimates: DeploymentGroupEstimate[],
+  regionNames: Map<string, string>,
+  homeRegion: string
+): RegionMatrixRow[] {
+  const rows: RegionMatrixRow[] = estimates.map(estimate => ({
+    region: estimate.groupId,
+    regionName: regionNames.get(estimate.groupId) || estimate.groupId,
+    bundleName: estimate.bundleName,
+    monthlyCost: estimate.monthlyCost,
+    annualCost: estimate.annualCost,
+    costPerUser: estimate.costPerUser,
+    pricingSource: estimate.pricingSource,
+    deltaToHome: null,
+    deltaPercent: null,
+    error: estimate.error
+  }))
+
+  return setRegionMatrixHome(rows, homeRegion)
+    .sort((a, b) => (a.error ? 1 : 0) - (b.error ? 1 : 0) || a.monthlyCost - b.monthlyCost)
+}
@@ -1,20 +1,95 @@
-// AWS regions with their codes and display names
-export const regions = [
-  { code: 'us-east-1', name: 'US East (N. Virginia)' },
-  { code: 'us-east-2', name: 'US East (Ohio)' },
-  { code: 'us-west-2', name: 'US West (Oregon)' },
-  { code: 'ap-northeast-1', name: 'Asia Pacific (Tokyo)' },
-  { code: 'ap-southeast-1', name: 'Asia Pacific (Singapore)' },
-  { code: 'ap-southeast-2', name: 'Asia Pacific (Sydney)' },
-  { code: 'ap-south-1', name: 'Asia Pacific (Mumbai)' },
-  { code: 'ap-northeast-2', name: 'Asia Pacific (Seoul)' },
-  { code: 'eu-central-1', name: 'EU (Frankfurt)' },
-  { code: 'eu-west-1', name: 'EU (Ireland)' },
-  { code: 'eu-west-2', name: 'EU (London)' },
-  { code: 'ca-central-1', name: 'Canada (Central)' },
-  { code: 'sa-east-1', name: 'South America (Sao Paulo)' },
-  { code: 'us-gov-west-1', name: 'AWS GovCloud (US)' },
-  { code: 'us-gov-east-1', name: 'AWS GovCloud (US-East)' }
-] as const;
-
-export type RegionCode = typeof regions[number]['code'];
+/**
+ * Region registry: every AWS region the calculators know, with the names the AWS pricing
+ * documents use for it. Routes resolve region codes, pricing locations and display names
+ * through this module only.
+ */
+
+export type RegionPartition = 'commercial' | 'govcloud' | 'china';
+
+// Services priced by the calculators
+export type RegionService = 'core' | 'pools' | 'appstream';
+
+export interface RegionInfo {
+  code: string;
+  // Display name
+  name: string;
+  // Name of the region in calculator.aws documents (metadata.json valueAttributes.Location)
+  location: string;
+  // Other spellings seen in AWS documents and consoles, e.g. 'Europe (Frankfurt)'
+  aliases: readonly string[];
+  partition: RegionPartition;
+  // Services offered in the region
+  services: readonly RegionService[];
+}
+
+export const REGIONS = [
+  { code: 'us-east-1', name: 'US East (N. Virginia)', location: 'US East (N. Virginia)', aliases: [], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'us-east-2', name: 'US East (Ohio)', location: 'US East (Ohio)', aliases: [], partition: 'commercial', services: ['appstream'] },
+  { code: 'us-west-2', name: 'US West (Oregon)', location: 'US West (Oregon)', aliases: [], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'af-south-1', name: 'Africa (Cape Town)', location: 'Africa (Cape Town)', aliases: [], partition: 'commercial', services: ['core'] },
+  { code: 'ap-northeast-1', name: 'Asia Pacific (Tokyo)', location: 'Asia Pacific (Tokyo)', aliases: [], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'ap-northeast-2', name: 'Asia Pacific (Seoul)', location: 'Asia Pacific (Seoul)', aliases: [], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'ap-south-1', name: 'Asia Pacific (Mumbai)', location: 'Asia Pacific (Mumbai)', aliases: [], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'ap-southeast-1', name: 'Asia Pacific (Singapore)', location: 'Asia Pacific (Singapore)', aliases: [], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'ap-southeast-2', name: 'Asia Pacific (Sydney)', location: 'Asia Pacific (Sydney)', aliases: [], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'ca-central-1', name: 'Canada (Central)', location: 'Canada (Central)', aliases: [], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'eu-central-1', name: 'EU (Frankfurt)', location: 'EU (Frankfurt)', aliases: ['Europe (Frankfurt)'], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'eu-west-1', name: 'EU (Ireland)', location: 'EU (Ireland)', aliases: ['Europe (Ireland)'], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'eu-west-2', name: 'EU (London)', location: 'EU (London)', aliases: ['Europe (London)'], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'eu-west-3', name: 'EU (Paris)', location: 'EU (Paris)', aliases: ['Europe (Paris)'], partition: 'commercial', services: ['core', 'appstream'] },
+  { code: 'il-central-1', name: 'Israel (Tel Aviv)', location: 'Israel (Tel Aviv)', aliases: [], partition: 'commercial', services: ['core'] },
+  { code: 'sa-east-1', name: 'South America (Sao Paulo)', location: 'South America (Sao Paulo)', aliases: ['South America (São Paulo)'], partition: 'commercial', services: ['core', 'pools', 'appstream'] },
+  { code: 'us-gov-west-1', name: 'AWS GovCloud (US)', location: 'AWS GovCloud (US)', aliases: ['AWS GovCloud (US-West)'], partition: 'govcloud', services: ['core', 'pools', 'appstream'] },
+  { code: 'us-gov-east-1', name: 'AWS GovCloud (US-East)', location: 'AWS GovCloud (US-East)', aliases: [], partition: 'govcloud', services: ['core', 'appstream'] },
+  { code: 'cn-northwest-1', name: 'China (Ningxia)', location: 'China (Ningxia)', aliases: [], partition: 'china', services: ['core', 'appstream'] },
+] as const satisfies readonly RegionInfo[];
+
+export type RegionCode = typeof REGIONS[number]['code'];
+
+// calculator.aws quotes the commercial and GovCloud partitions only, China is priced in CNY separately
+const PRICED_PARTITIONS: RegionPartition[] = ['commercial', 'govcloud'];
+
+// AWS regions with their codes and display names, as offered in the region selects
+export const regions: { code: string; name: string }[] = REGIONS
+  .filter(region => PRICED_PARTITIONS.includes(region.partition))
+  .map(region => ({ code: region.code, name: region.name }));
+
+/**
+ * Regions of the priced partitions that offer a service
+ */
+export function getServiceRegions(service: RegionService): RegionInfo[] {
+  return REGIONS.filter(region =>
+    PRICED_PARTITIONS.includes(region.partition) && (region.services as readonly RegionService[]).includes(service));
+}
+
+/**
+ * Finds a region by code, pricing location, display name or alias, ignoring case
+ */
+export function findRegion(codeOrName: string): RegionInfo | undefined {
+  const value = codeOrName.trim().toLowerCase();
+  return REGIONS.find(region =>
+    region.code === value
+    || [region.location, region.name, ...region.aliases].some(name => name.toLowerCase() === value));
+}
+
+/**
+ * Region code of a region, e.g. 'eu-central-1' for 'EU (Frankfurt)'; unknown regions are returned as given
+ */
+export function getRegionCode(codeOrName: string): string {
+  return findRegion(codeOrName)?.code || codeOrName;
+}
+
+/**
+ * Name of a region in the calculator.aws documents, e.g. 'EU (Frankfurt)' for 'eu-central-1';
+ * unknown regions are returned as given
+ */
+export function getRegionLocation(codeOrName: string): string {
+  return findRegion(codeOrName)?.location || codeOrName;
+}
+
+/**
+ * Display name of a region; unknown regions are returned as given
+ */
+export function getRegionName(codeOrName: string): string {
+  return findRegion(codeOrName)?.name || codeOrName;
+}
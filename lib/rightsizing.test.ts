@@ -0,0 +1,147 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import {
+  getProjectedMonthlyHours,
+  getTotalMonthlySavings,
+  recommendRightsizing,
+  type RightsizingPricer
+} from "@/lib/rightsizing"
+import type { CurrentWorkspace } from "@/types/inventory"
+import type { WorkspaceUsage } from "@/types/rightsizing"
+import type { PricingEstimate } from "@/types/workspace"
+
+// Monthly AlwaysOn price, AutoStop fee and AutoStop hourly rate per WorkSpace
+const RATES: Record<string, { alwaysOn: number; autoStopFee: number; autoStopHourly: number }> = {
+  value: { alwaysOn: 25, autoStopFee: 7.25, autoStopHourly: 0.17 },
+  standard: { alwaysOn: 35, autoStopFee: 9.75, autoStopHourly: 0.26 },
+  performance: { alwaysOn: 60, autoStopFee: 11, autoStopHourly: 0.34 },
+}
+
+const POOL_HOURLY_RATE = 0.25
+const POOL_USER_LICENSE_COST = 4.19
+
+// Prices configurations from the rates above, the way the estimate route would
+const price: RightsizingPricer = async (config) => {
+  if (config.isPoolCalculation) {
+    return {
+      totalMonthlyCost: 0,
+      poolPricingDetails: { hourlyStreamingRate: POOL_HOURLY_RATE, userLicenseCost: POOL_USER_LICENSE_COST },
+    } as PricingEstimate
+  }
+  const rates = RATES[config.bundleId]
+  if (!rates) {
+    return null
+  }
+  const perWorkspace = config.runningMode === "auto-stop"
+    ? rates.autoStopFee + rates.autoStopHourly * (config.autoStopHoursPerUser ?? 160)
+    : rates.alwaysOn
+  return { totalMonthlyCost: Math.round(perWorkspace * config.numberOfWorkspaces * 100) / 100 } as PricingEstimate
+}
+
+const standardAlwaysOn: CurrentWorkspace = {
+  id: "ws-1a2b3c4d5",
+  region: "us-east-1",
+  state: "AVAILABLE",
+  computeTypeName: "STANDARD",
+  rootVolumeSizeGib: 80,
+  userVolumeSizeGib: 50,
+  runningMode: "ALWAYS_ON",
+  operatingSystemName: "WINDOWS_SERVER_2022",
+}
+
+const valueAutoStop: CurrentWorkspace = {
+  id: "ws-4d5e6f7g8",
+  region: "eu-west-1",
+  state: "AVAILABLE",
+  computeTypeName: "VALUE",
+  rootVolumeSizeGib: 80,
+  userVolumeSizeGib: 10,
+  runningMode: "AUTO_STOP",
+  operatingSystemName: "AMAZON_LINUX_2",
+}
+
+const usage = (connectedHours: number, cpuP95: number, memoryP95: number): WorkspaceUsage => ({
+  workspaceId: "ws",
+  connectionState: "DISCONNECTED",
+  connectedHours,
+  cpuAverage: cpuP95 / 2,
+  cpuP95,
+  memoryAverage: memoryP95 / 2,
+  memoryP95,
+})
+
+describe("getProjectedMonthlyHours", () => {
+  it("scales the connected hours of the lookback period to a month", () => {
+    // 10 hours in 14 days of 24 hours, times 730 hours a month
+    assert.equal(getProjectedMonthlyHours(usage(10, 0, 0), 14), 22)
+    assert.equal(getProjectedMonthlyHours(usage(336, 0, 0), 14), 730)
+    assert.equal(getProjectedMonthlyHours({ ...usage(0, 0, 0), connectedHours: null }, 14), null)
+    assert.equal(getProjectedMonthlyHours(null, 14), null)
+  })
+})
+
+describe("recommendRightsizing", () => {
+  it("recommends AutoStop, a pool and a smaller bundle for a lightly used AlwaysOn WorkSpace", async () => {
+    const result = await recommendRightsizing(standardAlwaysOn, usage(10, 20, 40), 14, price)
+
+    assert.equal(result.projectedMonthlyHours, 22)
+    assert.equal(result.currentMonthlyCost, 35)
+    assert.deepEqual(result.recommendations.map(item => [item.action, item.recommendedMonthlyCost, item.monthlySavings]), [
+      // 0.25 * 22 hours + 4.19 license
+      ["move-to-pool", 9.69, 25.31],
+      // 9.75 + 0.26 * 22 hours
+      ["switch-to-auto-stop", 15.47, 19.53],
+      ["downsize", 25, 10],
+    ])
+    assert.equal(result.recommendations[2].recommendedConfiguration, "Value, 80 GB root / 50 GB user, AlwaysOn")
+  })
+
+  it("recommends AlwaysOn for a heavily used AutoStop WorkSpace, and an upsize even though it costs more", async () => {
+    const result = await recommendRightsizing(valueAutoStop, usage(300, 92, 88), 14, price)
+
+    // 300 hours in 14 days is 652 hours a month: 7.25 + 0.17 * 652
+    assert.equal(result.currentMonthlyCost, 118.09)
+    assert.deepEqual(result.recommendations.map(item => [item.action, item.recommendedMonthlyCost, item.monthlySavings]), [
+      ["switch-to-always-on", 25, 93.09],
+      ["upsize", 179.27, -61.18],
+    ])
+    assert.match(result.recommendations[1].reason, /CPU 92% and memory 88%/)
+  })
+
+  it("only recommends changes that save money, apart from upsizes", async () => {
+    // Connected most of the time on AlwaysOn, with CPU and memory in range
+    const result = await recommendRightsizing(standardAlwaysOn, usage(300, 50, 60), 14, price)
+
+    assert.deepEqual(result.recommendations, [])
+  })
+
+  it("explains why a WorkSpace can't be analyzed", async () => {
+    const terminated = await recommendRightsizing({ ...standardAlwaysOn, state: "TERMINATED" }, null, 14, price)
+    const unpriced = await recommendRightsizing({ ...standardAlwaysOn, computeTypeName: "GRAPHICS_G5" }, null, 14, price)
+
+    assert.equal(terminated.error, "WorkSpaces in state TERMINATED are not billed")
+    assert.equal(unpriced.error, "Compute type GRAPHICS_G5 is not priced by the calculator")
+    assert.equal(unpriced.currentMonthlyCost, null)
+  })
+
+  it("makes no usage-based recommendations without usage data", async () => {
+    const result = await recommendRightsizing(standardAlwaysOn, null, 14, price)
+
+    assert.equal(result.projectedMonthlyHours, null)
+    assert.equal(result.currentMonthlyCost, 35)
+    assert.deepEqual(result.recommendations, [])
+  })
+})
+
+describe("getTotalMonthlySavings", () => {
+  it("adds up the largest saving of each WorkSpace", async () => {
+    const results = await Promise.all([
+      recommendRightsizing(standardAlwaysOn, usage(10, 20, 40), 14, price),
+      recommendRightsizing(valueAutoStop, usage(300, 92, 88), 14, price),
+      recommendRightsizing(valueAutoStop, usage(40, 92, 88), 14, price),
+    ])
+
+    // 25.31 + 93.09, the upsize of the last WorkSpace saves nothing
+    assert.equal(getTotalMonthlySavings(results), 118.4)
+  })
+})
@@ -0,0 +1,201 @@
+import { formatPriceForStorage } from "@/lib/price-formatter"
+import { buildInventoryWorkspaceConfig, getInventoryGroupName, groupWorkspaceInventory } from "@/lib/inventory"
+import { getBundleName, HOURS_PER_MONTH } from "@/lib/pricing-engine"
+import type { CurrentWorkspace, InventoryGroup } from "@/types/inventory"
+import type { RightsizingAction, RightsizingRecommendation, WorkspaceRightsizing, WorkspaceUsage } from "@/types/rightsizing"
+import type { PricingEstimate, WorkSpaceConfig } from "@/types/workspace"
+
+/**
+ * Rightsizing: per-WorkSpace recommendations from connection and CloudWatch usage data.
+ * Every option is priced through the pricing engine and compared against the WorkSpace's
+ * current configuration priced the same way, so savings are on the calculator's rates.
+ */
+
+export const DEFAULT_LOOKBACK_DAYS = 14
+
+export const RIGHTSIZING_THRESHOLDS = {
+  // Downsize when the 95th percentile of hourly CPU and memory both stay below these (%)
+  downsizeCpuP95: 30,
+  downsizeMemoryP95: 50,
+  // Upsize when the 95th percentile of hourly CPU or memory exceeds these (%)
+  upsizeCpuP95: 80,
+  upsizeMemoryP95: 85,
+  // Monthly connected hours under which a Pool is considered
+  poolMaxMonthlyHours: 80,
+}
+
+// General purpose compute types from smallest to largest; graphics bundles are not resized
+const COMPUTE_TYPE_SIZES = [
+  "VALUE",
+  "STANDARD",
+  "PERFORMANCE",
+  "POWER",
+  "POWERPRO",
+  "GENERALPURPOSE_4XLARGE",
+  "GENERALPURPOSE_8XLARGE",
+]
+
+// Pool bundle of the same size as a compute type
+const POOL_BUNDLES: Record<string, string> = {
+  VALUE: "pool-value",
+  STANDARD: "pool-standard",
+  PERFORMANCE: "pool-performance",
+  POWER: "pool-power",
+  POWERPRO: "pool-powerpro",
+}
+
+// Prices a configuration, null when it could not be priced
+export type RightsizingPricer = (config: WorkSpaceConfig) => Promise<PricingEstimate | null>
+
+const formatPercent = (value: number) => `${Math.round(value)}%`
+
+/**
+ * Connected hours of the lookback period scaled to a month
+ */
+export function getProjectedMonthlyHours(usage: WorkspaceUsage | null, lookbackDays: number): number | null {
+  if (!usage || usage.connectedHours === null || lookbackDays <= 0) {
+    return null
+  }
+  return Math.min(HOURS_PER_MONTH, Math.round(usage.connectedHours * HOURS_PER_MONTH / (lookbackDays * 24)))
+}
+
+/**
+ * Recommendations for one WorkSpace, largest saving first
+ */
+export async function recommendRightsizing(
+  workspace: CurrentWorkspace,
+  usage: WorkspaceUsage | null,
+  lookbackDays: number,
+  price: RightsizingPricer
+): Promise<WorkspaceRightsizing> {
+  const projectedMonthlyHours = getProjectedMonthlyHours(usage, lookbackDays)
+  const result: WorkspaceRightsizing = {
+    workspace,
+    usage,
+    projectedMonthlyHours,
+    currentMonthlyCost: null,
+    recommendations: []
+  }
+
+  // A single WorkSpace forms a group of one, which also leaves out terminated WorkSpaces
+  const [group] = groupWorkspaceInventory([workspace])
+  if (!group) {
+    return { ...result, error: `WorkSpaces in state ${workspace.state} are not billed` }
+  }
+
+  // AutoStop configurations are priced at the measured hours when there are any
+  const toConfig = (option: InventoryGroup): WorkSpaceConfig | null => {
+    const config = buildInventoryWorkspaceConfig(option)
+    return config && config.runningMode === "auto-stop" && projectedMonthlyHours !== null
+      ? { ...config, autoStopHoursPerUser: projectedMonthlyHours }
+      : config
+  }
+
+  const currentConfig = toConfig(group)
+  if (!currentConfig) {
+    return { ...result, error: `Compute type ${group.computeTypeName} is not priced by the calculator` }
+  }
+  const current = await price(currentConfig)
+  if (!current) {
+    return { ...result, error: "The current configuration could not be priced" }
+  }
+
+  const currentMonthlyCost = current.totalMonthlyCost
+  const currentConfiguration = getInventoryGroupName(group)
+  const recommendations: RightsizingRecommendation[] = []
+
+  const addRecommendation = (
+    action: RightsizingAction,
+    recommendedConfiguration: string,
+    recommendedMonthlyCost: number,
+    reason: string
+  ) => {
+    recommendations.push({
+      action,
+      currentConfiguration,
+      recommendedConfiguration,
+      currentMonthlyCost,
+      recommendedMonthlyCost: formatPriceForStorage(recommendedMonthlyCost),
+      monthlySavings: formatPriceForStorage(currentMonthlyCost - recommendedMonthlyCost),
+      reason
+    })
+  }
+
+  // Prices another configuration of the WorkSpace, only kept when it is cheaper unless always is set
+  const considerOption = async (action: RightsizingAction, option: InventoryGroup, reason: string, always = false) => {
+    const config = toConfig(option)
+    const estimate = config ? await price(config) : null
+    if (estimate && (always || estimate.totalMonthlyCost < currentMonthlyCost)) {
+      addRecommendation(action, getInventoryGroupName(option), estimate.totalMonthlyCost, reason)
+    }
+  }
+
+  if (projectedMonthlyHours !== null) {
+    const hoursReason = `Connected about ${projectedMonthlyHours} hours per month over the last ${lookbackDays} days`
+    if (group.runningMode === "always-on") {
+      await considerOption("switch-to-auto-stop", { ...group, runningMode: "auto-stop" },
+        `${hoursReason}, below the AlwaysOn breakeven`)
+    } else {
+      await considerOption("switch-to-always-on", { ...group, runningMode: "always-on" },
+        `${hoursReason}, above the AutoStop breakeven`)
+    }
+  }
+
+  const sizeIndex = COMPUTE_TYPE_SIZES.indexOf(group.computeTypeName)
+  const cpuP95 = usage?.cpuP95 ?? null
+  const memoryP95 = usage?.memoryP95 ?? null
+  if (sizeIndex >= 0 && cpuP95 !== null && memoryP95 !== null) {
+    const utilization = `CPU ${formatPercent(cpuP95)} and memory ${formatPercent(memoryP95)} at the 95th percentile`
+    const isOverloaded = cpuP95 > RIGHTSIZING_THRESHOLDS.upsizeCpuP95 || memoryP95 > RIGHTSIZING_THRESHOLDS.upsizeMemoryP95
+    const isIdle = cpuP95 < RIGHTSIZING_THRESHOLDS.downsizeCpuP95 && memoryP95 < RIGHTSIZING_THRESHOLDS.downsizeMemoryP95
+
+    // An upsize costs more, it is recommended for performance rather than savings
+    if (isOverloaded && sizeIndex < COMPUTE_TYPE_SIZES.length - 1) {
+      await considerOption("upsize", { ...group, computeTypeName: COMPUTE_TYPE_SIZES[sizeIndex + 1] },
+        `${utilization}, users are likely constrained`, true)
+    } else if (isIdle && sizeIndex > 0) {
+      await considerOption("downsize", { ...group, computeTypeName: COMPUTE_TYPE_SIZES[sizeIndex - 1] },
+        `${utilization}, the next smaller bundle fits`)
+    }
+  }
+
+  // Pools bill streaming hours, so a lightly used Windows WorkSpace may be cheaper as a pool user.
+  // The pool is priced for its hourly rate and license, applied to the measured hours.
+  const poolBundleId = POOL_BUNDLES[group.computeTypeName]
+  if (poolBundleId && group.operatingSystem === "windows" && projectedMonthlyHours !== null
+    && projectedMonthlyHours <= RIGHTSIZING_THRESHOLDS.poolMaxMonthlyHours) {
+    const pool = await price({
+      ...currentConfig,
+      bundleId: poolBundleId,
+      numberOfWorkspaces: 1,
+      poolRegion: group.region,
+      poolBundleId,
+      poolOperatingSystem: group.operatingSystem,
+      poolLicense: group.license,
+      poolNumberOfUsers: 1,
+      isPoolCalculation: true
+    })
+    const details = pool?.poolPricingDetails
+    if (details) {
+      const poolMonthlyCost = details.hourlyStreamingRate * projectedMonthlyHours + details.userLicenseCost
+      if (poolMonthlyCost < currentMonthlyCost) {
+        addRecommendation("move-to-pool", `Pool ${getBundleName(poolBundleId)}, ${projectedMonthlyHours} streaming hours`,
+          poolMonthlyCost, `Connected about ${projectedMonthlyHours} hours per month, a pool only bills streaming hours`)
+      }
+    }
+  }
+
+  return {
+    ...result,
+    currentMonthlyCost,
+    recommendations: recommendations.sort((a, b) => b.monthlySavings - a.monthlySavings)
+  }
+}
+
+/**
+ * Sum of the largest saving of each WorkSpace, as only one change is applied per WorkSpace
+ */
+export function getTotalMonthlySavings(workspaces: WorkspaceRightsizing[]): number {
+  return formatPriceForStorage(workspaces.reduce((sum, item) =>
+    sum + Math.max(0, ...item.recommendations.map(recommendation => recommendation.monthlySavings)), 0))
+}
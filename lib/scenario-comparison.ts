@@ -0,0 +1,129 @@
+import { APPSTREAM_INSTANCE_TYPES, createDeploymentGroup } from "@/lib/deployments"
+import { DEFAULT_AUTOSTOP_HOURS_PER_USER } from "@/lib/pricing-engine"
+import type { ComparisonLineItemRow, ComparisonPopulation, ComparisonScenarioId } from "@/types/comparison"
+import type { Deployment, DeploymentGroup, DeploymentGroupEstimate, DeploymentGroupType } from "@/types/deployment"
+
+/**
+ * Scenario comparison: the same user population priced as Core AlwaysOn, Core AutoStop, Pool
+ * and AppStream. Each scenario is a deployment group, so all of them go through the estimate routes
+ * the single-product calculators use.
+ */
+
+export const COMPARISON_SCENARIOS: { id: ComparisonScenarioId; label: string; type: DeploymentGroupType }[] = [
+  { id: "core-always-on", label: "Core AlwaysOn", type: "core" },
+  { id: "core-auto-stop", label: "Core AutoStop", type: "core" },
+  { id: "pool", label: "Pool", type: "pool" },
+  { id: "appstream", label: "AppStream", type: "appstream" },
+]
+
+export const MIN_COMPARISON_SCENARIOS = 2
+export const MAX_COMPARISON_SCENARIOS = 4
+
+export const DEFAULT_COMPARISON_POPULATION: ComparisonPopulation = {
+  region: "us-east-1",
+  userCount: 50,
+  license: "included",
+  coreBundleId: "standard",
+  poolBundleId: "pool-standard",
+  appStreamInstanceType: "stream.standard.medium",
+  autoStopHoursPerUser: DEFAULT_AUTOSTOP_HOURS_PER_USER,
+}
+
+/**
+ * Builds the deployment group that prices one scenario for the population
+ */
+export function buildComparisonGroup(id: ComparisonScenarioId, population: ComparisonPopulation): DeploymentGroup {
+  const scenario = COMPARISON_SCENARIOS.find(item => item.id === id)!
+  const group = { ...createDeploymentGroup(scenario.type, scenario.label), id }
+
+  if (scenario.type === "appstream") {
+    return {
+      ...group,
+      appStreamConfig: {
+        ...group.appStreamConfig!,
+        region: population.region,
+        instanceType: population.appStreamInstanceType,
+        instanceFamily: APPSTREAM_INSTANCE_TYPES.find(type => type.value === population.appStreamInstanceType)?.family
+          || group.appStreamConfig!.instanceFamily,
+        userCount: population.userCount,
+        // Business hours size the fleet from peak concurrency
+        weekdayPeakConcurrentUsers: population.userCount
+      }
+    }
+  }
+
+  if (scenario.type === "pool") {
+    return {
+      ...group,
+      workspaceConfig: {
+        ...group.workspaceConfig!,
+        poolRegion: population.region,
+        poolBundleId: population.poolBundleId,
+        poolLicense: population.license,
+        poolNumberOfUsers: population.userCount
+      }
+    }
+  }
+
+  const autoStop = id === "core-auto-stop"
+  return {
+    ...group,
+    workspaceConfig: {
+      ...group.workspaceConfig!,
+      region: population.region,
+      bundleId: population.coreBundleId,
+      license: population.license,
+      numberOfWorkspaces: population.userCount,
+      runningMode: autoStop ? "auto-stop" : "always-on",
+      billingOption: autoStop ? "hourly" : "monthly",
+      autoStopHoursPerUser: autoStop ? population.autoStopHoursPerUser : undefined
+    }
+  }
+}
+
+/**
+ * Deployment whose groups are the selected scenarios, in the order they are listed
+ */
+export function buildComparisonDeployment(
+  scenarioIds: ComparisonScenarioId[],
+  population: ComparisonPopulation
+): Deployment {
+  const groups = COMPARISON_SCENARIOS
+    .filter(scenario => scenarioIds.includes(scenario.id))
+    .slice(0, MAX_COMPARISON_SCENARIOS)
+    .map(scenario => buildComparisonGroup(scenario.id, population))
+
+  return { name: `Comparison for ${population.userCount} users`, groups }
+}
+
+/**
+ * Id of the cheapest scenario that priced successfully, or null if none did
+ */
+export function getCheapestScenario(estimates: DeploymentGroupEstimate[]): string | null {
+  const priced = estimates.filter(estimate => !estimate.error)
+  if (priced.length === 0) {
+    return null
+  }
+  return priced.reduce((cheapest, estimate) => estimate.monthlyCost < cheapest.monthlyCost ? estimate : cheapest).groupId
+}
+
+/**
+ * Lines up the line items of each scenario by description, so the cost of each component
+ * can be read across scenarios
+ */
+export function compareLineItems(estimates: DeploymentGroupEstimate[]): ComparisonLineItemRow[] {
+  const rows = new Map<string, ComparisonLineItemRow>()
+
+  estimates.forEach((estimate, index) => {
+    for (const item of estimate.lineItems) {
+      let row = rows.get(item.description)
+      if (!row) {
+        row = { description: item.description, unit: item.unit, costs: estimates.map(() => null) }
+        rows.set(item.description, row)
+      }
+      row.costs[index] = (row.costs[index] ?? 0) + item.extendedCost
+    }
+  })
+
+  return Array.from(rows.values())
+}
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict"
+import { afterEach, describe, it, mock } from "node:test"
+import { SHARE_STATE_VERSION, decodeShareState, encodeShareState, toShareableConfig, type ShareState } from "@/lib/share-state"
+import type { WorkSpaceConfig } from "@/types/workspace"
+
+const config: WorkSpaceConfig = {
+  region: "eu-west-1",
+  bundleId: "standard",
+  bundleSpecs: { vCPU: 2, memory: 4, graphics: "Standard", storage: 130 },
+  rootVolume: "80",
+  userVolume: "50",
+  operatingSystem: "windows",
+  runningMode: "auto-stop",
+  numberOfWorkspaces: 25,
+  billingOption: "hourly",
+}
+
+const state: ShareState = {
+  tab: "workspaces",
+  currency: "EUR",
+  discounts: { edpPercent: 5 },
+  workspaces: { tab: "core", config },
+}
+
+afterEach(() => mock.restoreAll())
+
+describe("encodeShareState", () => {
+  it("round-trips the calculator state through a URL-safe parameter", () => {
+    // Non-ASCII text and characters base64 would put in the URL
+    const value = encodeShareState({ ...state, workspaces: { tab: "core", config: { ...config, region: "Zürich?/+" } } })
+
+    assert.match(value, new RegExp(`^${SHARE_STATE_VERSION}\\.[A-Za-z0-9_-]+$`))
+    assert.equal(decodeShareState(value)?.workspaces?.config.region, "Zürich?/+")
+    assert.deepEqual(decodeShareState(encodeShareState(state)), state)
+  })
+})
+
+describe("decodeShareState", () => {
+  it("ignores links of other versions", () => {
+    mock.method(console, "warn", () => {})
+    const payload = encodeShareState(state).split(".")[1]
+
+    assert.equal(decodeShareState(`0.${payload}`), null)
+    assert.equal(decodeShareState(`${SHARE_STATE_VERSION + 1}.${payload}`), null)
+    assert.equal(decodeShareState(payload), null)
+  })
+
+  it("ignores malformed parameters", () => {
+    mock.method(console, "warn", () => {})
+
+    assert.equal(decodeShareState(`${SHARE_STATE_VERSION}.not-json`), null)
+    assert.equal(decodeShareState(`${SHARE_STATE_VERSION}.${btoa("42")}`), null)
+    assert.equal(decodeShareState(`${SHARE_STATE_VERSION}.`), null)
+  })
+})
+
+describe("toShareableConfig", () => {
+  it("drops internal and empty fields", () => {
+    const shareable = toShareableConfig({
+      ...config,
+      _lastUpdated: 1,
+      _updateTimestamp: 2,
+      isPoolCalculation: false,
+      priceBookVersion: "",
+      license: undefined,
+    })
+
+    assert.deepEqual(shareable, config)
+  })
+})
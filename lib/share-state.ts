@@ -0,0 +1,128 @@
+import type { AppStreamComponents, AppStreamUsagePattern } from "@/types/appstream"
+import type { DiscountSettings } from "@/types/discounts"
+import type { WorkSpaceConfig } from "@/types/workspace"
+
+/**
+ * Calculator state encoded into a single URL parameter, so an estimate can be shared as a link.
+ *
+ * The parameter value is "<version>.<base64url JSON>". Bump SHARE_STATE_VERSION when the shape
+ * changes in a way old links can't be read with, and keep decoding the versions already shared.
+ */
+
+export const SHARE_STATE_PARAM = "s"
+export const SHARE_STATE_VERSION = 1
+
+export interface WorkSpacesShareState {
+  // "core" or "pool" tab of the configuration panel
+  tab: string
+  config: WorkSpaceConfig
+}
+
+export interface AppStreamShareState {
+  region: string
+  instanceFamily: string
+  instanceFunction: string
+  instanceType: string
+  operatingSystem: string
+  multiSession: string
+  usageHours: number
+  bufferFactor: number
+  usersPerInstance: number
+  // Typical user profile the recommended users per instance is sized for
+  userProfile?: string
+  userCount: number
+  usagePattern: AppStreamUsagePattern
+  // Image builder, storage and data transfer inputs, none priced when omitted
+  components?: AppStreamComponents
+}
+
+export interface ShareState {
+  // Top level calculator tab: "workspaces", "appstream", "deployment", "compare" or "inventory"
+  tab?: string
+  // Currency code the estimates are shown in, USD when omitted
+  currency?: string
+  // Customer discounts every calculator prices with, list prices when omitted
+  discounts?: DiscountSettings
+  workspaces?: WorkSpacesShareState
+  appstream?: AppStreamShareState
+}
+
+// Internal bookkeeping fields that must not end up in a link
+const TRANSIENT_CONFIG_FIELDS: (keyof WorkSpaceConfig)[] = ["_lastUpdated", "_updateTimestamp", "isPoolCalculation"]
+
+/**
+ * Drops internal and empty fields from a configuration before it is shared
+ */
+export function toShareableConfig(config: WorkSpaceConfig): WorkSpaceConfig {
+  const shareable = { ...config }
+  for (const field of TRANSIENT_CONFIG_FIELDS) {
+    delete shareable[field]
+  }
+  for (const [key, value] of Object.entries(shareable)) {
+    if (value === undefined || value === null || value === "") {
+      delete shareable[key as keyof WorkSpaceConfig]
+    }
+  }
+  return shareable
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ""
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/")
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, "="))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+export function encodeShareState(state: ShareState): string {
+  return `${SHARE_STATE_VERSION}.${toBase64Url(JSON.stringify(state))}`
+}
+
+/**
+ * Decodes a share parameter, or returns null if it is malformed or from an unsupported version
+ */
+export function decodeShareState(value: string): ShareState | null {
+  const separator = value.indexOf(".")
+  const version = parseInt(value.slice(0, separator), 10)
+  if (separator === -1 || version !== SHARE_STATE_VERSION) {
+    console.warn(`Ignoring shared state with unsupported version: ${value.slice(0, separator)}`)
+    return null
+  }
+
+  try {
+    const state = JSON.parse(fromBase64Url(value.slice(separator + 1)))
+    return state && typeof state === "object" ? state as ShareState : null
+  } catch (error) {
+    console.warn("Ignoring malformed shared state:", error)
+    return null
+  }
+}
+
+/**
+ * Shared state of the current page URL, null on the server or when the URL carries none
+ */
+export function readShareState(): ShareState | null {
+  if (typeof window === "undefined") {
+    return null
+  }
+  const value = new URLSearchParams(window.location.search).get(SHARE_STATE_PARAM)
+  return value ? decodeShareState(value) : null
+}
+
+/**
+ * Merges part of the calculator state into the page URL without adding a history entry
+ */
+export function writeShareState(update: ShareState): void {
+  if (typeof window === "undefined") {
+    return
+  }
+  const url = new URL(window.location.href)
+  const state = { ...readShareState(), ...update }
+  url.searchParams.set(SHARE_STATE_PARAM, encodeShareState(state))
+  window.history.replaceState(window.history.state, "", url)
+}
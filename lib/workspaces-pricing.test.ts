@@ -0,0 +1,111 @@
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test"
+import { PriceBookGapError, resolvePriceBook } from "@/lib/price-books"
+import { clearPricingCache } from "@/lib/pricing-client"
+import type { WorkSpaceConfig } from "@/types/workspace"
+import {
+  getPoolRateTable,
+  getPricedVolumes,
+  lookupWorkSpacesRates,
+  validateWorkSpacesEstimateConfig
+} from "@/lib/workspaces-pricing"
+
+const ENV_VARIABLES = ["PRICE_BOOK_DIR", "PRICING_CACHE_DIR", "PRICING_SNAPSHOT_DIR", "PRICING_OFFLINE"]
+
+let tempDir: string
+const originalEnv: Record<string, string | undefined> = {}
+
+const config: WorkSpaceConfig = {
+  region: "us-east-1",
+  bundleId: "standard",
+  bundleSpecs: { vCPU: 2, memory: 4, graphics: "Standard", storage: 130 },
+  rootVolume: "80",
+  userVolume: "50",
+  operatingSystem: "windows",
+  license: "included",
+  runningMode: "always-on",
+  numberOfWorkspaces: 10,
+  billingOption: "monthly",
+}
+
+before(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "workspaces-pricing-"))
+  for (const name of ENV_VARIABLES) {
+    originalEnv[name] = process.env[name]
+  }
+})
+
+beforeEach(() => {
+  process.env.PRICE_BOOK_DIR = tempDir
+  process.env.PRICING_CACHE_DIR = path.join(tempDir, "cache")
+  delete process.env.PRICING_SNAPSHOT_DIR
+  delete process.env.PRICING_OFFLINE
+  mock.method(console, "log", () => {})
+  mock.method(console, "warn", () => {})
+  mock.method(console, "error", () => {})
+  mock.method(globalThis, "fetch", async () => { throw new TypeError("fetch failed") })
+})
+
+afterEach(() => {
+  mock.restoreAll()
+  clearPricingCache()
+})
+
+after(async () => {
+  for (const name of ENV_VARIABLES) {
+    if (originalEnv[name] === undefined) {
+      delete process.env[name]
+    } else {
+      process.env[name] = originalEnv[name]
+    }
+  }
+  await fs.rm(tempDir, { recursive: true, force: true })
+})
+
+describe("lookupWorkSpacesRates", () => {
+  it("falls back to the calculated rates when live prices can't be fetched", async () => {
+    const lookup = await lookupWorkSpacesRates(config, (await resolvePriceBook(undefined))!)
+
+    assert.equal(lookup.pricingSource, "calculated")
+    assert.equal(lookup.bundleName, "Standard")
+    assert.equal(lookup.baseCost, 35)
+    assert.equal(lookup.apiLicense, "Included")
+    assert.equal(lookup.volumeSelectionHonored, true)
+    assert.deepEqual(getPricedVolumes(config, lookup), { rootVolume: "80", userVolume: "50" })
+  })
+
+  it("prices pools by the hour from the calculated rates", async () => {
+    const poolConfig = { ...config, bundleId: "pool-standard", isPoolCalculation: true }
+    const poolRates = getPoolRateTable(poolConfig, await lookupWorkSpacesRates(poolConfig, (await resolvePriceBook(undefined))!))
+
+    assert.equal(poolRates.source, "calculated")
+    assert.ok(poolRates.hourlyStreamingRate > 0)
+  })
+
+  it("throws instead of falling back when a pinned price book lacks the configuration", async () => {
+    const bookDir = path.join(tempDir, "2025-01-15")
+    await fs.mkdir(bookDir, { recursive: true })
+    await fs.writeFile(path.join(bookDir, "manifest.json"), JSON.stringify({ version: "2025-01-15", capturedAt: "2025-01-15T10:00:00.000Z" }))
+
+    await assert.rejects(
+      lookupWorkSpacesRates(config, (await resolvePriceBook("2025-01-15"))!),
+      (error: unknown) => error instanceof PriceBookGapError &&
+        error.message.startsWith("Price book 2025-01-15 has no pricing document workspaces/USD/current/workspaces-core-calc/")
+    )
+  })
+})
+
+describe("validateWorkSpacesEstimateConfig", () => {
+  it("rejects invalid discounts and pool inputs", () => {
+    assert.equal(validateWorkSpacesEstimateConfig(config), null)
+    assert.match(validateWorkSpacesEstimateConfig({ ...config, discounts: { edpPercent: 200 } })!, /EDP discount/)
+    assert.notEqual(validateWorkSpacesEstimateConfig({
+      ...config,
+      isPoolCalculation: true,
+      poolDemandProfile: [1, 2, 3]
+    }), null)
+  })
+})
@@ -0,0 +1,593 @@
+import type { WorkSpaceConfig } from "@/types/workspace"
+import { formatPriceForStorage, formatPriceForDisplay } from "@/lib/price-formatter"
+import { getRegionLocation } from "@/lib/regions"
+import { fetchAwsPricingData, buildPricingUrl } from "@/lib/pricing-client"
+import { CURRENT_PRICE_BOOK, PriceBookGapError, type ResolvedPriceBook } from "@/lib/price-books"
+import {
+  getFallbackCoreRates,
+  getFallbackPoolRates,
+  getMonthlyRateTotal,
+  validateDiscountSettings,
+  validatePoolCostInputs,
+  validatePoolDemandProfile,
+  validatePoolScalingPolicy,
+  POOL_STOPPED_INSTANCE_RATE,
+  USER_LICENSE_COST_PER_MONTH,
+  HOURS_PER_MONTH,
+  type CoreRateTable,
+  type PoolRateTable,
+  type RateEntry,
+} from "@/lib/pricing-engine"
+
+/**
+ * WorkSpaces Core and Pool rate lookup: finds the calculator.aws configuration closest to a
+ * WorkSpaceConfig and reads its rates, falling back to the engine's hardcoded rates when
+ * live prices can't be used. The estimate and deployment routes hand the result to the
+ * pricing engine.
+ */
+
+// Rates found for a configuration, with the calculator.aws selectors they were priced at
+export interface WorkSpacesRateLookup {
+  pricingSource: "aws-api" | "calculated"
+  bundleName: string
+  // Monthly price of the configuration used all month
+  baseCost: number
+  coreRates: CoreRateTable
+  // License and operating system as calculator.aws names them
+  apiLicense: string
+  apiOperatingSystem: string
+  // Volumes of the configuration that was priced, e.g. "80 GB"
+  selectedRootVolume: string | null
+  selectedUserVolume: string | null
+  // Volumes sent to calculator.aws
+  formattedRootVolume: string
+  formattedUserVolume?: string
+  // False when the requested volumes aren't offered and the closest ones were priced
+  volumeSelectionHonored: boolean
+}
+
+// Reads the price entries of a region from a calculator.aws index.json document
+function getRegionRates(pricingData: any, regionName: string): RateEntry[] | null {
+  const regionData = pricingData?.regions?.[regionName];
+  if (!regionData) {
+    return null;
+  }
+
+  return Object.entries(regionData).map(([key, priceInfo]) => {
+    const info = priceInfo as any;
+    return {
+      description: key,
+      price: parseFloat(info.price),   // Store the raw price
+      unit: info.Unit,
+      rateCode: info.rateCode
+    };
+  });
+}
+
+/**
+ * Checks the discounts and pool inputs of an estimate request, returning an error message for invalid input
+ */
+export function validateWorkSpacesEstimateConfig(config: WorkSpaceConfig): string | null {
+  const discountError = config.discounts ? validateDiscountSettings(config.discounts) : null;
+  if (discountError) {
+    return discountError;
+  }
+
+  const poolCostError = config.isPoolCalculation === true && config.poolUsagePattern
+    ? validatePoolCostInputs(config.poolUsagePattern)
+    : null;
+  if (poolCostError) {
+    return poolCostError;
+  }
+
+  // An hourly demand profile prices the pool by simulating its scaling over a week
+  if (config.isPoolCalculation === true && config.poolDemandProfile) {
+    return validatePoolDemandProfile(config.poolDemandProfile)
+      ?? (config.poolScalingPolicy ? validatePoolScalingPolicy(config.poolScalingPolicy) : null);
+  }
+
+  return null;
+}
+
+/**
+ * Looks up the rates of a WorkSpaces Core or Pool configuration in the price book.
+ * Throws a PriceBookGapError when a pinned price book can't price it, live prices fall back
+ * to the calculated rates instead.
+ */
+export async function lookupWorkSpacesRates(
+  config: WorkSpaceConfig,
+  priceBook: ResolvedPriceBook
+): Promise<WorkSpacesRateLookup> {
+  // Initialize variables for pricing and volume validation
+  let baseCost = 0
+  let bundleName = ""
+  let pricingSource: WorkSpacesRateLookup["pricingSource"] = "calculated" // Track if we're using AWS pricing or calculated pricing
+  let pricingError: unknown = null // Why AWS pricing couldn't be used, reported for pinned price books
+  let coreRates: CoreRateTable | null = null // Rates handed to the pricing engine
+  let selectedRootVolume = null; // Will store the selected root volume from API
+  let selectedUserVolume = null; // Will store the selected user volume from API
+  // Add variables to track volume validity throughout the entire function
+  let isRootVolumeValid = true; // Default to true
+  let isUserVolumeValid = true; // Default to true
+
+  // Convert region code to AWS region name for API calls
+  const regionName = getRegionLocation(config.region);
+  console.log(`Using region name for API call: ${regionName}`);
+  
+  // Convert operating system value for the API
+  // The API expects "Windows" or "Any" (for BYOL)
+  let apiOperatingSystem = config.operatingSystem === 'windows' ? 'Windows' : 'Any';
+  
+  // Convert license value for the API
+  let apiLicense; 
+  if (config.isPoolCalculation) {
+    // For pool calculations, use the pool license or the general license
+    const licenseToUse = config.poolLicense || config.license || "included";
+    apiLicense = licenseToUse === 'bring-your-own-license' ? 'Bring Your Own License' : 'Included';
+    console.log(`Using pool license value: ${apiLicense}`);
+  } else {
+    // For regular WorkSpaces Core
+    const licenseToUse = config.license || "included";
+    apiLicense = licenseToUse === 'bring-your-own-license' ? 'Bring Your Own License' : 'Included';
+    
+    // If using BYOL with a non-Windows OS, use the "Any" OS
+    if (licenseToUse === 'bring-your-own-license' && apiOperatingSystem !== 'Windows') {
+      apiOperatingSystem = 'Any';
+    }
+  }
+  
+  console.log(`Using operating system: ${apiOperatingSystem}, license: ${apiLicense}`);
+
+  // Price the running mode the user chose rather than whichever one the API lists first
+  const apiRunningMode = config.runningMode === 'auto-stop' ? 'AutoStop' : 'AlwaysOn';
+  
+  // Create formatted volume strings for API calls
+  // For Pool calculations, we don't need to provide user-selected volumes
+  let formattedRootVolume = config.isPoolCalculation 
+    ? "200 GB" // Default for pools, will be overridden by API
+    : (config.rootVolume ? `${config.rootVolume} GB` : "80 GB");
+  
+  let formattedUserVolume = config.isPoolCalculation
+    ? undefined // Pools don't use user volumes in the same way
+    : (config.userVolume ? `${config.userVolume} GB` : "100 GB");
+  
+  console.log(`Initial volume values from user selection: Root=${formattedRootVolume}, User=${formattedUserVolume || "N/A for Pools"}`);
+  
+  // Try to get direct pricing information from AWS Pricing API
+  try {
+    // First, try to fetch the aggregation data to verify parameters
+    const encodedRegion = encodeURIComponent(regionName);
+    console.log(`Fetching aggregation data for region: ${regionName}`);
+    
+    // Determine the API endpoint based on whether this is a pool calculation
+    const apiType = config.isPoolCalculation ? "workspaces-pools-calc" : "workspaces-core-calc";
+    
+    // This API call helps us verify what bundle configurations are valid
+    const aggregationData = await fetchAwsPricingData(
+      buildPricingUrl('workspaces', apiType, `${encodedRegion}/primary-selector-aggregations.json`),
+      `Failed to fetch aggregation data for ${regionName}`,
+      priceBook.fetchOptions
+    );
+    
+    if (aggregationData && aggregationData.aggregations) {
+      // Find bundle that matches our selected bundle ID
+      let matchingBundle = null;
+      let matchingVolumes = [];
+      let matchingOS = [];
+      let matchingLicenses = [];
+      let matchingRunningModes = [];
+      
+      // Extract bundle ID from config or convert to proper format
+      let bundleId = config.bundleId.toLowerCase();
+      
+      // Map from our bundle ID to the expected bundle name prefix
+      const bundleMap = {
+        'value': 'Value',
+        'standard': 'Standard',
+        'performance': 'Performance',
+        'power': 'Power',
+        'powerpro': 'PowerPro',
+        'graphics': 'Graphics',
+        'graphicspro': 'GraphicsPro',
+        'graphics-g4dn': 'Graphics.g4dn',
+        'graphicspro-g4dn': 'GraphicsPro.g4dn',
+        'general-16': 'General Purpose (16 vCPU',
+        'general-32': 'General Purpose (32 vCPU',
+        'pool-value': 'Value',
+        'pool-standard': 'Standard',
+        'pool-performance': 'Performance',
+        'pool-power': 'Power',
+        'pool-powerpro': 'PowerPro'
+      };
+      
+      // Find the bundle prefix we need to search for
+      let bundlePrefix = bundleId;
+      for (const [key, value] of Object.entries(bundleMap)) {
+        if (bundleId.includes(key)) {
+          bundlePrefix = value;
+          break;
+        }
+      }
+      
+      console.log(`Looking for bundle that matches prefix: ${bundlePrefix}`);
+      
+      // Find all aggregations that match our bundle
+      aggregationData.aggregations.forEach(item => {
+        if (item.selectors) {
+          // For pools, the key might be "Bundle" instead of "Bundle Description"
+          const bundleKey = config.isPoolCalculation ? "Bundle" : "Bundle Description";
+          const description = item.selectors[bundleKey];
+          
+          // Check if this is the bundle we're looking for
+          if (description && description.startsWith(bundlePrefix)) {
+            // If we haven't found a matching bundle yet, save this one
+            if (!matchingBundle) {
+              matchingBundle = description;
+              console.log(`Found matching bundle: ${matchingBundle}`);
+            }
+            
+            // Collect available options for this bundle
+            if (item.selectors.rootVolume && !matchingVolumes.includes(item.selectors.rootVolume)) {
+              matchingVolumes.push(item.selectors.rootVolume);
+            }
+            
+            if (item.selectors.userVolume && !matchingVolumes.includes(item.selectors.userVolume)) {
+              matchingVolumes.push(item.selectors.userVolume);
+            }
+            
+            if (item.selectors["Operating System"] && !matchingOS.includes(item.selectors["Operating System"])) {
+              matchingOS.push(item.selectors["Operating System"]);
+            }
+            
+            if (item.selectors.License && !matchingLicenses.includes(item.selectors.License)) {
+              matchingLicenses.push(item.selectors.License);
+            }
+            
+            if (item.selectors["Running Mode"] && !matchingRunningModes.includes(item.selectors["Running Mode"])) {
+              matchingRunningModes.push(item.selectors["Running Mode"]);
+            }
+          }
+        }
+      });
+      
+      if (matchingBundle) {
+        console.log(`Will use bundle: ${matchingBundle}`);
+        console.log(`Available root/user volumes: ${matchingVolumes.join(', ')}`);
+        console.log(`Available OS options: ${matchingOS.join(', ')}`);
+        console.log(`Available license options: ${matchingLicenses.join(', ')}`);
+        console.log(`Available running modes: ${matchingRunningModes.join(', ')}`);
+        
+        // Find the closest available volumes to what the user selected
+        const userSelectedRootVolume = formattedRootVolume;
+        const userSelectedUserVolume = formattedUserVolume;
+        
+        // For Pools, we only need to check if the root volume is valid 
+        // since user volume might not be applicable
+        if (config.isPoolCalculation) {
+          // For pools, we don't validate the user's selections; we use what the API tells us
+          console.log(`Pool calculation - will use API-provided volumes`);
+          isRootVolumeValid = true;
+          isUserVolumeValid = true;
+        } else {
+          // Check if the user's volume selections are valid for this region/bundle
+          isRootVolumeValid = matchingVolumes.includes(userSelectedRootVolume);
+          isUserVolumeValid = matchingVolumes.includes(userSelectedUserVolume);
+          
+          console.log(`User selected volumes - Root: ${userSelectedRootVolume} (valid: ${isRootVolumeValid}), User: ${userSelectedUserVolume} (valid: ${isUserVolumeValid})`);
+          
+          // If volumes are not valid, find the closest alternatives
+          if (!isRootVolumeValid || !isUserVolumeValid) {
+            // Parse the volume sizes as numbers for comparison
+            const requestedRootSize = parseInt(userSelectedRootVolume.replace(/\s*GB$/i, ''), 10);
+            const requestedUserSize = parseInt(userSelectedUserVolume.replace(/\s*GB$/i, ''), 10);
+            
+            // Extract sizes from available volumes and sort them
+            const availableVolumeSizes = matchingVolumes.map(vol => {
+              const sizeMatch = vol.match(/(\d+)\s*GB/i);
+              return sizeMatch ? parseInt(sizeMatch[1], 10) : 0;
+            }).filter(size => size > 0).sort((a, b) => a - b);
+            
+            console.log(`Available volume sizes: ${availableVolumeSizes.join(', ')} GB`);
+            
+            // Find the closest root volume
+            if (!isRootVolumeValid && availableVolumeSizes.length > 0) {
+              // Find the closest volume (either equal or greater)
+              let closestRootSize = availableVolumeSizes[0]; // Default to smallest
+              
+              for (const size of availableVolumeSizes) {
+                if (size >= requestedRootSize) {
+                  closestRootSize = size;
+                  break;
+                }
+              }
+              
+              formattedRootVolume = `${closestRootSize} GB`;
+              console.log(`Selected closest root volume: ${formattedRootVolume}`);
+            }
+            
+            // Find the closest user volume
+            if (!isUserVolumeValid && availableVolumeSizes.length > 0) {
+              // Find the closest volume (either equal or greater)
+              let closestUserSize = availableVolumeSizes[0]; // Default to smallest
+              
+              for (const size of availableVolumeSizes) {
+                if (size >= requestedUserSize) {
+                  closestUserSize = size;
+                  break;
+                }
+              }
+              
+              formattedUserVolume = `${closestUserSize} GB`;
+              console.log(`Selected closest user volume: ${formattedUserVolume}`);
+            }
+          }
+        }
+        
+        // Now find a specific configuration that exists in the API
+        let selectedConfig = null;
+        let foundExactVolumeMatch = false;
+        let bundleKey = config.isPoolCalculation ? "Bundle" : "Bundle Description";
+        
+        // Try to find a configuration that matches our exact OS, license AND adjusted volume preferences
+        for (const item of aggregationData.aggregations) {
+          if (item.selectors && 
+              item.selectors[bundleKey] === matchingBundle &&
+              item.selectors["Operating System"] === apiOperatingSystem &&
+              item.selectors.License === apiLicense &&
+              item.selectors.rootVolume === formattedRootVolume &&
+              item.selectors.userVolume === formattedUserVolume) {
+            
+            // We found a perfect match with our preferred volumes
+            selectedConfig = item.selectors;
+            selectedRootVolume = selectedConfig.rootVolume;
+            selectedUserVolume = selectedConfig.userVolume;
+            foundExactVolumeMatch = true;
+            console.log(`Found exact match with OS=${apiOperatingSystem}, License=${apiLicense}, Root=${selectedRootVolume}, User=${selectedUserVolume}`);
+            break;
+          }
+        }
+        
+        // If no exact match with OS, license and volumes, try finding one with matching OS and license
+        if (!selectedConfig) {
+          console.log(`No exact volume match found, looking for OS/License match only`);
+          for (const item of aggregationData.aggregations) {
+            if (item.selectors && 
+                item.selectors[bundleKey] === matchingBundle &&
+                item.selectors["Operating System"] === apiOperatingSystem &&
+                item.selectors.License === apiLicense) {
+              // We found an OS/license match
+              selectedConfig = item.selectors;
+              selectedRootVolume = selectedConfig.rootVolume;
+              selectedUserVolume = selectedConfig.userVolume;
+              console.log(`Found OS/License match with fallback volumes: Root=${selectedRootVolume}, User=${selectedUserVolume}`);
+              break;
+            }
+          }
+        }
+        
+        // If still no match, fall back to any matching bundle
+        if (!selectedConfig) {
+          console.log(`No OS/License match found, using first available config`);
+          for (const item of aggregationData.aggregations) {
+            if (item.selectors && item.selectors[bundleKey] === matchingBundle) {
+              selectedConfig = item.selectors;
+              selectedRootVolume = selectedConfig.rootVolume;
+              selectedUserVolume = selectedConfig.userVolume;
+              break;
+            }
+          }
+        }
+        
+        if (selectedConfig) {
+          console.log("Selected configuration:", selectedConfig);
+          
+          // Use the provided OS and license for pricing, not the ones from the selected config
+          const configToUse = {
+            ...selectedConfig,
+            "Operating System": apiOperatingSystem,
+            "License": apiLicense,
+            // For pool calculations, use "Pool" as running mode
+            "Running Mode": config.isPoolCalculation ? "Pool" : apiRunningMode,
+            // For pool calculations, use "Enterprise Applications" as product family
+            "Product Family": config.isPoolCalculation ? "Enterprise Applications" : "WorkSpaces Core"
+          };
+          
+          // Always use the API-provided volumes to ensure compatibility
+          formattedRootVolume = selectedConfig.rootVolume;
+          // For pools, userVolume might not be present in the API response
+          formattedUserVolume = config.isPoolCalculation 
+            ? undefined 
+            : (selectedConfig.userVolume || formattedUserVolume);
+            
+          console.log(`Using API-provided volumes: Root=${formattedRootVolume}, User=${formattedUserVolume || "N/A for Pools"}`);
+          
+          // Construct the pricing URL with exactly the values from the API
+          const urlParams = [
+            encodedRegion,
+            encodeURIComponent(config.isPoolCalculation ? configToUse.Bundle : configToUse["Bundle Description"]),
+          ];
+          
+          // Add vCPU and Memory for pool calculations
+          if (config.isPoolCalculation && configToUse.vCPU) {
+            urlParams.push(encodeURIComponent(configToUse.vCPU));
+            urlParams.push(encodeURIComponent(formattedRootVolume));
+            urlParams.push(encodeURIComponent(configToUse.Memory));
+          } else {
+            // Regular Core parameters
+            urlParams.push(encodeURIComponent(formattedRootVolume));
+            urlParams.push(encodeURIComponent(formattedUserVolume));
+          }
+          
+          // Add common parameters
+          urlParams.push(encodeURIComponent(configToUse["Operating System"]));
+          urlParams.push(encodeURIComponent(configToUse.License));
+          urlParams.push(encodeURIComponent(configToUse["Running Mode"]));
+          urlParams.push(encodeURIComponent(configToUse["Product Family"]));
+          
+          const pricingUrl = buildPricingUrl('workspaces', apiType, `${urlParams.join('/')}/index.json`);
+          console.log(`Fetching pricing from URL: ${pricingUrl}`);
+          
+          try {
+            // Fetch the pricing data
+            const pricingData = await fetchAwsPricingData(
+              pricingUrl,
+              `Failed to fetch pricing for ${matchingBundle} in ${regionName}`,
+              priceBook.fetchOptions
+            );
+            
+            // Process the response
+            const prices = getRegionRates(pricingData, regionName);
+            if (prices) {
+              // Use the pricing data from AWS
+              bundleName = config.isPoolCalculation ? configToUse.Bundle : configToUse["Bundle Description"];
+              coreRates = { source: "aws-api", bundleName, rates: prices };
+              pricingSource = "aws-api";
+
+              // Price the same configuration on the other running mode too: AutoStop estimates report where
+              // AlwaysOn becomes cheaper, and both compare monthly with hourly billing
+              if (!config.isPoolCalculation) {
+                const otherRunningMode = apiRunningMode === 'AutoStop' ? 'AlwaysOn' : 'AutoStop';
+                const otherParams = [...urlParams];
+                otherParams[otherParams.length - 2] = encodeURIComponent(otherRunningMode);
+                const otherUrl = buildPricingUrl('workspaces', apiType, `${otherParams.join('/')}/index.json`);
+
+                try {
+                  const otherData = await fetchAwsPricingData(
+                    otherUrl,
+                    `Failed to fetch ${otherRunningMode} pricing for ${matchingBundle} in ${regionName}`,
+                    priceBook.fetchOptions
+                  );
+                  const otherRates = getRegionRates(otherData, regionName) || undefined;
+                  if (otherRunningMode === 'AlwaysOn') {
+                    coreRates.alwaysOnRates = otherRates;
+                  } else {
+                    coreRates.autoStopRates = otherRates;
+                  }
+                } catch (error) {
+                  // The estimate stands without it, only the breakeven and billing comparison are unavailable
+                  console.error(`Error fetching ${otherRunningMode} pricing for the billing comparison:`, error);
+                }
+              }
+              
+              // Monthly price of this configuration used all month, with consistent price formatting
+              baseCost = formatPriceForStorage(getMonthlyRateTotal(prices));
+              console.log(`Using AWS API pricing: ${baseCost} (${formatPriceForDisplay(baseCost)}) for ${bundleName}`);
+            } else {
+              throw new Error("No pricing data available from AWS API");
+            }
+          } catch (error) {
+            console.error(`Error fetching AWS pricing data:`, error);
+            // Fall back to calculated pricing
+            console.log("Falling back to calculated pricing due to API error");
+            pricingSource = "calculated";
+            pricingError = error;
+          }
+        } else {
+          throw new Error("No valid configuration found in AWS API");
+        }
+      } else {
+        throw new Error(`No matching bundle found for ${bundleId}`);
+      }
+    } else {
+      throw new Error("Invalid aggregation data from AWS API");
+    }
+  } catch (error) {
+    console.error("Error fetching pricing details:", error);
+    // Continue with calculated pricing if not already handled
+    pricingError = error;
+  }
+
+  // A pinned price book is the only source of prices, so a gap in it is an error rather than a fallback
+  if ((pricingSource === "calculated" || !coreRates) && priceBook.reference.version !== CURRENT_PRICE_BOOK) {
+    throw new PriceBookGapError(priceBook.reference, pricingError);
+  }
+
+  // If we couldn't get pricing from AWS API, use our calculated pricing
+  if (pricingSource === "calculated" || !coreRates) {
+    console.log("Using calculated pricing");
+    // Pools are billed by the hour, so their fallback starts from the AlwaysOn bundle price
+    coreRates = getFallbackCoreRates(
+      config.bundleId,
+      config.operatingSystem,
+      config.isPoolCalculation ? 'always-on' : config.runningMode
+    );
+    baseCost = formatPriceForStorage(getMonthlyRateTotal(coreRates.rates)); // Ensure consistent price format
+    bundleName = coreRates.bundleName;
+    console.log(`Using calculated pricing: ${baseCost} (${formatPriceForDisplay(baseCost)}) for ${bundleName}`);
+  }
+
+  return {
+    pricingSource,
+    bundleName,
+    baseCost,
+    coreRates,
+    apiLicense,
+    apiOperatingSystem,
+    selectedRootVolume,
+    selectedUserVolume,
+    formattedRootVolume,
+    formattedUserVolume,
+    volumeSelectionHonored: isRootVolumeValid && isUserVolumeValid
+  };
+}
+
+/**
+ * Hourly rates of a pool, from the looked up AWS rate or the standard hourly rates per bundle and license
+ */
+export function getPoolRateTable(config: WorkSpaceConfig, lookup: WorkSpacesRateLookup): PoolRateTable {
+  const { pricingSource, bundleName, baseCost, coreRates } = lookup;
+  console.log(`Pool calculation with license: ${config.license}, source: ${pricingSource}`);
+
+  const isByol = config.license === "bring-your-own-license" || config.poolLicense === "bring-your-own-license";
+  
+  // The AWS API rate is the monthly cost of using the instance for all 730 hours in a month,
+  // calculated pricing falls back to standard hourly rates per bundle and license
+  const poolRates: PoolRateTable = pricingSource === "aws-api"
+    ? {
+        source: "aws-api",
+        bundleName,
+        hourlyStreamingRate: baseCost / HOURS_PER_MONTH,
+        rateCode: coreRates.rates.find(rate => rate.unit?.toLowerCase() === 'hour')?.rateCode,
+        stoppedInstanceRate: POOL_STOPPED_INSTANCE_RATE,
+        userLicenseCostPerMonth: USER_LICENSE_COST_PER_MONTH
+      }
+    : getFallbackPoolRates(config.bundleId, isByol, baseCost);
+
+  console.log(`Final streaming rate per hour: ${poolRates.hourlyStreamingRate}`);
+  return poolRates;
+}
+
+/**
+ * Root and user volume sizes in GB that were priced, from the selected configuration or the request
+ */
+export function getPricedVolumes(config: WorkSpaceConfig, lookup: WorkSpacesRateLookup): { rootVolume: string; userVolume: string } {
+  const { selectedRootVolume, selectedUserVolume } = lookup;
+
+  // Parse the volume information from API or use provided values
+  let parsedRootVolume = null;
+  let parsedUserVolume = null;
+
+  if (selectedRootVolume) {
+    const match = selectedRootVolume.match(/(\d+)\s*GB/i);
+    if (match) {
+      parsedRootVolume = match[1];
+      console.log(`API provided root volume: ${parsedRootVolume}GB from "${selectedRootVolume}"`);
+    }
+  }
+
+  if (selectedUserVolume) {
+    const match = selectedUserVolume.match(/(\d+)\s*GB/i);
+    if (match) {
+      parsedUserVolume = match[1];
+      console.log(`API provided user volume: ${parsedUserVolume}GB from "${selectedUserVolume}"`);
+    }
+  }
+
+  // First use API provided values, then fall back to config values, then default calculation
+  const rootVolume = parsedRootVolume || config.rootVolume || (config.bundleSpecs?.storage ? Math.floor(config.bundleSpecs.storage / 2).toString() : "80");
+  const userVolume = parsedUserVolume || config.userVolume || (config.bundleSpecs?.storage ? Math.floor(config.bundleSpecs.storage / 2).toString() : "80");
+
+  console.log(`FINAL VOLUME CHOICE: Root=${rootVolume}, User=${userVolume} (from config=${config.rootVolume}, from API=${selectedRootVolume})`);
+
+  return { rootVolume, userVolume };
+}
@@ -0,0 +1,265 @@
+import assert from "node:assert/strict"
+import { afterEach, describe, it, mock, type Mock } from "node:test"
+import { getCloudWatchClient, getWorkspacesClient } from "@/lib/aws-config"
+import { groupWorkspaceInventory } from "@/lib/inventory"
+import {
+  describeAllWorkspaces,
+  describeConnectionStatus,
+  getMonthlyConnectedHours,
+  getWorkspaceMetrics
+} from "@/lib/workspaces-usage"
+
+// DescribeWorkspaces pages recorded per region, trimmed to the fields that are read
+const DESCRIBE_WORKSPACES_PAGES: Record<string, any[]> = {
+  "us-east-1": [
+    {
+      Workspaces: [
+        {
+          WorkspaceId: "ws-1a2b3c4d5",
+          UserName: "alice",
+          State: "AVAILABLE",
+          BundleId: "wsb-8vbljg4r6",
+          DirectoryId: "d-90670b1234",
+          WorkspaceProperties: {
+            ComputeTypeName: "STANDARD",
+            RootVolumeSizeGib: 80,
+            UserVolumeSizeGib: 50,
+            RunningMode: "ALWAYS_ON",
+            OperatingSystemName: "WINDOWS_SERVER_2022"
+          }
+        },
+        {
+          WorkspaceId: "ws-2b3c4d5e6",
+          UserName: "bob",
+          State: "STOPPED",
+          BundleId: "wsb-8vbljg4r6",
+          DirectoryId: "d-90670b1234",
+          WorkspaceProperties: {
+            ComputeTypeName: "STANDARD",
+            RootVolumeSizeGib: 80,
+            UserVolumeSizeGib: 50,
+            RunningMode: "AUTO_STOP",
+            OperatingSystemName: "WINDOWS_SERVER_2022"
+          }
+        }
+      ],
+      NextToken: "eyJwYWdlIjoyfQ=="
+    },
+    {
+      Workspaces: [
+        {
+          WorkspaceId: "ws-3c4d5e6f7",
+          UserName: "carol",
+          State: "TERMINATED",
+          BundleId: "wsb-8vbljg4r6",
+          DirectoryId: "d-90670b1234",
+          WorkspaceProperties: {
+            ComputeTypeName: "STANDARD",
+            RootVolumeSizeGib: 80,
+            UserVolumeSizeGib: 50,
+            RunningMode: "ALWAYS_ON",
+            OperatingSystemName: "WINDOWS_SERVER_2022"
+          }
+        }
+      ]
+    }
+  ],
+  "eu-west-1": [
+    {
+      Workspaces: [
+        {
+          WorkspaceId: "ws-4d5e6f7g8",
+          UserName: "dave",
+          State: "AVAILABLE",
+          BundleId: "wsb-clj85qzj1",
+          DirectoryId: "d-93671c5678",
+          WorkspaceProperties: {
+            ComputeTypeName: "VALUE",
+            RootVolumeSizeGib: 80,
+            UserVolumeSizeGib: 10,
+            RunningMode: "AUTO_STOP",
+            OperatingSystemName: "AMAZON_LINUX_2"
+          }
+        }
+      ],
+      NextToken: "eyJwYWdlIjoyfQ=="
+    },
+    {
+      Workspaces: [],
+      NextToken: "eyJwYWdlIjozfQ=="
+    },
+    {
+      Workspaces: [
+        {
+          WorkspaceId: "ws-5e6f7g8h9",
+          UserName: "erin",
+          State: "AVAILABLE",
+          BundleId: "wsb-clj85qzj1",
+          DirectoryId: "d-93671c5678",
+          WorkspaceProperties: {
+            ComputeTypeName: "VALUE",
+            RootVolumeSizeGib: 80,
+            UserVolumeSizeGib: 10,
+            RunningMode: "AUTO_STOP",
+            OperatingSystemName: "AMAZON_LINUX_2"
+          }
+        }
+      ]
+    }
+  ]
+}
+
+const PAGE_TOKENS = [undefined, "eyJwYWdlIjoyfQ==", "eyJwYWdlIjozfQ=="]
+
+type Send = (command: { input: any }) => Promise<unknown>
+
+// Answers a client's commands from recorded responses, recording the inputs sent
+function replay(client: object, respond: (input: any) => unknown): Mock<Send> {
+  return mock.method(client as { send: Send }, "send", async (command: { input: any }) => respond(command.input))
+}
+
+// Replays the recorded DescribeWorkspaces pages of a region, following the NextToken of the request
+function replayDescribeWorkspaces(region: string) {
+  const pages = DESCRIBE_WORKSPACES_PAGES[region]
+  return replay(getWorkspacesClient(region), input => pages[PAGE_TOKENS.indexOf(input.NextToken)])
+}
+
+afterEach(() => mock.restoreAll())
+
+describe("describeAllWorkspaces", () => {
+  it("follows NextToken through every page of each region", async () => {
+    const sends = ["us-east-1", "eu-west-1"].map(replayDescribeWorkspaces)
+
+    const workspaces = [
+      ...await describeAllWorkspaces("us-east-1"),
+      ...await describeAllWorkspaces("eu-west-1"),
+    ]
+
+    assert.deepEqual(sends.map(send => send.mock.calls.map(call => call.arguments[0].input.NextToken)), [
+      [undefined, "eyJwYWdlIjoyfQ=="],
+      [undefined, "eyJwYWdlIjoyfQ==", "eyJwYWdlIjozfQ=="],
+    ])
+    assert.deepEqual(workspaces.map(workspace => [workspace.region, workspace.id]), [
+      ["us-east-1", "ws-1a2b3c4d5"],
+      ["us-east-1", "ws-2b3c4d5e6"],
+      ["us-east-1", "ws-3c4d5e6f7"],
+      ["eu-west-1", "ws-4d5e6f7g8"],
+      ["eu-west-1", "ws-5e6f7g8h9"],
+    ])
+    assert.deepEqual(workspaces[1], {
+      id: "ws-2b3c4d5e6",
+      username: "bob",
+      state: "STOPPED",
+      bundleId: "wsb-8vbljg4r6",
+      directoryId: "d-90670b1234",
+      region: "us-east-1",
+      computeTypeName: "STANDARD",
+      rootVolumeSizeGib: 80,
+      userVolumeSizeGib: 50,
+      runningMode: "AUTO_STOP",
+      operatingSystemName: "WINDOWS_SERVER_2022",
+    })
+  })
+
+  it("groups the WorkSpaces of every region into billed configurations", async () => {
+    ["us-east-1", "eu-west-1"].forEach(replayDescribeWorkspaces)
+
+    const groups = groupWorkspaceInventory([
+      ...await describeAllWorkspaces("us-east-1"),
+      ...await describeAllWorkspaces("eu-west-1"),
+    ])
+
+    assert.deepEqual(groups.map(group => [group.region, group.computeTypeName, group.runningMode, group.operatingSystem, group.count]), [
+      ["eu-west-1", "VALUE", "auto-stop", "amazon-linux", 2],
+      ["us-east-1", "STANDARD", "always-on", "windows", 1],
+      ["us-east-1", "STANDARD", "auto-stop", "windows", 1],
+    ])
+  })
+
+  it("reports the region of a failed request", async () => {
+    replay(getWorkspacesClient("ap-south-1"), () => {
+      throw Object.assign(new Error("User is not authorized to perform workspaces:DescribeWorkspaces"), { name: "AccessDeniedException" })
+    })
+    mock.method(console, "error", () => {})
+
+    await assert.rejects(describeAllWorkspaces("ap-south-1"), /Failed to fetch current workspaces in ap-south-1: User is not authorized/)
+  })
+})
+
+describe("describeConnectionStatus", () => {
+  it("asks for at most 25 WorkSpaces per call", async () => {
+    const ids = Array.from({ length: 30 }, (_, index) => `ws-${index}`)
+    const send = replay(getWorkspacesClient("us-east-1"), input => ({
+      WorkspacesConnectionStatus: input.WorkspaceIds.map((id: string) => ({ WorkspaceId: id, ConnectionState: "DISCONNECTED" }))
+    }))
+
+    const statuses = await describeConnectionStatus("us-east-1", ids)
+
+    assert.deepEqual(send.mock.calls.map(call => call.arguments[0].input.WorkspaceIds.length), [25, 5])
+    assert.equal(statuses.size, 30)
+    assert.equal(statuses.get("ws-29")?.ConnectionState, "DISCONNECTED")
+  })
+})
+
+describe("getWorkspaceMetrics", () => {
+  it("summarizes hourly metrics split over GetMetricData pages", async () => {
+    const pages = [
+      {
+        MetricDataResults: [
+          { Id: "c0", Values: [1, 1, 0, 0] },
+          { Id: "p0", Values: [10, 20, 30, 40] },
+          { Id: "m0", Values: [] },
+        ],
+        NextToken: "page-2"
+      },
+      {
+        MetricDataResults: [
+          { Id: "c0", Values: [1, 0] },
+          { Id: "p0", Values: [50, 90] },
+          { Id: "m0", Values: [] },
+        ]
+      }
+    ]
+    const send = replay(getCloudWatchClient("us-east-1"), input => pages[input.NextToken ? 1 : 0])
+
+    const metrics = await getWorkspaceMetrics("us-east-1", ["ws-1a2b3c4d5"], 14, new Date("2026-07-15T00:00:00Z"))
+
+    assert.equal(send.mock.callCount(), 2)
+    assert.deepEqual(metrics.get("ws-1a2b3c4d5"), {
+      connectedHours: 3,
+      cpuAverage: 40,
+      cpuP95: 90,
+      memoryAverage: null,
+      memoryP95: null,
+    })
+  })
+})
+
+describe("getMonthlyConnectedHours", () => {
+  it("counts connected hours per calendar month", async () => {
+    const months = [
+      { label: "2026-06", start: new Date("2026-06-01T00:00:00Z"), end: new Date("2026-07-01T00:00:00Z") },
+      { label: "2026-07", start: new Date("2026-07-01T00:00:00Z"), end: new Date("2026-08-01T00:00:00Z") },
+    ]
+    replay(getCloudWatchClient("eu-west-1"), () => ({
+      MetricDataResults: [
+        {
+          Id: "c0",
+          Timestamps: [
+            new Date("2026-06-30T22:00:00Z"),
+            new Date("2026-06-30T23:00:00Z"),
+            new Date("2026-07-01T00:00:00Z"),
+            new Date("2026-07-01T01:00:00Z"),
+          ],
+          Values: [1, 1, 1, 0]
+        },
+        { Id: "c1", Timestamps: [], Values: [] },
+      ]
+    }))
+
+    const hours = await getMonthlyConnectedHours("eu-west-1", ["ws-4d5e6f7g8", "ws-5e6f7g8h9"], months)
+
+    assert.deepEqual(hours.get("ws-4d5e6f7g8"), [2, 1])
+    assert.equal(hours.has("ws-5e6f7g8h9"), false)
+  })
+})
@@ -0,0 +1,277 @@
+import { GetMetricDataCommand, type MetricDataQuery } from "@aws-sdk/client-cloudwatch"
+import {
+  DescribeWorkspacesCommand,
+  DescribeWorkspacesConnectionStatusCommand,
+  type Workspace,
+  type WorkspaceConnectionStatus
+} from "@aws-sdk/client-workspaces"
+import { executeAwsCommand, getCloudWatchClient, getWorkspacesClient } from "@/lib/aws-config"
+import type { CurrentWorkspace } from "@/types/inventory"
+import type { WorkspaceUsage } from "@/types/rightsizing"
+
+/**
+ * Server-side reads of a WorkSpaces environment: the WorkSpaces of a region, their connection
+ * status and their UserConnected, CPUUsage and MemoryUsage metrics from CloudWatch.
+ */
+
+// A calendar month, e.g. { label: "2026-07", start: July 1st, end: August 1st } in UTC
+export interface UsageMonth {
+  label: string
+  start: Date
+  end: Date
+}
+
+// DescribeWorkspacesConnectionStatus accepts at most 25 WorkSpace ids per call
+const CONNECTION_STATUS_BATCH_SIZE = 25
+
+// Three queries per WorkSpace, GetMetricData accepts at most 500 queries per call
+const METRICS_BATCH_SIZE = 50
+
+const METRIC_PERIOD_SECONDS = 3600
+
+// A year of hourly UserConnected datapoints is 8,760 per WorkSpace, GetMetricData pages past 100,800 datapoints
+const MONTHLY_METRICS_BATCH_SIZE = 20
+
+// CloudWatch part of a WorkspaceUsage
+export type WorkspaceMetrics = Omit<WorkspaceUsage, "workspaceId" | "connectionState" | "lastKnownUserConnectionTimestamp">
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+// 95th percentile, nearest-rank
+function percentile95(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.max(0, Math.ceil(sorted.length * 0.95) - 1)]
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+/**
+ * Regions of a ?regions=us-east-1,eu-west-1 query, the server's AWS_REGION when not given
+ */
+export function getRequestedRegions(request: Request): string[] {
+  const regionsParam = new URL(request.url).searchParams.get("regions")
+  return regionsParam
+    ? Array.from(new Set(regionsParam.split(",").map(region => region.trim()).filter(Boolean)))
+    : [process.env.AWS_REGION || "us-east-1"]
+}
+
+/**
+ * Lists every WorkSpace of a region, following NextToken across pages
+ */
+export async function describeAllWorkspaces(region: string): Promise<CurrentWorkspace[]> {
+  const client = getWorkspacesClient(region)
+  const workspaces: Workspace[] = []
+  let nextToken: string | undefined
+
+  do {
+    const response = await executeAwsCommand(
+      client.send(new DescribeWorkspacesCommand({ NextToken: nextToken })),
+      `Failed to fetch current workspaces in ${region}`,
+    )
+    workspaces.push(...(response.Workspaces || []))
+    nextToken = response.NextToken
+  } while (nextToken)
+
+  return workspaces.map((workspace) => ({
+    id: workspace.WorkspaceId,
+    username: workspace.UserName,
+    state: workspace.State,
+    bundleId: workspace.BundleId,
+    directoryId: workspace.DirectoryId,
+    region,
+    computeTypeName: workspace.WorkspaceProperties?.ComputeTypeName,
+    rootVolumeSizeGib: workspace.WorkspaceProperties?.RootVolumeSizeGib,
+    userVolumeSizeGib: workspace.WorkspaceProperties?.UserVolumeSizeGib,
+    runningMode: workspace.WorkspaceProperties?.RunningMode,
+    operatingSystemName: workspace.WorkspaceProperties?.OperatingSystemName,
+  }))
+}
+
+/**
+ * Connection state and last user connection of the WorkSpaces, by WorkSpace id
+ */
+export async function describeConnectionStatus(
+  region: string,
+  workspaceIds: string[]
+): Promise<Map<string, WorkspaceConnectionStatus>> {
+  const client = getWorkspacesClient(region)
+  const statuses = new Map<string, WorkspaceConnectionStatus>()
+
+  for (const ids of chunk(workspaceIds, CONNECTION_STATUS_BATCH_SIZE)) {
+    let nextToken: string | undefined
+    do {
+      const response = await executeAwsCommand(
+        client.send(new DescribeWorkspacesConnectionStatusCommand({ WorkspaceIds: ids, NextToken: nextToken })),
+        `Failed to fetch WorkSpaces connection status in ${region}`,
+      )
+      for (const status of response.WorkspacesConnectionStatus || []) {
+        if (status.WorkspaceId) {
+          statuses.set(status.WorkspaceId, status)
+        }
+      }
+      nextToken = response.NextToken
+    } while (nextToken)
+  }
+
+  return statuses
+}
+
+/**
+ * Hourly UserConnected, CPUUsage and MemoryUsage of the WorkSpaces over the last days,
+ * summarized per WorkSpace. Metrics with no datapoints are reported as null.
+ */
+export async function getWorkspaceMetrics(
+  region: string,
+  workspaceIds: string[],
+  lookbackDays: number,
+  endTime = new Date()
+): Promise<Map<string, WorkspaceMetrics>> {
+  const client = getCloudWatchClient(region)
+  const startTime = new Date(endTime.getTime() - lookbackDays * 24 * 3600 * 1000)
+  const metrics = new Map<string, WorkspaceMetrics>()
+
+  for (const ids of chunk(workspaceIds, METRICS_BATCH_SIZE)) {
+    // Query ids must start with a lowercase letter: c0/p0/m0 for the first WorkSpace of the batch
+    const queries: MetricDataQuery[] = ids.flatMap((workspaceId, index) => [
+      { id: `c${index}`, metricName: "UserConnected", stat: "Maximum" },
+      { id: `p${index}`, metricName: "CPUUsage", stat: "Average" },
+      { id: `m${index}`, metricName: "MemoryUsage", stat: "Average" },
+    ].map(query => ({
+      Id: query.id,
+      MetricStat: {
+        Metric: {
+          Namespace: "AWS/WorkSpaces",
+          MetricName: query.metricName,
+          Dimensions: [{ Name: "WorkspaceId", Value: workspaceId }]
+        },
+        Period: METRIC_PERIOD_SECONDS,
+        Stat: query.stat
+      }
+    })))
+
+    const values = new Map<string, number[]>()
+    let nextToken: string | undefined
+    do {
+      const response = await executeAwsCommand(
+        client.send(new GetMetricDataCommand({
+          MetricDataQueries: queries,
+          StartTime: startTime,
+          EndTime: endTime,
+          NextToken: nextToken
+        })),
+        `Failed to fetch WorkSpaces metrics in ${region}`,
+      )
+      for (const result of response.MetricDataResults || []) {
+        if (result.Id) {
+          values.set(result.Id, [...(values.get(result.Id) || []), ...(result.Values || [])])
+        }
+      }
+      nextToken = response.NextToken
+    } while (nextToken)
+
+    ids.forEach((workspaceId, index) => {
+      const connected = values.get(`c${index}`) || []
+      const cpu = values.get(`p${index}`) || []
+      const memory = values.get(`m${index}`) || []
+      metrics.set(workspaceId, {
+        // UserConnected is 1 while a user is connected, so the hourly maximum marks connected hours
+        connectedHours: connected.length > 0 ? connected.filter(value => value >= 1).length : null,
+        cpuAverage: cpu.length > 0 ? average(cpu) : null,
+        cpuP95: cpu.length > 0 ? percentile95(cpu) : null,
+        memoryAverage: memory.length > 0 ? average(memory) : null,
+        memoryP95: memory.length > 0 ? percentile95(memory) : null,
+      })
+    })
+  }
+
+  return metrics
+}
+
+/**
+ * The last complete calendar months before the current one, oldest first
+ */
+export function getCompleteMonths(count: number, now = new Date()): UsageMonth[] {
+  return Array.from({ length: count }, (_, index) => {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - count + index, 1))
+    const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+    return { label: start.toISOString().slice(0, 7), start, end }
+  })
+}
+
+/**
+ * Hours with a user connected in each of the months, per WorkSpace and in the order of the
+ * months. WorkSpaces CloudWatch has no UserConnected data for are left out.
+ */
+export async function getMonthlyConnectedHours(
+  region: string,
+  workspaceIds: string[],
+  months: UsageMonth[]
+): Promise<Map<string, number[]>> {
+  const client = getCloudWatchClient(region)
+  const connectedHours = new Map<string, number[]>()
+  if (months.length === 0) {
+    return connectedHours
+  }
+
+  for (const ids of chunk(workspaceIds, MONTHLY_METRICS_BATCH_SIZE)) {
+    const queries: MetricDataQuery[] = ids.map((workspaceId, index) => ({
+      Id: `c${index}`,
+      MetricStat: {
+        Metric: {
+          Namespace: "AWS/WorkSpaces",
+          MetricName: "UserConnected",
+          Dimensions: [{ Name: "WorkspaceId", Value: workspaceId }]
+        },
+        Period: METRIC_PERIOD_SECONDS,
+        Stat: "Maximum"
+      }
+    }))
+
+    const hours = new Map<string, number[]>()
+    let nextToken: string | undefined
+    do {
+      const response = await executeAwsCommand(
+        client.send(new GetMetricDataCommand({
+          MetricDataQueries: queries,
+          StartTime: months[0].start,
+          EndTime: months[months.length - 1].end,
+          NextToken: nextToken
+        })),
+        `Failed to fetch WorkSpaces connection metrics in ${region}`,
+      )
+      for (const result of response.MetricDataResults || []) {
+        if (!result.Id) continue
+        const values = result.Values || []
+        const timestamps = result.Timestamps || []
+        if (values.length === 0) continue
+
+        const monthHours = hours.get(result.Id) || months.map(() => 0)
+        values.forEach((value, index) => {
+          const timestamp = timestamps[index]
+          const monthIndex = timestamp ? months.findIndex(month => timestamp >= month.start && timestamp < month.end) : -1
+          // The hourly maximum of UserConnected is 1 for every hour a user was connected
+          if (monthIndex >= 0 && value >= 1) {
+            monthHours[monthIndex]++
+          }
+        })
+        hours.set(result.Id, monthHours)
+      }
+      nextToken = response.NextToken
+    } while (nextToken)
+
+    ids.forEach((workspaceId, index) => {
+      const monthHours = hours.get(`c${index}`)
+      if (monthHours) {
+        connectedHours.set(workspaceId, monthHours)
+      }
+    })
+  }
+
+  return connectedHours
+}
@@ -0,0 +1,60 @@
+/**
+ * Captures a new versioned price book from calculator.aws.
+ *
+ * Usage:
+ *   npm run pricing:capture
+ *   npm run pricing:capture -- --region "US East (N. Virginia)" --calculator workspaces-core-calc
+ *
+ * Options (repeatable):
+ *   --region <name>        Only capture this calculator.aws region name
+ *   --calculator <name>    Only capture this calculator
+ *   --concurrency <n>      Number of parallel document requests (default 4)
+ */
+import { capturePriceBook, getPriceBookPath } from "@/lib/price-books"
+
+function parseArgs(args: string[]) {
+  const regions: string[] = []
+  const calculators: string[] = []
+  let concurrency: number | undefined
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1]
+    switch (args[i]) {
+      case "--region":
+        regions.push(value)
+        i++
+        break
+      case "--calculator":
+        calculators.push(value)
+        i++
+        break
+      case "--concurrency":
+        concurrency = parseInt(value, 10)
+        i++
+        break
+      default:
+        throw new Error(`Unknown argument: ${args[i]}`)
+    }
+  }
+
+  return {
+    regions: regions.length > 0 ? regions : undefined,
+    calculators: calculators.length > 0 ? calculators : undefined,
+    concurrency: concurrency && !isNaN(concurrency) ? concurrency : undefined,
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const manifest = await capturePriceBook(options)
+
+  console.log(`Saved price book ${manifest.version} to ${getPriceBookPath(manifest.version)}`)
+  if (manifest.failedDocuments.length > 0) {
+    console.warn(`${manifest.failedDocuments.length} documents could not be captured, see manifest.json`)
+  }
+}
+
+main().catch(error => {
+  console.error("Price book capture failed:", error)
+  process.exit(1)
+})
@@ -0,0 +1,170 @@
+/**
+ * Local stub of the WorkSpaces and CloudWatch APIs the environment analysis reads
+ * (DescribeWorkspaces, DescribeWorkspacesConnectionStatus, GetMetricData), for trying
+ * "Analyze my environment", rightsizing and running mode plans without an AWS account.
+ * Serves a small inventory per region, two WorkSpaces per page so NextToken pagination is
+ * exercised, with hourly metrics generated from a usage profile per WorkSpace. Other
+ * regions answer with AccessDeniedException.
+ *
+ * Usage:
+ *   npm run workspaces:stub
+ *   WORKSPACES_ENDPOINT=http://localhost:4599 CLOUDWATCH_ENDPOINT=http://localhost:4599 \
+ *     AWS_ACCESS_KEY_ID=stub AWS_SECRET_ACCESS_KEY=stub npm run dev
+ *
+ * Options:
+ *   --port <n>   Port to listen on (default 4599)
+ */
+import { createServer } from "http"
+
+const PAGE_SIZE = 2
+
+// Weekday hours a user is connected from 9:00, and CPU/memory percentages while connected
+interface UsageProfile {
+  hoursPerWeekday: number
+  cpu: number
+  memory: number
+  // Busy months (0-11, UTC) with longer days, e.g. a quarter-end close
+  peakMonths?: number[]
+  peakHoursPerWeekday?: number
+}
+
+interface StubWorkspace {
+  WorkspaceId: string
+  UserName: string
+  State: string
+  BundleId: string
+  DirectoryId: string
+  WorkspaceProperties: Record<string, string | number>
+}
+
+const USAGE = new Map<string, UsageProfile>()
+
+function createWorkspaces(count: number, properties: Record<string, string | number>, usage: UsageProfile): StubWorkspace[] {
+  return Array.from({ length: count }, (_, index) => {
+    const id = `ws-${properties.ComputeTypeName}-${properties.RunningMode}-${index}`.toLowerCase().replace(/_/g, "")
+    USAGE.set(id, usage)
+    return {
+      WorkspaceId: id,
+      UserName: `user${index + 1}`,
+      State: "AVAILABLE",
+      BundleId: "wsb-stub",
+      DirectoryId: "d-stub",
+      WorkspaceProperties: properties
+    }
+  })
+}
+
+const INVENTORY: Record<string, StubWorkspace[]> = {
+  "us-east-1": [
+    // Part-time users on AlwaysOn: AutoStop (or a pool) is cheaper
+    ...createWorkspaces(3, { ComputeTypeName: "STANDARD", RootVolumeSizeGib: 80, UserVolumeSizeGib: 50, RunningMode: "ALWAYS_ON", OperatingSystemName: "WINDOWS_SERVER_2022" },
+      { hoursPerWeekday: 3, cpu: 45, memory: 60 }),
+    // Heavy users on AutoStop: AlwaysOn is cheaper
+    ...createWorkspaces(2, { ComputeTypeName: "STANDARD", RootVolumeSizeGib: 80, UserVolumeSizeGib: 50, RunningMode: "AUTO_STOP", OperatingSystemName: "WINDOWS_SERVER_2022" },
+      { hoursPerWeekday: 14, cpu: 50, memory: 65 }),
+    // Seasonal users on AutoStop: AlwaysOn is cheaper in the last month of each quarter only
+    ...createWorkspaces(2, { ComputeTypeName: "PERFORMANCE", RootVolumeSizeGib: 80, UserVolumeSizeGib: 100, RunningMode: "AUTO_STOP", OperatingSystemName: "WINDOWS_SERVER_2022" },
+      { hoursPerWeekday: 3, cpu: 40, memory: 55, peakMonths: [2, 5, 8, 11], peakHoursPerWeekday: 15 }),
+    // Oversized: downsize
+    ...createWorkspaces(1, { ComputeTypeName: "POWER", RootVolumeSizeGib: 175, UserVolumeSizeGib: 100, RunningMode: "ALWAYS_ON", OperatingSystemName: "WINDOWS_11" },
+      { hoursPerWeekday: 9, cpu: 12, memory: 30 }),
+  ],
+  "eu-west-1": [
+    // Undersized: upsize
+    ...createWorkspaces(4, { ComputeTypeName: "VALUE", RootVolumeSizeGib: 80, UserVolumeSizeGib: 10, RunningMode: "AUTO_STOP", OperatingSystemName: "AMAZON_LINUX_2" },
+      { hoursPerWeekday: 8, cpu: 92, memory: 88 }),
+  ],
+}
+
+const WORKSPACES = Object.values(INVENTORY).flat()
+
+// Hourly datapoints of a metric between two epoch-second timestamps
+function getMetricValues(workspaceId: string, metricName: string, start: number, end: number) {
+  const usage = USAGE.get(workspaceId)
+  const timestamps: number[] = []
+  const values: number[] = []
+  if (!usage) {
+    return { timestamps, values }
+  }
+
+  for (let time = Math.ceil(start / 3600) * 3600; time < end; time += 3600) {
+    const date = new Date(time * 1000)
+    const isWeekday = date.getUTCDay() >= 1 && date.getUTCDay() <= 5
+    const hoursPerWeekday = usage.peakMonths?.includes(date.getUTCMonth())
+      ? usage.peakHoursPerWeekday ?? usage.hoursPerWeekday
+      : usage.hoursPerWeekday
+    const connected = isWeekday && date.getUTCHours() >= 9 && date.getUTCHours() < 9 + hoursPerWeekday
+    timestamps.push(time)
+    if (metricName === "UserConnected") {
+      values.push(connected ? 1 : 0)
+    } else if (metricName === "CPUUsage") {
+      values.push(connected ? usage.cpu : 2)
+    } else {
+      values.push(connected ? usage.memory : usage.memory / 2)
+    }
+  }
+  return { timestamps, values }
+}
+
+function handle(target: string, region: string, input: any): [number, unknown] {
+  const inventory = INVENTORY[region]
+  if (!inventory) {
+    return [400, { __type: "AccessDeniedException", message: `Stub has no data in ${region}` }]
+  }
+
+  switch (target) {
+    case "WorkspacesService.DescribeWorkspaces": {
+      const start = parseInt(input.NextToken || "0", 10)
+      const end = start + PAGE_SIZE
+      return [200, {
+        Workspaces: inventory.slice(start, end),
+        NextToken: end < inventory.length ? String(end) : undefined
+      }]
+    }
+    case "WorkspacesService.DescribeWorkspacesConnectionStatus": {
+      const now = Date.now() / 1000
+      return [200, {
+        WorkspacesConnectionStatus: (input.WorkspaceIds || []).map((id: string) => ({
+          WorkspaceId: id,
+          ConnectionState: "DISCONNECTED",
+          ConnectionStateCheckTimestamp: now,
+          LastKnownUserConnectionTimestamp: now - 86400
+        }))
+      }]
+    }
+    case "GraniteServiceVersion20100801.GetMetricData": {
+      return [200, {
+        MetricDataResults: (input.MetricDataQueries || []).map((query: any) => {
+          const metric = query.MetricStat.Metric
+          const workspaceId = metric.Dimensions.find((dimension: any) => dimension.Name === "WorkspaceId")?.Value
+          const { timestamps, values } = getMetricValues(workspaceId, metric.MetricName, input.StartTime, input.EndTime)
+          return { Id: query.Id, Label: metric.MetricName, Timestamps: timestamps, Values: values, StatusCode: "Complete" }
+        })
+      }]
+    }
+    default:
+      return [400, { __type: "UnknownOperationException", message: `Stub does not implement ${target}` }]
+  }
+}
+
+const portIndex = process.argv.indexOf("--port")
+const port = portIndex >= 0 ? parseInt(process.argv[portIndex + 1], 10) : 4599
+
+createServer((request, response) => {
+  let body = ""
+  request.on("data", chunk => body += chunk)
+  request.on("end", () => {
+    // The region is part of the SigV4 credential scope: Credential=<key>/<date>/<region>/<service>/aws4_request
+    const region = request.headers.authorization?.match(/\/([a-z0-9-]+)\/(?:workspaces|monitoring)\//)?.[1] || ""
+    const target = String(request.headers["x-amz-target"] || "")
+    const input = body ? JSON.parse(body) : {}
+    console.log(`${target} ${region} NextToken=${input.NextToken ?? "-"}`)
+
+    const [status, output] = handle(target, region, input)
+    response.statusCode = status
+    response.setHeader("Content-Type", target.startsWith("Granite") ? "application/x-amz-json-1.0" : "application/x-amz-json-1.1")
+    response.end(JSON.stringify(output))
+  })
+}).listen(port, () => {
+  console.log(`WorkSpaces stub listening on http://localhost:${port} (${WORKSPACES.length} WorkSpaces in ${Object.keys(INVENTORY).join(", ")})`)
+})
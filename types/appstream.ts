@@ -1,3 +1,25 @@
+import type { DiscountSettings } from "./discounts";
+
+// vCPU and memory one streaming user needs on a multi-session instance
+export interface AppStreamUserResources {
+  vCpuPerUser: number;
+  memoryGibPerUser: number;
+}
+
+// Optional monthly costs besides the fleet; components left empty or at 0 are not priced
+export interface AppStreamComponents {
+  // Hours image builders run to create and update images
+  imageBuilderHours?: number;
+  // Home folder files stored in S3, in GB per user
+  homeFolderGbPerUser?: number;
+  // Application settings persistence VHDs stored in S3, in GB per user
+  appSettingsGbPerUser?: number;
+  // S3 requests made syncing home folders and settings, per user
+  storageRequestsPerUser?: number;
+  // Internet data transfer out of the fleet instances, in GB per user; the streaming traffic itself is free
+  dataTransferOutGbPerUser?: number;
+}
+
 export interface AppStreamUsagePattern {
   weekdayDaysCount: number;
   weekdayPeakHoursPerDay: number;
@@ -8,3 +30,33 @@ export interface AppStreamUsagePattern {
   weekendOffPeakConcurrentUsers: number;
   weekendPeakConcurrentUsers: number;
 }
+
+// Request body of POST /api/pricing/appstream/estimate
+export interface AppStreamEstimateRequest {
+  region: string;
+  instanceType: string;
+  instanceFamily: string;
+  instanceFunction: string;
+  operatingSystem: string;
+  multiSession?: string;
+  // Sessions sharing one instance on multi-session fleets
+  usersPerInstance?: number;
+  userResources?: AppStreamUserResources;
+  components?: AppStreamComponents;
+  usagePattern?: string;
+  usageHours?: number;
+  userCount?: number;
+  bufferFactor?: number;
+  includeWeekends?: boolean;
+  weekdayDaysCount?: number;
+  weekdayPeakHoursPerDay?: number;
+  weekdayPeakConcurrentUsers?: number;
+  weekdayOffPeakConcurrentUsers?: number;
+  weekendDaysCount?: number;
+  weekendPeakHoursPerDay?: number;
+  weekendPeakConcurrentUsers?: number;
+  weekendOffPeakConcurrentUsers?: number;
+  instanceSpecs?: { vcpu?: string; vCPU?: string; memory?: string; videoMemory?: string } | null;
+  priceBookVersion?: string | null;
+  discounts?: DiscountSettings;
+}
@@ -0,0 +1,44 @@
+import type { DiscountService } from "./discounts"
+
+// A negotiated commitment, e.g. a private pricing agreement: a discount off list prices in
+// exchange for committing to a yearly spend with AWS over a term
+export interface CommitmentTier {
+  name: string
+  // Spend per year in USD the customer commits to, paid even when usage stays below it
+  annualCommitment: number
+  // Discount off list prices, 0-100
+  discountPercent: number
+  termYears: number
+}
+
+// Where the price of a commitment option comes from: AWS list prices, or a tier the user entered
+export type CommitmentSource = "aws-list-price" | "negotiated"
+
+// One way of paying for the estimate
+export interface CommitmentOption {
+  id: string
+  label: string
+  source: CommitmentSource
+  // The rates or agreement the price is based on, e.g. "AWS Pricing API, AlwaysOn rates of Standard"
+  sourceDescription: string
+  // What the option is and how it was priced
+  explanation: string
+  // Monthly and annual cost, null when the option couldn't be priced
+  monthlyCost: number | null
+  annualCost: number | null
+  // Annual cost of the estimate at list prices minus the option's, negative when the option costs more
+  annualSavings: number | null
+  // Commitment term in years, 0 when there is none
+  termYears: number
+  // Whether the estimate is priced this way
+  current: boolean
+}
+
+// Commitment options of an estimate, compared at list prices before any discounts
+export interface CommitmentAnalysis {
+  service: DiscountService
+  listMonthlyCost: number
+  options: CommitmentOption[]
+  // Commitment programs AWS doesn't offer for the service, so they aren't options
+  notOffered: string[]
+}
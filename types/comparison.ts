@@ -0,0 +1,21 @@
+// Product options a comparison can put side by side
+export type ComparisonScenarioId = "core-always-on" | "core-auto-stop" | "pool" | "appstream"
+
+// The user population every compared scenario is sized for
+export interface ComparisonPopulation {
+  region: string
+  userCount: number
+  license: string
+  coreBundleId: string
+  poolBundleId: string
+  appStreamInstanceType: string
+  // Expected usage of each AutoStop WorkSpace
+  autoStopHoursPerUser: number
+}
+
+// One line item description across the compared scenarios, null where a scenario doesn't have it
+export interface ComparisonLineItemRow {
+  description: string
+  unit: string
+  costs: (number | null)[]
+}
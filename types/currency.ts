@@ -0,0 +1,30 @@
+// Exchange rates from USD, the currency calculator.aws publishes its prices in
+export interface ExchangeRateTable {
+  // Date the rates apply from, e.g. "2025-01-15"
+  effectiveDate: string
+  // Units of each currency per USD, e.g. { EUR: 0.92, JPY: 151.4 }
+  rates: Record<string, number>
+}
+
+export interface CurrencyInfo {
+  // ISO 4217 code, e.g. "EUR"
+  code: string
+  name: string
+  // Locale the amounts are formatted with, e.g. "de-DE"
+  locale: string
+}
+
+// Currency estimates are shown in, with the rate they were converted at
+export interface DisplayCurrency {
+  code: string
+  // Units per USD
+  rate: number
+  effectiveDate: string
+}
+
+// Response of GET /api/config/currencies
+export interface CurrencyOptions {
+  // Currencies the exchange-rate table has a rate for, USD first
+  currencies: CurrencyInfo[]
+  exchangeRates: ExchangeRateTable
+}
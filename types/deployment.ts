@@ -0,0 +1,63 @@
+import type { AppStreamEstimateRequest } from "./appstream"
+import type { DiscountSettings, EstimateDiscount } from "./discounts"
+import type { PricingLineItem, WorkSpaceConfig } from "./workspace"
+
+// Calculator that prices a deployment group
+export type DeploymentGroupType = "core" | "pool" | "appstream"
+
+// A named set of users priced with its own configuration, e.g. "Call center"
+export interface DeploymentGroup {
+  id: string
+  name: string
+  type: DeploymentGroupType
+  // Used by core and pool groups (pool groups read the pool* fields)
+  workspaceConfig?: WorkSpaceConfig
+  // Used by appstream groups
+  appStreamConfig?: AppStreamEstimateRequest
+}
+
+// A mixed fleet quoted as one estimate
+export interface Deployment {
+  name: string
+  groups: DeploymentGroup[]
+  // Applied to every group so the whole quote uses the same prices
+  priceBookVersion?: string
+  // Applied to every group, so the whole quote is net of the same customer discounts
+  discounts?: DiscountSettings
+}
+
+export interface DeploymentGroupEstimate {
+  groupId: string
+  name: string
+  type: DeploymentGroupType
+  userCount: number
+  bundleName: string
+  monthlyCost: number
+  annualCost: number
+  costPerUser: number
+  pricingSource?: string
+  lineItems: PricingLineItem[]
+  discount?: EstimateDiscount
+  // Price book the group was priced from, the same for every group of a deployment
+  priceBook?: {
+    version: string
+    capturedAt: string | null
+  }
+  // Set when the group could not be priced, such groups are left out of the totals
+  error?: string
+}
+
+// Estimate returned from POST /api/pricing/deployment/estimate
+export interface DeploymentEstimate {
+  name: string
+  groups: DeploymentGroupEstimate[]
+  totalUsers: number
+  totalMonthlyCost: number
+  annualEstimate: number
+  // List and net totals of the priced groups, when any of them is discounted
+  discount?: Pick<EstimateDiscount, "listMonthlyCost" | "netMonthlyCost" | "discountAmount">
+  priceBook?: {
+    version: string
+    capturedAt: string | null
+  }
+}
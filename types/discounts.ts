@@ -0,0 +1,46 @@
+import type { CommitmentTier } from "./commitments"
+import type { PricingLineItemKind } from "./workspace"
+
+// Services a discount or negotiated rate applies to
+export type DiscountService = "core" | "pools" | "appstream"
+
+// Discounts of a customer agreement, applied on top of list prices. Percentages are 0-100.
+export interface DiscountSettings {
+  // Enterprise Discount Program percentage, applies to every service
+  edpPercent?: number
+  // Private pricing discount per service, applied before the EDP
+  servicePercents?: Partial<Record<DiscountService, number>>
+  // Negotiated commitments to compare with paying list prices, not applied to the estimate
+  commitmentTiers?: CommitmentTier[]
+}
+
+// A negotiated unit price that replaces the list price of one bundle's line items
+export interface PriceOverride {
+  service: DiscountService
+  // Bundle id or name, e.g. "standard", "pool-power" or "stream.standard.medium"
+  bundle: string
+  // Unit of the line items it replaces, e.g. "WorkSpace-Month", "Hour" or "User-Month"
+  unit: string
+  unitPrice: number
+  // Kind of the line items it replaces, "compute" when omitted, so a bundle's hourly rate
+  // doesn't also replace the stopped buffer or image builder rate
+  kind?: PricingLineItemKind
+  // AWS rate code of the line item it replaces, matched instead of the kind when set
+  rateCode?: string
+  // Region code, every region when omitted
+  region?: string
+  // Running mode of Core bundles, both modes when omitted
+  runningMode?: string
+}
+
+// List and net totals of a discounted estimate
+export interface EstimateDiscount {
+  listMonthlyCost: number
+  netMonthlyCost: number
+  // List minus net, including the savings of negotiated rates
+  discountAmount: number
+  edpPercent: number
+  servicePercent: number
+  // Number of line items priced at a negotiated rate
+  negotiatedRates: number
+}
@@ -0,0 +1,40 @@
+import type { AppStreamShareState, WorkSpacesShareState } from "@/lib/share-state"
+import type { DisplayCurrency } from "./currency"
+import type { PricingEstimate } from "./workspace"
+
+// Calculator an estimate was saved from
+export type SavedEstimateType = "workspaces" | "appstream"
+
+// A named scenario: the calculator settings and the estimate they produced
+export interface SavedEstimate {
+  id: string
+  name: string
+  type: SavedEstimateType
+  // WorkSpaceConfig with its Core/Pool tab, for WorkSpaces estimates
+  workspaces?: WorkSpacesShareState
+  // AppStream calculator settings, for AppStream estimates
+  appstream?: AppStreamShareState
+  estimate: PricingEstimate
+  createdAt: string
+  updatedAt: string
+}
+
+// Body of POST /api/estimates
+export type SavedEstimateInput = Pick<SavedEstimate, "name" | "type" | "workspaces" | "appstream" | "estimate">
+
+export type EstimateExportFormat = "csv" | "xlsx"
+
+// One input an estimate was calculated from, e.g. { label: "Region", value: "US East (N. Virginia)" }
+export interface EstimateAssumption {
+  label: string
+  value: string
+}
+
+// Body of POST /api/estimates/export
+export interface EstimateExportRequest {
+  name?: string
+  assumptions: EstimateAssumption[]
+  estimate: PricingEstimate
+  // Local currency shown next to the USD amounts, omitted for USD only
+  currency?: DisplayCurrency
+}
@@ -0,0 +1,41 @@
+// One WorkSpace as listed by GET /api/user/current-workspaces
+export interface CurrentWorkspace {
+  id?: string
+  username?: string
+  state?: string
+  bundleId?: string
+  directoryId?: string
+  // Region the WorkSpace was listed from
+  region: string
+  // e.g. "STANDARD", "GRAPHICS_G4DN"
+  computeTypeName?: string
+  rootVolumeSizeGib?: number
+  userVolumeSizeGib?: number
+  // "ALWAYS_ON", "AUTO_STOP" or "MANUAL"
+  runningMode?: string
+  // e.g. "WINDOWS_SERVER_2022", "AMAZON_LINUX_2"
+  operatingSystemName?: string
+}
+
+// Response of GET /api/user/current-workspaces
+export interface WorkspaceInventory {
+  workspaces: CurrentWorkspace[]
+  regions: string[]
+  // Regions that could not be listed, e.g. for lack of permissions
+  errors: { region: string; error: string }[]
+}
+
+// WorkSpaces that share a configuration and are priced together
+export interface InventoryGroup {
+  id: string
+  region: string
+  computeTypeName: string
+  rootVolumeSizeGib: number
+  userVolumeSizeGib: number
+  // Calculator running mode, "always-on" or "auto-stop"
+  runningMode: string
+  // Calculator operating system and license, e.g. "windows" and "included"
+  operatingSystem: string
+  license: string
+  count: number
+}
@@ -0,0 +1,54 @@
+// What the customer runs today
+export type OnPremEnvironmentKind = "vdi" | "physical"
+
+// Current cost of an on-premises VDI or physical-desktop estate, in USD
+export interface OnPremEnvironment {
+  kind: OnPremEnvironmentKind
+  seats: number
+  // Hardware bought per seat at every refresh: VDI host share and thin client, or a laptop
+  hardwareCostPerSeat: number
+  refreshCycleYears: number
+  // Months until the next refresh is due, 0 when it is due now
+  monthsUntilRefresh: number
+  // Citrix or VMware Horizon subscription per seat and year
+  brokerLicensePerSeatPerYear: number
+  // Windows VDA (or Microsoft 365 E3/E5 VDA rights) per seat and year
+  windowsVdaPerSeatPerYear: number
+  // Datacenter power, cooling and rack space per month
+  datacenterCostPerMonth: number
+  adminFtes: number
+  // Fully loaded cost of one admin FTE per year
+  annualCostPerFte: number
+}
+
+// What moving to the cloud estimate takes, on top of its monthly cost
+export interface CloudMigration {
+  // Admin FTEs still needed once migrated
+  adminFtes: number
+  // One-time migration cost, paid in the first month
+  oneTimeCost: number
+}
+
+export interface OnPremComparisonMonth {
+  // Month of the comparison, starting at 1
+  month: number
+  onPremCost: number
+  cloudCost: number
+  onPremCumulative: number
+  cloudCumulative: number
+}
+
+// Cumulative on-premises and cloud cost of the same users, month by month
+export interface OnPremComparison {
+  months: OnPremComparisonMonth[]
+  // On-premises cost per month with the hardware spread over its refresh cycle
+  onPremMonthlyCost: number
+  cloudMonthlyCost: number
+  // First month from which the cloud's cumulative cost stays at or below on-premises, null if it never does
+  breakevenMonth: number | null
+  onPremTotal: number
+  cloudTotal: number
+  // On-premises total minus cloud total over the whole comparison, negative when the cloud costs more
+  savings: number
+  savingsPercent: number
+}
@@ -0,0 +1,47 @@
+// How a WorkSpaces Pool scales with its sessions, applied once per hour of the simulated week
+export interface PoolScalingPolicy {
+  // Running instances the pool never scales below
+  minCapacity: number
+  // Running instances the pool never scales above, 0 for no limit
+  maxCapacity: number
+  // Scale out when less than this percentage (0-99) of the running instances is free
+  scaleOutThresholdPercent: number
+  // Instances added per scale-out step
+  scaleOutIncrement: number
+  // Scale in when more than this percentage of the running instances is free
+  scaleInThresholdPercent: number
+  // Share of the running instances removed per hour while scaling in, at least one instance
+  scaleInPercentPerHour: number
+  // Stopped instances kept ready for scale-out, as a percentage of the running instances
+  bufferCapacityPercent: number
+  // Minutes a disconnected session keeps its instance before it is released
+  disconnectTimeoutMinutes: number
+}
+
+// One hour of the simulated week
+export interface PoolSimulationHour {
+  // Hour of the week, 0 is Monday 00:00
+  hour: number
+  // Connected users in the hour
+  demand: number
+  // Connected users plus sessions still held after a disconnect
+  sessions: number
+  runningInstances: number
+  stoppedBufferInstances: number
+}
+
+// Pool capacity over a week of hourly demand; hour totals are monthly (the week times WEEKS_PER_MONTH)
+export interface PoolSimulation {
+  hours: PoolSimulationHour[]
+  peakRunningInstances: number
+  // Running instance hours, billed at the streaming rate
+  provisionedInstanceHours: number
+  // Running instance hours that carried a session
+  sessionHours: number
+  // Running instance hours without a session, kept free by the scaling policy
+  idleInstanceHours: number
+  // Stopped buffer instance hours, billed at the stopped instance rate
+  stoppedBufferHours: number
+  // Session hours that found no instance because of the maximum capacity
+  unservedSessionHours: number
+}
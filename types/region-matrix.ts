@@ -0,0 +1,42 @@
+import type { AppStreamEstimateRequest } from "./appstream"
+import type { DeploymentGroupType } from "./deployment"
+import type { WorkSpaceConfig } from "./workspace"
+
+// Request body of POST /api/pricing/region-matrix: one configuration to price in every region
+export interface RegionMatrixRequest {
+  type: DeploymentGroupType
+  // Used by core and pool configurations
+  workspaceConfig?: WorkSpaceConfig
+  // Used by appstream configurations
+  appStreamConfig?: AppStreamEstimateRequest
+  // Region the deltas are measured against
+  homeRegion: string
+  priceBookVersion?: string
+}
+
+export interface RegionMatrixRow {
+  region: string
+  // AWS pricing location, e.g. "US East (N. Virginia)"
+  regionName: string
+  bundleName: string
+  monthlyCost: number
+  annualCost: number
+  costPerUser: number
+  pricingSource?: string
+  // Monthly cost minus the home region's, null when either could not be priced
+  deltaToHome: number | null
+  deltaPercent: number | null
+  // Set when the configuration could not be priced in the region, e.g. not offered there
+  error?: string
+}
+
+// Response of POST /api/pricing/region-matrix, cheapest region first
+export interface RegionMatrix {
+  type: DeploymentGroupType
+  homeRegion: string
+  rows: RegionMatrixRow[]
+  priceBook?: {
+    version: string
+    capturedAt: string | null
+  }
+}
@@ -0,0 +1,56 @@
+import type { CurrentWorkspace } from "./inventory"
+
+// Change recommended for a WorkSpace
+export type RightsizingAction =
+  | "switch-to-auto-stop"
+  | "switch-to-always-on"
+  | "downsize"
+  | "upsize"
+  | "move-to-pool"
+
+// Connection and CloudWatch data of one WorkSpace over the lookback period
+export interface WorkspaceUsage {
+  workspaceId: string
+  // "CONNECTED", "DISCONNECTED" or "UNKNOWN", from DescribeWorkspacesConnectionStatus
+  connectionState?: string
+  lastKnownUserConnectionTimestamp?: string | null
+  // Hours with a user connected (UserConnected), null when CloudWatch had no data
+  connectedHours: number | null
+  // Hourly CPUUsage and MemoryUsage percentages, null when not reported
+  cpuAverage: number | null
+  cpuP95: number | null
+  memoryAverage: number | null
+  memoryP95: number | null
+}
+
+export interface RightsizingRecommendation {
+  action: RightsizingAction
+  // e.g. "Standard, AlwaysOn" -> "Standard, AutoStop"
+  currentConfiguration: string
+  recommendedConfiguration: string
+  currentMonthlyCost: number
+  recommendedMonthlyCost: number
+  // Negative when the change costs more, e.g. an upsize
+  monthlySavings: number
+  reason: string
+}
+
+export interface WorkspaceRightsizing {
+  workspace: CurrentWorkspace
+  usage: WorkspaceUsage | null
+  // Connected hours scaled to a month, null without usage data
+  projectedMonthlyHours: number | null
+  currentMonthlyCost: number | null
+  recommendations: RightsizingRecommendation[]
+  // Why the WorkSpace could not be analyzed, e.g. an unpriced compute type
+  error?: string
+}
+
+// Response of GET /api/user/rightsizing
+export interface RightsizingReport {
+  lookbackDays: number
+  workspaces: WorkspaceRightsizing[]
+  // Sum of the largest saving of each WorkSpace
+  totalMonthlySavings: number
+  errors: { region: string; error: string }[]
+}
@@ -0,0 +1,80 @@
+import type { InventoryGroup } from "./inventory"
+import type { WorkSpaceConfig } from "./workspace"
+
+// A user of one WorkSpace and the hours they use it, one entry per month
+export interface RunningModeUser {
+  id: string
+  name?: string
+  // Running mode the WorkSpace is on today, "always-on" or "auto-stop"
+  runningMode: string
+  monthlyHours: number[]
+}
+
+export interface RunningModeMonth {
+  hours: number
+  alwaysOnCost: number
+  autoStopCost: number
+  // Cheaper running mode for the month, the current one on a tie
+  optimalRunningMode: string
+}
+
+export interface RunningModeUserPlan {
+  id: string
+  name?: string
+  runningMode: string
+  months: RunningModeMonth[]
+  // Cost of the period on the current running mode and on the optimal mode of each month
+  currentCost: number
+  optimalCost: number
+  savings: number
+  // Running mode changes the optimal assignment takes, starting from the current mode
+  switches: number
+}
+
+// Request body of POST /api/pricing/running-mode
+export interface RunningModePlanRequest {
+  // Bundle configuration shared by the users; the running mode and count are ignored
+  config: WorkSpaceConfig
+  users: RunningModeUser[]
+  // Label of each month, e.g. "2026-07", "Month 1" and on by default
+  months?: string[]
+}
+
+// Response of POST /api/pricing/running-mode
+export interface RunningModePlan {
+  months: string[]
+  bundleName?: string
+  // Core rates of the configuration: AutoStop fixed fee and hourly rate, AlwaysOn monthly price
+  fixedMonthlyFee: number
+  hourlyRate: number
+  alwaysOnMonthlyCost: number
+  // Monthly hours above which AlwaysOn is cheaper
+  breakevenHours: number | null
+  users: RunningModeUserPlan[]
+  currentCost: number
+  optimalCost: number
+  savings: number
+  priceBook?: {
+    version: string
+    capturedAt: string | null
+  }
+}
+
+// Running mode plan of one inventory group
+export interface InventoryRunningModePlan {
+  group: InventoryGroup
+  plan?: RunningModePlan
+  // WorkSpaces of the group CloudWatch had no UserConnected data for, left out of the plan
+  unmeasuredWorkspaces: number
+  error?: string
+}
+
+// Response of GET /api/user/running-mode
+export interface EnvironmentRunningModePlan {
+  months: string[]
+  groups: InventoryRunningModePlan[]
+  currentCost: number
+  optimalCost: number
+  savings: number
+  errors: { region: string; error: string }[]
+}
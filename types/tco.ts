@@ -0,0 +1,51 @@
+// One-time cost of the program, e.g. migration services or image builds
+export interface TcoOneTimeCost {
+  description: string
+  amount: number
+  // Month of the projection it is paid in, starting at 1
+  month: number
+}
+
+// How a deployment grows and prices change over a multi-year program
+export interface TcoAssumptions {
+  // Length of the projection, 1 to 5 years
+  years: number
+  // Users live in the first month; the whole estimate from the start when usersPerMonth is 0
+  initialUsers: number
+  // Users onboarded each month until the planned headcount is reached
+  usersPerMonth: number
+  // Growth of the planned headcount at the start of every year after the first, in percent
+  annualGrowthPercent: number
+  // Change of the cost per user at the start of every year after the first, in percent
+  annualPriceChangePercent: number
+  oneTimeCosts: TcoOneTimeCost[]
+}
+
+export interface TcoMonth {
+  // Month of the projection, starting at 1
+  month: number
+  year: number
+  users: number
+  costPerUser: number
+  recurringCost: number
+  oneTimeCost: number
+  totalCost: number
+  cumulativeCost: number
+}
+
+export interface TcoYear {
+  year: number
+  // Users in the last month of the year
+  users: number
+  recurringCost: number
+  oneTimeCost: number
+  totalCost: number
+}
+
+// Month-by-month cost of an estimate over a multi-year program
+export interface TcoProjection {
+  months: TcoMonth[]
+  years: TcoYear[]
+  totalCost: number
+  oneTimeCost: number
+}
@@ -1,3 +1,7 @@
+import type { CommitmentAnalysis } from "./commitments"
+import type { DiscountSettings, EstimateDiscount } from "./discounts"
+import type { PoolScalingPolicy, PoolSimulation } from "./pool-simulation"
+
 // Configuration options returned from the API
 export interface ConfigOptions {
   regions: {
@@ -82,6 +86,15 @@ export interface PoolUsagePattern {
   weekendPeakHoursPerDay: number;
   weekendOffPeakConcurrentUsers: number;
   weekendPeakConcurrentUsers: number;
+
+  // Cost inputs of the pool estimate, the pricing engine defaults apply when they are not set
+  // Stopped buffer instances kept per concurrent user, as a percentage (DEFAULT_POOL_BUFFER_PERCENT);
+  // a simulated pool uses the buffer capacity of its scaling policy instead
+  bufferPercent?: number;
+  // USD per hour of a stopped buffer instance (POOL_STOPPED_INSTANCE_RATE)
+  stoppedInstanceRate?: number;
+  // USD per user and month of the license-included user license (USER_LICENSE_COST_PER_MONTH)
+  userLicenseCostPerMonth?: number;
 }
 
 // User's WorkSpace configuration
@@ -96,6 +109,10 @@ export interface WorkSpaceConfig {
   runningMode: string
   numberOfWorkspaces: number
   billingOption: string
+  // Expected AutoStop usage per user per month, in hours (defaults to 160)
+  autoStopHoursPerUser?: number
+  // Spread of AutoStop usage across users, takes precedence over autoStopHoursPerUser
+  autoStopUsageDistribution?: AutoStopUsageBand[]
   // Pool specific configurations
   poolRegion?: string
   poolBundleId?: string
@@ -109,8 +126,16 @@ export interface WorkSpaceConfig {
   poolNumberOfUsers?: number
   // Pool usage pattern
   poolUsagePattern?: PoolUsagePattern
+  // Concurrent users per hour of the week as percentages (0-100) of the users, Monday 00:00 first.
+  // When set, the pool is priced by an autoscaling simulation instead of the usage pattern
+  poolDemandProfile?: number[]
+  poolScalingPolicy?: PoolScalingPolicy
   // Flag to indicate pool calculation in API calls
   isPoolCalculation?: boolean
+  // Price book to quote from ("current" or a captured version such as "2025-01-15")
+  priceBookVersion?: string
+  // Customer discounts applied on top of list prices
+  discounts?: DiscountSettings
   // License field used internally by API
   license?: string
   // Internal fields for state management
@@ -118,6 +143,69 @@ export interface WorkSpaceConfig {
   _updateTimestamp?: number;
 }
 
+// Share of users expected to use their AutoStop WorkSpace for a given number of hours per month
+export interface AutoStopUsageBand {
+  hoursPerMonth: number
+  // Percentage (0-100) of users in this band
+  percentOfUsers: number
+}
+
+// AutoStop billing split into its fixed and hourly parts, compared against AlwaysOn
+export interface AutoStopAnalysis {
+  fixedMonthlyFee: number
+  hourlyRate: number
+  // Average billed hours per WorkSpace per month
+  hoursPerUser: number
+  // Monthly AlwaysOn price of the same configuration, null when it could not be priced
+  alwaysOnMonthlyCost: number | null
+  // Monthly hours above which AlwaysOn is cheaper than AutoStop
+  breakevenHours: number | null
+  // Number of WorkSpaces expected to run past the breakeven
+  usersAboveBreakeven: number | null
+}
+
+// What a line item pays for: the bundle or instance hours and fees, stopped pool buffer
+// instances, AppStream image builders, per-user licenses, storage or data transfer
+export type PricingLineItemKind = "compute" | "stopped-buffer" | "image-builder" | "user-license" | "storage" | "data-transfer"
+
+// One itemized cost component of an estimate
+export interface PricingLineItem {
+  description: string
+  // Unset on discount items
+  kind?: PricingLineItemKind
+  // AWS rate code of the price, when it comes from the AWS Pricing API
+  rateCode?: string
+  unit: string
+  quantity: number
+  unitPrice: number
+  extendedCost: number
+  // Explains zero-cost or adjusted items, e.g. "Included in the bundle price"
+  note?: string
+}
+
+// Hours and costs behind a Pool or AppStream estimate
+export interface PoolPricingDetails {
+  userLicenseCost: number
+  activeStreamingCost: number
+  stoppedInstanceCost: number
+  hourlyStreamingRate: number
+  stoppedInstanceRate: number
+  totalInstanceHours: number
+  totalUtilizedHours: number
+  totalBufferHours: number
+  // Weekday and weekend split, Pool estimates only
+  weekdayPeakHours?: number
+  weekdayOffPeakHours?: number
+  weekdayUtilizedHours?: number
+  weekdayBufferHours?: number
+  weekendPeakHours?: number
+  weekendOffPeakHours?: number
+  weekendUtilizedHours?: number
+  weekendBufferHours?: number
+  // Hour-by-hour capacity, Pool estimates priced from a demand profile only
+  simulation?: PoolSimulation
+}
+
 // Pricing estimate returned from the API
 export interface PricingEstimate {
   costPerWorkspace: number
@@ -127,6 +215,23 @@ export interface PricingEstimate {
   billingModel: string
   baseCost: number
   pricingSource?: "aws-api" | "calculated"
+  // Price book the estimate was calculated from
+  priceBook?: {
+    version: string
+    capturedAt: string | null
+  }
+  // Itemized components that make up totalMonthlyCost
+  lineItems?: PricingLineItem[]
+  // List and net totals, when discounts or negotiated rates apply (totalMonthlyCost is the net)
+  discount?: EstimateDiscount
+  // AutoStop fee/usage split and breakeven, for AutoStop estimates only
+  autoStop?: AutoStopAnalysis
+  // Billing and negotiated commitment options, compared at list prices
+  commitments?: CommitmentAnalysis
+  // Usage-pattern hours and costs, for Pool and AppStream estimates
+  poolPricingDetails?: PoolPricingDetails
+  // Intermediate values of the AppStream usage pattern (hours per period, concurrent users)
+  calculationDetails?: Record<string, any>
   storage?: number
   rootVolume?: number
   userVolume?: number